@@ -0,0 +1,130 @@
+/**
+ * Reference sync server
+ *
+ * A small server for syncing the planner between devices on your own machine
+ * or network, with no cloud service involved. It keeps the latest version of
+ * every record in one JSON file, each stamped with an increasing sequence
+ * number, and leaves all merging to the app.
+ *
+ *   npm run sync-server
+ *
+ * Settings (environment variables):
+ *   SYNC_PORT       port to listen on (default 8787)
+ *   SYNC_HOST       address to listen on (default 127.0.0.1; use 0.0.0.0 for other devices)
+ *   SYNC_DATA_FILE  where records are stored (default ./sync-data.json)
+ *
+ * API:
+ *   GET  /status                      -> { latestSeq, records }
+ *   GET  /pull?clientId=..&since=N    -> { changes, latestSeq }
+ *   POST /push { clientId, changes }  -> { accepted, rejected }
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { createSyncStore, RequestError } from './sync-store.js';
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const HOST = process.env.SYNC_HOST || '127.0.0.1';
+const DATA_FILE = path.resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Saved data: see createSyncStore
+const loadStore = () => {
+  if (!fs.existsSync(DATA_FILE)) {
+    return { latestSeq: 0, records: {} };
+  }
+  return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+};
+
+// Write to a temporary file first so a crash never leaves half a file behind
+const saveStore = data => {
+  const tempFile = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data));
+  fs.renameSync(tempFile, DATA_FILE);
+};
+
+const store = createSyncStore(loadStore(), saveStore);
+
+const readBody = request => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  request.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new RequestError(413, 'Request too large'));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new RequestError(400, 'Request body is not valid JSON'));
+    }
+  });
+  request.on('error', reject);
+});
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app runs from another origin (the dev server or GitHub Pages)
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const handleRequest = async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host || 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/status') {
+    send(response, 200, store.getStatus());
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/pull') {
+    const clientId = url.searchParams.get('clientId');
+    const since = Number(url.searchParams.get('since') || 0);
+    if (!clientId || Number.isNaN(since)) {
+      throw new RequestError(400, 'clientId and a numeric since are required');
+    }
+    send(response, 200, store.pull(clientId, since));
+    return;
+  }
+
+  if (request.method === 'POST' && url.pathname === '/push') {
+    const body = await readBody(request);
+    if (typeof body.clientId !== 'string' || !Array.isArray(body.changes)) {
+      throw new RequestError(400, 'clientId and a list of changes are required');
+    }
+    send(response, 200, store.push(body.clientId, body.changes));
+    return;
+  }
+
+  throw new RequestError(404, `Not found: ${request.method} ${url.pathname}`);
+};
+
+const server = http.createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    const status = error instanceof RequestError ? error.status : 500;
+    if (status === 500) {
+      console.error('Sync request failed:', error);
+    }
+    send(response, status, { error: error.message });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT}`);
+  console.log(`Storing records in ${DATA_FILE} (${store.getStatus().records} so far)`);
+});
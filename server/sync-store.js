@@ -0,0 +1,84 @@
+/**
+ * Record store for the reference sync server
+ *
+ * Holds the latest version of every record, each stamped with an increasing
+ * sequence number. Pushes made on an outdated version of a record are turned
+ * away so the device pulls, merges and pushes again. Kept apart from the HTTP
+ * server so it can be tested without a network or a data file.
+ */
+
+export const TABLES = new Set([
+  'tasks',
+  'projects',
+  'categories',
+  'dailyPlans',
+  'workSchedules',
+  'journalEntries',
+  'focusSessions',
+  'accountabilityRecords',
+]);
+
+export class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Create a store from saved data: { latestSeq, records: { "table:id": { table, recordId, record, modifiedAt, seq, clientId } } }.
+ * `save` is called with the data after every push that stored something.
+ */
+export const createSyncStore = (data = { latestSeq: 0, records: {} }, save = () => {}) => {
+  const pull = (clientId, since) => {
+    // A device already has its own changes; it only needs what others changed
+    const changes = Object.values(data.records)
+      .filter(entry => entry.seq > since && entry.clientId !== clientId)
+      .sort((a, b) => a.seq - b.seq)
+      .map(({ table, recordId, record, modifiedAt, seq }) => ({ table, recordId, record, modifiedAt, seq }));
+    return { changes, latestSeq: data.latestSeq };
+  };
+
+  const push = (clientId, changes) => {
+    const accepted = [];
+    const rejected = [];
+
+    // Check the whole batch before storing any of it
+    changes.forEach(change => {
+      if (!TABLES.has(change.table) || typeof change.recordId !== 'string') {
+        throw new RequestError(400, `Invalid change for table "${change.table}"`);
+      }
+    });
+
+    changes.forEach(change => {
+      const key = `${change.table}:${change.recordId}`;
+      const current = data.records[key];
+
+      // Another device changed the record after this one last saw it
+      if (current && current.seq > (change.baseSeq || 0) && current.clientId !== clientId) {
+        rejected.push({ table: change.table, recordId: change.recordId });
+        return;
+      }
+
+      const seq = ++data.latestSeq;
+      data.records[key] = {
+        table: change.table,
+        recordId: change.recordId,
+        record: change.record ?? null,
+        modifiedAt: change.modifiedAt || new Date().toISOString(),
+        seq,
+        clientId,
+      };
+      accepted.push({ table: change.table, recordId: change.recordId, seq });
+    });
+
+    if (accepted.length > 0) {
+      save(data);
+    }
+    return { accepted, rejected };
+  };
+
+  const getStatus = () => ({ latestSeq: data.latestSeq, records: Object.keys(data.records).length });
+
+  return { pull, push, getStatus };
+};
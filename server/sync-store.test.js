@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSyncStore, RequestError } from './sync-store.js';
+
+const task = (title, updatedAt) => ({ id: 't1', title, updatedAt });
+const change = (record, baseSeq) => ({ table: 'tasks', recordId: 't1', record, modifiedAt: record?.updatedAt || '2025-06-04T12:00:00.000Z', baseSeq });
+
+describe('createSyncStore', () => {
+  it('stamps accepted changes with increasing sequence numbers and saves them', () => {
+    const save = vi.fn();
+    const store = createSyncStore(undefined, save);
+
+    const result = store.push('phone', [change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0)]);
+
+    expect(result).toEqual({ accepted: [{ table: 'tasks', recordId: 't1', seq: 1 }], rejected: [] });
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(store.getStatus()).toEqual({ latestSeq: 1, records: 1 });
+  });
+
+  it("leaves a device's own changes out of what it pulls", () => {
+    const store = createSyncStore();
+    store.push('phone', [change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0)]);
+
+    expect(store.pull('phone', 0)).toEqual({ changes: [], latestSeq: 1 });
+    expect(store.pull('laptop', 0).changes).toEqual([
+      { table: 'tasks', recordId: 't1', record: task('Call dentist', '2025-06-04T10:00:00.000Z'), modifiedAt: '2025-06-04T10:00:00.000Z', seq: 1 },
+    ]);
+    expect(store.pull('laptop', 1).changes).toEqual([]);
+  });
+
+  it('turns away a push made on a version another device has since changed', () => {
+    const save = vi.fn();
+    const store = createSyncStore(undefined, save);
+    store.push('phone', [change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0)]);
+    store.push('laptop', [change(task('Call the dentist', '2025-06-04T11:00:00.000Z'), 1)]);
+    save.mockClear();
+
+    // The phone still thinks it's editing version 1
+    const stale = store.push('phone', [change(task('Call dentist at 3', '2025-06-04T12:00:00.000Z'), 1)]);
+    expect(stale).toEqual({ accepted: [], rejected: [{ table: 'tasks', recordId: 't1' }] });
+    expect(save).not.toHaveBeenCalled();
+
+    // Once it has pulled version 2 and merged, the push goes through
+    const { changes } = store.pull('phone', 1);
+    expect(changes.map(pulled => pulled.seq)).toEqual([2]);
+    const retried = store.push('phone', [change(task('Call the dentist at 3', '2025-06-04T12:00:00.000Z'), changes[0].seq)]);
+    expect(retried.accepted).toEqual([{ table: 'tasks', recordId: 't1', seq: 3 }]);
+    expect(store.pull('laptop', 2).changes[0].record.title).toBe('Call the dentist at 3');
+  });
+
+  it('lets a device overwrite its own latest version', () => {
+    const store = createSyncStore();
+    store.push('phone', [change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0)]);
+
+    const result = store.push('phone', [change(task('Call dentist at 3', '2025-06-04T12:00:00.000Z'), 0)]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('stores a deletion', () => {
+    const store = createSyncStore();
+    store.push('phone', [change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0)]);
+    store.push('phone', [change(null, 1)]);
+
+    expect(store.pull('laptop', 1).changes[0]).toMatchObject({ recordId: 't1', record: null, seq: 2 });
+  });
+
+  it('rejects a whole batch with an invalid change before storing any of it', () => {
+    const save = vi.fn();
+    const store = createSyncStore(undefined, save);
+    const batch = [
+      change(task('Call dentist', '2025-06-04T10:00:00.000Z'), 0),
+      { table: 'passwords', recordId: 'p1', record: {}, modifiedAt: '2025-06-04T10:00:00.000Z' },
+    ];
+
+    expect(() => store.push('phone', batch)).toThrow(RequestError);
+    expect(store.getStatus()).toEqual({ latestSeq: 0, records: 0 });
+    expect(save).not.toHaveBeenCalled();
+  });
+});
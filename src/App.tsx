@@ -14,6 +14,9 @@ import CalendarPage from './pages/CalendarPage';
 import EnhancedPlanningPage from './pages/EnhancedPlanningPage';
 import PlannerPage from './pages/PlannerPage';
 import SettingsPage from './pages/SettingsPage';
+import SavedViewsPage from './pages/SavedViewsPage';
+import SavedViewPage from './pages/SavedViewPage';
+import TrashPage from './pages/TrashPage';
 
 // Memory Tools Pages
 import BrainDumpPage from './pages/BrainDumpPage';
@@ -94,6 +97,8 @@ function App() {
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/tasks" element={<TasksPage />} />
+            <Route path="/views" element={<SavedViewsPage />} />
+            <Route path="/views/:viewId" element={<SavedViewPage />} />
             <Route path="/projects" element={<ProjectsPage />} />
             <Route path="/projects/:projectId" element={<ProjectDetailPage />} />
             <Route path="/categories" element={<CategoriesPage />} />
@@ -102,6 +107,7 @@ function App() {
             <Route path="/planner" element={<PlannerPage />} />
             <Route path="/planning" element={<EnhancedPlanningPage />} />
             <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/trash" element={<TrashPage />} />
 
             {/* Memory Tools Routes */}
             <Route path="/brain-dump" element={<BrainDumpPage />} />
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { CalendarExportOptions } from '../../types';
+import { DEFAULT_CALENDAR_EXPORT_OPTIONS, generateICalendar } from '../../utils/icalendar';
+import Modal from '../common/Modal';
+import Button from '../common/Button';
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ToggleKey = 'includeTasks' | 'includeCompletedTasks' | 'includeTimeBlocks' | 'includeWorkShifts';
+
+const TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: 'includeTasks', label: 'Tasks with a due date (as to-dos)' },
+  { key: 'includeCompletedTasks', label: 'Include completed tasks' },
+  { key: 'includeTimeBlocks', label: 'Planner time blocks' },
+  { key: 'includeWorkShifts', label: 'Work shifts' },
+];
+
+/**
+ * Download tasks, time blocks and work shifts as an .ics file for other calendar apps
+ */
+const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ isOpen, onClose }) => {
+  const { tasks, projects, categories, dailyPlans, workSchedule } = useAppContext();
+  const [options, setOptions] = useState<CalendarExportOptions>(DEFAULT_CALENDAR_EXPORT_OPTIONS);
+
+  const calendar = useMemo(
+    () => (isOpen ? generateICalendar({ tasks, projects, categories, dailyPlans, workSchedule }, options) : ''),
+    [isOpen, tasks, projects, categories, dailyPlans, workSchedule, options]
+  );
+  const todoCount = (calendar.match(/^BEGIN:VTODO/gm) || []).length;
+  const eventCount = (calendar.match(/^BEGIN:VEVENT/gm) || []).length;
+
+  const toggleId = (key: 'projectIds' | 'categoryIds', id: string) => {
+    setOptions(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(existing => existing !== id) : [...prev[key], id],
+    }));
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([calendar], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `adhd-planner-${new Date().toISOString().split('T')[0]}.ics`;
+    document.body.appendChild(a);
+    a.click();
+
+    // Clean up
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export to Calendar (.ics)" size="lg">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600">
+          Download a calendar file you can open in Google Calendar, Outlook or Apple Calendar.
+        </p>
+
+        {/* Date range */}
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              value={options.startDate || ''}
+              onChange={e => setOptions(prev => ({ ...prev, startDate: e.target.value || null }))}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              value={options.endDate || ''}
+              onChange={e => setOptions(prev => ({ ...prev, endDate: e.target.value || null }))}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500 -mt-3">Leave empty to include everything.</p>
+
+        {/* What to include */}
+        <div className="space-y-2">
+          {TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2 rounded text-indigo-600"
+                checked={options[toggle.key]}
+                disabled={toggle.key === 'includeCompletedTasks' && !options.includeTasks}
+                onChange={e => setOptions(prev => ({ ...prev, [toggle.key]: e.target.checked }))}
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+
+        {/* Project / category filter */}
+        {projects.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Projects</p>
+            <div className="flex flex-wrap gap-1.5">
+              {projects.map(project => (
+                <button
+                  key={project.id}
+                  className={`px-2 py-0.5 rounded-full text-xs border ${
+                    options.projectIds.includes(project.id)
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300'
+                  }`}
+                  onClick={() => toggleId('projectIds', project.id)}
+                >
+                  {project.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {categories.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Categories</p>
+            <div className="flex flex-wrap gap-1.5">
+              {categories.map(category => (
+                <button
+                  key={category.id}
+                  className={`px-2 py-0.5 rounded-full text-xs border ${
+                    options.categoryIds.includes(category.id)
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300'
+                  }`}
+                  onClick={() => toggleId('categoryIds', category.id)}
+                >
+                  {category.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {(projects.length > 0 || categories.length > 0) && (
+          <p className="text-xs text-gray-500 -mt-3">
+            With none selected, all tasks are included. Time blocks are included when they hold a matching task.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+          <span className="text-sm text-gray-600">
+            {todoCount} to-do{todoCount === 1 ? '' : 's'}, {eventCount} event{eventCount === 1 ? '' : 's'}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              icon={<Download size={16} />}
+              onClick={handleDownload}
+              disabled={todoCount + eventCount === 0}
+            >
+              Download .ics
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CalendarExportModal;
@@ -1,24 +1,109 @@
-import React, { useState } from 'react';
-import { Task } from '../../types';
+import React, { useState, useMemo } from 'react';
+import { Task, ShiftType } from '../../types';
 import { useAppContext } from '../../context/AppContext';
 import {
   ChevronLeft,
   ChevronRight,
   Calendar as CalendarIcon,
   List,
-  Clock
+  Clock,
+  Repeat,
+  Moon
 } from 'lucide-react';
 import TaskCard from '../tasks/TaskCard';
 import Button from '../common/Button';
+import { getOccurrencesInRange } from '../../utils/recurrence';
+import { formatDate, timeToMinutes } from '../../utils/helpers';
+import { crossesMidnight, getOvernightShift, getShiftDurationMinutes, isRecoveryDay } from '../../utils/nightShifts';
+
+interface CalendarDay {
+  date: Date;
+  tasks: Task[];
+  occurrences: Task[]; // Recurring tasks projected onto this day (not saved)
+  isPreviousMonth?: boolean;
+  isNextMonth?: boolean;
+}
 
 interface CalendarViewProps {
   onEditTask: (task: Task) => void;
 }
 
+interface DateShift {
+  timeRange: string;
+  shiftType: ShiftType;
+  hours: number; // Whole length of the shift, including any part after midnight
+  endsNextDay: boolean;
+  left: string; // Position of the shift within the day, as CSS percentages
+  width: string;
+}
+
+interface ShiftStyle {
+  badge: string;
+  panel: string;
+  solid: string;
+  light: string;
+  fill: string;
+  text: string;
+  name: string;
+  caps: string;
+}
+
+const SHIFT_STYLES: Record<ShiftType, ShiftStyle> = {
+  full: {
+    badge: 'bg-indigo-100 text-indigo-700',
+    panel: 'bg-indigo-100 border-indigo-300',
+    solid: 'bg-indigo-500',
+    light: 'bg-indigo-100 border-indigo-200',
+    fill: 'bg-indigo-200',
+    text: 'text-indigo-700',
+    name: 'Full-Day',
+    caps: 'WORK DAY',
+  },
+  morning: {
+    badge: 'bg-blue-100 text-blue-700',
+    panel: 'bg-blue-100 border-blue-300',
+    solid: 'bg-blue-500',
+    light: 'bg-blue-100 border-blue-200',
+    fill: 'bg-blue-200',
+    text: 'text-blue-700',
+    name: 'Morning',
+    caps: 'MORNING',
+  },
+  afternoon: {
+    badge: 'bg-purple-100 text-purple-700',
+    panel: 'bg-purple-100 border-purple-300',
+    solid: 'bg-purple-500',
+    light: 'bg-purple-100 border-purple-200',
+    fill: 'bg-purple-200',
+    text: 'text-purple-700',
+    name: 'Afternoon',
+    caps: 'AFTERNOON',
+  },
+  night: {
+    badge: 'bg-slate-200 text-slate-800',
+    panel: 'bg-slate-100 border-slate-300',
+    solid: 'bg-slate-700',
+    light: 'bg-slate-100 border-slate-200',
+    fill: 'bg-slate-300',
+    text: 'text-slate-700',
+    name: 'Night',
+    caps: 'NIGHT',
+  },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toPercent = (minutes: number): string => `${((minutes / MINUTES_PER_DAY) * 100).toFixed(2)}%`;
+
 const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
   const { tasks, projects, categories, deleteTask, getShiftForDate } = useAppContext();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('week');
+
+  // Incomplete recurring tasks whose future occurrences should be projected
+  const recurringTasks = useMemo(() =>
+    tasks.filter(task => task.recurrence && !task.completed && task.dueDate),
+  [tasks]);
   
   // Format the date for the header
   const formatHeaderDate = (): string => {
@@ -96,20 +181,42 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
     setCurrentDate(new Date());
   };
   
+  // Attach virtual occurrences of recurring tasks to each day in the view
+  const addRecurringOccurrences = (days: Omit<CalendarDay, 'occurrences'>[]): CalendarDay[] => {
+    const dateStrings = days.map(day => formatDate(day.date));
+    const occurrencesByDate = new Map<string, Task[]>();
+
+    if (days.length > 0) {
+      const rangeStart = dateStrings[0];
+      const rangeEnd = dateStrings[dateStrings.length - 1];
+
+      recurringTasks.forEach(task => {
+        getOccurrencesInRange(task, rangeStart, rangeEnd).forEach(date => {
+          occurrencesByDate.set(date, [...(occurrencesByDate.get(date) || []), task]);
+        });
+      });
+    }
+
+    return days.map((day, i) => ({
+      ...day,
+      occurrences: occurrencesByDate.get(dateStrings[i]) || []
+    }));
+  };
+
   // Get tasks for the current view
-  const getTasksForView = (): { date: Date; tasks: Task[] }[] => {
+  const getTasksForView = (): CalendarDay[] => {
     if (viewMode === 'day') {
       const dateStr = currentDate.toISOString().split('T')[0];
       const tasksForDay = tasks.filter(task => task.dueDate === dateStr);
       
-      return [{ date: currentDate, tasks: tasksForDay }];
+      return addRecurringOccurrences([{ date: currentDate, tasks: tasksForDay }]);
     }
     
     if (viewMode === 'week') {
       const startOfWeek = new Date(currentDate);
       startOfWeek.setDate(currentDate.getDate() - currentDate.getDay());
       
-      return Array.from({ length: 7 }, (_, i) => {
+      return addRecurringOccurrences(Array.from({ length: 7 }, (_, i) => {
         const date = new Date(startOfWeek);
         date.setDate(startOfWeek.getDate() + i);
         
@@ -117,7 +224,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
         const tasksForDay = tasks.filter(task => task.dueDate === dateStr);
         
         return { date, tasks: tasksForDay };
-      });
+      }));
     }
     
     if (viewMode === 'month') {
@@ -133,7 +240,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
       // Calculate the number of days to display (including days from previous/next months)
       const totalDays = 42; // 6 weeks
       
-      const daysArray = [];
+      const daysArray: Omit<CalendarDay, 'occurrences'>[] = [];
       
       // Previous month days
       const prevMonthLastDay = new Date(year, month, 0).getDate();
@@ -164,7 +271,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
         daysArray.push({ date, tasks: tasksForDay, isNextMonth: true });
       }
       
-      return daysArray;
+      return addRecurringOccurrences(daysArray);
     }
     
     return [];
@@ -181,29 +288,97 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
   };
   
   // Check if a date has a work shift using the appContext (passed as argument)
-  const getDateShift = (date: Date): { timeRange: string, shiftType: string } | null => {
+  const getDateShift = (date: Date): DateShift | null => {
     try {
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = formatDate(date);
       const shift = getShiftForDate(dateStr);
 
       if (!shift) return null;
       if (!shift.startTime || !shift.endTime) return null;
 
-      const timeRange = `${shift.startTime.substring(0, 5)} - ${shift.endTime.substring(0, 5)}`;
+      const endsNextDay = crossesMidnight(shift);
+      const timeRange = `${shift.startTime.substring(0, 5)} - ${shift.endTime.substring(0, 5)}${endsNextDay ? ' (+1)' : ''}`;
       const shiftType = shift.shiftType || 'full';
 
-      return { timeRange, shiftType };
+      // Only the part before midnight is drawn on this day
+      const start = timeToMinutes(shift.startTime);
+      const end = endsNextDay ? MINUTES_PER_DAY : timeToMinutes(shift.endTime);
+
+      return {
+        timeRange,
+        shiftType,
+        hours: Math.round(getShiftDurationMinutes(shift) / 60),
+        endsNextDay,
+        left: toPercent(start),
+        width: toPercent(end - start),
+      };
     } catch (error) {
       console.error('Error in getDateShift:', error);
       return null;
     }
   };
+
+  // The end of last night's shift and whether this is a recovery day
+  const getNightShiftInfo = (date: Date): { overnightEnd: string | null; recoveryDay: boolean } => {
+    const dateStr = formatDate(date);
+    const overnight = getOvernightShift(dateStr, getShiftForDate);
+    return {
+      overnightEnd: overnight ? overnight.endTime.substring(0, 5) : null,
+      recoveryDay: isRecoveryDay(dateStr, getShiftForDate),
+    };
+  };
+
+  const getShiftTitle = (workShift: DateShift): string =>
+    workShift.shiftType === 'full'
+      ? `Work Day (${workShift.hours}-Hour Shift)`
+      : `${SHIFT_STYLES[workShift.shiftType].name} Shift (${workShift.hours}-Hour)`;
+
+  const getShiftSummary = (workShift: DateShift): string => {
+    if (workShift.endsNextDay) {
+      return 'You work overnight and finish tomorrow morning. Keep today light and leave room to rest beforehand.';
+    }
+    return workShift.hours >= 10
+      ? 'This day is mostly filled with your work schedule, leaving limited time for other tasks.'
+      : 'You have a half-day shift scheduled, allowing time for other tasks.';
+  };
+
+  // Small note for the morning after a night shift
+  const renderNightShiftNote = (date: Date, className: string) => {
+    const { overnightEnd, recoveryDay } = getNightShiftInfo(date);
+    if (!overnightEnd && !recoveryDay) return null;
+
+    return (
+      <div
+        className={`flex items-center rounded bg-slate-100 text-slate-700 ${className}`}
+        title="Recovery day after a night shift: low-energy tasks only"
+      >
+        <Moon size={10} className="mr-1 flex-shrink-0" />
+        <span className="truncate">
+          {overnightEnd ? `Night shift until ${overnightEnd}` : 'Recovery day'}
+        </span>
+      </div>
+    );
+  };
   
+  // Render a projected occurrence of a recurring task; clicking opens the current occurrence
+  const renderOccurrenceChip = (task: Task, sizeClassName: string) => (
+    <div
+      key={`occurrence-${task.id}`}
+      className={`${sizeClassName} flex items-center border border-dashed border-indigo-300 text-indigo-700 rounded cursor-pointer hover:bg-indigo-50`}
+      title="Upcoming occurrence of a repeating task"
+      onClick={() => onEditTask(task)}
+    >
+      <Repeat size={10} className="mr-1 flex-shrink-0" />
+      <span className="truncate">{task.title}</span>
+    </div>
+  );
+
   // Render day view
   const renderDayView = () => {
     const tasksForView = getTasksForView();
-    const { date, tasks: tasksForDay } = tasksForView[0];
+    const { date, tasks: tasksForDay, occurrences } = tasksForView[0];
     const workShift = getDateShift(date);
+    const nightInfo = getNightShiftInfo(date);
     
     return (
       <div className="bg-white rounded-lg shadow-sm p-4">
@@ -213,35 +388,29 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
           </h3>
           
           {workShift && (
-            <div className={`flex items-center px-3 py-1 rounded-full text-sm ${
-              workShift.shiftType === 'morning' ? 'bg-blue-100 text-blue-700' :
-              workShift.shiftType === 'afternoon' ? 'bg-purple-100 text-purple-700' :
-              'bg-indigo-100 text-indigo-700'
-            }`}>
+            <div className={`flex items-center px-3 py-1 rounded-full text-sm ${SHIFT_STYLES[workShift.shiftType].badge}`}>
               <Clock size={16} className="mr-1" />
               <span>Work Shift: {workShift.timeRange}</span>
             </div>
           )}
         </div>
         
+        {nightInfo.recoveryDay && (
+          <div className="flex items-center rounded-lg mb-4 px-4 py-2 bg-slate-100 text-slate-700 text-sm">
+            <Moon size={16} className="mr-2 flex-shrink-0" />
+            <span>
+              {nightInfo.overnightEnd ? `Your night shift ends at ${nightInfo.overnightEnd}. ` : ''}
+              Recovery day: stick to low-energy tasks and rest.
+            </span>
+          </div>
+        )}
+
         {workShift && (
-          <div className={`rounded-lg mb-4 border overflow-hidden ${
-            workShift.shiftType === 'morning' ? 'bg-blue-100 border-blue-300' :
-            workShift.shiftType === 'afternoon' ? 'bg-purple-100 border-purple-300' :
-            'bg-indigo-100 border-indigo-300'
-          }`}>
-            <div className={`text-white px-4 py-2 font-medium flex justify-between items-center ${
-              workShift.shiftType === 'morning' ? 'bg-blue-500' :
-              workShift.shiftType === 'afternoon' ? 'bg-purple-500' :
-              'bg-indigo-500'
-            }`}>
+          <div className={`rounded-lg mb-4 border overflow-hidden ${SHIFT_STYLES[workShift.shiftType].panel}`}>
+            <div className={`text-white px-4 py-2 font-medium flex justify-between items-center ${SHIFT_STYLES[workShift.shiftType].solid}`}>
               <div className="flex items-center">
-                <Clock className="mr-2" size={18} />
-                <span>
-                  {workShift.shiftType === 'morning' ? 'Morning Shift (6-Hour)' :
-                   workShift.shiftType === 'afternoon' ? 'Afternoon Shift (6-Hour)' :
-                   'Work Day (12-Hour Shift)'}
-                </span>
+                {workShift.endsNextDay ? <Moon className="mr-2" size={18} /> : <Clock className="mr-2" size={18} />}
+                <span>{getShiftTitle(workShift)}</span>
               </div>
               <span>{workShift.timeRange}</span>
             </div>
@@ -264,35 +433,18 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                   {/* Work block */}
                   <div 
                     className="absolute h-full" 
-                    style={{ 
-                      left: workShift.shiftType === 'morning' ? '29.16%' : 
-                             workShift.shiftType === 'afternoon' ? '54.16%' : '29.16%', 
-                      width: workShift.shiftType === 'full' ? '50%' : '25%', 
-                      top: 0 
-                    }}
+                    style={{ left: workShift.left, width: workShift.width, top: 0 }}
                   >
-                    <div className={`h-full w-full flex items-center justify-center text-white bg-opacity-90 ${
-                      workShift.shiftType === 'morning' ? 'bg-blue-500' :
-                      workShift.shiftType === 'afternoon' ? 'bg-purple-500' :
-                      'bg-indigo-500'
-                    }`}>
-                      <span className="text-white text-sm font-medium">
-                        {workShift.shiftType === 'morning' ? 'Morning' :
-                         workShift.shiftType === 'afternoon' ? 'Afternoon' :
-                         'Full-Day'}
+                    <div className={`h-full w-full flex items-center justify-center text-white bg-opacity-90 ${SHIFT_STYLES[workShift.shiftType].solid}`}>
+                      <span className="text-white text-sm font-medium truncate px-1">
+                        {SHIFT_STYLES[workShift.shiftType].name}
                       </span>
                     </div>
                   </div>
                 </div>
               </div>
-              <p className={`mt-3 text-sm text-center ${
-                workShift.shiftType === 'morning' ? 'text-blue-700' :
-                workShift.shiftType === 'afternoon' ? 'text-purple-700' :
-                'text-indigo-700'
-              }`}>
-                {workShift.shiftType === 'full' 
-                  ? 'This day is mostly filled with your work schedule, leaving limited time for other tasks.'
-                  : 'You have a half-day shift scheduled, allowing time for other tasks.'}
+              <p className={`mt-3 text-sm text-center ${SHIFT_STYLES[workShift.shiftType].text}`}>
+                {getShiftSummary(workShift)}
               </p>
             </div>
           </div>
@@ -311,11 +463,23 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
               />
             ))}
           </div>
-        ) : (
+        ) : occurrences.length === 0 && (
           <div className="text-center py-12 text-gray-500">
             No tasks scheduled for this day
           </div>
         )}
+
+        {occurrences.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-medium text-gray-500 mb-2 flex items-center">
+              <Repeat size={14} className="mr-1" />
+              Repeating tasks (created when the current occurrence is completed)
+            </h4>
+            <div className="space-y-2">
+              {occurrences.map(task => renderOccurrenceChip(task, 'p-2 text-sm'))}
+            </div>
+          </div>
+        )}
       </div>
     );
   };
@@ -338,8 +502,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
         </div>
         
         <div className="grid grid-cols-7">
-          {tasksForView.map(({ date, tasks: tasksForDay }) => {
+          {tasksForView.map(({ date, tasks: tasksForDay, occurrences }) => {
             const workShift = getDateShift(date);
+            const itemLimit = workShift ? (workShift.hours >= 10 ? 1 : 2) : 4;
+            const visibleOccurrences = occurrences.slice(0, Math.max(0, itemLimit - tasksForDay.length));
+            const hiddenCount = tasksForDay.length + occurrences.length - Math.min(tasksForDay.length, itemLimit) - visibleOccurrences.length;
             
             return (
               <div 
@@ -356,43 +523,26 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                   >
                     {date.getDate()}
                   </div>
+                  {renderNightShiftNote(date, 'px-1 text-[10px] max-w-[75%]')}
                 </div>
                 
                 {workShift ? (
                   <div className="flex flex-col h-full space-y-1">
                     {/* Prominent work shift indicator */}
-                    <div className={`px-2 py-1 rounded text-xs font-medium flex items-center justify-between text-white ${
-                      workShift.shiftType === 'morning' ? 'bg-blue-500' :
-                      workShift.shiftType === 'afternoon' ? 'bg-purple-500' :
-                      'bg-indigo-500'
-                    }`}>
-                      <span>
-                        {workShift.shiftType === 'morning' ? 'MORNING' :
-                         workShift.shiftType === 'afternoon' ? 'AFTERNOON' :
-                         'WORK DAY'}
-                      </span>
+                    <div className={`px-2 py-1 rounded text-xs font-medium flex items-center justify-between text-white ${SHIFT_STYLES[workShift.shiftType].solid}`}>
+                      <span>{SHIFT_STYLES[workShift.shiftType].caps}</span>
                       <span>{workShift.timeRange.replace(':00', '')}</span>
                     </div>
                     
                     {/* Visual time block representation */}
-                    <div className={`h-10 rounded border p-1 relative mb-1 overflow-hidden ${
-                      workShift.shiftType === 'morning' ? 'bg-blue-100 border-blue-200' :
-                      workShift.shiftType === 'afternoon' ? 'bg-purple-100 border-purple-200' :
-                      'bg-indigo-100 border-indigo-200'
-                    }`}>
-                      <div className={`absolute flex items-center justify-center bg-opacity-60 ${
-                        workShift.shiftType === 'morning' ? 'bg-blue-200 left-0 w-1/2' :
-                        workShift.shiftType === 'afternoon' ? 'bg-purple-200 left-1/2 w-1/2' :
-                        'bg-indigo-200 inset-0'
-                      }`}>
-                        <span className={`text-xs font-medium px-1 py-0.5 bg-white bg-opacity-60 rounded ${
-                          workShift.shiftType === 'morning' ? 'text-blue-700' :
-                          workShift.shiftType === 'afternoon' ? 'text-purple-700' :
-                          'text-indigo-700'
-                        }`}>
-                          {workShift.shiftType === 'morning' ? '6hr Morning' :
-                           workShift.shiftType === 'afternoon' ? '6hr Afternoon' :
-                           '12hr Shift'}
+                    <div className={`h-10 rounded border p-1 relative mb-1 overflow-hidden ${SHIFT_STYLES[workShift.shiftType].light}`}>
+                      <div
+                        className={`absolute inset-y-0 bg-opacity-60 ${SHIFT_STYLES[workShift.shiftType].fill}`}
+                        style={{ left: workShift.left, width: workShift.width }}
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <span className={`text-xs font-medium px-1 py-0.5 bg-white bg-opacity-60 rounded ${SHIFT_STYLES[workShift.shiftType].text}`}>
+                          {workShift.hours}hr {workShift.shiftType === 'full' ? 'Shift' : SHIFT_STYLES[workShift.shiftType].name}
                         </span>
                       </div>
                     </div>
@@ -400,7 +550,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                     {/* Tasks (limited space due to work shift) */}
                     <div className="space-y-1 max-h-12 overflow-hidden">
                       {tasksForDay.length > 0 ? (
-                        tasksForDay.slice(0, workShift.shiftType === 'full' ? 1 : 2).map(task => (
+                        tasksForDay.slice(0, itemLimit).map(task => (
                           <div 
                             key={task.id}
                             className="p-1 text-xs bg-green-100 rounded truncate cursor-pointer hover:bg-green-200"
@@ -410,10 +560,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                           </div>
                         ))
                       ) : null}
+                      {visibleOccurrences.map(task => renderOccurrenceChip(task, 'p-1 text-xs'))}
                       
-                      {tasksForDay.length > (workShift.shiftType === 'full' ? 1 : 2) && (
+                      {hiddenCount > 0 && (
                         <div className="text-xs text-gray-500 text-center">
-                          +{tasksForDay.length - (workShift.shiftType === 'full' ? 1 : 2)} more
+                          +{hiddenCount} more
                         </div>
                       )}
                     </div>
@@ -431,10 +582,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                         </div>
                       ))
                     ) : null}
+                    {visibleOccurrences.map(task => renderOccurrenceChip(task, 'p-1 text-xs'))}
                     
-                    {tasksForDay.length > 4 && (
+                    {hiddenCount > 0 && (
                       <div className="text-xs text-gray-500 text-center">
-                        +{tasksForDay.length - 4} more
+                        +{hiddenCount} more
                       </div>
                     )}
                   </div>
@@ -465,9 +617,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
         </div>
         
         <div className="grid grid-cols-7">
-          {tasksForView.map(({ date, tasks: tasksForDay, isPreviousMonth, isNextMonth }) => {
+          {tasksForView.map(({ date, tasks: tasksForDay, occurrences, isPreviousMonth, isNextMonth }) => {
             const workShift = getDateShift(date);
             const isCurrentMonth = !(isPreviousMonth || isNextMonth);
+            const visibleOccurrences = occurrences.slice(0, Math.max(0, 2 - tasksForDay.length));
+            const hiddenCount = tasksForDay.length + occurrences.length - Math.min(tasksForDay.length, 2) - visibleOccurrences.length;
             
             return (
               <div 
@@ -487,49 +641,34 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                   >
                     {date.getDate()}
                   </div>
+                  {isCurrentMonth && renderNightShiftNote(date, 'px-0.5 text-[8px] max-w-[75%]')}
                 </div>
                 
                 {/* Work shift display takes priority for current month */}
                 {workShift && isCurrentMonth ? (
                   <div className="flex flex-col space-y-0.5 mt-1">
                     {/* Work shift badge */}
-                    <div className={`text-white text-[8px] font-bold px-1 rounded-sm ${
-                      workShift.shiftType === 'morning' ? 'bg-blue-500' :
-                      workShift.shiftType === 'afternoon' ? 'bg-purple-500' :
-                      'bg-indigo-500'
-                    }`}>
-                      {workShift.shiftType === 'morning' ? 'MORNING' :
-                       workShift.shiftType === 'afternoon' ? 'AFTERNOON' :
-                       'WORK DAY'}
+                    <div className={`text-white text-[8px] font-bold px-1 rounded-sm ${SHIFT_STYLES[workShift.shiftType].solid}`}>
+                      {SHIFT_STYLES[workShift.shiftType].caps}
                     </div>
                     
                     {/* Visual shift block */}
-                    <div className={`h-9 rounded-sm relative border ${
-                      workShift.shiftType === 'morning' ? 'bg-blue-100 border-blue-200' :
-                      workShift.shiftType === 'afternoon' ? 'bg-purple-100 border-purple-200' :
-                      'bg-indigo-100 border-indigo-200'
-                    }`}>
-                      <div className={`absolute bg-opacity-50 ${
-                        workShift.shiftType === 'morning' ? 'bg-blue-200 left-0 w-1/2 h-full' :
-                        workShift.shiftType === 'afternoon' ? 'bg-purple-200 left-1/2 w-1/2 h-full' :
-                        'bg-indigo-200 inset-0'
-                      }`}>
-                        <div className="w-full h-full flex items-center justify-center">
-                          <span className={`text-[8px] bg-white bg-opacity-70 px-0.5 rounded ${
-                            workShift.shiftType === 'morning' ? 'text-blue-700' :
-                            workShift.shiftType === 'afternoon' ? 'text-purple-700' :
-                            'text-indigo-700'
-                          }`}>
-                            {workShift.timeRange.replace(':00', '')}
-                          </span>
-                        </div>
+                    <div className={`h-9 rounded-sm relative border ${SHIFT_STYLES[workShift.shiftType].light}`}>
+                      <div
+                        className={`absolute inset-y-0 bg-opacity-50 ${SHIFT_STYLES[workShift.shiftType].fill}`}
+                        style={{ left: workShift.left, width: workShift.width }}
+                      />
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <span className={`text-[8px] bg-white bg-opacity-70 px-0.5 rounded ${SHIFT_STYLES[workShift.shiftType].text}`}>
+                          {workShift.timeRange.replace(':00', '')}
+                        </span>
                       </div>
                     </div>
                     
                     {/* Limited task space when there's a work shift */}
-                    {tasksForDay.length > 0 && (
+                    {tasksForDay.length + occurrences.length > 0 && (
                       <div className="text-[8px] text-gray-500">
-                        {tasksForDay.length} task{tasksForDay.length !== 1 ? 's' : ''}
+                        {tasksForDay.length + occurrences.length} task{tasksForDay.length + occurrences.length !== 1 ? 's' : ''}
                       </div>
                     )}
                   </div>
@@ -546,10 +685,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({ onEditTask }) => {
                         </div>
                       ))
                     ) : null}
+                    {visibleOccurrences.map(task => renderOccurrenceChip(task, 'p-0.5 text-[10px]'))}
                     
-                    {tasksForDay.length > 2 && (
+                    {hiddenCount > 0 && (
                       <div className="text-[10px] text-gray-500">
-                        +{tasksForDay.length - 2} more
+                        +{hiddenCount} more
                       </div>
                     )}
                   </div>
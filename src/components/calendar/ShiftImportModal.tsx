@@ -0,0 +1,243 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Check, FileUp, Loader } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { ShiftImportItem, ShiftImportStatus, WorkShift } from '../../types';
+import { buildShiftImportPreview, parseShiftFile } from '../../utils/shiftImport';
+import { getScheduleShifts } from '../../utils/shiftPattern';
+import { formatDateForDisplay, formatTimeForDisplay } from '../../utils/helpers';
+import Modal from '../common/Modal';
+import Button from '../common/Button';
+
+interface ShiftImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const STATUS_LABELS: Record<ShiftImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Already scheduled',
+  overlap: 'Overlaps',
+};
+
+const STATUS_STYLES: Record<ShiftImportStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-600',
+  overlap: 'bg-amber-100 text-amber-800',
+};
+
+const SHIFT_TYPE_LABELS: Record<string, string> = {
+  full: 'Full day',
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  night: 'Night',
+};
+
+const formatShiftTimes = (shift: WorkShift): string =>
+  `${formatTimeForDisplay(shift.startTime)} - ${formatTimeForDisplay(shift.endTime)}`;
+
+/**
+ * Import work shifts from a calendar (.ics) or CSV roster, with a preview of
+ * which days already have a shift before anything is saved
+ */
+const ShiftImportModal: React.FC<ShiftImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const { workSchedule, importWorkShifts } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [items, setItems] = useState<ShiftImportItem[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const counts = useMemo(() => {
+    const result: Record<ShiftImportStatus, number> = { new: 0, duplicate: 0, overlap: 0 };
+    items.forEach(item => { result[item.status]++; });
+    return result;
+  }, [items]);
+  const selectedCount = items.filter(item => item.selected).length;
+
+  const reset = () => {
+    setFileName('');
+    setItems([]);
+    setWarnings([]);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = event => {
+      try {
+        const content = event.target?.result as string;
+        const result = parseShiftFile(content, file.name);
+        setFileName(file.name);
+        // Compare against the rotation pattern too; imported shifts take precedence over it
+        const dates = result.shifts.map(parsed => parsed.shift.date).sort();
+        const existing = dates.length > 0 ? getScheduleShifts(workSchedule, dates[0], dates[dates.length - 1]) : [];
+        setItems(buildShiftImportPreview(result.shifts, existing));
+        setWarnings(result.warnings);
+        setError(result.shifts.length === 0 ? 'No shifts with a start and end time were found in this file.' : null);
+      } catch (err) {
+        console.error('Error reading roster file:', err);
+        setItems([]);
+        setWarnings([]);
+        setError(err instanceof Error ? err.message : 'Could not read this file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const toggleItem = (index: number) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, selected: !item.selected } : item)));
+  };
+
+  const selectStatus = (status: ShiftImportStatus, selected: boolean) => {
+    setItems(prev => prev.map(item => (item.status === status ? { ...item, selected } : item)));
+  };
+
+  const handleImport = async () => {
+    const selected = items.filter(item => item.selected);
+    const replaceIds = selected.flatMap(item => item.conflicts.map(shift => shift.id));
+
+    setIsImporting(true);
+    try {
+      await importWorkShifts(selected.map(item => item.shift), replaceIds);
+      onImported?.();
+      handleClose();
+    } catch (err) {
+      console.error('Error importing shifts:', err);
+      setError('Could not save the imported shifts. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Work Shifts" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Choose your rota as a calendar file (.ics) or a CSV with date, start and end columns.
+          Shifts matching 7a-7p, 7a-1p, 1p-7p or 7p-7a become full, morning, afternoon or night shifts; other times are kept as they are.
+        </p>
+
+        <div className="flex items-center gap-3">
+          <Button variant="secondary" icon={<FileUp size={16} />} onClick={() => fileInputRef.current?.click()}>
+            Choose file
+          </Button>
+          <span className="text-sm text-gray-500 truncate">{fileName || 'No file selected'}</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,.csv,.txt"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{error}</div>
+        )}
+
+        {warnings.length > 0 && (
+          <details className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm">
+            <summary className="cursor-pointer flex items-center">
+              <AlertTriangle size={14} className="mr-1" />
+              {warnings.length} entr{warnings.length === 1 ? 'y was' : 'ies were'} skipped
+            </summary>
+            <ul className="mt-2 list-disc list-inside text-xs space-y-0.5">
+              {warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {(Object.keys(STATUS_LABELS) as ShiftImportStatus[]).map(status => (
+                <span key={status} className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[status]}`}>
+                  {STATUS_LABELS[status]} ({counts[status]})
+                </span>
+              ))}
+              {counts.overlap > 0 && (
+                <button
+                  className="ml-auto text-indigo-600 hover:text-indigo-800"
+                  onClick={() => selectStatus('overlap', true)}
+                >
+                  Replace all overlapping shifts
+                </button>
+              )}
+            </div>
+
+            <ul className="divide-y divide-gray-100 border rounded-lg max-h-80 overflow-y-auto">
+              {items.map((item, index) => (
+                <li key={item.shift.id} className="p-3 text-sm">
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 rounded text-indigo-600"
+                      checked={item.selected}
+                      onChange={() => toggleItem(index)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{formatDateForDisplay(item.shift.date)}</span>
+                        <span className="text-gray-700">{formatShiftTimes(item.shift)}</span>
+                        <span className="text-xs text-gray-500">
+                          {item.shift.shiftType ? SHIFT_TYPE_LABELS[item.shift.shiftType] : 'Custom'}
+                        </span>
+                        <span className={`ml-auto px-2 py-0.5 rounded text-xs ${STATUS_STYLES[item.status]}`}>
+                          {STATUS_LABELS[item.status]}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate mt-0.5">
+                        {item.source}
+                        {item.shift.notes && item.shift.notes !== item.source ? ` · ${item.shift.notes}` : ''}
+                      </p>
+                      {item.status === 'overlap' && (
+                        <p className="text-xs text-amber-700 mt-0.5">
+                          {item.selected ? 'Replaces' : 'Already has'} {item.conflicts.map(formatShiftTimes).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+          <span className="text-sm text-gray-600">
+            {selectedCount} shift{selectedCount === 1 ? '' : 's'} will be added
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="secondary" onClick={handleClose} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleImport}
+              disabled={isImporting || selectedCount === 0}
+              icon={isImporting ? <Loader size={16} className="animate-spin" /> : <Check size={16} />}
+            >
+              {isImporting ? 'Importing...' : 'Import Shifts'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ShiftImportModal;
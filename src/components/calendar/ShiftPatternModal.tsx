@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Trash2, X } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { ShiftPatternStep } from '../../types';
+import { SHIFT_PATTERN_PRESETS, describePattern, getPatternStep } from '../../utils/shiftPattern';
+import { formatDate, formatDateForDisplay } from '../../utils/helpers';
+import { parseLocalDate } from '../../utils/recurrence';
+import Modal from '../common/Modal';
+import Button from '../common/Button';
+
+interface ShiftPatternModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const STEP_OPTIONS: { step: ShiftPatternStep; label: string; short: string; style: string }[] = [
+  { step: 'full', label: 'Full day', short: 'F', style: 'bg-indigo-500 text-white' },
+  { step: 'morning', label: 'Morning', short: 'M', style: 'bg-blue-500 text-white' },
+  { step: 'afternoon', label: 'Afternoon', short: 'A', style: 'bg-purple-500 text-white' },
+  { step: 'night', label: 'Night', short: 'N', style: 'bg-slate-700 text-white' },
+  { step: 'off', label: 'Off', short: 'Off', style: 'bg-gray-100 text-gray-600' },
+];
+
+const getStepOption = (step: ShiftPatternStep) => STEP_OPTIONS.find(option => option.step === step) || STEP_OPTIONS[0];
+
+// Number of upcoming days shown in the preview strip
+const PREVIEW_DAYS = 14;
+
+/**
+ * Set up a repeating shift rotation and manage the days taken off it
+ */
+const ShiftPatternModal: React.FC<ShiftPatternModalProps> = ({ isOpen, onClose, onSaved }) => {
+  const { workSchedule, setShiftPattern, removeShiftDayOff } = useAppContext();
+  const pattern = workSchedule?.pattern || null;
+
+  const [steps, setSteps] = useState<ShiftPatternStep[]>([]);
+  const [name, setName] = useState('');
+  const [anchorDate, setAnchorDate] = useState(formatDate(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved pattern each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSteps(pattern ? pattern.steps : SHIFT_PATTERN_PRESETS[0].steps);
+    setName(pattern ? pattern.name : SHIFT_PATTERN_PRESETS[0].name);
+    setAnchorDate(pattern ? pattern.anchorDate : formatDate(new Date()));
+    setEndDate(pattern?.endDate || '');
+  }, [isOpen, pattern]);
+
+  const today = formatDate(new Date());
+  const upcomingDaysOff = (workSchedule?.daysOff || [])
+    .filter(dayOff => dayOff.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const previewStart = anchorDate > today ? anchorDate : today;
+  const previewDates = Array.from({ length: PREVIEW_DAYS }, (_, index) => {
+    const date = parseLocalDate(previewStart);
+    date.setDate(date.getDate() + index);
+    return formatDate(date);
+  });
+  const draft = { name, steps, anchorDate, endDate: endDate || null };
+
+  const applyPreset = (preset: typeof SHIFT_PATTERN_PRESETS[number]) => {
+    setSteps(preset.steps);
+    setName(preset.name);
+  };
+
+  const updateSteps = (nextSteps: ShiftPatternStep[]) => {
+    setSteps(nextSteps);
+    setName(describePattern(nextSteps));
+  };
+
+  // Clicking a day in the sequence cycles it through the shift types
+  const cycleStep = (index: number) => {
+    const current = STEP_OPTIONS.findIndex(option => option.step === steps[index]);
+    const next = STEP_OPTIONS[(current + 1) % STEP_OPTIONS.length].step;
+    updateSteps(steps.map((step, i) => (i === index ? next : step)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setShiftPattern(draft);
+      onSaved?.();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    setIsSaving(true);
+    try {
+      await setShiftPattern(null);
+      onSaved?.();
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Shift Rotation" size="lg">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600">
+          Set a repeating rotation and your shifts fill in automatically. Shifts you add or change on the calendar,
+          and days you clear, stay on top of the rotation.
+        </p>
+
+        {/* Presets */}
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Start from a common rotation</p>
+          <div className="flex flex-wrap gap-1.5">
+            {SHIFT_PATTERN_PRESETS.map(preset => (
+              <button
+                key={preset.name}
+                className="px-2 py-0.5 rounded-full text-xs border bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                onClick={() => applyPreset(preset)}
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Sequence */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-sm font-medium text-gray-700">
+              Sequence ({steps.length} day{steps.length === 1 ? '' : 's'})
+            </p>
+            <p className="text-xs text-gray-500">Click a day to change it</p>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {steps.map((step, index) => (
+              <div key={index} className="relative group">
+                <button
+                  className={`w-10 h-10 rounded text-xs font-medium ${getStepOption(step).style}`}
+                  onClick={() => cycleStep(index)}
+                  title={`Day ${index + 1}: ${getStepOption(step).label}`}
+                >
+                  {getStepOption(step).short}
+                </button>
+                <button
+                  className="absolute -top-1 -right-1 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-gray-700 text-white"
+                  onClick={() => updateSteps(steps.filter((_, i) => i !== index))}
+                  title="Remove this day"
+                >
+                  <X size={10} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {STEP_OPTIONS.map(option => (
+              <button
+                key={option.step}
+                className="text-xs text-indigo-600 hover:text-indigo-800"
+                onClick={() => updateSteps([...steps, option.step])}
+              >
+                + {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="block text-sm text-gray-700">
+          Name
+          <input
+            type="text"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+            value={name}
+            onChange={e => setName(e.target.value)}
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            Day 1 of the sequence falls on
+            <input
+              type="date"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              value={anchorDate}
+              onChange={e => setAnchorDate(e.target.value || today)}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Ends (optional)
+            <input
+              type="date"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              value={endDate}
+              min={anchorDate}
+              onChange={e => setEndDate(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {/* Preview */}
+        {steps.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Next {PREVIEW_DAYS} days</p>
+            <div className="grid grid-cols-7 gap-1">
+              {previewDates.map(date => {
+                const step = getPatternStep(draft, date);
+                return (
+                  <div
+                    key={date}
+                    className={`rounded p-1 text-center text-xs ${step ? getStepOption(step).style : 'bg-white border border-dashed text-gray-400'}`}
+                    title={formatDateForDisplay(date)}
+                  >
+                    <div>{parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short' })}</div>
+                    <div className="font-medium">{parseLocalDate(date).getDate()}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Days taken off the rotation */}
+        {pattern && upcomingDaysOff.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Days off the rotation</p>
+            <ul className="divide-y divide-gray-100 border rounded-lg max-h-40 overflow-y-auto">
+              {upcomingDaysOff.map(dayOff => (
+                <li key={dayOff.id} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                  <span className="text-gray-700">
+                    {formatDateForDisplay(dayOff.date)}
+                    {dayOff.note && <span className="text-gray-500"> · {dayOff.note}</span>}
+                  </span>
+                  <button
+                    className="text-xs text-indigo-600 hover:text-indigo-800"
+                    onClick={() => removeShiftDayOff(dayOff.id)}
+                  >
+                    Restore shift
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+          <div>
+            {pattern && (
+              <Button variant="outline" size="sm" icon={<Trash2 size={14} />} onClick={handleClear} disabled={isSaving}>
+                Remove rotation
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              icon={<Check size={16} />}
+              onClick={handleSave}
+              disabled={isSaving || steps.length === 0 || !steps.some(step => step !== 'off')}
+            >
+              Save Rotation
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ShiftPatternModal;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { WorkShift, ShiftType, DEFAULT_SHIFTS } from '../../types/WorkSchedule';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Repeat, Upload } from 'lucide-react';
+import ShiftImportModal from './ShiftImportModal';
+import ShiftPatternModal from './ShiftPatternModal';
 
 interface WorkScheduleSelectorProps {
   onScheduleChange?: () => void;
@@ -14,9 +16,11 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
   const [currentMonth, setCurrentMonth] = useState(new Date().getMonth());
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [selectedShiftType, setSelectedShiftType] = useState<ShiftType>('full');
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showPatternModal, setShowPatternModal] = useState(false);
   
   // Get work schedule data from context
-  const { addWorkShift, updateWorkShift, deleteWorkShift, getShiftsForMonth } = useAppContext();
+  const { workSchedule, addWorkShift, updateWorkShift, deleteWorkShift, getShiftsForMonth } = useAppContext();
 
   // Get shifts for the current month (safely handle empty results)
   const monthShifts = getShiftsForMonth(currentYear, currentMonth) || [];
@@ -156,6 +160,14 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
     }
   };
   
+  // Compact time for the day cell, e.g. "7a" or "7:30p"
+  const formatShortTime = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const suffix = hours < 12 ? 'a' : 'p';
+    const displayHours = hours % 12 || 12;
+    return minutes ? `${displayHours}:${String(minutes).padStart(2, '0')}${suffix}` : `${displayHours}${suffix}`;
+  };
+
   // Format the month header
   const formatMonthHeader = () => {
     return new Date(currentYear, currentMonth).toLocaleDateString('en-US', {
@@ -198,6 +210,8 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
                     return 'bg-blue-500 text-white hover:bg-blue-600';
                   } else if (shift.shiftType === 'afternoon') {
                     return 'bg-purple-500 text-white hover:bg-purple-600';
+                  } else if (shift.shiftType === 'night') {
+                    return 'bg-slate-700 text-white hover:bg-slate-800';
                   } else {
                     return 'bg-indigo-500 text-white hover:bg-indigo-600';
                   }
@@ -213,17 +227,24 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
               {date.getDate()}
             </div>
             
+            {hasShift && shiftsLookup[dateStr]?.fromPattern && (
+              <Repeat size={8} className="absolute top-1 right-1 opacity-75" />
+            )}
+
             {hasShift && (
               <div className="absolute bottom-1 right-1 text-[9px] font-medium">
                 {(() => {
                   try {
                     const shift = shiftsLookup[dateStr];
-                    if (!shift || !shift.shiftType) return '7a-7p';
+                    if (!shift) return '7a-7p';
+                    if (!shift.shiftType) return `${formatShortTime(shift.startTime)}-${formatShortTime(shift.endTime)}`;
 
                     if (shift.shiftType === 'morning') {
                       return '7a-1p';
                     } else if (shift.shiftType === 'afternoon') {
                       return '1p-7p';
+                    } else if (shift.shiftType === 'night') {
+                      return '7p-7a';
                     } else {
                       return '7a-7p';
                     }
@@ -243,10 +264,35 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
   return (
     <div className="bg-white rounded-lg shadow-sm p-4">
       <div className="mb-4">
-        <h3 className="text-lg font-semibold text-gray-900 mb-1">Work Schedule</h3>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-semibold text-gray-900">Work Schedule</h3>
+          <div className="flex items-center space-x-3">
+            <button
+              className="flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+              onClick={() => setShowPatternModal(true)}
+              title="Set up a repeating shift rotation"
+            >
+              <Repeat size={14} className="mr-1" />
+              Rotation
+            </button>
+            <button
+              className="flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+              onClick={() => setShowImportModal(true)}
+              title="Import shifts from a calendar file or CSV roster"
+            >
+              <Upload size={14} className="mr-1" />
+              Import
+            </button>
+          </div>
+        </div>
         <p className="text-sm text-gray-600">
           Select shift type and click on days to toggle shifts
         </p>
+        {workSchedule?.pattern && (
+          <p className="text-xs text-gray-500 mt-1">
+            Rotation: {workSchedule.pattern.name}. Clearing a rotation day marks it as a day off.
+          </p>
+        )}
         
         {/* Shift type selector */}
         <div className="flex flex-wrap gap-2 mt-3">
@@ -282,6 +328,17 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
           >
             Afternoon (1p-7p)
           </button>
+
+          <button 
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              selectedShiftType === 'night' 
+                ? 'bg-slate-700 text-white' 
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+            onClick={() => setSelectedShiftType('night')}
+          >
+            Night (7p-7a)
+          </button>
         </div>
       </div>
       
@@ -321,11 +378,27 @@ export const WorkScheduleSelector: React.FC<WorkScheduleSelectorProps> = ({
           <div className="w-3 h-3 bg-purple-500 rounded-full mr-1"></div>
           <span>Afternoon (1p-7p)</span>
         </div>
+        <div className="flex items-center">
+          <div className="w-3 h-3 bg-slate-700 rounded-full mr-1"></div>
+          <span>Night (7p-7a, ends next day)</span>
+        </div>
         <div className="flex items-center">
           <div className="w-3 h-3 bg-indigo-100 rounded-full mr-1"></div>
           <span>Today</span>
         </div>
       </div>
+
+      <ShiftPatternModal
+        isOpen={showPatternModal}
+        onClose={() => setShowPatternModal(false)}
+        onSaved={onScheduleChange}
+      />
+
+      <ShiftImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={onScheduleChange}
+      />
     </div>
   );
 };
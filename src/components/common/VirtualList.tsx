@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  estimateHeight: (item: T) => number; // Used until a row has been measured
+  renderItem: (item: T) => React.ReactNode;
+  overscan?: number; // Pixels rendered above and below the window
+}
+
+interface VisibleRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+const INITIAL_ROWS = 30;
+
+/**
+ * Index of the first row whose bottom edge is below `position`
+ */
+const findRow = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= position) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * A list that only renders the rows near the visible part of the window, so
+ * thousands of items stay fast. Rows can be any height; each is measured once
+ * rendered and the estimate is used until then. The page itself scrolls.
+ */
+function VirtualList<T>({ items, getKey, estimateHeight, renderItem, overscan = 800 }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState(() => new Map<string, number>()); // Measured row heights by key
+  const [range, setRange] = useState<VisibleRange>({ start: 0, end: Math.min(items.length, INITIAL_ROWS) });
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = [0];
+    items.forEach(item => {
+      result.push(result[result.length - 1] + (heights.get(getKey(item)) ?? estimateHeight(item)));
+    });
+    return result;
+  }, [items, getKey, estimateHeight, heights]);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || items.length === 0) {
+      setRange(prev => (prev.start === 0 && prev.end === 0 ? prev : { start: 0, end: 0 }));
+      return;
+    }
+
+    const top = -container.getBoundingClientRect().top - overscan;
+    const bottom = top + window.innerHeight + overscan * 2;
+    const start = findRow(offsets, Math.max(0, top));
+    const end = Math.min(items.length, findRow(offsets, Math.max(0, bottom)) + 1);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [items.length, offsets, overscan]);
+
+  // Follow the window as it scrolls or resizes, at most once a frame
+  useEffect(() => {
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [updateRange]);
+
+  // Items or measurements changed: work out the visible rows before painting
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  // Record each rendered row's real height
+  const observer: ResizeObserver = useMemo(() => new ResizeObserver(entries => {
+    const measured: [string, number][] = [];
+    entries.forEach(entry => {
+      // Rows scrolled out of range are removed from the page
+      if (!entry.target.isConnected) {
+        observer.unobserve(entry.target);
+        return;
+      }
+      const key = (entry.target as HTMLElement).dataset.key;
+      const height = (entry.target as HTMLElement).offsetHeight;
+      if (key && height > 0) measured.push([key, height]);
+    });
+
+    setHeights(prev => {
+      if (measured.every(([key, height]) => prev.get(key) === height)) return prev;
+      const next = new Map(prev);
+      measured.forEach(([key, height]) => next.set(key, height));
+      return next;
+    });
+  }), []);
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (element) observer.observe(element);
+  }, [observer]);
+
+  const visibleItems = items.slice(range.start, range.end);
+
+  return (
+    <div ref={containerRef} style={{ height: offsets[offsets.length - 1], position: 'relative' }}>
+      <div style={{ transform: `translateY(${offsets[range.start] ?? 0}px)` }}>
+        {visibleItems.map(item => {
+          const key = getKey(item);
+          return (
+            <div key={key} data-key={key} ref={measureRow}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
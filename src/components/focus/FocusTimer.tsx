@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Coffee, Pause, Play, Square, SkipForward, Timer, X } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { FocusSession } from '../../types';
+import { getElapsedMs, getRemainingMs, formatTimer } from '../../utils/focusSessions';
+
+/**
+ * Floating timer for the active focus session.
+ * Shown on every page while a session is running, paused or just finished.
+ */
+const FocusTimer: React.FC = () => {
+  const {
+    tasks,
+    activeFocusSession,
+    actualMinutesByTask,
+    startFocusSession,
+    pauseFocusSession,
+    resumeFocusSession,
+    stopFocusSession,
+    advanceFocusSession
+  } = useAppContext();
+
+  const [now, setNow] = useState(Date.now());
+  // The last break that ran out, so we can offer the next Pomodoro
+  const [finishedBreak, setFinishedBreak] = useState<FocusSession | null>(null);
+  const advancingRef = useRef(false);
+
+  const task = useMemo(() => {
+    const taskId = activeFocusSession?.taskId || finishedBreak?.taskId;
+    return taskId ? tasks.find(t => t.id === taskId) || null : null;
+  }, [tasks, activeFocusSession, finishedBreak]);
+
+  // Tick once a second while a session is running
+  useEffect(() => {
+    if (activeFocusSession?.status !== 'running') return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeFocusSession]);
+
+  // Move on to the next phase when a timed session runs out
+  useEffect(() => {
+    if (!activeFocusSession || activeFocusSession.status !== 'running' || advancingRef.current) return;
+
+    const remaining = getRemainingMs(activeFocusSession, now);
+    if (remaining === null || remaining > 0) return;
+
+    advancingRef.current = true;
+    const finished = activeFocusSession;
+    advanceFocusSession()
+      .then(() => {
+        if (finished.kind === 'break') {
+          setFinishedBreak(finished);
+        }
+      })
+      .catch(error => console.error('Error finishing focus phase:', error))
+      .finally(() => {
+        advancingRef.current = false;
+      });
+  }, [activeFocusSession, now, advanceFocusSession]);
+
+  if (!activeFocusSession && !finishedBreak) {
+    return null;
+  }
+
+  if (!activeFocusSession && finishedBreak) {
+    return (
+      <div className="fixed bottom-4 right-4 z-40 w-72 bg-white rounded-lg shadow-lg border border-indigo-200 p-4">
+        <div className="flex items-start justify-between">
+          <p className="text-sm font-medium text-gray-900">Break's over!</p>
+          <button
+            onClick={() => setFinishedBreak(null)}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        {task && <p className="text-sm text-gray-600 mt-1 truncate">{task.title}</p>}
+        <button
+          onClick={() => {
+            startFocusSession(finishedBreak.taskId, 'pomodoro', finishedBreak.cycle + 1);
+            setFinishedBreak(null);
+          }}
+          className="mt-3 w-full flex items-center justify-center px-3 py-2 rounded-md bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+        >
+          <Play size={14} className="mr-1" />
+          Start Pomodoro #{finishedBreak.cycle + 1}
+        </button>
+      </div>
+    );
+  }
+
+  const session = activeFocusSession!;
+  const isBreak = session.kind === 'break';
+  const remaining = getRemainingMs(session, now);
+  const elapsed = getElapsedMs(session, now);
+  const trackedMinutes = Math.round(actualMinutesByTask.get(session.taskId) || 0);
+
+  return (
+    <div
+      className={`fixed bottom-4 right-4 z-40 w-72 bg-white rounded-lg shadow-lg border p-4 ${
+        isBreak ? 'border-green-300' : 'border-indigo-300'
+      }`}
+    >
+      <div className="flex items-center justify-between">
+        <div className={`flex items-center text-xs font-medium ${isBreak ? 'text-green-700' : 'text-indigo-700'}`}>
+          {isBreak ? <Coffee size={14} className="mr-1" /> : <Timer size={14} className="mr-1" />}
+          {isBreak
+            ? 'Break'
+            : session.plannedMinutes !== null ? `Pomodoro #${session.cycle}` : 'Focus'}
+          {session.status === 'paused' && <span className="ml-1 text-gray-500">(paused)</span>}
+        </div>
+        {!isBreak && task?.estimatedMinutes ? (
+          <span className="text-xs text-gray-500">{trackedMinutes} / {task.estimatedMinutes} min</span>
+        ) : null}
+      </div>
+
+      {task && <p className="text-sm text-gray-900 mt-1 truncate">{task.title}</p>}
+
+      <div className="text-3xl font-mono text-center my-2 text-gray-900">
+        {formatTimer(remaining !== null ? remaining : elapsed)}
+      </div>
+
+      <div className="flex justify-center space-x-2">
+        {session.status === 'running' ? (
+          <button
+            onClick={() => pauseFocusSession()}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700"
+            title="Pause"
+          >
+            <Pause size={16} />
+          </button>
+        ) : (
+          <button
+            onClick={() => resumeFocusSession()}
+            className="p-2 rounded-full bg-indigo-100 hover:bg-indigo-200 text-indigo-700"
+            title="Resume"
+          >
+            <Play size={16} />
+          </button>
+        )}
+        {isBreak && (
+          <button
+            // Starting the next Pomodoro ends the break
+            onClick={() => startFocusSession(session.taskId, 'pomodoro', session.cycle + 1)}
+            className="p-2 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700"
+            title="Skip break"
+          >
+            <SkipForward size={16} />
+          </button>
+        )}
+        <button
+          onClick={() => stopFocusSession()}
+          className="p-2 rounded-full bg-gray-100 hover:bg-red-100 text-gray-700 hover:text-red-600"
+          title="Stop"
+        >
+          <Square size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FocusTimer;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import {
   ClipboardList,
@@ -12,11 +12,94 @@ import {
   X,
   Settings,
   BookOpen,
+  Search,
+  ListFilter,
+  ChevronDown,
+  Undo2,
+  Redo2,
 } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import CommandPalette from '../search/CommandPalette';
+
+// Text fields keep the browser's own undo
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 const Header: React.FC = () => {
   const location = useLocation();
+  const { savedViews, undo, redo } = useAppContext();
+  const [historyMessage, setHistoryMessage] = useState<{ text: string; isRedo: boolean; canRedo: boolean } | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isViewsMenuOpen, setIsViewsMenuOpen] = useState(false);
+
+  const pinnedViews = savedViews
+    .filter(view => view.pinned)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  useEffect(() => {
+    setIsViewsMenuOpen(false);
+  }, [location.pathname]);
+
+  // Ctrl-K (Cmd-K on a Mac) opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Set while an undo or redo is applied. `undo` and `redo` only see the
+  // updated history once they change, so until then another press would
+  // apply the same step again.
+  const historyStepPendingRef = useRef(false);
+  useEffect(() => {
+    historyStepPendingRef.current = false;
+  }, [undo, redo]);
+
+  const runHistoryStep = useCallback(async (isRedo: boolean) => {
+    if (historyStepPendingRef.current) return;
+    historyStepPendingRef.current = true;
+    try {
+      const operation = isRedo ? await redo() : await undo();
+      if (!operation) historyStepPendingRef.current = false;
+      setHistoryMessage({
+        text: operation ? `${isRedo ? 'Redone' : 'Undone'}: ${operation.label}` : `Nothing to ${isRedo ? 'redo' : 'undo'}`,
+        isRedo,
+        canRedo: !isRedo && !!operation,
+      });
+    } catch (error) {
+      historyStepPendingRef.current = false;
+      console.error(`Error trying to ${isRedo ? 'redo' : 'undo'}:`, error);
+      setHistoryMessage({ text: `Couldn't ${isRedo ? 'redo' : 'undo'} the last change`, isRedo, canRedo: false });
+    }
+  }, [undo, redo]);
+
+  // Ctrl-Z undoes the last change and Ctrl-Shift-Z or Ctrl-Y redoes it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (key !== 'z' && !isRedo) return;
+
+      e.preventDefault();
+      runHistoryStep(isRedo);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [runHistoryStep]);
+
+  useEffect(() => {
+    if (!historyMessage) return;
+    const timer = setTimeout(() => setHistoryMessage(null), 4000);
+    return () => clearTimeout(timer);
+  }, [historyMessage]);
   
   const isActive = (path: string) => {
     return location.pathname === path;
@@ -64,19 +147,74 @@ const Header: React.FC = () => {
                 <span className="ml-1">{item.label}</span>
               </Link>
             ))}
+
+            {/* Saved views, with the pinned ones one click away */}
+            <div className="relative inline-flex">
+              <button
+                onClick={() => setIsViewsMenuOpen(!isViewsMenuOpen)}
+                className={`inline-flex items-center px-1 pt-1 text-sm font-medium ${
+                  location.pathname.startsWith('/views')
+                    ? 'text-indigo-600 border-b-2 border-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700 hover:border-b-2 hover:border-gray-300'
+                }`}
+              >
+                <ListFilter size={18} />
+                <span className="ml-1">Views</span>
+                <ChevronDown size={14} className="ml-0.5" />
+              </button>
+              {isViewsMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 py-1 z-40">
+                  {pinnedViews.map(view => (
+                    <Link
+                      key={view.id}
+                      to={`/views/${view.id}`}
+                      className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 truncate"
+                    >
+                      {view.name}
+                    </Link>
+                  ))}
+                  {pinnedViews.length > 0 && <div className="my-1 border-t border-gray-100" />}
+                  <Link to="/views" className="block px-4 py-2 text-sm text-indigo-600 hover:bg-gray-50">
+                    All saved views
+                  </Link>
+                  <Link to="/views/new" className="block px-4 py-2 text-sm text-indigo-600 hover:bg-gray-50">
+                    New view
+                  </Link>
+                </div>
+              )}
+            </div>
           </nav>
           
-          {/* What Now Button */}
-          <Link
-            to="/what-now"
-            className="hidden md:inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            <HelpCircle size={16} className="mr-1" />
-            What Now?
-          </Link>
+          <div className="hidden md:flex items-center space-x-3">
+            {/* Search Button */}
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm text-gray-500 rounded-md hover:text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              title="Search (Ctrl+K)"
+            >
+              <Search size={16} className="mr-1" />
+              <kbd className="text-xs font-sans text-gray-400">Ctrl K</kbd>
+            </button>
+
+            {/* What Now Button */}
+            <Link
+              to="/what-now"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              <HelpCircle size={16} className="mr-1" />
+              What Now?
+            </Link>
+          </div>
           
           {/* Mobile menu button */}
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500"
+            >
+              <span className="sr-only">Search</span>
+              <Search className="block h-6 w-6" />
+            </button>
             <button
               onClick={toggleMobileMenu}
               className="inline-flex items-center justify-center p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-indigo-500"
@@ -113,6 +251,35 @@ const Header: React.FC = () => {
             </Link>
           ))}
           
+          <Link
+            to="/views"
+            className={`block pl-3 pr-4 py-2 border-l-4 text-base font-medium ${
+              isActive('/views')
+                ? 'bg-indigo-50 border-indigo-500 text-indigo-700'
+                : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+            }`}
+            onClick={() => setIsMobileMenuOpen(false)}
+          >
+            <div className="flex items-center">
+              <ListFilter size={18} />
+              <span className="ml-2">Saved Views</span>
+            </div>
+          </Link>
+          {pinnedViews.map(view => (
+            <Link
+              key={view.id}
+              to={`/views/${view.id}`}
+              className={`block pl-9 pr-4 py-2 border-l-4 text-sm font-medium ${
+                isActive(`/views/${view.id}`)
+                  ? 'bg-indigo-50 border-indigo-500 text-indigo-700'
+                  : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'
+              }`}
+              onClick={() => setIsMobileMenuOpen(false)}
+            >
+              {view.name}
+            </Link>
+          ))}
+          
           <Link
             to="/what-now"
             className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-indigo-600 hover:bg-indigo-50 hover:border-indigo-300"
@@ -125,6 +292,24 @@ const Header: React.FC = () => {
           </Link>
         </div>
       </div>
+
+      <CommandPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
+
+      {/* Undo/redo feedback */}
+      {historyMessage && (
+        <div className="fixed bottom-4 left-4 z-50 bg-gray-800 text-white text-sm px-4 py-2 rounded-lg shadow-lg flex items-center space-x-3">
+          {historyMessage.isRedo ? <Redo2 size={16} /> : <Undo2 size={16} />}
+          <span>{historyMessage.text}</span>
+          {historyMessage.canRedo && (
+            <button
+              className="text-indigo-300 hover:text-indigo-100 font-medium"
+              onClick={() => runHistoryStep(true)}
+            >
+              Redo
+            </button>
+          )}
+        </div>
+      )}
     </header>
   );
 };
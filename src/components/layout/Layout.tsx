@@ -1,6 +1,7 @@
 import React, { ReactNode, useState } from 'react';
 import Header from './Header';
 import WeeklyReviewReminder from '../planning/WeeklyReviewReminder';
+import FocusTimer from '../focus/FocusTimer';
 
 interface LayoutProps {
   children: ReactNode;
@@ -20,6 +21,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         {children}
       </main>
+      <FocusTimer />
     </div>
   );
 };
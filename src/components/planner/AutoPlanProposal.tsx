@@ -0,0 +1,107 @@
+import React from 'react';
+import { Check, Sparkles, Trash2, X } from 'lucide-react';
+import { Task, TimeBlock } from '../../types';
+import Button from '../common/Button';
+import { calculateDuration, minutesToTime, timeToMinutes } from '../../utils/helpers';
+
+interface AutoPlanProposalProps {
+  blocks: TimeBlock[];
+  unplacedTasks: Task[];
+  recoveryDay?: boolean;
+  onChangeBlock: (block: TimeBlock) => void;
+  onRemoveBlock: (blockId: string) => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const AutoPlanProposal: React.FC<AutoPlanProposalProps> = ({
+  blocks,
+  unplacedTasks,
+  recoveryDay = false,
+  onChangeBlock,
+  onRemoveBlock,
+  onAccept,
+  onDiscard,
+}) => {
+  // Moving the start keeps the block's length
+  const handleStartChange = (block: TimeBlock, startTime: string) => {
+    if (!startTime) return;
+
+    const duration = calculateDuration(block.startTime, block.endTime) as number;
+    const endTime = minutesToTime(timeToMinutes(startTime) + duration);
+
+    onChangeBlock({ ...block, startTime, endTime });
+  };
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 mb-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-3">
+        <div className="flex items-center">
+          <Sparkles size={18} className="text-indigo-600 mr-2" />
+          <h3 className="font-medium text-indigo-900">Proposed plan</h3>
+        </div>
+        <div className="flex space-x-2 mt-2 sm:mt-0">
+          <Button
+            variant="outline"
+            size="sm"
+            icon={<X size={16} />}
+            onClick={onDiscard}
+          >
+            Discard
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            icon={<Check size={16} />}
+            onClick={onAccept}
+            disabled={blocks.length === 0}
+          >
+            Accept plan
+          </Button>
+        </div>
+      </div>
+
+      {blocks.length === 0 ? (
+        <p className="text-sm text-indigo-800">
+          No free time left for due or high-priority tasks on this day.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {blocks.map(block => (
+            <li key={block.id} className="flex items-center bg-white rounded-md px-3 py-2 text-sm">
+              <input
+                type="time"
+                value={block.startTime}
+                onChange={(e) => handleStartChange(block, e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm w-28"
+              />
+              <span className="mx-2 text-gray-400">–</span>
+              <input
+                type="time"
+                value={block.endTime}
+                onChange={(e) => e.target.value && e.target.value > block.startTime && onChangeBlock({ ...block, endTime: e.target.value })}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm w-28"
+              />
+              <span className="ml-3 flex-1 text-gray-800 truncate">{block.title}</span>
+              <button
+                onClick={() => onRemoveBlock(block.id)}
+                className="ml-2 p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-gray-100"
+                title="Remove from plan"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unplacedTasks.length > 0 && (
+        <p className="text-xs text-indigo-700 mt-3">
+          {recoveryDay ? 'Left for another day (recovery day, low-energy tasks only)' : "Didn't fit"}: {unplacedTasks.map(task => task.title).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AutoPlanProposal;
@@ -0,0 +1,124 @@
+import React, { useMemo, useState, useCallback } from 'react';
+import { AlertTriangle, ArrowRight, Briefcase, Clock } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import Button from '../common/Button';
+import { OverflowMove } from '../../types';
+import { calculateDayCapacity, getShiftOverloadWarnings, planOverflowMoves, formatMinutes, CapacityInput } from '../../utils/capacity';
+import { formatDateForDisplay, formatTimeForDisplay } from '../../utils/helpers';
+
+interface CapacityWarningsProps {
+  startDate: string; // YYYY-MM-DD
+  days?: number;
+  showSummary?: boolean; // Show the free time of the first day even when nothing overflows
+}
+
+const CapacityWarnings: React.FC<CapacityWarningsProps> = ({ startDate, days = 1, showSummary = false }) => {
+  const { tasks, dailyPlans, getShiftForDate, rescheduleTasks } = useAppContext();
+  const [isMoving, setIsMoving] = useState(false);
+
+  const capacityInput: CapacityInput = useMemo(() => ({
+    tasks,
+    dailyPlans,
+    getShiftForDate
+  }), [tasks, dailyPlans, getShiftForDate]);
+
+  const warnings = useMemo(() =>
+    getShiftOverloadWarnings(startDate, days, capacityInput).map(day => ({
+      day,
+      moves: planOverflowMoves(day.date, capacityInput)
+    })),
+  [startDate, days, capacityInput]);
+
+  const applyMoves = useCallback(async (moves: OverflowMove[]) => {
+    setIsMoving(true);
+    try {
+      await rescheduleTasks(moves.map(move => ({ taskId: move.task.id, dueDate: move.toDate })));
+    } catch (error) {
+      console.error('Error moving overflow tasks:', error);
+    } finally {
+      setIsMoving(false);
+    }
+  }, [rescheduleTasks]);
+
+  const summary = useMemo(() =>
+    showSummary ? calculateDayCapacity(startDate, capacityInput) : null,
+  [showSummary, startDate, capacityInput]);
+
+  if (warnings.length === 0) {
+    if (!summary) return null;
+
+    return (
+      <div className="flex items-center text-sm text-gray-600 bg-white rounded-lg shadow-sm px-4 py-2">
+        <Clock size={16} className="mr-2 text-gray-400" />
+        {formatMinutes(summary.freeMinutes)} free
+        {summary.shift && ` around your ${formatTimeForDisplay(summary.shift.startTime)} – ${formatTimeForDisplay(summary.shift.endTime)} shift`}
+        {summary.taskMinutes > 0 && `, ${formatMinutes(summary.taskMinutes)} of tasks due`}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {warnings.map(({ day, moves }) => (
+        <div key={day.date} className="bg-amber-50 border-l-4 border-amber-500 rounded-lg p-4">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start">
+              <AlertTriangle size={20} className="text-amber-600 mr-2 mt-0.5 flex-shrink-0" />
+              <div>
+                <h3 className="font-medium text-amber-900">
+                  {formatDateForDisplay(day.date)} is over capacity
+                </h3>
+                <p className="text-sm text-amber-800 mt-1 flex items-center flex-wrap">
+                  <Briefcase size={14} className="mr-1" />
+                  Shift {formatTimeForDisplay(day.shift!.startTime)} – {formatTimeForDisplay(day.shift!.endTime)} leaves
+                  {' '}{formatMinutes(day.freeMinutes)} free, but {formatMinutes(day.taskMinutes)} of tasks are due.
+                </p>
+              </div>
+            </div>
+            {moves.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => applyMoves(moves)}
+                disabled={isMoving}
+              >
+                Move all {moves.length}
+              </Button>
+            )}
+          </div>
+
+          <ul className="mt-3 space-y-1">
+            {day.overflowTasks.map(task => {
+              const move = moves.find(m => m.task.id === task.id);
+
+              return (
+                <li key={task.id} className="flex items-center justify-between text-sm bg-white rounded-md px-3 py-2">
+                  <span className="text-gray-800 truncate mr-2">
+                    {task.title}
+                    {task.estimatedMinutes ? (
+                      <span className="text-gray-500 ml-1">({formatMinutes(task.estimatedMinutes)})</span>
+                    ) : null}
+                  </span>
+                  {move ? (
+                    <button
+                      onClick={() => applyMoves([move])}
+                      disabled={isMoving}
+                      className="flex items-center text-indigo-600 hover:text-indigo-800 whitespace-nowrap disabled:opacity-50"
+                    >
+                      Move to {formatDateForDisplay(move.toDate)}
+                      <ArrowRight size={14} className="ml-1" />
+                    </button>
+                  ) : (
+                    <span className="text-gray-400 whitespace-nowrap">No free day in the next 2 weeks</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CapacityWarnings;
@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { Task } from '../../types';
+import { Task, AccountabilityAction } from '../../types';
 import Card from '../common/Card';
 import Button from '../common/Button';
-import { formatDate } from '../../utils/helpers';
+import { formatDate, formatDateForDisplay } from '../../utils/helpers';
+import { COMMON_REASONS, countReasons } from '../../utils/accountability';
+import { CapacityInput, findDaysWithRoom, formatMinutes } from '../../utils/capacity';
+import { parseLocalDate } from '../../utils/recurrence';
 import { 
   AlertCircle, 
   BarChart2, 
@@ -12,6 +15,7 @@ import {
   Clock, 
   EyeOff, 
   ListChecks, 
+  Plus, 
   RefreshCw, 
   TrendingUp, 
   X
@@ -21,56 +25,67 @@ interface AccountabilityCheckInProps {
   onTaskUpdated?: () => void;
 }
 
-type Reason = {
-  id: string;
-  text: string;
-  frequency: number;
-  isCommon: boolean;
-};
-
 type TaskWithReason = {
   task: Task;
   selectedReason: string | null;
   customReason: string;
-  action: 'reschedule' | 'break_down' | 'delegate' | 'abandon' | null;
+  action: AccountabilityAction | null;
+  rescheduleDate: string;
+  delegatedTo: string;
+  followUpDate: string;
+  newSubtaskTitle: string;
+};
+
+// Default wait before following up on a delegated task
+const FOLLOW_UP_DAYS = 3;
+
+const addDays = (date: string, days: number): string => {
+  const result = parseLocalDate(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
 };
 
 const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpdated }) => {
-  const { tasks, updateTask } = useAppContext();
+  const {
+    tasks,
+    updateTask,
+    addSubtask,
+    dailyPlans,
+    getShiftForDate,
+    accountabilityRecords,
+    recordAccountabilityCheckIn
+  } = useAppContext();
   const [expandedTask, setExpandedTask] = useState<string | null>(null);
   const [tasksWithReasons, setTasksWithReasons] = useState<TaskWithReason[]>([]);
   const [showProgress, setShowProgress] = useState(false);
   const [showCompleted, setShowCompleted] = useState(false);
-  const [completionRate, setCompletionRate] = useState(0);
-  
-  // Common reasons for not completing tasks
-  const [commonReasons, setCommonReasons] = useState<Reason[]>([
-    { id: 'forgot', text: 'I forgot about it', frequency: 0, isCommon: true },
-    { id: 'no_time', text: "I didn't have enough time", frequency: 0, isCommon: true },
-    { id: 'too_difficult', text: 'It was more difficult than expected', frequency: 0, isCommon: true },
-    { id: 'energy', text: "I didn't have the energy", frequency: 0, isCommon: true },
-    { id: 'focus', text: "I couldn't focus enough", frequency: 0, isCommon: true },
-    { id: 'motivation', text: "I wasn't motivated", frequency: 0, isCommon: true },
-    { id: 'prerequisite', text: 'A prerequisite task wasn\'t completed', frequency: 0, isCommon: true },
-    { id: 'resources', text: 'I was missing resources or information', frequency: 0, isCommon: true },
-    { id: 'interruptions', text: 'I was interrupted too many times', frequency: 0, isCommon: true },
-    { id: 'not_clear', text: 'The task wasn\'t clear enough', frequency: 0, isCommon: true },
-    { id: 'not_important', text: 'It turned out not to be important', frequency: 0, isCommon: true }
-  ]);
   
   // Get date for 7 days ago
-  const today = new Date();
-  const lastWeek = new Date();
-  lastWeek.setDate(today.getDate() - 7);
+  const today = useMemo(() => new Date(), []);
+  const todayStr = formatDate(today);
+  const lastWeek = useMemo(() => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - 7);
+    return date;
+  }, [today]);
   const lastWeekStr = formatDate(lastWeek);
   
+  // Tasks already checked in today don't need reviewing again
+  const reviewedToday = useMemo(() => new Set(
+    accountabilityRecords
+      .filter(record => record.date === todayStr)
+      .map(record => record.taskId)
+  ), [accountabilityRecords, todayStr]);
+  
   // Find tasks that were due in the last 7 days and weren't completed
-  const overdueTasks = tasks.filter(task => 
+  const overdueTasks = useMemo(() => tasks.filter(task => 
     !task.completed && 
     task.dueDate && 
-    task.dueDate < formatDate(today) &&
-    task.dueDate >= lastWeekStr
-  );
+    task.dueDate < todayStr &&
+    task.dueDate >= lastWeekStr &&
+    !task.delegatedTo &&
+    !reviewedToday.has(task.id)
+  ), [tasks, todayStr, lastWeekStr, reviewedToday]);
   
   // Find tasks that were completed in the last 7 days
   const completedTasks = tasks.filter(task => 
@@ -78,12 +93,11 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
     new Date(task.updatedAt) >= lastWeek
   );
   
-  useEffect(() => {
-    // Calculate completion rate
+  const completionRate = useMemo(() => {
     const tasksWithDueDates = tasks.filter(task => 
       task.dueDate && 
       task.dueDate >= lastWeekStr && 
-      task.dueDate < formatDate(today)
+      task.dueDate < todayStr
     );
     
     const completedOnTime = tasksWithDueDates.filter(task => 
@@ -91,20 +105,46 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
       new Date(task.updatedAt).toISOString().split('T')[0] <= task.dueDate!
     );
     
-    const rate = tasksWithDueDates.length > 0 
+    return tasksWithDueDates.length > 0 
       ? Math.round((completedOnTime.length / tasksWithDueDates.length) * 100) 
       : 0;
-    
-    setCompletionRate(rate);
-    
-    // Initialize tasks with reasons
-    setTasksWithReasons(overdueTasks.map(task => ({
-      task,
-      selectedReason: null,
-      customReason: '',
-      action: null
-    })));
-  }, [tasks, overdueTasks, lastWeekStr, today]);
+  }, [tasks, lastWeekStr, todayStr]);
+  
+  useEffect(() => {
+    // Initialize tasks with reasons, keeping answers already in progress
+    setTasksWithReasons(prev => overdueTasks.map(task => {
+      const existing = prev.find(item => item.task.id === task.id);
+      return existing
+        ? { ...existing, task }
+        : {
+            task,
+            selectedReason: null,
+            customReason: '',
+            action: null,
+            rescheduleDate: '',
+            delegatedTo: '',
+            followUpDate: addDays(todayStr, FOLLOW_UP_DAYS),
+            newSubtaskTitle: ''
+          };
+    }));
+  }, [overdueTasks, todayStr]);
+  
+  const capacityInput: CapacityInput = useMemo(() => ({
+    tasks,
+    dailyPlans,
+    getShiftForDate
+  }), [tasks, dailyPlans, getShiftForDate]);
+  
+  // Days with room for the expanded task, offered when rescheduling it
+  const expandedItem = tasksWithReasons.find(item => item.task.id === expandedTask);
+  const suggestedDays = useMemo(() =>
+    expandedItem?.action === 'reschedule'
+      ? findDaysWithRoom(expandedItem.task, todayStr, capacityInput)
+      : [],
+  [expandedItem?.action, expandedItem?.task, todayStr, capacityInput]);
+  
+  // How often each common reason has been given in past check-ins
+  const reasonCounts = useMemo(() => countReasons(accountabilityRecords), [accountabilityRecords]);
   
   const handleReasonSelect = (taskId: string, reasonId: string) => {
     setTasksWithReasons(prev => 
@@ -114,15 +154,6 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
           : item
       )
     );
-    
-    // Increment frequency for this reason
-    setCommonReasons(prev => 
-      prev.map(reason => 
-        reason.id === reasonId 
-          ? { ...reason, frequency: reason.frequency + 1 } 
-          : reason
-      )
-    );
   };
   
   const handleCustomReasonChange = (taskId: string, value: string) => {
@@ -135,47 +166,93 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
     );
   };
   
-  const handleActionSelect = (taskId: string, action: 'reschedule' | 'break_down' | 'delegate' | 'abandon' | null) => {
+  const updateItem = (taskId: string, changes: Partial<TaskWithReason>) => {
     setTasksWithReasons(prev => 
       prev.map(item => 
         item.task.id === taskId 
-          ? { ...item, action } 
+          ? { ...item, ...changes } 
           : item
       )
     );
   };
   
-  const handleTaskUpdate = (taskWithReason: TaskWithReason) => {
-    const { task, action } = taskWithReason;
+  const handleActionSelect = (taskWithReason: TaskWithReason, action: AccountabilityAction | null) => {
+    const changes: Partial<TaskWithReason> = { action };
+    
+    // Start from the first day that has room for the task
+    if (action === 'reschedule' && !taskWithReason.rescheduleDate) {
+      const [firstFree] = findDaysWithRoom(taskWithReason.task, todayStr, capacityInput, 1);
+      changes.rescheduleDate = firstFree ? firstFree.date : addDays(todayStr, 1);
+    }
+    
+    updateItem(taskWithReason.task.id, changes);
+  };
+  
+  const openSubtasksOf = (task: Task) =>
+    tasks.filter(t => t.parentTaskId === task.id && !t.completed);
+  
+  const handleAddSubtask = async (taskWithReason: TaskWithReason) => {
+    const title = taskWithReason.newSubtaskTitle.trim();
+    if (!title) return;
+    
+    try {
+      await addSubtask(taskWithReason.task.id, {
+        title,
+        categoryIds: taskWithReason.task.categoryIds,
+        priority: taskWithReason.task.priority
+      });
+      updateItem(taskWithReason.task.id, { newSubtaskTitle: '' });
+    } catch (error) {
+      console.error('Error adding subtask:', error);
+    }
+  };
+  
+  const isReadyToSave = (taskWithReason: TaskWithReason): boolean => {
+    const { selectedReason, customReason, action } = taskWithReason;
+    if (!selectedReason || !action) return false;
+    if (selectedReason === 'custom' && !customReason.trim()) return false;
+    
+    switch (action) {
+      case 'reschedule':
+        return !!taskWithReason.rescheduleDate;
+      case 'break_down':
+        return openSubtasksOf(taskWithReason.task).length > 0;
+      case 'delegate':
+        return !!taskWithReason.delegatedTo.trim();
+      default:
+        return true;
+    }
+  };
+  
+  const handleTaskUpdate = async (taskWithReason: TaskWithReason) => {
+    const { task, action, selectedReason } = taskWithReason;
+    if (!action || !selectedReason) return;
     
     const updatedTask: Task = { ...task };
     
-    // Apply action to the task
+    // Apply action to the task (break down already created its subtasks)
     if (action === 'reschedule') {
-      // Set due date to tomorrow
-      const tomorrow = new Date();
-      tomorrow.setDate(today.getDate() + 1);
-      updatedTask.dueDate = formatDate(tomorrow);
+      updatedTask.dueDate = taskWithReason.rescheduleDate;
+    } else if (action === 'delegate') {
+      updatedTask.delegatedTo = taskWithReason.delegatedTo.trim();
+      updatedTask.followUpDate = taskWithReason.followUpDate || null;
     } else if (action === 'abandon') {
       // Mark as completed but add note about abandonment
       updatedTask.completed = true;
       updatedTask.description = `${updatedTask.description}\n[Abandoned: Not relevant or necessary anymore]`;
     }
     
-    // Add the reason to task description for future reference
-    const reasonText = taskWithReason.selectedReason === 'custom' 
-      ? taskWithReason.customReason 
-      : commonReasons.find(r => r.id === taskWithReason.selectedReason)?.text || '';
-    
-    if (reasonText && action !== 'abandon') {
-      updatedTask.description = `${updatedTask.description}\n[Incomplete: ${reasonText}]`;
-    }
-    
     updatedTask.updatedAt = new Date().toISOString();
     
     // Update the task
     updateTask(updatedTask);
     
+    // Keep the reason as history for the accountability insights
+    const reasonText = selectedReason === 'custom' 
+      ? taskWithReason.customReason.trim() 
+      : COMMON_REASONS.find(r => r.id === selectedReason)?.text || '';
+    await recordAccountabilityCheckIn(task, selectedReason, reasonText, action);
+    
     // Remove from list
     setTasksWithReasons(prev => prev.filter(item => item.task.id !== task.id));
     
@@ -185,9 +262,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
   };
   
   // Get the most common reasons for not completing tasks
-  const topReasons = [...commonReasons]
-    .sort((a, b) => b.frequency - a.frequency)
-    .slice(0, 3);
+  const topReasons = reasonCounts.slice(0, 3);
   
   return (
     <div className="space-y-6">
@@ -254,8 +329,8 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                   {topReasons.length > 0 ? (
                     <ol className="list-decimal list-inside">
                       {topReasons.map((reason, index) => (
-                        <li key={reason.id} className={`truncate ${index === 0 ? 'font-medium' : ''}`}>
-                          {reason.text}
+                        <li key={reason.reasonId} className={`truncate ${index === 0 ? 'font-medium' : ''}`}>
+                          {reason.reasonText} ({reason.count})
                         </li>
                       ))}
                     </ol>
@@ -349,7 +424,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                           Why wasn't this task completed?
                         </h5>
                         <div className="space-y-2">
-                          {commonReasons.slice(0, 6).map(reason => (
+                          {COMMON_REASONS.slice(0, 6).map(reason => (
                             <div key={reason.id} className="flex items-center">
                               <input 
                                 type="radio" 
@@ -407,7 +482,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                             variant={taskWithReason.action === 'reschedule' ? 'secondary' : 'outline'}
                             size="sm"
                             className="justify-center"
-                            onClick={() => handleActionSelect(taskWithReason.task.id, 'reschedule')}
+                            onClick={() => handleActionSelect(taskWithReason, 'reschedule')}
                             icon={<RefreshCw size={14} />}
                           >
                             Reschedule
@@ -416,7 +491,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                             variant={taskWithReason.action === 'break_down' ? 'secondary' : 'outline'}
                             size="sm"
                             className="justify-center"
-                            onClick={() => handleActionSelect(taskWithReason.task.id, 'break_down')}
+                            onClick={() => handleActionSelect(taskWithReason, 'break_down')}
                             icon={<ListChecks size={14} />}
                           >
                             Break down
@@ -425,7 +500,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                             variant={taskWithReason.action === 'delegate' ? 'secondary' : 'outline'}
                             size="sm"
                             className="justify-center"
-                            onClick={() => handleActionSelect(taskWithReason.task.id, 'delegate')}
+                            onClick={() => handleActionSelect(taskWithReason, 'delegate')}
                             icon={<TrendingUp size={14} />}
                           >
                             Delegate
@@ -434,7 +509,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                             variant={taskWithReason.action === 'abandon' ? 'secondary' : 'outline'}
                             size="sm"
                             className="justify-center"
-                            onClick={() => handleActionSelect(taskWithReason.task.id, 'abandon')}
+                            onClick={() => handleActionSelect(taskWithReason, 'abandon')}
                             icon={<EyeOff size={14} />}
                           >
                             Abandon
@@ -442,6 +517,110 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                         </div>
                       </div>
                       
+                      {taskWithReason.action === 'reschedule' && (
+                        <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            New due date
+                          </label>
+                          <input
+                            type="date"
+                            min={addDays(todayStr, 1)}
+                            value={taskWithReason.rescheduleDate}
+                            onChange={(e) => updateItem(taskWithReason.task.id, { rescheduleDate: e.target.value })}
+                            className="block w-full sm:w-48 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                          />
+                          {suggestedDays.length > 0 && (
+                            <div className="mt-2 flex flex-wrap gap-2">
+                              <span className="text-xs text-gray-500 self-center">Days with room:</span>
+                              {suggestedDays.map(day => (
+                                <button
+                                  key={day.date}
+                                  type="button"
+                                  onClick={() => updateItem(taskWithReason.task.id, { rescheduleDate: day.date })}
+                                  className={`px-2 py-1 rounded-full text-xs border ${
+                                    taskWithReason.rescheduleDate === day.date
+                                      ? 'bg-blue-100 border-blue-300 text-blue-800'
+                                      : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {formatDateForDisplay(day.date)} · {formatMinutes(day.remainingMinutes)} free
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      
+                      {taskWithReason.action === 'break_down' && (
+                        <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                          <h5 className="text-sm font-medium text-gray-700 mb-2">
+                            Smaller steps
+                          </h5>
+                          {openSubtasksOf(taskWithReason.task).length > 0 && (
+                            <ul className="mb-2 space-y-1">
+                              {openSubtasksOf(taskWithReason.task).map(subtask => (
+                                <li key={subtask.id} className="flex items-center text-sm text-gray-700">
+                                  <ListChecks size={14} className="text-gray-400 mr-2" />
+                                  {subtask.title}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <div className="flex space-x-2">
+                            <input
+                              type="text"
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              placeholder="Add a small first step..."
+                              value={taskWithReason.newSubtaskTitle}
+                              onChange={(e) => updateItem(taskWithReason.task.id, { newSubtaskTitle: e.target.value })}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                  e.preventDefault();
+                                  handleAddSubtask(taskWithReason);
+                                }
+                              }}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!taskWithReason.newSubtaskTitle.trim()}
+                              onClick={() => handleAddSubtask(taskWithReason)}
+                              icon={<Plus size={14} />}
+                            >
+                              Add
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                      
+                      {taskWithReason.action === 'delegate' && (
+                        <div className="mb-4 p-3 bg-gray-50 rounded-lg grid grid-cols-1 sm:grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Who's doing it?
+                            </label>
+                            <input
+                              type="text"
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              placeholder="Name"
+                              value={taskWithReason.delegatedTo}
+                              onChange={(e) => updateItem(taskWithReason.task.id, { delegatedTo: e.target.value })}
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Follow up on
+                            </label>
+                            <input
+                              type="date"
+                              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              value={taskWithReason.followUpDate}
+                              onChange={(e) => updateItem(taskWithReason.task.id, { followUpDate: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      
                       <div className="flex justify-end space-x-2 border-t pt-3">
                         <Button
                           variant="outline"
@@ -453,7 +632,7 @@ const AccountabilityCheckIn: React.FC<AccountabilityCheckInProps> = ({ onTaskUpd
                         </Button>
                         <Button
                           size="sm"
-                          disabled={!taskWithReason.selectedReason || !taskWithReason.action}
+                          disabled={!isReadyToSave(taskWithReason)}
                           onClick={() => handleTaskUpdate(taskWithReason)}
                           icon={<CheckCircle size={14} />}
                         >
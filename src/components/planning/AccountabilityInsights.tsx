@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { BarChart2, Calendar, Repeat, Tag } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import Card from '../common/Card';
+import {
+  ReasonGroup,
+  countReasons,
+  getReasonsByWeek,
+  getReasonsByCategory,
+  getReasonsByWeekday,
+  getRecurringReasons
+} from '../../utils/accountability';
+
+// Colors for the most frequent reasons; everything else is grouped as "Other"
+const REASON_COLORS = ['bg-orange-400', 'bg-blue-400', 'bg-purple-400', 'bg-green-400', 'bg-pink-400'];
+const OTHER_COLOR = 'bg-gray-300';
+
+interface StackedBarProps {
+  group: ReasonGroup;
+  max: number;
+  colorFor: (reasonId: string) => string;
+}
+
+// A horizontal bar split into one segment per reason
+const StackedBar: React.FC<StackedBarProps> = ({ group, max, colorFor }) => (
+  <div className="flex h-4 bg-gray-100 rounded overflow-hidden" style={{ width: `${max > 0 ? (group.total / max) * 100 : 0}%` }}>
+    {group.reasons.map(reason => (
+      <div
+        key={reason.reasonId}
+        className={colorFor(reason.reasonId)}
+        style={{ width: `${(reason.count / group.total) * 100}%` }}
+        title={`${reason.reasonText}: ${reason.count}`}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * Charts built from past accountability check-ins: which reasons come up
+ * most, how that changes week to week, per category and per weekday, and
+ * tasks that keep getting missed for the same reason.
+ */
+const AccountabilityInsights: React.FC = () => {
+  const { accountabilityRecords, categories } = useAppContext();
+
+  const topReasons = useMemo(() => countReasons(accountabilityRecords), [accountabilityRecords]);
+  const byWeek = useMemo(() => getReasonsByWeek(accountabilityRecords), [accountabilityRecords]);
+  const byCategory = useMemo(
+    () => getReasonsByCategory(accountabilityRecords, categories),
+    [accountabilityRecords, categories]
+  );
+  const byWeekday = useMemo(() => getReasonsByWeekday(accountabilityRecords), [accountabilityRecords]);
+  const recurring = useMemo(() => getRecurringReasons(accountabilityRecords), [accountabilityRecords]);
+
+  const colorFor = (reasonId: string): string => {
+    const index = topReasons.slice(0, REASON_COLORS.length).findIndex(reason => reason.reasonId === reasonId);
+    return index >= 0 ? REASON_COLORS[index] : OTHER_COLOR;
+  };
+
+  if (accountabilityRecords.length === 0) {
+    return (
+      <Card title="Accountability Insights">
+        <p className="text-sm text-gray-500">
+          Patterns will show up here once you've done a few check-ins.
+        </p>
+      </Card>
+    );
+  }
+
+  const maxWeek = Math.max(...byWeek.map(week => week.total), 1);
+  const maxCategory = Math.max(...byCategory.map(group => group.total), 1);
+  const maxWeekday = Math.max(...byWeekday.map(day => day.total), 1);
+
+  return (
+    <Card title="Accountability Insights">
+      <div className="space-y-6">
+        {/* Legend / top reasons */}
+        <div>
+          <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+            <BarChart2 size={16} className="mr-2 text-orange-500" />
+            Top reasons
+          </h4>
+          <ul className="space-y-1">
+            {topReasons.slice(0, REASON_COLORS.length).map(reason => (
+              <li key={reason.reasonId} className="flex items-center text-sm text-gray-700">
+                <span className={`w-3 h-3 rounded-sm mr-2 flex-shrink-0 ${colorFor(reason.reasonId)}`} />
+                <span className="flex-1 truncate">{reason.reasonText}</span>
+                <span className="text-gray-500 ml-2">{reason.count}</span>
+              </li>
+            ))}
+            {topReasons.length > REASON_COLORS.length && (
+              <li className="flex items-center text-sm text-gray-500">
+                <span className={`w-3 h-3 rounded-sm mr-2 ${OTHER_COLOR}`} />
+                Other
+              </li>
+            )}
+          </ul>
+        </div>
+
+        {/* Reasons over time */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Over the last {byWeek.length} weeks</h4>
+          <div className="flex items-end h-32 space-x-2 border-b border-gray-200">
+            {byWeek.map(week => (
+              <div
+                key={week.key}
+                className="flex-1 flex flex-col-reverse h-full"
+                title={`${week.label}: ${week.total} check-ins`}
+              >
+                {week.reasons.map(reason => (
+                  <div
+                    key={reason.reasonId}
+                    className={colorFor(reason.reasonId)}
+                    style={{ height: `${(reason.count / maxWeek) * 100}%` }}
+                    title={`${week.label} – ${reason.reasonText}: ${reason.count}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2 mt-1">
+            {byWeek.map(week => (
+              <span key={week.key} className="flex-1 text-center text-xs text-gray-500">{week.label}</span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Per category */}
+          <div>
+            <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+              <Tag size={16} className="mr-2 text-blue-500" />
+              By category
+            </h4>
+            <div className="space-y-2">
+              {byCategory.map(group => (
+                <div key={group.key}>
+                  <div className="flex justify-between text-xs text-gray-600 mb-0.5">
+                    <span className="truncate">{group.label}</span>
+                    <span>{group.total}</span>
+                  </div>
+                  <StackedBar group={group} max={maxCategory} colorFor={colorFor} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Per weekday */}
+          <div>
+            <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+              <Calendar size={16} className="mr-2 text-purple-500" />
+              By weekday due
+            </h4>
+            <div className="space-y-2">
+              {byWeekday.map(day => (
+                <div key={day.key} className="flex items-center">
+                  <span className="w-10 text-xs text-gray-600">{day.label}</span>
+                  <div className="flex-1">
+                    {day.total > 0 && <StackedBar group={day} max={maxWeekday} colorFor={colorFor} />}
+                  </div>
+                  <span className="w-6 text-right text-xs text-gray-500">{day.total}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Same task, same reason */}
+        {recurring.length > 0 && (
+          <div>
+            <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+              <Repeat size={16} className="mr-2 text-red-500" />
+              Keeps coming back
+            </h4>
+            <ul className="divide-y divide-gray-100 border rounded-lg">
+              {recurring.map(item => (
+                <li key={`${item.taskId}-${item.reasonId}-${item.reasonText}`} className="p-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="font-medium text-gray-800 truncate">{item.taskTitle}</span>
+                    <span className="text-red-600 ml-2 flex-shrink-0">{item.count}×</span>
+                  </div>
+                  <p className="text-gray-600 text-xs">
+                    {item.reasonText} · last on {item.lastDate}
+                  </p>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-500 mt-2">
+              If the same reason keeps coming up, try breaking the task down or changing when you schedule it.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default AccountabilityInsights;
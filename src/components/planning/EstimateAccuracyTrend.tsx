@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import { Clock } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { EstimateMultiplier } from '../../types';
+import Card from '../common/Card';
+import { getEstimateBreakdown, getEstimateTrend, MIN_SAMPLES } from '../../utils/estimateAnalytics';
+
+// Bars are drawn on a 0–3× scale; anything above is capped
+const MAX_CHART_MULTIPLIER = 3;
+
+const multiplierColor = (multiplier: number): string => {
+  if (multiplier >= 1.5) return 'bg-red-400';
+  if (multiplier >= 1.1) return 'bg-amber-400';
+  if (multiplier <= 0.8) return 'bg-blue-400';
+  return 'bg-green-400';
+};
+
+/**
+ * Weekly trend of how long tasks take compared with their estimates, plus
+ * the groups that are furthest off, for the weekly review.
+ */
+const EstimateAccuracyTrend: React.FC = () => {
+  const { tasks, projects, categories, focusSessions } = useAppContext();
+
+  const trend = useMemo(() => getEstimateTrend(tasks, focusSessions), [tasks, focusSessions]);
+  const breakdown = useMemo(
+    () => getEstimateBreakdown(tasks, focusSessions, projects, categories),
+    [tasks, focusSessions, projects, categories]
+  );
+
+  // Groups with enough history, most off-estimate first
+  const notableGroups = useMemo(() => {
+    const groups: EstimateMultiplier[] = [
+      ...breakdown.byCategory,
+      ...breakdown.byProject,
+      ...breakdown.bySize,
+      ...breakdown.byEnergy,
+    ];
+    return groups
+      .filter(group => group.sampleSize >= MIN_SAMPLES)
+      .sort((a, b) => Math.abs(Math.log(b.multiplier)) - Math.abs(Math.log(a.multiplier)))
+      .slice(0, 5);
+  }, [breakdown]);
+
+  if (!breakdown.overall) {
+    return (
+      <Card title="Estimate Accuracy">
+        <p className="text-sm text-gray-500">
+          Add estimates to tasks and track them with the focus timer to see how your estimates compare with reality.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title="Estimate Accuracy">
+      <div className="flex items-center text-sm text-gray-700 mb-4">
+        <Clock size={16} className="mr-2 text-indigo-500" />
+        Overall, tasks take you {breakdown.overall.multiplier.toFixed(1)}× your estimate
+        <span className="ml-1 text-gray-500">({breakdown.overall.sampleSize} tracked)</span>
+      </div>
+
+      <div className="flex items-end h-32 space-x-2 border-b border-gray-200">
+        {trend.map(point => (
+          <div
+            key={`${point.weekYear}-${point.weekNumber}`}
+            className="flex-1 flex flex-col items-center justify-end h-full"
+            title={point.multiplier !== null
+              ? `Week ${point.weekNumber}: ${point.multiplier.toFixed(2)}× over ${point.sampleSize} tasks`
+              : `Week ${point.weekNumber}: no tracked tasks`}
+          >
+            {point.multiplier !== null && (
+              <>
+                <span className="text-xs text-gray-600 mb-1">{point.multiplier.toFixed(1)}×</span>
+                <div
+                  className={`w-full rounded-t ${multiplierColor(point.multiplier)}`}
+                  style={{ height: `${(Math.min(point.multiplier, MAX_CHART_MULTIPLIER) / MAX_CHART_MULTIPLIER) * 100}%` }}
+                />
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex space-x-2 mt-1">
+        {trend.map(point => (
+          <span key={`${point.weekYear}-${point.weekNumber}`} className="flex-1 text-center text-xs text-gray-500">
+            W{point.weekNumber}
+          </span>
+        ))}
+      </div>
+
+      {notableGroups.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Where your estimates are furthest off</h4>
+          <ul className="space-y-1">
+            {notableGroups.map(group => (
+              <li key={group.key} className="flex justify-between text-sm text-gray-700">
+                <span>{group.label}</span>
+                <span>
+                  {group.multiplier.toFixed(1)}×
+                  <span className="ml-1 text-xs text-gray-500">({group.sampleSize})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default EstimateAccuracyTrend;
@@ -5,6 +5,7 @@ import { getISOWeekAndYear } from '../../utils/helpers';
 import Card from '../common/Card';
 import Button from '../common/Button';
 import { ImprovedTaskCard } from '../tasks/ImprovedTaskCard';
+import EstimateAccuracyTrend from './EstimateAccuracyTrend';
 import { formatDate } from '../../utils/helpers';
 import {
   Calendar,
@@ -681,6 +682,8 @@ const WeeklyReviewSystem: React.FC<WeeklyReviewSystemProps> = ({ onTaskCreated }
           )}
         </div>
       </Card>
+
+      <EstimateAccuracyTrend />
     </div>
   );
 };
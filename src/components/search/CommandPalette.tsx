@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  BookOpen,
+  Calendar,
+  CheckCircle2,
+  Circle,
+  ClipboardList,
+  Clock,
+  CornerDownLeft,
+  Folder,
+  HelpCircle,
+  Layout,
+  Search,
+  Settings,
+} from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { Task } from '../../types';
+import { SearchKind } from '../../utils/searchIndex';
+import { formatDateForDisplay } from '../../utils/helpers';
+import Modal from '../common/Modal';
+import { StreamlinedTaskForm } from '../tasks/StreamlinedTaskForm';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  key: string;
+  kind: SearchKind | 'page';
+  title: string;
+  detail: string;
+  icon: React.ReactNode;
+  run: () => void;
+}
+
+const PAGES = [
+  { path: '/', label: 'Dashboard', icon: <Layout size={16} /> },
+  { path: '/tasks', label: 'All Tasks', icon: <ClipboardList size={16} /> },
+  { path: '/projects', label: 'Projects', icon: <Folder size={16} /> },
+  { path: '/calendar', label: 'Calendar', icon: <Calendar size={16} /> },
+  { path: '/planner', label: 'Daily Planner', icon: <Clock size={16} /> },
+  { path: '/journal', label: 'Journal', icon: <BookOpen size={16} /> },
+  { path: '/what-now', label: 'What Now?', icon: <HelpCircle size={16} /> },
+  { path: '/settings', label: 'Settings', icon: <Settings size={16} /> },
+];
+
+const GROUP_LABELS: Record<PaletteItem['kind'], string> = {
+  task: 'Tasks',
+  project: 'Projects',
+  journal: 'Journal',
+  page: 'Go to',
+};
+
+const GROUP_ORDER: PaletteItem['kind'][] = ['task', 'project', 'journal', 'page'];
+
+const FILTER_HINTS = ['is:done', 'is:open', 'is:overdue', 'project:home', 'due:<2026-01-31', 'due:today', 'due:none', 'in:journal'];
+
+const RESULT_LIMIT = 30;
+
+/**
+ * Search everything from anywhere. Opened with Ctrl-K (Cmd-K on a Mac).
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const { searchAll, tasks, projects } = useAppContext();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const close = (action: () => void) => () => {
+      action();
+      onClose();
+    };
+
+    const pageItems = PAGES
+      .filter(page => page.label.toLowerCase().includes(query.trim().toLowerCase()))
+      .map(page => ({
+        key: `page:${page.path}`,
+        kind: 'page' as const,
+        title: page.label,
+        detail: '',
+        icon: page.icon,
+        run: close(() => navigate(page.path)),
+      }));
+
+    if (!query.trim()) return pageItems;
+
+    const resultItems = searchAll(query, RESULT_LIMIT).map((result): PaletteItem => {
+      if (result.kind === 'task') {
+        const task = tasks.find(t => t.id === result.id);
+        const project = task?.projectId ? projects.find(p => p.id === task.projectId) : undefined;
+        const detail = [
+          project?.name,
+          task?.dueDate ? `Due ${formatDateForDisplay(task.dueDate)}` : null,
+          result.snippet,
+        ].filter(Boolean).join(' · ');
+        return {
+          key: `task:${result.id}`,
+          kind: 'task',
+          title: result.title,
+          detail,
+          icon: task?.completed
+            ? <CheckCircle2 size={16} className="text-green-500" />
+            : <Circle size={16} />,
+          run: close(() => setEditingTask(task || null)),
+        };
+      }
+      if (result.kind === 'project') {
+        return {
+          key: `project:${result.id}`,
+          kind: 'project',
+          title: result.title,
+          detail: result.snippet,
+          icon: <Folder size={16} />,
+          run: close(() => navigate(`/projects/${result.id}`)),
+        };
+      }
+      return {
+        key: `journal:${result.id}`,
+        kind: 'journal',
+        title: result.title,
+        detail: result.snippet,
+        icon: <BookOpen size={16} />,
+        run: close(() => navigate(`/journal?entry=${encodeURIComponent(result.id)}`)),
+      };
+    });
+
+    return [...resultItems, ...pageItems];
+  }, [query, searchAll, tasks, projects, navigate, onClose]);
+
+  // Items in display order, so arrow keys follow what's on screen
+  const groups = GROUP_ORDER
+    .map(kind => ({ kind, items: items.filter(item => item.kind === kind) }))
+    .filter(group => group.items.length > 0);
+  const orderedItems = groups.flatMap(group => group.items);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, orderedItems.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      orderedItems[activeIndex]?.run();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto" onMouseDown={onClose}>
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+          <div className="flex justify-center min-h-screen px-4 pt-[10vh]">
+            <div
+              className="relative w-full max-w-xl h-fit bg-white rounded-lg shadow-xl overflow-hidden"
+              onMouseDown={e => e.stopPropagation()}
+            >
+              <div className="flex items-center px-4 border-b border-gray-200">
+                <Search size={18} className="text-gray-400" />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  className="w-full border-0 focus:ring-0 py-3 px-3 text-sm text-gray-900 placeholder-gray-400"
+                  placeholder="Search tasks, projects and journal..."
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                />
+                <kbd className="text-xs text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+              </div>
+
+              <ul ref={listRef} className="max-h-96 overflow-y-auto py-2">
+                {groups.map(group => (
+                  <li key={group.kind}>
+                    <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400">
+                      {GROUP_LABELS[group.kind]}
+                    </p>
+                    <ul>
+                      {group.items.map(item => {
+                        const index = orderedItems.indexOf(item);
+                        const isActive = index === activeIndex;
+                        return (
+                          <li
+                            key={item.key}
+                            data-index={index}
+                            className={`flex items-center px-4 py-2 cursor-pointer ${
+                              isActive ? 'bg-indigo-50 text-indigo-700' : 'text-gray-700'
+                            }`}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            onClick={item.run}
+                          >
+                            <span className="flex-shrink-0 text-gray-400">{item.icon}</span>
+                            <div className="ml-3 min-w-0 flex-1">
+                              <p className="text-sm font-medium truncate">{item.title}</p>
+                              {item.detail && <p className="text-xs text-gray-500 truncate">{item.detail}</p>}
+                            </div>
+                            {isActive && <CornerDownLeft size={14} className="ml-2 text-indigo-400" />}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </li>
+                ))}
+
+                {query.trim() && orderedItems.length === 0 && (
+                  <li className="px-4 py-6 text-center text-sm text-gray-500">
+                    Nothing matches "{query.trim()}"
+                  </li>
+                )}
+              </ul>
+
+              <div className="px-4 py-2 border-t border-gray-200 bg-gray-50 text-xs text-gray-500">
+                Filters:{' '}
+                {FILTER_HINTS.map(hint => (
+                  <button
+                    key={hint}
+                    className="mr-2 font-mono text-indigo-600 hover:text-indigo-800"
+                    onClick={() => {
+                      setQuery(current => `${current.trim()} ${hint}`.trim() + ' ');
+                      inputRef.current?.focus();
+                    }}
+                  >
+                    {hint}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Tasks picked from the results open for editing */}
+      <Modal isOpen={!!editingTask} onClose={() => setEditingTask(null)} title="Edit Task">
+        {editingTask && (
+          <StreamlinedTaskForm task={editingTask} onClose={() => setEditingTask(null)} isEdit />
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default CommandPalette;
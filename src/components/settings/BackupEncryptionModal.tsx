@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader, Lock, Unlock } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { getPassphraseError } from '../../utils/encryption';
+import Modal from '../common/Modal';
+import Button from '../common/Button';
+
+interface BackupEncryptionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+/**
+ * Turn backup encryption on, change its passphrase or turn it off.
+ * Every stored backup is re-saved to match.
+ */
+const BackupEncryptionModal: React.FC<BackupEncryptionModalProps> = ({ isOpen, onClose }) => {
+  const { backupEncryptionEnabled, updateBackupPassphrase } = useAppContext();
+  const [turnOff, setTurnOff] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [repeatPassphrase, setRepeatPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTurnOff(false);
+      setCurrentPassphrase('');
+      setNewPassphrase('');
+      setRepeatPassphrase('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    const passphraseError = turnOff ? null : getPassphraseError(newPassphrase, repeatPassphrase);
+    if (passphraseError) {
+      setError(passphraseError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateBackupPassphrase(currentPassphrase, turnOff ? null : newPassphrase);
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Could not update the backups');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={() => !isSaving && onClose()}
+      title={backupEncryptionEnabled ? 'Backup Encryption' : 'Encrypt Backups'}
+      size="sm"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {backupEncryptionEnabled
+            ? 'Change the passphrase that opens your backups, or stop encrypting them. All backups are re-saved to match.'
+            : 'New and existing backups are encrypted, and opening, comparing or restoring one asks for the passphrase. A forgotten passphrase cannot be recovered.'}
+        </p>
+
+        {backupEncryptionEnabled && (
+          <>
+            <div className="space-y-1">
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="radio" name="backupEncryption" className="mr-2" checked={!turnOff} onChange={() => setTurnOff(false)} />
+                Change passphrase
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="radio" name="backupEncryption" className="mr-2" checked={turnOff} onChange={() => setTurnOff(true)} />
+                Stop encrypting backups
+              </label>
+            </div>
+            <div>
+              <label htmlFor="backup-current-passphrase" className="block text-sm text-gray-600 mb-1">
+                Current passphrase
+              </label>
+              <input
+                id="backup-current-passphrase"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </>
+        )}
+
+        {!turnOff && (
+          <>
+            <div>
+              <label htmlFor="backup-new-passphrase" className="block text-sm text-gray-600 mb-1">
+                {backupEncryptionEnabled ? 'New passphrase' : 'Passphrase'}
+              </label>
+              <input
+                id="backup-new-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div>
+              <label htmlFor="backup-repeat-passphrase" className="block text-sm text-gray-600 mb-1">
+                Repeat passphrase
+              </label>
+              <input
+                id="backup-repeat-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={repeatPassphrase}
+                onChange={(e) => setRepeatPassphrase(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start text-sm">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant={turnOff ? 'danger' : 'primary'}
+            icon={isSaving ? <Loader size={16} className="animate-spin" /> : turnOff ? <Unlock size={16} /> : <Lock size={16} />}
+            onClick={handleSave}
+            disabled={isSaving || (backupEncryptionEnabled && !currentPassphrase)}
+          >
+            {turnOff ? 'Stop Encrypting' : backupEncryptionEnabled ? 'Change Passphrase' : 'Encrypt Backups'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default BackupEncryptionModal;
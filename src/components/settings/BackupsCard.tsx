@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, Download, GitCompare, History, Loader, Lock, RotateCcw } from 'lucide-react';
+import { BackupComparison, BackupSummary } from '../../types';
+import { useAppContext } from '../../context/AppContext';
+import { BACKUP_COLLECTION_LABELS, BACKUP_KIND_LABELS, BACKUP_RETENTION } from '../../utils/backups';
+import { DecryptionError } from '../../utils/encryption';
+import Card from '../common/Card';
+import Button from '../common/Button';
+import Modal from '../common/Modal';
+import BackupEncryptionModal from './BackupEncryptionModal';
+
+const KIND_STYLES: Record<BackupSummary['kind'], string> = {
+  daily: 'bg-blue-100 text-blue-800',
+  weekly: 'bg-purple-100 text-purple-800',
+  manual: 'bg-gray-100 text-gray-700',
+};
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const describeCounts = (backup: BackupSummary): string =>
+  (['tasks', 'projects', 'categories', 'journalEntries'] as const)
+    .map(collection => `${backup.counts[collection] ?? 0} ${BACKUP_COLLECTION_LABELS[collection].toLowerCase()}`)
+    .join(' · ');
+
+const PASSPHRASE_INPUT_CLASS = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+/**
+ * Rolling backups kept in the browser: take one, compare one with the
+ * current data, download it as an export file or restore it
+ */
+const BackupsCard: React.FC = () => {
+  const { backups, createBackup, readBackup, compareWithBackup, restoreBackup, backupEncryptionEnabled } = useAppContext();
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<{ backup: BackupSummary; rows: BackupComparison[] } | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState<BackupSummary | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restored, setRestored] = useState(false);
+  const [encryptionModalOpen, setEncryptionModalOpen] = useState(false);
+  // Remembered while the page is open, so encrypted backups only ask once
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState<BackupSummary | null>(null);
+
+  // A wrong passphrase is forgotten so the next attempt asks again
+  const getErrorMessage = (actionError: unknown, fallback: string): string => {
+    if (actionError instanceof DecryptionError) {
+      setPassphrase('');
+      return actionError.message;
+    }
+    return actionError instanceof Error ? actionError.message : fallback;
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setIsCreating(true);
+    try {
+      const backup = await createBackup();
+      if (!backup) setError('There is no data to back up yet.');
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Could not create a backup');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDownload = async (backup: BackupSummary) => {
+    setError(null);
+    try {
+      const data = await readBackup(backup.id);
+      const blob = new Blob([data], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `taskmanager-backup-${backup.createdAt.split('T')[0]}${backup.encrypted ? '-encrypted' : ''}.json`;
+      document.body.appendChild(a);
+      a.click();
+
+      // Clean up
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      setError(downloadError instanceof Error ? downloadError.message : 'Could not read the backup');
+    }
+  };
+
+  const handleCompare = async (backup: BackupSummary, backupPassphrase = passphrase) => {
+    setError(null);
+    if (backup.encrypted && !backupPassphrase) {
+      setUnlocking(backup);
+      return;
+    }
+    try {
+      setComparing({ backup, rows: await compareWithBackup(backup.id, backupPassphrase) });
+    } catch (compareError) {
+      setError(getErrorMessage(compareError, 'Could not read the backup'));
+    }
+  };
+
+  const handleUnlock = () => {
+    if (!unlocking) return;
+    const backup = unlocking;
+    setUnlocking(null);
+    handleCompare(backup);
+  };
+
+  const handleRestore = async () => {
+    if (!confirmRestore) return;
+    setIsRestoring(true);
+    try {
+      const success = await restoreBackup(confirmRestore.id, passphrase);
+      if (success) {
+        setRestored(true);
+        setTimeout(() => {
+          setRestored(false);
+          setConfirmRestore(null);
+        }, 1500);
+      } else {
+        setError('The backup could not be restored.');
+        setConfirmRestore(null);
+      }
+    } catch (restoreError) {
+      setError(getErrorMessage(restoreError, 'The backup could not be restored.'));
+      setConfirmRestore(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card title="Backups">
+      <div className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between">
+          <p className="text-sm text-gray-500">
+            A backup is taken every day and every week when the app opens, and before a reset, import or restore.
+            The last {BACKUP_RETENTION.daily} daily, {BACKUP_RETENTION.weekly} weekly and {BACKUP_RETENTION.manual} other
+            backups are kept in a separate database, so an emergency reset leaves them alone.
+          </p>
+          <Button
+            variant="secondary"
+            icon={isCreating ? <Loader size={16} className="animate-spin" /> : <History size={16} />}
+            className="mt-2 md:mt-0 md:ml-4 flex-shrink-0"
+            onClick={handleCreate}
+            disabled={isCreating}
+          >
+            Back Up Now
+          </Button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center justify-between p-3 bg-gray-50 rounded-md">
+          <p className="flex items-center text-sm text-gray-600">
+            <Lock size={14} className={`mr-2 flex-shrink-0 ${backupEncryptionEnabled ? 'text-green-600' : 'text-gray-400'}`} />
+            {backupEncryptionEnabled
+              ? 'Backups are encrypted with a passphrase.'
+              : 'Backups include journal entries and check-in reasons. Encrypt them to keep them private.'}
+          </p>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="mt-2 md:mt-0 md:ml-4 flex-shrink-0"
+            onClick={() => setEncryptionModalOpen(true)}
+          >
+            {backupEncryptionEnabled ? 'Change Encryption' : 'Encrypt Backups'}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start text-sm">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {backups.length === 0 ? (
+          <p className="text-sm text-gray-500">No backups yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border-t border-gray-200">
+            {backups.map(backup => (
+              <li key={backup.id} className="flex flex-col md:flex-row md:items-center justify-between py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {new Date(backup.createdAt).toLocaleString()}
+                    {backup.encrypted && (
+                      <Lock size={12} className="inline ml-1 text-gray-400" aria-label="Encrypted" />
+                    )}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[backup.kind]}`}>
+                      {backup.note || BACKUP_KIND_LABELS[backup.kind]}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {describeCounts(backup)} · {formatSize(backup.size)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 mt-2 md:mt-0 md:ml-4 flex-shrink-0">
+                  <Button variant="secondary" size="sm" icon={<GitCompare size={14} />} onClick={() => handleCompare(backup)}>
+                    Compare
+                  </Button>
+                  <Button variant="secondary" size="sm" icon={<Download size={14} />} onClick={() => handleDownload(backup)}>
+                    Download
+                  </Button>
+                  <Button variant="outline" size="sm" icon={<RotateCcw size={14} />} onClick={() => setConfirmRestore(backup)}>
+                    Restore
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Compare Modal */}
+      <Modal
+        isOpen={!!comparing}
+        onClose={() => setComparing(null)}
+        title={comparing ? `Backup from ${new Date(comparing.backup.createdAt).toLocaleString()}` : 'Compare Backup'}
+        size="lg"
+      >
+        {comparing && (
+          <div className="space-y-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium"></th>
+                  <th className="py-2 font-medium text-right">In backup</th>
+                  <th className="py-2 font-medium text-right">Now</th>
+                  <th className="py-2 font-medium text-right">Only in backup</th>
+                  <th className="py-2 font-medium text-right">Only now</th>
+                  <th className="py-2 font-medium text-right">Changed since</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {comparing.rows.map(row => (
+                  <tr key={row.collection}>
+                    <td className="py-2 text-gray-900">{BACKUP_COLLECTION_LABELS[row.collection]}</td>
+                    <td className="py-2 text-right text-gray-700">{row.backupCount}</td>
+                    <td className="py-2 text-right text-gray-700">{row.currentCount}</td>
+                    <td className={`py-2 text-right ${row.onlyInBackup > 0 ? 'text-green-700 font-medium' : 'text-gray-400'}`}>
+                      {row.onlyInBackup}
+                    </td>
+                    <td className={`py-2 text-right ${row.onlyInCurrent > 0 ? 'text-red-700 font-medium' : 'text-gray-400'}`}>
+                      {row.onlyInCurrent}
+                    </td>
+                    <td className={`py-2 text-right ${row.changed > 0 ? 'text-blue-700 font-medium' : 'text-gray-400'}`}>
+                      {row.changed}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">
+              Restoring brings back what is only in the backup and undoes the changes since, but removes what is only here now.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button variant="secondary" onClick={() => setComparing(null)}>
+                Close
+              </Button>
+              <Button
+                variant="primary"
+                icon={<RotateCcw size={16} />}
+                onClick={() => {
+                  setConfirmRestore(comparing.backup);
+                  setComparing(null);
+                }}
+              >
+                Restore This Backup
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Restore Confirmation Modal */}
+      <Modal
+        isOpen={!!confirmRestore}
+        onClose={() => !isRestoring && setConfirmRestore(null)}
+        title="Restore Backup"
+        size="sm"
+      >
+        {restored ? (
+          <div className="p-3 bg-green-50 text-green-700 rounded-md flex items-center text-sm">
+            <Check size={16} className="mr-2" />
+            Backup restored
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-gray-600">
+              Replace all your data with the backup from{' '}
+              {confirmRestore && new Date(confirmRestore.createdAt).toLocaleString()}? Your current data is backed up first.
+            </p>
+            {confirmRestore?.encrypted && (
+              <div>
+                <label htmlFor="restore-passphrase" className="block text-sm text-gray-600 mb-1">
+                  Backup passphrase
+                </label>
+                <input
+                  id="restore-passphrase"
+                  type="password"
+                  autoComplete="current-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={PASSPHRASE_INPUT_CLASS}
+                />
+              </div>
+            )}
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button variant="secondary" onClick={() => setConfirmRestore(null)} disabled={isRestoring}>
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={handleRestore}
+                disabled={isRestoring || (!!confirmRestore?.encrypted && !passphrase)}
+              >
+                {isRestoring ? (
+                  <>
+                    <Loader size={16} className="mr-2 animate-spin" />
+                    Restoring...
+                  </>
+                ) : (
+                  'Restore'
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Passphrase prompt for comparing an encrypted backup */}
+      <Modal
+        isOpen={!!unlocking}
+        onClose={() => setUnlocking(null)}
+        title="Encrypted Backup"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <label htmlFor="unlock-passphrase" className="block text-sm text-gray-600">
+            Enter the backup passphrase to open this backup.
+          </label>
+          <input
+            id="unlock-passphrase"
+            type="password"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+            className={PASSPHRASE_INPUT_CLASS}
+          />
+          <div className="flex justify-end space-x-3">
+            <Button variant="secondary" onClick={() => setUnlocking(null)}>
+              Cancel
+            </Button>
+            <Button variant="primary" icon={<GitCompare size={16} />} onClick={handleUnlock} disabled={!passphrase}>
+              Compare
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <BackupEncryptionModal isOpen={encryptionModalOpen} onClose={() => setEncryptionModalOpen(false)} />
+    </Card>
+  );
+};
+
+export default BackupsCard;
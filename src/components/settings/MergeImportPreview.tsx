@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight, Check, Loader } from 'lucide-react';
+import { MergeItem, MergeResolution, MergeStatus } from '../../types';
+import { MERGE_COLLECTION_LABELS, resolveAll, summarizeMergePlan } from '../../utils/mergeImport';
+import Button from '../common/Button';
+
+interface MergeImportPreviewProps {
+  items: MergeItem[];
+  onChange: (items: MergeItem[]) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  isApplying: boolean;
+}
+
+const STATUS_LABELS: Record<MergeStatus, string> = {
+  new: 'New',
+  incoming_newer: 'Newer in file',
+  local_newer: 'Newer here',
+  conflict: 'Conflict',
+  unchanged: 'Unchanged',
+};
+
+const STATUS_STYLES: Record<MergeStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  incoming_newer: 'bg-blue-100 text-blue-800',
+  local_newer: 'bg-gray-100 text-gray-700',
+  conflict: 'bg-red-100 text-red-800',
+  unchanged: 'bg-gray-50 text-gray-500',
+};
+
+const STATUS_ORDER: MergeStatus[] = ['conflict', 'new', 'incoming_newer', 'local_newer', 'unchanged'];
+
+// Long lists are cut off; bulk actions still apply to every record
+const MAX_VISIBLE_ITEMS = 200;
+
+const formatUpdatedAt = (record: MergeItem['local']): string | null => {
+  if (!record || !('updatedAt' in record)) return null;
+  return new Date(record.updatedAt).toLocaleString();
+};
+
+/**
+ * Diff preview for a merge import: every incoming record with how it compares
+ * to the local one, and a choice of which version to keep
+ */
+const MergeImportPreview: React.FC<MergeImportPreviewProps> = ({ items, onChange, onApply, onCancel, isApplying }) => {
+  const [statusFilter, setStatusFilter] = useState<MergeStatus | 'all'>(
+    items.some(item => item.status === 'conflict') ? 'conflict' : 'all'
+  );
+
+  const summary = useMemo(() => summarizeMergePlan(items), [items]);
+
+  const visibleItems = useMemo(() => {
+    const filtered = statusFilter === 'all'
+      ? items.filter(item => item.status !== 'unchanged')
+      : items.filter(item => item.status === statusFilter);
+    return filtered.slice(0, MAX_VISIBLE_ITEMS);
+  }, [items, statusFilter]);
+
+  const writeCount = items.filter(item => item.status !== 'unchanged' && item.resolution === 'use_incoming').length;
+
+  const setResolution = (target: MergeItem, resolution: MergeResolution) => {
+    onChange(items.map(item =>
+      item.collection === target.collection && item.id === target.id ? { ...item, resolution } : item
+    ));
+  };
+
+  const setAll = (resolution: MergeResolution) => {
+    onChange(resolveAll(items, resolution, statusFilter === 'all' ? undefined : statusFilter));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <button
+          className={`px-3 py-1 rounded-full text-xs font-medium ${statusFilter === 'all' ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+          onClick={() => setStatusFilter('all')}
+        >
+          All changes ({items.length - summary.unchanged})
+        </button>
+        {STATUS_ORDER.map(status => (
+          <button
+            key={status}
+            className={`px-3 py-1 rounded-full text-xs font-medium ${statusFilter === status ? 'ring-2 ring-indigo-500' : ''} ${STATUS_STYLES[status]}`}
+            onClick={() => setStatusFilter(status)}
+            disabled={summary[status] === 0}
+          >
+            {STATUS_LABELS[status]} ({summary[status]})
+          </button>
+        ))}
+      </div>
+
+      {statusFilter !== 'unchanged' && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {statusFilter === 'all' ? 'For every change:' : `For every "${STATUS_LABELS[statusFilter]}" record:`}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="secondary" size="sm" icon={<ArrowLeft size={14} />} onClick={() => setAll('keep_local')}>
+              Keep mine
+            </Button>
+            <Button variant="secondary" size="sm" icon={<ArrowRight size={14} />} onClick={() => setAll('use_incoming')}>
+              Use file
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100 border rounded-lg max-h-96 overflow-y-auto">
+        {visibleItems.length === 0 && (
+          <li className="p-4 text-sm text-gray-500 text-center">Nothing to show here.</li>
+        )}
+        {visibleItems.map(item => (
+          <li key={`${item.collection}-${item.id}`} className="p-3 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[item.status]}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  <span className="text-xs text-gray-500">{MERGE_COLLECTION_LABELS[item.collection]}</span>
+                </div>
+                <p className="font-medium text-gray-900 truncate mt-1">{item.label}</p>
+                {item.changedFields.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Changed: {item.changedFields.join(', ')}
+                  </p>
+                )}
+                {item.local && (
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Here: {formatUpdatedAt(item.local) || 'no timestamp'} · File: {formatUpdatedAt(item.incoming) || 'no timestamp'}
+                  </p>
+                )}
+              </div>
+
+              {item.status !== 'unchanged' && (
+                <div className="flex flex-shrink-0 rounded-md border overflow-hidden text-xs">
+                  <button
+                    className={`px-2 py-1 ${item.resolution === 'keep_local' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'}`}
+                    onClick={() => setResolution(item, 'keep_local')}
+                  >
+                    {item.status === 'new' ? 'Skip' : 'Keep mine'}
+                  </button>
+                  <button
+                    className={`px-2 py-1 border-l ${item.resolution === 'use_incoming' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700'}`}
+                    onClick={() => setResolution(item, 'use_incoming')}
+                  >
+                    {item.status === 'new' ? 'Add' : 'Use file'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {visibleItems.length === MAX_VISIBLE_ITEMS && (
+        <p className="text-xs text-gray-500">
+          Showing the first {MAX_VISIBLE_ITEMS} records. Use the buttons above to resolve the rest.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between pt-2">
+        <p className="text-sm text-gray-600">
+          {writeCount} record{writeCount === 1 ? '' : 's'} will be added or updated. Nothing else changes.
+        </p>
+        <div className="flex space-x-2">
+          <Button variant="secondary" onClick={onCancel} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={onApply}
+            disabled={isApplying || writeCount === 0}
+            icon={isApplying ? <Loader size={16} className="animate-spin" /> : <Check size={16} />}
+          >
+            {isApplying ? 'Merging...' : 'Merge'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeImportPreview;
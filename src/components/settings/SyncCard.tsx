@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, Loader, RefreshCw } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import Card from '../common/Card';
+import Button from '../common/Button';
+
+/**
+ * Sync with a server to keep several devices in step
+ */
+const SyncCard: React.FC = () => {
+  const { syncSettings, updateSyncSettings, syncStatus, syncNow } = useAppContext();
+  const [serverUrl, setServerUrl] = useState(syncSettings.serverUrl);
+  const { isSyncing, lastSyncedAt, lastResult, error } = syncStatus;
+
+  const saveServerUrl = () => {
+    if (serverUrl.trim() !== syncSettings.serverUrl) {
+      updateSyncSettings({ ...syncSettings, serverUrl: serverUrl.trim() });
+    }
+  };
+
+  const handleSync = () => {
+    saveServerUrl();
+    syncNow().catch(() => {
+      // Shown from the sync status below
+    });
+  };
+
+  return (
+    <Card title="Sync Between Devices">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Keep this browser in step with your other devices through a sync server. To run one on your own
+          computer, start <code className="font-mono text-xs">npm run sync-server</code> and enter its address below.
+          When the same thing was changed on two devices, each field keeps the most recent edit.
+        </p>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-2">
+          <div className="flex-1">
+            <label htmlFor="sync-server-url" className="block text-sm text-gray-600 mb-1">
+              Sync server address
+            </label>
+            <input
+              id="sync-server-url"
+              type="url"
+              placeholder="http://localhost:8787"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              onBlur={saveServerUrl}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <Button
+            variant="primary"
+            icon={isSyncing ? <Loader size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+            onClick={handleSync}
+            disabled={isSyncing || !serverUrl.trim()}
+          >
+            {isSyncing ? 'Syncing...' : 'Sync Now'}
+          </Button>
+        </div>
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            checked={syncSettings.syncOnOpen}
+            onChange={(e) => updateSyncSettings({ ...syncSettings, syncOnOpen: e.target.checked })}
+          />
+          Sync when the app opens
+        </label>
+
+        {error ? (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start text-sm">
+            <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        ) : lastSyncedAt && (
+          <p className="flex items-center text-sm text-gray-600">
+            <Check size={14} className="mr-1 text-green-600" />
+            Last synced {new Date(lastSyncedAt).toLocaleString()}
+            {lastResult && (
+              <span className="ml-1 text-gray-500">
+                ({lastResult.pulled} received, {lastResult.pushed} sent
+                {lastResult.conflicts > 0 && `, ${lastResult.conflicts} conflicting field${lastResult.conflicts !== 1 ? 's' : ''} settled`})
+              </span>
+            )}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default SyncCard;
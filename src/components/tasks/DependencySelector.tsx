@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { Lock, X } from 'lucide-react';
+import { useAppContext } from '../../context/AppContext';
+import { findDependencyCycle } from '../../utils/dependencies';
+
+interface DependencySelectorProps {
+  taskId?: string; // Undefined while creating a new task
+  value: string[];
+  onChange: (blockedBy: string[]) => void;
+}
+
+const DependencySelector: React.FC<DependencySelectorProps> = ({ taskId, value, onChange }) => {
+  const { tasks } = useAppContext();
+
+  const selectedTasks = useMemo(() =>
+    tasks.filter(t => value.includes(t.id)),
+  [tasks, value]);
+
+  // Candidate blockers: incomplete tasks that aren't already selected.
+  // Options that would create a cycle are shown but disabled.
+  const options = useMemo(() =>
+    tasks
+      .filter(t => t.id !== taskId && !t.completed && !t.archived && !value.includes(t.id))
+      .map(t => ({
+        task: t,
+        createsCycle: taskId ? findDependencyCycle(taskId, [t.id], tasks) !== null : false
+      })),
+  [tasks, taskId, value]);
+
+  return (
+    <div>
+      <div className="flex items-center mb-2">
+        <Lock size={14} className="text-gray-400 mr-1" />
+        <span className="text-sm text-gray-500">Blocked by:</span>
+      </div>
+
+      {selectedTasks.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {selectedTasks.map(blocker => (
+            <span
+              key={blocker.id}
+              className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${
+                blocker.completed ? 'bg-green-100 text-green-800 line-through' : 'bg-amber-100 text-amber-800'
+              }`}
+            >
+              {blocker.title}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(id => id !== blocker.id))}
+                className="ml-1 hover:text-red-600"
+                title="Remove blocker"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) {
+            onChange([...value, e.target.value]);
+          }
+        }}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      >
+        <option value="">Add a task this one is waiting on...</option>
+        {options.map(({ task, createsCycle }) => (
+          <option key={task.id} value={task.id} disabled={createsCycle}>
+            {task.title}{createsCycle ? ' (already waits on this task)' : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DependencySelector;
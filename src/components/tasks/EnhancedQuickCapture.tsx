@@ -1,6 +1,8 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { Plus, Circle, Info, Calendar, Flag, X } from 'lucide-react';
+import { Plus, Circle, Info, Calendar, Clock, Flag, Folder, Repeat, X } from 'lucide-react';
+import { parseQuickCapture } from '../../utils/quickCaptureParser';
+import QuickCapturePreview from './QuickCapturePreview';
 
 interface EnhancedQuickCaptureProps {
   onTaskAdded?: () => void;
@@ -13,51 +15,15 @@ export const EnhancedQuickCapture: React.FC<EnhancedQuickCaptureProps> = ({
   defaultProjectId = null,
   placeholder = 'Add task...'
 }) => {
-  const { addTask } = useAppContext();
+  const { quickAddTask, projects, categories } = useAppContext();
   const [title, setTitle] = useState('');
   const [showHelp, setShowHelp] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   
-  // Process input for smart text parsing
-  const processInput = (input: string) => {
-    // Keep the original input for preserving spaces during editing
-    let processedTitle = input;
-    let dueDate: string | null = null;
-    let priority: 'low' | 'medium' | 'high' = 'medium';
-    
-    // Check for date patterns
-    if (input.includes('!today')) {
-      const today = new Date();
-      dueDate = today.toISOString().split('T')[0];
-      // Don't trim during processing to preserve spaces
-      processedTitle = input.replace('!today', '');
-    } else if (input.includes('!tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      dueDate = tomorrow.toISOString().split('T')[0];
-      processedTitle = input.replace('!tomorrow', '');
-    } else if (input.match(/!(\d+)d/)) {
-      const match = input.match(/!(\d+)d/);
-      if (match && match[1]) {
-        const days = parseInt(match[1], 10);
-        const date = new Date();
-        date.setDate(date.getDate() + days);
-        dueDate = date.toISOString().split('T')[0];
-        processedTitle = processedTitle.replace(/!(\d+)d/, '');
-      }
-    }
-    
-    // Check for priority markers
-    if (input.includes('!high')) {
-      priority = 'high';
-      processedTitle = processedTitle.replace('!high', '');
-    } else if (input.includes('!low')) {
-      priority = 'low';
-      processedTitle = processedTitle.replace('!low', '');
-    }
-    
-    return { title: processedTitle, dueDate, priority };
-  };
+  // Parse as the user types so the preview stays live
+  const parsed = useMemo(() =>
+    parseQuickCapture(title, { projects, categories }),
+  [title, projects, categories]);
   
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && title.trim()) {
@@ -68,15 +34,7 @@ export const EnhancedQuickCapture: React.FC<EnhancedQuickCaptureProps> = ({
   const handleAddTask = () => {
     if (!title.trim()) return;
     
-    const { title: processedTitle, dueDate, priority } = processInput(title);
-    
-    addTask({
-      title: processedTitle.trim(), // Ensure the title is trimmed when saving
-      dueDate,
-      priority,
-      projectId: defaultProjectId,
-      completed: false
-    });
+    quickAddTask(title, defaultProjectId);
     
     setTitle('');
     
@@ -109,8 +67,22 @@ export const EnhancedQuickCapture: React.FC<EnhancedQuickCaptureProps> = ({
           <li className="flex items-start">
             <Calendar size={16} className="text-indigo-500 mr-2 mt-0.5 flex-shrink-0" />
             <div>
-              <div className="font-medium">Date Shortcuts</div>
-              <div className="text-gray-600">!today, !tomorrow, !3d (3 days)</div>
+              <div className="font-medium">Dates & Times</div>
+              <div className="text-gray-600">tomorrow, next friday, in 3 days, jun 5, at 3pm</div>
+            </div>
+          </li>
+          <li className="flex items-start">
+            <Clock size={16} className="text-indigo-500 mr-2 mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">Duration & Energy</div>
+              <div className="text-gray-600">~30m, ~1h30m, low energy</div>
+            </div>
+          </li>
+          <li className="flex items-start">
+            <Repeat size={16} className="text-indigo-500 mr-2 mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">Repeat</div>
+              <div className="text-gray-600">every day, every monday, every other week</div>
             </div>
           </li>
           <li className="flex items-start">
@@ -120,9 +92,16 @@ export const EnhancedQuickCapture: React.FC<EnhancedQuickCaptureProps> = ({
               <div className="text-gray-600">!high, !low</div>
             </div>
           </li>
+          <li className="flex items-start">
+            <Folder size={16} className="text-indigo-500 mr-2 mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">Project & Categories</div>
+              <div className="text-gray-600">#project (created if new), @category</div>
+            </div>
+          </li>
         </ul>
         <div className="text-xs text-gray-500 mt-3 p-2 bg-gray-50 rounded border border-gray-100">
-          Example: "Call doctor !tomorrow !high"
+          Example: "Call doctor tomorrow at 9am ~15m !high #health"
         </div>
       </div>
     );
@@ -169,6 +148,13 @@ export const EnhancedQuickCapture: React.FC<EnhancedQuickCaptureProps> = ({
         </div>
       </div>
       
+      <QuickCapturePreview
+        parsed={parsed}
+        projects={projects}
+        categories={categories}
+        className="mt-2 px-1"
+      />
+      
       {renderHelpTooltip()}
     </div>
   );
@@ -11,11 +11,19 @@ import {
   Clock,
   Edit2,
   ArrowRight,
-  Copy
+  Copy,
+  Repeat,
+  Lock,
+  Unlock,
+  X,
+  Timer,
+  UserCheck
 } from 'lucide-react';
 import { Task, Project, Category } from '../../types';
 import Badge from '../common/Badge';
-import { formatDateForDisplay } from '../../utils/helpers';
+import { formatDate, formatDateForDisplay, formatTimeForDisplay } from '../../utils/helpers';
+import { describeRecurrence } from '../../utils/recurrence';
+import { createTaskMap, getIncompleteBlockers } from '../../utils/dependencies';
 import { useAppContext } from '../../context/AppContext';
 
 interface ImprovedTaskCardProps {
@@ -23,6 +31,7 @@ interface ImprovedTaskCardProps {
   projects: Project[];
   categories: Category[];
   isSubtask?: boolean;
+  showSubtasks?: boolean; // Off when subtasks already have their own rows, as in the subtask tree
   onEdit?: (task: Task) => void;
   onDelete?: (taskId: string) => void;
   onComplete?: (taskId: string) => void;
@@ -33,13 +42,14 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
   projects,
   categories,
   isSubtask = false,
+  showSubtasks = true,
   onEdit,
   onDelete,
   onComplete,
 }) => {
   const [expanded, setExpanded] = useState(false);
   const [showActions, setShowActions] = useState(false);
-  const { completeTask, tasks, addTask } = useAppContext();
+  const { completeTask, tasks, addTask, updateTask, actualMinutesByTask, activeFocusSession, startFocusSession } = useAppContext();
 
   // Memoize project lookup
   const project = useMemo(() =>
@@ -53,8 +63,32 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
 
   // Memoize subtask filtering
   const subtasks = useMemo(() =>
-    task.subtasks?.length ? tasks.filter(t => task.subtasks?.includes(t.id) || false) : [],
-  [task.subtasks, tasks]);
+    showSubtasks && task.subtasks?.length ? tasks.filter(t => task.subtasks?.includes(t.id) || false) : [],
+  [showSubtasks, task.subtasks, tasks]);
+
+  // Memoize the tasks this one is still waiting on
+  const blockers = useMemo(() =>
+    task.blockedBy?.length ? getIncompleteBlockers(task, createTaskMap(tasks)) : [],
+  [task, tasks]);
+
+  // Focused time recorded by the focus timer
+  const actualMinutes = Math.round(actualMinutesByTask.get(task.id) || 0);
+  const isFocusing = activeFocusSession?.taskId === task.id;
+
+  const handleStartFocus = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    startFocusSession(task.id);
+  }, [task.id, startFocusSession]);
+
+  const handleDismissUnblocked = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateTask({ ...task, unblockedAt: null });
+  }, [task, updateTask]);
+
+  const handleTakeBack = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    updateTask({ ...task, delegatedTo: null, followUpDate: null });
+  }, [task, updateTask]);
 
   const toggleExpand = useCallback(() => {
     setExpanded(prev => !prev);
@@ -164,9 +198,10 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
       <div className={`flex items-center text-xs ${textColor}`}>
         <Calendar size={14} className="mr-1" />
         {formatDateForDisplay(task.dueDate)}
+        {task.dueTime && `, ${formatTimeForDisplay(task.dueTime)}`}
       </div>
     );
-  }, [task.dueDate]);
+  }, [task.dueDate, task.dueTime]);
 
   // Check if task is due today
   const isDueToday = useMemo(() => {
@@ -278,10 +313,76 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
                   </div>
                 )}
 
-                {task.estimatedMinutes && (
-                  <div className="flex items-center text-xs text-gray-500">
+                {!task.completed && blockers.length > 0 && (
+                  <div
+                    className="flex items-center text-xs text-amber-600"
+                    title={`Waiting on: ${blockers.map(b => b.title).join(', ')}`}
+                  >
+                    <Lock size={14} className="mr-1" />
+                    Blocked by {blockers.length === 1 ? blockers[0].title : `${blockers.length} tasks`}
+                  </div>
+                )}
+
+                {!task.completed && task.delegatedTo && (
+                  <div
+                    className={`flex items-center text-xs rounded-full px-2 py-0.5 ${
+                      task.followUpDate && task.followUpDate <= formatDate(new Date())
+                        ? 'text-red-700 bg-red-100'
+                        : 'text-purple-700 bg-purple-100'
+                    }`}
+                  >
+                    <UserCheck size={12} className="mr-1" />
+                    Waiting for {task.delegatedTo}
+                    {task.followUpDate && ` · follow up ${formatDateForDisplay(task.followUpDate)}`}
+                    <button
+                      onClick={handleTakeBack}
+                      className="ml-1 hover:text-gray-900"
+                      title="Take back"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                )}
+
+                {!task.completed && task.unblockedAt && blockers.length === 0 && (
+                  <div className="flex items-center text-xs text-green-700 bg-green-100 rounded-full px-2 py-0.5">
+                    <Unlock size={12} className="mr-1" />
+                    Newly unblocked
+                    <button
+                      onClick={handleDismissUnblocked}
+                      className="ml-1 text-green-600 hover:text-green-800"
+                      title="Dismiss"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                )}
+
+                {task.recurrence && (
+                  <div className="flex items-center text-xs text-indigo-500" title="Repeating task">
+                    <Repeat size={14} className="mr-1" />
+                    {describeRecurrence(task.recurrence)}
+                  </div>
+                )}
+
+                {(task.estimatedMinutes || actualMinutes > 0) && (
+                  <div
+                    className={`flex items-center text-xs ${
+                      task.estimatedMinutes && actualMinutes > task.estimatedMinutes ? 'text-red-600' : 'text-gray-500'
+                    }`}
+                    title={actualMinutes > 0 ? 'Actual / estimated time' : 'Estimated time'}
+                  >
                     <Clock size={14} className="mr-1" />
-                    {task.estimatedMinutes} min
+                    {actualMinutes > 0
+                      ? `${actualMinutes}${task.estimatedMinutes ? ` / ${task.estimatedMinutes}` : ''} min`
+                      : `${task.estimatedMinutes} min`}
+                  </div>
+                )}
+
+                {isFocusing && (
+                  <div className="flex items-center text-xs text-indigo-700 bg-indigo-100 rounded-full px-2 py-0.5">
+                    <Timer size={12} className="mr-1" />
+                    Focusing
                   </div>
                 )}
 
@@ -312,6 +413,16 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
                   </button>
                 )}
 
+                {!task.completed && !isFocusing && (
+                  <button
+                    onClick={handleStartFocus}
+                    className="p-1.5 text-gray-400 hover:text-indigo-500 rounded transition-colors hover:bg-indigo-50"
+                    title="Start a Pomodoro"
+                  >
+                    <Timer size={16} />
+                  </button>
+                )}
+
                 <button
                   onClick={handleEdit}
                   className="p-1.5 text-gray-400 hover:text-indigo-500 rounded transition-colors hover:bg-indigo-50"
@@ -341,7 +452,7 @@ export const ImprovedTaskCard: React.FC<ImprovedTaskCardProps> = memo(({
             )}
           </div>
 
-          {task.subtasks?.length > 0 && (
+          {showSubtasks && task.subtasks?.length > 0 && (
             <div className="mt-3">
               <button
                 className="flex items-center text-sm text-gray-500 hover:text-gray-700"
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Battery, Calendar, Clock, Flag, Folder, FolderPlus, Repeat, Tag, Timer } from 'lucide-react';
+import { ParsedTaskInput, Project, Category } from '../../types';
+import { formatDateForDisplay, formatTimeForDisplay } from '../../utils/helpers';
+import { describeRecurrence } from '../../utils/recurrence';
+import { hasParsedFields } from '../../utils/quickCaptureParser';
+
+interface QuickCapturePreviewProps {
+  parsed: ParsedTaskInput;
+  projects: Project[];
+  categories: Category[];
+  className?: string;
+}
+
+const PRIORITY_STYLES: Record<string, string> = {
+  high: 'bg-red-50 text-red-700',
+  medium: 'bg-orange-50 text-orange-700',
+  low: 'bg-green-50 text-green-700',
+};
+
+const Chip: React.FC<{ icon: React.ReactNode; className?: string; children: React.ReactNode }> = ({
+  icon,
+  className = 'bg-indigo-50 text-indigo-700',
+  children
+}) => (
+  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${className}`}>
+    <span className="mr-1">{icon}</span>
+    {children}
+  </span>
+);
+
+/**
+ * Live preview of what a quick-capture line will create
+ */
+const QuickCapturePreview: React.FC<QuickCapturePreviewProps> = ({ parsed, projects, categories, className = '' }) => {
+  if (!hasParsedFields(parsed)) return null;
+
+  const project = parsed.projectId ? projects.find(p => p.id === parsed.projectId) : null;
+  const taskCategories = categories.filter(c => parsed.categoryIds.includes(c.id));
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      <span className="text-xs text-gray-500 mr-1 truncate max-w-[12rem]">
+        {parsed.title || <em>No title yet</em>}
+      </span>
+
+      {parsed.dueDate && (
+        <Chip icon={<Calendar size={12} />}>{formatDateForDisplay(parsed.dueDate)}</Chip>
+      )}
+      {parsed.dueTime && (
+        <Chip icon={<Clock size={12} />}>{formatTimeForDisplay(parsed.dueTime)}</Chip>
+      )}
+      {parsed.recurrence && (
+        <Chip icon={<Repeat size={12} />}>{describeRecurrence(parsed.recurrence)}</Chip>
+      )}
+      {parsed.estimatedMinutes && (
+        <Chip icon={<Timer size={12} />} className="bg-gray-100 text-gray-700">{parsed.estimatedMinutes} min</Chip>
+      )}
+      {parsed.priority && (
+        <Chip icon={<Flag size={12} />} className={PRIORITY_STYLES[parsed.priority]}>
+          {parsed.priority.charAt(0).toUpperCase() + parsed.priority.slice(1)} priority
+        </Chip>
+      )}
+      {parsed.energyLevel && (
+        <Chip icon={<Battery size={12} />} className="bg-yellow-50 text-yellow-700">
+          {parsed.energyLevel.charAt(0).toUpperCase() + parsed.energyLevel.slice(1)} energy
+        </Chip>
+      )}
+      {project && (
+        <Chip icon={<Folder size={12} />} className="bg-gray-100 text-gray-700">{project.name}</Chip>
+      )}
+      {parsed.newProjectName && (
+        <Chip icon={<FolderPlus size={12} />} className="bg-purple-50 text-purple-700">
+          New project: {parsed.newProjectName}
+        </Chip>
+      )}
+      {taskCategories.map(category => (
+        <Chip
+          key={category.id}
+          icon={<Tag size={12} />}
+          className="bg-gray-100 text-gray-700"
+        >
+          {category.name}
+        </Chip>
+      ))}
+    </div>
+  );
+};
+
+export default QuickCapturePreview;
@@ -1,7 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Task } from '../../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useAppContext } from '../../context/AppContext';
 import { Plus, Circle, Calendar, Folder, Tag } from 'lucide-react';
+import { parseQuickCapture } from '../../utils/quickCaptureParser';
+import QuickCapturePreview from './QuickCapturePreview';
 
 interface QuickTaskInputProps {
   onTaskAdded?: () => void;
@@ -14,7 +15,7 @@ const QuickTaskInput: React.FC<QuickTaskInputProps> = ({
   defaultProjectId = null,
   defaultDueDate = null,
 }) => {
-  const { addTask, projects, categories } = useAppContext();
+  const { quickAddTask, projects, categories } = useAppContext();
   const [isExpanded, setIsExpanded] = useState(false);
   const [title, setTitle] = useState('');
   const [dueDate, setDueDate] = useState<string | null>(defaultDueDate);
@@ -40,17 +41,8 @@ const QuickTaskInput: React.FC<QuickTaskInputProps> = ({
     // Check if the title is empty after trimming
     if (!title.trim()) return;
     
-    // Create the task with the trimmed title for storage
-    const newTask: Partial<Task> = {
-      title: title.trim(), // Make sure to trim when saving
-      dueDate,
-      projectId,
-      categoryIds,
-      completed: false,
-      archived: false,
-    };
-    
-    addTask(newTask);
+    // Anything typed in the title wins over the pickers below
+    quickAddTask(title, projectId, { dueDate, categoryIds, priority });
     
     // Reset form
     setTitle('');
@@ -79,94 +71,10 @@ const QuickTaskInput: React.FC<QuickTaskInputProps> = ({
     });
   };
   
-  // Process title for smart parsing
-  const processTitle = (input: string) => {
-    // Keep spaces in the input when setting the title
-    setTitle(input);
-    
-    // Use a trimmed version only for pattern matching
-    const titleText = input.trim();
-    
-    // Check for due date patterns like "!today", "!tomorrow", "!3d", "!2w"
-    if (titleText.includes('!today')) {
-      const today = new Date();
-      setDueDate(today.toISOString().split('T')[0]);
-      setTitle(input.replace('!today', ''));
-    } else if (titleText.includes('!tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      setDueDate(tomorrow.toISOString().split('T')[0]);
-      setTitle(input.replace('!tomorrow', ''));
-    } else if (titleText.match(/!(\d+)d/)) {
-      const match = titleText.match(/!(\d+)d/);
-      if (match && match[1]) {
-        const days = parseInt(match[1], 10);
-        const date = new Date();
-        date.setDate(date.getDate() + days);
-        setDueDate(date.toISOString().split('T')[0]);
-        setTitle(input.replace(/!(\d+)d/, ''));
-      }
-    } else if (titleText.match(/!(\d+)w/)) {
-      const match = titleText.match(/!(\d+)w/);
-      if (match && match[1]) {
-        const weeks = parseInt(match[1], 10);
-        const date = new Date();
-        date.setDate(date.getDate() + (weeks * 7));
-        setDueDate(date.toISOString().split('T')[0]);
-        setTitle(input.replace(/!(\d+)w/, ''));
-      }
-    }
-    
-    // Check for priority markers like "!high", "!medium", "!low"
-    if (titleText.includes('!high')) {
-      setPriority('high');
-      setTitle(input.replace('!high', ''));
-    } else if (titleText.includes('!medium')) {
-      setPriority('medium');
-      setTitle(input.replace('!medium', ''));
-    } else if (titleText.includes('!low')) {
-      setPriority('low');
-      setTitle(input.replace('!low', ''));
-    }
-    
-    // Check for project tags like "#project-name"
-    const projectMatch = titleText.match(/#([a-zA-Z0-9-_]+)/);
-    if (projectMatch && projectMatch[1]) {
-      const projectName = projectMatch[1].toLowerCase();
-      const matchedProject = projects.find(p => 
-        p.name.toLowerCase().replace(/\s+/g, '-') === projectName
-      );
-      
-      if (matchedProject) {
-        setProjectId(matchedProject.id);
-        setTitle(input.replace(/#([a-zA-Z0-9-_]+)/, ''));
-      }
-    }
-    
-    // Check for category tags like "@category-name"
-    const categoryMatches = titleText.match(/@([a-zA-Z0-9-_]+)/g);
-    if (categoryMatches) {
-      const newCategoryIds: string[] = [];
-      let newTitle = input;
-      
-      categoryMatches.forEach(match => {
-        const categoryName = match.substring(1).toLowerCase();
-        const matchedCategory = categories.find(c => 
-          c.name.toLowerCase().replace(/\s+/g, '-') === categoryName
-        );
-        
-        if (matchedCategory) {
-          newCategoryIds.push(matchedCategory.id);
-          newTitle = newTitle.replace(match, '');
-        }
-      });
-      
-      if (newCategoryIds.length > 0) {
-        setCategoryIds(newCategoryIds);
-        setTitle(newTitle);
-      }
-    }
-  };
+  // Parse as the user types so the preview stays live
+  const parsed = useMemo(() =>
+    parseQuickCapture(title, { projects, categories }),
+  [title, projects, categories]);
   
   const getPriorityColor = () => {
     switch (priority) {
@@ -196,10 +104,10 @@ const QuickTaskInput: React.FC<QuickTaskInputProps> = ({
           <input
             ref={inputRef}
             type="text"
-            placeholder={isExpanded ? "What do you need to do? (Try !today, #project, @category)" : "Quick add task..."}
+            placeholder={isExpanded ? "What do you need to do? (Try tomorrow at 3pm, ~30m, #project, @category)" : "Quick add task..."}
             className="flex-grow text-gray-900 placeholder-gray-500 border-0 focus:ring-0 p-0 text-base"
             value={title}
-            onChange={(e) => processTitle(e.target.value)}
+            onChange={(e) => setTitle(e.target.value)}
             onClick={() => setIsExpanded(true)}
           />
           
@@ -213,6 +121,13 @@ const QuickTaskInput: React.FC<QuickTaskInputProps> = ({
           )}
         </div>
         
+        <QuickCapturePreview
+          parsed={parsed}
+          projects={projects}
+          categories={categories}
+          className="mt-2 ml-9"
+        />
+        
         {isExpanded && (
           <div className="mt-3 pt-3 border-t border-gray-100">
             <div className="flex flex-wrap items-center gap-3">
@@ -0,0 +1,179 @@
+import React, { useCallback, useMemo } from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceRule, RecurrenceFrequency } from '../../types';
+import { describeRecurrence, parseLocalDate, WEEKDAY_NAMES } from '../../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null | undefined;
+  dueDate: string | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  afterCompletion: 'day(s) after completion',
+};
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, dueDate, onChange }) => {
+  // Defaults for new rules are taken from the due date when there is one
+  const anchor = useMemo(() => (dueDate ? parseLocalDate(dueDate) : new Date()), [dueDate]);
+
+  const handleFrequencyChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const frequency = e.target.value as RecurrenceFrequency | '';
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: value?.interval || 1,
+      endDate: value?.endDate || null,
+    };
+
+    if (frequency === 'weekly') {
+      rule.weekdays = value?.weekdays?.length ? value.weekdays : [anchor.getDay()];
+    } else if (frequency === 'monthly') {
+      rule.monthlyMode = 'dayOfMonth';
+      rule.dayOfMonth = anchor.getDate();
+    }
+
+    onChange(rule);
+  }, [value, anchor, onChange]);
+
+  const updateRule = useCallback((changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  }, [value, onChange]);
+
+  const toggleWeekday = useCallback((weekday: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    const updated = weekdays.includes(weekday)
+      ? weekdays.filter(d => d !== weekday)
+      : [...weekdays, weekday];
+
+    // Always keep at least one weekday selected
+    if (updated.length > 0) {
+      updateRule({ weekdays: updated });
+    }
+  }, [value, updateRule]);
+
+  const handleMonthlyModeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === 'nthWeekday') {
+      const nthWeek = Math.ceil(anchor.getDate() / 7);
+      updateRule({
+        monthlyMode: 'nthWeekday',
+        nthWeek: nthWeek > 4 ? -1 : nthWeek,
+        nthWeekday: anchor.getDay(),
+        dayOfMonth: undefined,
+      });
+    } else {
+      updateRule({
+        monthlyMode: 'dayOfMonth',
+        dayOfMonth: anchor.getDate(),
+        nthWeek: undefined,
+        nthWeekday: undefined,
+      });
+    }
+  }, [anchor, updateRule]);
+
+  return (
+    <div>
+      <div className="flex items-center mb-2">
+        <Repeat size={14} className="text-gray-400 mr-1" />
+        <span className="text-sm text-gray-500">Repeat:</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value?.frequency || ''}
+          onChange={handleFrequencyChange}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="afterCompletion">After completion</option>
+        </select>
+
+        {value && (
+          <div className="flex items-center text-sm text-gray-600">
+            <span className="mr-1">every</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={value.interval}
+              onChange={(e) => {
+                const interval = parseInt(e.target.value, 10);
+                updateRule({ interval: isNaN(interval) || interval < 1 ? 1 : interval });
+              }}
+              className="w-14 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+            <span className="ml-1">{FREQUENCY_UNITS[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex space-x-1 mt-2">
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <button
+              key={weekday}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              title={WEEKDAY_NAMES[weekday]}
+              className={`w-7 h-7 rounded-full text-xs font-medium ${
+                value.weekdays?.includes(weekday)
+                  ? 'bg-indigo-500 text-white'
+                  : 'bg-indigo-100 text-indigo-800 hover:bg-indigo-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <select
+          value={value.monthlyMode || 'dayOfMonth'}
+          onChange={handleMonthlyModeChange}
+          className="mt-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="dayOfMonth">On day {value.dayOfMonth || anchor.getDate()}</option>
+          <option value="nthWeekday">
+            On the {Math.ceil(anchor.getDate() / 7) > 4 ? 'last' : `#${Math.ceil(anchor.getDate() / 7)}`} {WEEKDAY_NAMES[anchor.getDay()]}
+          </option>
+        </select>
+      )}
+
+      {value && (
+        <div className="flex items-center mt-2 text-sm text-gray-600">
+          <span className="mr-2">Ends</span>
+          <input
+            type="date"
+            value={value.endDate || ''}
+            onChange={(e) => updateRule({ endDate: e.target.value || null })}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      )}
+
+      {value && (
+        <p className="mt-1 text-xs text-indigo-600">
+          {describeRecurrence(value)}
+          {!dueDate && value.frequency !== 'afterCompletion' && ' (set a due date to anchor the schedule)'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
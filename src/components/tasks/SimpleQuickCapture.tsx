@@ -1,7 +1,8 @@
-import React, { useState, memo, useCallback } from 'react';
+import React, { useState, memo, useCallback, useMemo } from 'react';
 import { Send } from 'lucide-react';
 import { useAppContext } from '../../context/AppContext';
-import { formatDate } from '../../utils/helpers';
+import { parseQuickCapture } from '../../utils/quickCaptureParser';
+import QuickCapturePreview from './QuickCapturePreview';
 
 interface SimpleQuickCaptureProps {
   placeholder?: string;
@@ -16,9 +17,14 @@ const SimpleQuickCapture: React.FC<SimpleQuickCaptureProps> = memo(({
   placeholder = 'Add a new task...',
   defaultDueDate = null
 }) => {
-  const { addTask } = useAppContext();
+  const { quickAddTask, projects, categories } = useAppContext();
   const [inputValue, setInputValue] = useState('');
   
+  // Parse as the user types so the preview stays live
+  const parsed = useMemo(() =>
+    parseQuickCapture(inputValue, { projects, categories }),
+  [inputValue, projects, categories]);
+  
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
   }, []);
@@ -28,70 +34,40 @@ const SimpleQuickCapture: React.FC<SimpleQuickCaptureProps> = memo(({
     
     if (!inputValue.trim()) return;
     
-    const taskTitle = inputValue.trim();
-    
-    // Process command modifiers (!today, !tomorrow, !high, etc)
-    let dueDate = defaultDueDate;
-    let priority: 'low' | 'medium' | 'high' | undefined = undefined;
-    
-    if (taskTitle.includes('!today')) {
-      dueDate = formatDate(new Date());
-    } else if (taskTitle.includes('!tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      dueDate = formatDate(tomorrow);
-    } else if (taskTitle.includes('!next-week')) {
-      const nextWeek = new Date();
-      nextWeek.setDate(nextWeek.getDate() + 7);
-      dueDate = formatDate(nextWeek);
-    }
-    
-    if (taskTitle.includes('!high')) {
-      priority = 'high';
-    } else if (taskTitle.includes('!medium')) {
-      priority = 'medium';
-    } else if (taskTitle.includes('!low')) {
-      priority = 'low';
-    }
-    
-    // Clean up the title by removing any command modifiers
-    const cleanTitle = taskTitle
-      .replace(/!today|!tomorrow|!next-week|!high|!medium|!low/g, '')
-      .trim();
-    
-    if (cleanTitle) {
-      addTask({
-        title: cleanTitle,
-        dueDate,
-        priority,
-        completed: false,
-        archived: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+    if (parsed.title) {
+      quickAddTask(inputValue, null, { dueDate: defaultDueDate });
       
       // Clear the input
       setInputValue('');
     }
-  }, [inputValue, defaultDueDate, addTask]);
+  }, [inputValue, parsed.title, defaultDueDate, quickAddTask]);
   
   return (
-    <form onSubmit={handleSubmit} className="relative">
-      <input
-        type="text"
-        className="w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2"
-        placeholder={placeholder}
-        value={inputValue}
-        onChange={handleInputChange}
+    <div>
+      <form onSubmit={handleSubmit} className="relative">
+        <input
+          type="text"
+          className="w-full border-gray-300 rounded-md shadow-sm focus:border-indigo-500 focus:ring-indigo-500 pl-4 pr-10 py-2"
+          placeholder={placeholder}
+          value={inputValue}
+          onChange={handleInputChange}
+        />
+        <button
+          type="submit"
+          className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-400 hover:text-indigo-500"
+          disabled={!inputValue.trim()}
+        >
+          <Send size={18} />
+        </button>
+      </form>
+    
+      <QuickCapturePreview
+        parsed={parsed}
+        projects={projects}
+        categories={categories}
+        className="mt-1 px-1"
       />
-      <button
-        type="submit"
-        className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-400 hover:text-indigo-500"
-        disabled={!inputValue.trim()}
-      >
-        <Send size={18} />
-      </button>
-    </form>
+    </div>
   );
 });
 
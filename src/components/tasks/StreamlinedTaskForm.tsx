@@ -2,6 +2,10 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Task } from '../../types';
 import { useAppContext } from '../../context/AppContext';
 import Button from '../common/Button';
+import RecurrenceEditor from './RecurrenceEditor';
+import DependencySelector from './DependencySelector';
+import TaskHistoryPanel from './TaskHistoryPanel';
+import { getEstimateBreakdown, getMultiplierForTask, correctEstimate } from '../../utils/estimateAnalytics';
 import { 
   Calendar, 
   Clock, 
@@ -16,7 +20,8 @@ import {
   GitBranch,
   ListChecks,
   Plus,
-  X
+  X,
+  History
 } from 'lucide-react';
 
 interface StreamlinedTaskFormProps {
@@ -32,10 +37,17 @@ export const StreamlinedTaskForm: React.FC<StreamlinedTaskFormProps> = ({
   onClose,
   isEdit = false,
 }) => {
-  const { addTask, updateTask, deleteTask, projects, categories, tasks } = useAppContext();
+  const { addTask, updateTask, deleteTask, projects, categories, tasks, focusSessions } = useAppContext();
+  
+  // How actual focused time has compared with estimates so far
+  const estimateBreakdown = React.useMemo(() =>
+    getEstimateBreakdown(tasks, focusSessions, projects, categories),
+  [tasks, focusSessions, projects, categories]);
+  const [estimateAdjusted, setEstimateAdjusted] = useState(false);
   
   // Advanced mode toggle
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   
   // Use useMemo for initialState to avoid recreation on every render
   const initialState = React.useMemo(() => {
@@ -69,7 +81,7 @@ export const StreamlinedTaskForm: React.FC<StreamlinedTaskFormProps> = ({
     if (task) {
       setFormData({ ...task });
       // Show advanced options if they have values
-      if (task.energyLevel || task.size || task.estimatedMinutes || task.description) {
+      if (task.energyLevel || task.size || task.estimatedMinutes || task.description || task.recurrence || task.blockedBy?.length) {
         setShowAdvanced(true);
       }
     } else {
@@ -736,6 +748,20 @@ export const StreamlinedTaskForm: React.FC<StreamlinedTaskFormProps> = ({
             </div>
           </div>
           
+          {/* Dependencies */}
+          <DependencySelector
+            taskId={task?.id}
+            value={formData.blockedBy || []}
+            onChange={(blockedBy) => setFormData(prev => ({ ...prev, blockedBy }))}
+          />
+          
+          {/* Recurrence */}
+          <RecurrenceEditor
+            value={formData.recurrence}
+            dueDate={formData.dueDate || null}
+            onChange={(recurrence) => setFormData(prev => ({ ...prev, recurrence }))}
+          />
+          
           {/* Time estimate */}
           <div>
             <div className="flex items-center mb-1">
@@ -760,10 +786,53 @@ export const StreamlinedTaskForm: React.FC<StreamlinedTaskFormProps> = ({
               }}
               className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
             />
+            {(() => {
+              const timeMultiplier = getMultiplierForTask(formData, estimateBreakdown);
+              if (!timeMultiplier || Math.abs(timeMultiplier.multiplier - 1) < 0.1) return null;
+
+              const suggested = correctEstimate(formData.estimatedMinutes || 30, timeMultiplier.multiplier);
+              return (
+                <p className="mt-1 text-xs text-indigo-600">
+                  You usually take {timeMultiplier.multiplier.toFixed(1)}× {timeMultiplier.multiplier > 1 ? 'longer' : 'as long'} on {timeMultiplier.label}
+                  {timeMultiplier.key === 'overall' ? '' : ' tasks'} ({timeMultiplier.sampleSize} tracked).{' '}
+                  {!estimateAdjusted && suggested !== formData.estimatedMinutes && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setFormData(prev => ({ ...prev, estimatedMinutes: suggested }));
+                        setEstimateAdjusted(true);
+                      }}
+                      className="underline hover:text-indigo-800"
+                    >
+                      Use {suggested} min
+                    </button>
+                  )}
+                </p>
+              );
+            })()}
           </div>
         </div>
       )}
       
+      {/* Change history - only for existing tasks */}
+      {isEdit && task && (
+        <div className="pt-2 border-t border-gray-100">
+          <button
+            type="button"
+            className="flex items-center text-sm text-gray-500 hover:text-gray-700 focus:outline-none"
+            onClick={() => setShowHistory(!showHistory)}
+          >
+            <History size={16} className="mr-1" />
+            {showHistory ? 'Hide history' : 'Show history'}
+          </button>
+          {showHistory && (
+            <div className="mt-2">
+              <TaskHistoryPanel task={task} onReverted={onClose} />
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* Form actions */}
       <div className="pt-4 border-t border-gray-200 flex justify-between">
         {/* Delete button (only show when editing) */}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { CheckCircle2, Circle, ChevronRight, ChevronDown, Calendar, Folder, Tags, Trash2 } from 'lucide-react';
+import { CheckCircle2, Circle, ChevronRight, ChevronDown, Calendar, Folder, Tags, Trash2, Clock } from 'lucide-react';
 import { Task, Project, Category } from '../../types';
 import Badge from '../common/Badge';
 import { formatDateForDisplay } from '../../utils/helpers';
@@ -23,7 +23,8 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onDelete,
 }) => {
   const [expanded, setExpanded] = useState(false);
-  const { completeTask, tasks } = useAppContext();
+  const { completeTask, tasks, actualMinutesByTask } = useAppContext();
+  const actualMinutes = Math.round(actualMinutesByTask.get(task.id) || 0);
   
   const project = task.projectId 
     ? projects.find(p => p.id === task.projectId) 
@@ -102,6 +103,19 @@ const TaskCard: React.FC<TaskCardProps> = ({
                   </div>
                 )}
                 
+                {(task.estimatedMinutes || actualMinutes > 0) && (
+                  <div
+                    className={`flex items-center text-xs ${
+                      task.estimatedMinutes && actualMinutes > task.estimatedMinutes ? 'text-red-600' : 'text-gray-500'
+                    }`}
+                  >
+                    <Clock size={14} className="mr-1" />
+                    {actualMinutes > 0
+                      ? `${actualMinutes}${task.estimatedMinutes ? ` / ${task.estimatedMinutes}` : ''} min`
+                      : `${task.estimatedMinutes} min`}
+                  </div>
+                )}
+                
                 {project && (
                   <div className="flex items-center text-xs">
                     <Folder size={14} className="mr-1" style={{ color: project.color }} />
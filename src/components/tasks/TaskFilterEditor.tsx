@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { useAppContext } from '../../context/AppContext';
+import { TaskFilter, TaskFilterInclusion } from '../../types';
+import { DEFAULT_TASK_FILTER, DUE_FILTER_LABELS } from '../../utils/taskFilters';
+
+interface TaskFilterEditorProps {
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+}
+
+type ListKey = 'projectIds' | 'categoryIds' | 'priorities' | 'energyLevels' | 'sizes' | 'tags';
+
+const LEVELS = ['low', 'medium', 'high'] as const;
+const SIZES = ['small', 'medium', 'large'] as const;
+
+const INCLUSION_OPTIONS: { value: TaskFilterInclusion; label: string }[] = [
+  { value: 'hide', label: 'Hide' },
+  { value: 'include', label: 'Include' },
+  { value: 'only', label: 'Only' },
+];
+
+const toOptions = (values: readonly string[]) =>
+  values.map(value => ({ value, label: value.charAt(0).toUpperCase() + value.slice(1) }));
+
+const chipClass = (selected: boolean) =>
+  `px-2 py-0.5 rounded-full text-xs border ${
+    selected
+      ? 'bg-indigo-600 text-white border-indigo-600'
+      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+  }`;
+
+/**
+ * Build a task filter from project, category, priority, energy, size, tag,
+ * due date and status conditions
+ */
+const TaskFilterEditor: React.FC<TaskFilterEditorProps> = ({ filter, onChange }) => {
+  const { projects, categories, tasks } = useAppContext();
+
+  const allTags = useMemo(() => {
+    const tags = new Set<string>();
+    tasks.forEach(task => (task.tags || []).forEach(tag => tags.add(tag)));
+    filter.tags.forEach(tag => tags.add(tag));
+    return Array.from(tags).sort((a, b) => a.localeCompare(b));
+  }, [tasks, filter.tags]);
+
+  const update = (changes: Partial<TaskFilter>) => onChange({ ...filter, ...changes });
+
+  const toggle = (key: ListKey, value: string) => {
+    const values = filter[key] as string[];
+    update({
+      [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+    } as Partial<TaskFilter>);
+  };
+
+  const isSelected = (key: ListKey, value: string) => (filter[key] as string[]).includes(value);
+
+  const renderChips = (key: ListKey, options: { value: string; label: string }[]) => (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          className={chipClass(isSelected(key, option.value))}
+          onClick={() => toggle(key, option.value)}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderInclusion = (key: 'completed' | 'archived', label: string) => (
+    <div className="flex items-center justify-between">
+      <span className="text-sm text-gray-700">{label}</span>
+      <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+        {INCLUSION_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            className={`px-2 py-0.5 text-xs ${
+              filter[key] === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+            onClick={() => update({ [key]: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Projects</p>
+          {projects.length > 0
+            ? renderChips('projectIds', projects.map(project => ({ value: project.id, label: project.name })))
+            : <p className="text-xs text-gray-500">No projects yet</p>}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Categories</p>
+          {categories.length > 0
+            ? renderChips('categoryIds', categories.map(category => ({ value: category.id, label: category.name })))
+            : <p className="text-xs text-gray-500">No categories yet</p>}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Priority</p>
+          {renderChips('priorities', toOptions(LEVELS))}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Energy</p>
+          {renderChips('energyLevels', toOptions(LEVELS))}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Size</p>
+          {renderChips('sizes', toOptions(SIZES))}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Tags</p>
+          {allTags.length > 0
+            ? renderChips('tags', allTags.map(tag => ({ value: tag, label: `#${tag}` })))
+            : <p className="text-xs text-gray-500">No tagged tasks yet</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="dueFilter" className="block text-sm font-medium text-gray-700 mb-1">
+            Due date
+          </label>
+          <select
+            id="dueFilter"
+            value={filter.due}
+            onChange={e => update({ due: e.target.value as TaskFilter['due'] })}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            {(Object.keys(DUE_FILTER_LABELS) as TaskFilter['due'][]).map(due => (
+              <option key={due} value={due}>{DUE_FILTER_LABELS[due]}</option>
+            ))}
+          </select>
+          {filter.due === 'range' && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <input
+                type="date"
+                aria-label="Due from"
+                value={filter.dueFrom || ''}
+                max={filter.dueTo || undefined}
+                onChange={e => update({ dueFrom: e.target.value || null })}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+              <input
+                type="date"
+                aria-label="Due to"
+                value={filter.dueTo || ''}
+                min={filter.dueFrom || undefined}
+                onChange={e => update({ dueTo: e.target.value || null })}
+                className="block w-full rounded-md border-gray-300 shadow-sm text-sm"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Status</p>
+          {renderInclusion('completed', 'Completed tasks')}
+          {renderInclusion('archived', 'Archived tasks')}
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filter.noEstimate}
+              onChange={e => update({ noEstimate: e.target.checked })}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+            />
+            <span className="ml-2">Only tasks without a time estimate</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          className="text-sm text-gray-500 hover:text-gray-700"
+          onClick={() => onChange(DEFAULT_TASK_FILTER)}
+        >
+          Clear all conditions
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskFilterEditor;
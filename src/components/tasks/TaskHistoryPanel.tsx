@@ -0,0 +1,85 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Task } from '../../types';
+import { useAppContext } from '../../context/AppContext';
+import { getChangedFields, getRecordHistory } from '../../utils/history';
+
+interface TaskHistoryPanelProps {
+  task: Task;
+  onReverted?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  completed: 'completed',
+  completedAt: 'completed',
+  archived: 'archived',
+  dueDate: 'due date',
+  dueTime: 'due time',
+  projectId: 'project',
+  categoryIds: 'categories',
+  parentTaskId: 'parent task',
+  subtasks: 'subtasks',
+  priority: 'priority',
+  energyLevel: 'energy',
+  size: 'size',
+  estimatedMinutes: 'estimate',
+  blockedBy: 'blocked by',
+  unblockedAt: 'unblocked',
+  recurrence: 'repeat',
+  delegatedTo: 'delegated to',
+  followUpDate: 'follow-up date',
+  startedAt: 'started',
+};
+
+const describeFields = (fields: string[]): string => {
+  const labels = Array.from(new Set(fields.map(field => FIELD_LABELS[field] || field)));
+  return labels.length > 0 ? `Changed ${labels.join(', ')}` : 'No visible changes';
+};
+
+/**
+ * Recorded changes to one task, newest first, each of which can be reverted
+ */
+const TaskHistoryPanel: React.FC<TaskHistoryPanelProps> = ({ task, onReverted }) => {
+  const { historyOperations, revertTaskChange } = useAppContext();
+  const entries = getRecordHistory(historyOperations, 'tasks', task.id);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No recorded changes yet.</p>;
+  }
+
+  const handleRevert = async (operationId: string) => {
+    await revertTaskChange(operationId, task.id);
+    if (onReverted) onReverted();
+  };
+
+  return (
+    <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+      {entries.map(({ operation, change }) => (
+        <li key={operation.id} className="flex items-center justify-between py-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-800">{operation.label}</p>
+            <p className="text-xs text-gray-500">
+              {new Date(operation.timestamp).toLocaleString()} ·{' '}
+              {!change.before ? 'Created' : !change.after ? 'Deleted' : describeFields(getChangedFields(change))}
+            </p>
+          </div>
+          {change.before && (
+            <button
+              type="button"
+              className="ml-3 flex items-center text-xs text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+              onClick={() => handleRevert(operation.id)}
+              title="Put the task back the way it was before this change"
+            >
+              <RotateCcw size={14} className="mr-1" />
+              Revert
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TaskHistoryPanel;
@@ -1,32 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { Task, WhatNowCriteria } from '../../types';
+import { Task, WhatNowCriteria, TaskRecommendation, RecommendationWeights } from '../../types';
 import { useAppContext } from '../../context/AppContext';
 import Card from '../common/Card';
 import Button from '../common/Button';
 import TaskCard from '../tasks/TaskCard';
-import { CloudLightning as Lightning, Clock, BrainCircuit } from 'lucide-react';
+import { CloudLightning as Lightning, Clock, BrainCircuit, Lightbulb, SlidersHorizontal } from 'lucide-react';
+import { DEFAULT_RECOMMENDATION_WEIGHTS } from '../../utils/recommendations';
+import { isRecoveryDay } from '../../utils/nightShifts';
+import { formatDate } from '../../utils/helpers';
+
+const WEIGHT_LABELS: Record<keyof RecommendationWeights, string> = {
+  urgency: 'Due date urgency',
+  priority: 'Priority',
+  energy: 'Energy match',
+  timeFit: 'Fits available time',
+  neglect: 'Neglected for a while',
+};
 
 interface WhatNowWizardProps {
   onSelectTask: (task: Task) => void;
 }
 
 const WhatNowWizard: React.FC<WhatNowWizardProps> = ({ onSelectTask }) => {
-  const { recommendTasks, projects, categories, deleteTask } = useAppContext();
+  const {
+    recommendTasks,
+    recommendationWeights,
+    updateRecommendationWeights,
+    getShiftForDate,
+    projects,
+    categories,
+    deleteTask
+  } = useAppContext();
   
   const [step, setStep] = useState(1);
-  const [criteria, setCriteria] = useState<WhatNowCriteria>({
+  const recoveryDay = isRecoveryDay(formatDate(new Date()), getShiftForDate);
+  const [criteria, setCriteria] = useState<WhatNowCriteria>(() => ({
     availableTime: 'medium',
-    energyLevel: 'medium',
+    energyLevel: recoveryDay ? 'low' : 'medium',
     blockers: [],
-  });
+    lowEnergyOnly: recoveryDay,
+  }));
   
-  const [recommendedTasks, setRecommendedTasks] = useState<Task[]>([]);
+  const [recommendedTasks, setRecommendedTasks] = useState<TaskRecommendation[]>([]);
   const [newBlocker, setNewBlocker] = useState('');
+  const [showWeights, setShowWeights] = useState(false);
   
   useEffect(() => {
     if (step === 4) {
-      const tasks = recommendTasks(criteria);
-      setRecommendedTasks(tasks);
+      const recommendations = recommendTasks(criteria);
+      setRecommendedTasks(recommendations);
     }
   }, [step, criteria, recommendTasks]);
   
@@ -61,6 +83,10 @@ const WhatNowWizard: React.FC<WhatNowWizardProps> = ({ onSelectTask }) => {
     setStep(4);
   };
   
+  const handleWeightChange = (key: keyof RecommendationWeights, value: number) => {
+    updateRecommendationWeights({ ...recommendationWeights, [key]: value });
+  };
+  
   const handleReset = () => {
     setStep(1);
     setCriteria({
@@ -302,21 +328,87 @@ const WhatNowWizard: React.FC<WhatNowWizardProps> = ({ onSelectTask }) => {
                 </li>
               )}
             </ul>
+            {recoveryDay && (
+              <label className="flex items-center mt-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded text-indigo-600"
+                  checked={!!criteria.lowEnergyOnly}
+                  onChange={e => setCriteria(prev => ({ ...prev, lowEnergyOnly: e.target.checked }))}
+                />
+                Recovery day after a night shift: only suggest low-energy tasks
+              </label>
+            )}
           </div>
         </div>
       </Card>
       
+      <div>
+        <button
+          onClick={() => setShowWeights(!showWeights)}
+          className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <SlidersHorizontal size={16} className="mr-1" />
+          {showWeights ? 'Hide' : 'Adjust'} what matters most
+        </button>
+        
+        {showWeights && (
+          <Card className="mt-2">
+            <div className="space-y-3">
+              {(Object.keys(WEIGHT_LABELS) as (keyof RecommendationWeights)[]).map(key => (
+                <div key={key} className="flex items-center">
+                  <label htmlFor={`weight-${key}`} className="w-48 text-sm text-gray-700">
+                    {WEIGHT_LABELS[key]}
+                  </label>
+                  <input
+                    id={`weight-${key}`}
+                    type="range"
+                    min="0"
+                    max="5"
+                    step="1"
+                    value={recommendationWeights[key]}
+                    onChange={(e) => handleWeightChange(key, parseInt(e.target.value, 10))}
+                    className="flex-grow"
+                  />
+                  <span className="w-6 text-right text-sm text-gray-500">{recommendationWeights[key]}</span>
+                </div>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => updateRecommendationWeights(DEFAULT_RECOMMENDATION_WEIGHTS)}
+                >
+                  Reset to defaults
+                </Button>
+              </div>
+            </div>
+          </Card>
+        )}
+      </div>
+      
       <div className="space-y-4">
         {recommendedTasks.length > 0 ? (
-          recommendedTasks.map(task => (
-            <TaskCard
-              key={task.id}
-              task={task}
-              projects={projects}
-              categories={categories}
-              onEdit={onSelectTask}
-              onDelete={deleteTask}
-            />
+          recommendedTasks.map(({ task, score, reasons }) => (
+            <div key={task.id}>
+              <TaskCard
+                task={task}
+                projects={projects}
+                categories={categories}
+                onEdit={onSelectTask}
+                onDelete={deleteTask}
+              />
+              {reasons.length > 0 && (
+                <div className="-mt-1 mb-2 ml-4 flex items-start text-sm text-indigo-700">
+                  <Lightbulb size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <span className="font-medium">Why this task: </span>
+                    {reasons.join(' · ')}
+                    <span className="ml-2 text-xs text-gray-400">score {score}</span>
+                  </div>
+                </div>
+              )}
+            </div>
           ))
         ) : (
           <div className="text-center py-8 text-gray-500">
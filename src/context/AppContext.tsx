@@ -1,17 +1,131 @@
-import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { Task, Project, Category, DailyPlan, WhatNowCriteria, JournalEntry } from '../types';
-import { WorkSchedule, WorkShift, ShiftType, DEFAULT_SHIFTS } from '../types/WorkSchedule';
+import React, { createContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
+import { Task, Project, Category, DailyPlan, WhatNowCriteria, JournalEntry, RecommendationWeights, TaskRecommendation, FocusSession, PomodoroSettings, AccountabilityRecord, AccountabilityAction, ExportData, MergeItem, SavedView, TaskFilter, TaskListPreferences, HistoryOperation, HistoryRecordChange, BackupSummary, BackupComparison, SyncSettings, SyncStatus, SyncResult } from '../types';
+import { WorkSchedule, WorkShift, ShiftType, ShiftPattern, DEFAULT_SHIFTS } from '../types/WorkSchedule';
 
 // Import storage mechanisms
 import * as localStorage from '../utils/localStorage';
 import * as dexieStorage from '../utils/dexieStorage';
-import { generateId, createSampleData, getISOWeekAndYear } from '../utils/helpers';
+import { generateId, createSampleData, getISOWeekAndYear, formatDate } from '../utils/helpers';
+import { anchorRecurrence, getNextDueDate } from '../utils/recurrence';
+import { assertNoDependencyCycle, updateUnblockedFlags } from '../utils/dependencies';
+import { getRecommendations, DEFAULT_RECOMMENDATION_WEIGHTS } from '../utils/recommendations';
+import { parseQuickCapture } from '../utils/quickCaptureParser';
+import { ImportValidationError, readExportFile } from '../utils/exportFormat';
+import { buildMergePlan, applyMergePlan } from '../utils/mergeImport';
+import { compareBackup } from '../utils/backups';
+import { openExportFile } from '../utils/encryption';
+import { DEFAULT_SYNC_SETTINGS, getLastSyncedAt, syncWithServer } from '../utils/syncEngine';
+import { createHttpSyncTransport } from '../utils/syncTransport';
+import { getPatternShiftDate, getScheduleShiftForDate, getScheduleShifts, isPatternShiftId } from '../utils/shiftPattern';
+import { createSearchIndex, syncSearchIndex, SearchContext, SearchResult } from '../utils/searchIndex';
+import { normalizeTaskFilter } from '../utils/taskFilters';
+import { DEFAULT_TASK_LIST_PREFERENCES } from '../utils/taskListLayout';
+import {
+  HistoryDirection,
+  applyHistoryChanges,
+  createHistoryOperation,
+  diffRecord,
+  diffRecords,
+  getRedoOperation,
+  getUndoOperation,
+  markOperation,
+  recordOperation
+} from '../utils/history';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TrashSelection,
+  getTrashSelection,
+  isTrashed,
+  moveTasksToTrash,
+  purgeFromTrash,
+  restoreTasksFromTrash
+} from '../utils/trash';
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  createFocusSession,
+  pauseFocusSession as pauseSession,
+  resumeFocusSession as resumeSession,
+  endFocusSession,
+  getNextPomodoroPhase,
+  getActualMinutesByTask
+} from '../utils/focusSessions';
 
 interface DeletedTask {
   task: Task;
   timestamp: number;
 }
 
+/**
+ * Toggle a task's completion. Completing a recurring task adds its next
+ * occurrence, and tasks waiting on it are flagged as unblocked.
+ */
+const toggleTaskCompletion = (tasks: Task[], taskId: string, timestamp: string): Task[] => {
+  const taskToUpdate = tasks.find(t => t.id === taskId);
+  if (!taskToUpdate) return tasks;
+
+  const updatedTask = {
+    ...taskToUpdate,
+    completed: !taskToUpdate.completed,
+    completedAt: taskToUpdate.completed ? null : timestamp,
+    updatedAt: timestamp,
+  };
+
+  let updatedTasks = tasks.map(task =>
+    task.id === taskId ? updatedTask : task
+  );
+
+  // Spawn the next occurrence when a recurring task is completed
+  if (updatedTask.completed && updatedTask.recurrence) {
+    const seriesId = updatedTask.recurringSeriesId || updatedTask.id;
+    const nextDueDate = getNextDueDate(updatedTask, formatDate(new Date()));
+
+    // Don't spawn twice if the task is un-completed and completed again
+    const alreadySpawned = tasks.some(t =>
+      t.id !== taskId &&
+      !t.completed &&
+      (t.recurringSeriesId || t.id) === seriesId &&
+      t.dueDate === nextDueDate
+    );
+
+    if (nextDueDate && !alreadySpawned) {
+      const nextOccurrence: Task = {
+        ...updatedTask,
+        id: generateId(),
+        completed: false,
+        archived: false,
+        dueDate: nextDueDate,
+        recurrence: anchorRecurrence(updatedTask.recurrence, updatedTask.dueDate || nextDueDate),
+        subtasks: [],
+        recurringSeriesId: seriesId,
+        unblockedAt: null,
+        startedAt: null,
+        completedAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      updatedTasks = updatedTasks.map(task =>
+        task.id === taskId ? { ...updatedTask, recurringSeriesId: seriesId } : task
+      );
+      updatedTasks.push(nextOccurrence);
+
+      // Keep the parent's subtask list in sync when a recurring subtask repeats
+      if (nextOccurrence.parentTaskId) {
+        updatedTasks = updatedTasks.map(task =>
+          task.id === nextOccurrence.parentTaskId
+            ? { ...task, subtasks: [...task.subtasks, nextOccurrence.id], updatedAt: timestamp }
+            : task
+        );
+      }
+    }
+  }
+
+  // Flag tasks whose last blocker was just completed (or re-block them)
+  updatedTasks = updateUnblockedFlags(updatedTasks, taskId, timestamp);
+
+  return updatedTasks;
+};
+
 // We'll use Dexie storage as our only storage mechanism
 const storage = dexieStorage;
 
@@ -19,14 +133,19 @@ interface AppContextType {
   // Tasks
   tasks: Task[];
   addTask: (task: Partial<Task>) => Promise<Task>;
-  quickAddTask: (title: string, projectId?: string | null) => Promise<Task>;
+  quickAddTask: (input: string, projectId?: string | null, defaults?: Partial<Task>) => Promise<Task>;
   addSubtask: (parentId: string, subtaskData: Partial<Task>) => Promise<Task>;
   updateTask: (task: Task) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
   completeTask: (taskId: string) => Promise<void>;
+  completeTasks: (taskIds: string[]) => Promise<void>;
+  updateTasks: (taskIds: string[], changes: Partial<Omit<Task, 'id'>>) => Promise<void>;
+  deleteTasks: (taskIds: string[]) => Promise<void>;
   archiveCompletedTasks: () => Promise<void>;
+  rescheduleTasks: (changes: { taskId: string; dueDate: string | null }[]) => Promise<void>;
   undoDelete: () => Promise<void>;
   hasRecentlyDeleted: boolean;
+  revertTaskChange: (operationId: string, taskId: string) => Promise<void>;
 
   // Projects
   projects: Project[];
@@ -52,8 +171,11 @@ interface AppContextType {
   addWorkShift: (date: string, shiftType?: ShiftType) => Promise<WorkShift>;
   updateWorkShift: (shift: WorkShift) => Promise<void>;
   deleteWorkShift: (shiftId: string) => Promise<void>;
+  importWorkShifts: (shifts: WorkShift[], replaceShiftIds?: string[]) => Promise<void>;
   getShiftsForMonth: (year: number, month: number) => WorkShift[];
   getShiftForDate: (date: string) => WorkShift | undefined;
+  setShiftPattern: (pattern: ShiftPattern | null) => Promise<void>;
+  removeShiftDayOff: (dayOffId: string) => Promise<void>;
 
   // Journal Entries
   journalEntries: JournalEntry[];
@@ -65,13 +187,72 @@ interface AppContextType {
   getLatestWeeklyReview: () => { weekNumber: number; weekYear: number; entries: JournalEntry[] } | null;
 
   // What Now Wizard
-  recommendTasks: (criteria: WhatNowCriteria) => Task[];
+  recommendTasks: (criteria: WhatNowCriteria) => TaskRecommendation[];
+  recommendationWeights: RecommendationWeights;
+  updateRecommendationWeights: (weights: RecommendationWeights) => void;
+
+  // Trash
+  trashedTasks: Task[];
+  trashedProjects: Project[];
+  trashedCategories: Category[];
+  restoreFromTrash: (selection: TrashSelection) => Promise<void>;
+  deleteFromTrash: (selection: TrashSelection) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  trashRetentionDays: number;
+  updateTrashRetentionDays: (days: number) => void;
+
+  // Change History
+  historyOperations: HistoryOperation[];
+  undo: () => Promise<HistoryOperation | null>;
+  redo: () => Promise<HistoryOperation | null>;
+
+  // Search
+  searchAll: (query: string, limit?: number) => SearchResult[];
+
+  // Saved Views
+  savedViews: SavedView[];
+  addSavedView: (name: string, filter: TaskFilter, pinned?: boolean) => SavedView;
+  updateSavedView: (view: SavedView) => void;
+  deleteSavedView: (viewId: string) => void;
+  taskListPreferences: TaskListPreferences;
+  updateTaskListPreferences: (preferences: TaskListPreferences) => void;
+
+  // Focus Sessions
+  focusSessions: FocusSession[];
+  activeFocusSession: FocusSession | null;
+  actualMinutesByTask: Map<string, number>;
+  pomodoroSettings: PomodoroSettings;
+  updatePomodoroSettings: (settings: PomodoroSettings) => void;
+  startFocusSession: (taskId: string, mode?: 'pomodoro' | 'open', cycle?: number) => Promise<FocusSession>;
+  pauseFocusSession: () => Promise<void>;
+  resumeFocusSession: () => Promise<void>;
+  stopFocusSession: () => Promise<void>;
+  advanceFocusSession: () => Promise<FocusSession | null>;
+
+  // Accountability
+  accountabilityRecords: AccountabilityRecord[];
+  recordAccountabilityCheckIn: (task: Task, reasonId: string, reasonText: string, action: AccountabilityAction) => Promise<AccountabilityRecord>;
 
   // Data Management
-  exportData: () => Promise<string>;
-  importData: (jsonData: string) => Promise<boolean>;
+  exportData: (passphrase?: string) => Promise<string>;
+  importData: (jsonData: string, passphrase?: string) => Promise<boolean>;
+  previewMergeImport: (jsonData: string) => MergeItem[];
+  applyMergeImport: (items: MergeItem[]) => Promise<void>;
   resetData: () => Promise<void>;
   initializeSampleData: () => Promise<void>;
+  backups: BackupSummary[];
+  createBackup: () => Promise<BackupSummary | null>;
+  readBackup: (backupId: string) => Promise<string>;
+  compareWithBackup: (backupId: string, passphrase?: string) => Promise<BackupComparison[]>;
+  restoreBackup: (backupId: string, passphrase?: string) => Promise<boolean>;
+  backupEncryptionEnabled: boolean;
+  updateBackupPassphrase: (currentPassphrase: string, newPassphrase: string | null) => Promise<void>;
+
+  // Sync
+  syncSettings: SyncSettings;
+  updateSyncSettings: (settings: SyncSettings) => void;
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<SyncResult>;
   performDatabaseMaintenance: () => Promise<void>;
 
   // Storage Management - using Dexie only now
@@ -103,10 +284,15 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [dailyPlans, setDailyPlans] = useState<DailyPlan[]>([]);
   const [workSchedule, setWorkSchedule] = useState<WorkSchedule | null>(null);
   const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
+  const [focusSessions, setFocusSessions] = useState<FocusSession[]>([]);
+  const [accountabilityRecords, setAccountabilityRecords] = useState<AccountabilityRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDataInitialized, setIsDataInitialized] = useState(false);
   const [isError, setIsError] = useState(false);
   const [deletedTasks, setDeletedTasks] = useState<DeletedTask[]>([]);
+  const [historyOperations, setHistoryOperations] = useState<HistoryOperation[]>([]);
+  const [backups, setBackups] = useState<BackupSummary[]>([]);
+  const [backupEncryptionEnabled, setBackupEncryptionEnabled] = useState(false);
   // We only use Dexie now
 
   // Clean up old deleted tasks
@@ -157,6 +343,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setDailyPlans([]);
         setWorkSchedule(null);
         setJournalEntries([]);
+        setFocusSessions([]);
+        setAccountabilityRecords([]);
 
         // Try to compact the database first to improve performance
         try {
@@ -190,15 +378,21 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
           // Finally load the remaining data that isn't needed immediately
           console.log('Loading remaining data...');
-          const [dailyPlansData, workScheduleData, journalEntriesData] = await Promise.all([
+          const [dailyPlansData, workScheduleData, journalEntriesData, focusSessionsData, accountabilityData] = await Promise.all([
             storage.getDailyPlans(),
             storage.getWorkSchedule(),
-            storage.getJournalEntries()
+            storage.getJournalEntries(),
+            storage.getFocusSessions(),
+            storage.getAccountabilityRecords()
           ]);
 
           setDailyPlans(dailyPlansData);
           setWorkSchedule(workScheduleData);
           setJournalEntries(journalEntriesData);
+          setFocusSessions(focusSessionsData);
+          setAccountabilityRecords(accountabilityData);
+
+          setHistoryOperations(await storage.getHistoryOperations());
 
           console.log('All data loaded successfully');
         } catch (loadError) {
@@ -208,6 +402,15 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         // Regardless of whether we loaded all data or not, stop the loading indicator
         setIsLoading(false);
+
+        // Take today's and this week's backups if they're due
+        try {
+          setBackupEncryptionEnabled(await storage.isBackupEncryptionEnabled());
+          await storage.runScheduledBackups();
+          setBackups(await storage.getBackups());
+        } catch (backupError) {
+          console.error('Error taking scheduled backups:', backupError);
+        }
       } catch (error) {
         console.error('Error in data loading process:', error);
         setIsError(true);
@@ -218,6 +421,60 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     loadData();
   // Use empty dependency array to ensure this only runs once at mount
   }, []);
+
+  // Change History
+  // Log a change for undo/redo. The change itself is already saved, so a
+  // failure here is logged rather than reported as a failed change.
+  const recordHistory = useCallback(async (label: string, changes: HistoryRecordChange[]): Promise<void> => {
+    if (changes.length === 0) return;
+    try {
+      const operation = createHistoryOperation(label, changes);
+      setHistoryOperations(prev => recordOperation(prev, operation));
+      await storage.addHistoryOperation(operation);
+    } catch (error) {
+      console.error('Error recording history:', error);
+    }
+  }, []);
+
+  // Write back one side of an operation, to the database and then to state
+  const applyHistory = useCallback(async (operation: HistoryOperation, direction: HistoryDirection): Promise<void> => {
+    await storage.applyHistoryOperation(operation, direction);
+
+    const { changes } = operation;
+    setTasks(prev => applyHistoryChanges(prev, changes, 'tasks', direction));
+    setProjects(prev => applyHistoryChanges(prev, changes, 'projects', direction));
+    setCategories(prev => applyHistoryChanges(prev, changes, 'categories', direction));
+    setDailyPlans(prev => applyHistoryChanges(prev, changes, 'dailyPlans', direction));
+    setJournalEntries(prev => applyHistoryChanges(prev, changes, 'journalEntries', direction));
+    setWorkSchedule(prev => applyHistoryChanges(prev ? [prev] : [], changes, 'workSchedules', direction)[0] || null);
+    setHistoryOperations(prev => markOperation(prev, operation.id, direction));
+  }, []);
+
+  const undo = useCallback(async (): Promise<HistoryOperation | null> => {
+    const operation = getUndoOperation(historyOperations);
+    if (!operation) return null;
+    try {
+      await applyHistory(operation, 'undo');
+      return operation;
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [historyOperations, applyHistory]);
+
+  const redo = useCallback(async (): Promise<HistoryOperation | null> => {
+    const operation = getRedoOperation(historyOperations);
+    if (!operation) return null;
+    try {
+      await applyHistory(operation, 'redo');
+      return operation;
+    } catch (error) {
+      console.error('Error redoing change:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [historyOperations, applyHistory]);
   
   // Tasks
   const addTask = useCallback(async (taskData: Partial<Task>): Promise<Task> => {
@@ -238,12 +495,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         updatedAt: timestamp,
         ...taskData,
       };
+      // Monthly rules keep the day of the month the series starts on
+      if (newTask.recurrence && newTask.dueDate) {
+        newTask.recurrence = anchorRecurrence(newTask.recurrence, newTask.dueDate);
+      }
+
+      // Reject "blocked by" relations that would make tasks wait on each other forever
+      assertNoDependencyCycle(newTask, [...tasks, newTask]);
 
       const updatedTasks = [...tasks, newTask];
       setTasks(updatedTasks);
 
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
+      let savedTasks = updatedTasks;
 
       // Update parent task if this is a subtask
       if (newTask.parentTaskId) {
@@ -261,16 +526,18 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
           setTasks(finalTasks);
           await storage.saveTasks(finalTasks);
+          savedTasks = finalTasks;
         }
       }
 
+      await recordHistory('Add task', diffRecords('tasks', tasks, savedTasks));
       return newTask;
     } catch (error) {
       console.error('Error adding task:', error);
       setIsError(true);
       throw error;
     }
-  }, [tasks]);
+  }, [tasks, recordHistory]);
 
   const updateTask = useCallback(async (updatedTask: Task): Promise<void> => {
     try {
@@ -280,6 +547,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const timestamp = new Date().toISOString();
       const taskWithTimestamp = {
         ...updatedTask,
+        ...(updatedTask.recurrence && updatedTask.dueDate
+          ? { recurrence: anchorRecurrence(updatedTask.recurrence, updatedTask.dueDate) }
+          : {}),
         updatedAt: timestamp,
       };
 
@@ -287,11 +557,16 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const updatedTasks = tasks.map(task =>
         task.id === updatedTask.id ? taskWithTimestamp : task
       );
+
+      // Reject "blocked by" relations that would make tasks wait on each other forever
+      assertNoDependencyCycle(taskWithTimestamp, updatedTasks);
+
       setTasks(updatedTasks);
 
       // Perform the async operation
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
+      await recordHistory('Edit task', diffRecords('tasks', tasks, updatedTasks));
     } catch (error) {
       console.error('Error updating task:', error);
       setIsError(true);
@@ -300,7 +575,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Always reset loading state
       setSpecificLoadingState('tasks', false);
     }
-  }, [tasks, setSpecificLoadingState]);
+  }, [tasks, setSpecificLoadingState, recordHistory]);
 
   const deleteTask = useCallback(async (taskId: string): Promise<void> => {
     try {
@@ -313,99 +588,121 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }]);
       }
 
-      // Remove task from parent's subtasks if it's a subtask
-      if (taskToDelete?.parentTaskId) {
-        const parentTask = tasks.find(t => t.id === taskToDelete.parentTaskId);
-        if (parentTask) {
-          const updatedParent = {
-            ...parentTask,
-            subtasks: parentTask.subtasks.filter(id => id !== taskId),
-            updatedAt: new Date().toISOString(),
-          };
-
-          setTasks(prev => prev.map(t =>
-            t.id === updatedParent.id ? updatedParent : t
-          ));
-        }
-      }
-
-      // Delete all subtasks recursively
-      const deleteSubtasksRecursively = (parentId: string) => {
-        const subtaskIds = tasks
-          .filter(t => t.parentTaskId === parentId)
-          .map(t => t.id);
-
-        subtaskIds.forEach(id => {
-          deleteSubtasksRecursively(id);
-        });
-
-        setTasks(prev => prev.filter(t => t.id !== parentId && t.parentTaskId !== parentId));
-      };
-
-      deleteSubtasksRecursively(taskId);
-
-      // Delete the task itself
-      const updatedTasks = tasks.filter(task => task.id !== taskId);
+      // Move the task and its subtasks to the trash and drop it from its
+      // parent's subtasks and other tasks' blockers
+      const updatedTasks = moveTasksToTrash(tasks, [taskId], new Date().toISOString());
       setTasks(updatedTasks);
 
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
+      await recordHistory('Delete task', diffRecords('tasks', tasks, updatedTasks));
     } catch (error) {
       console.error('Error deleting task:', error);
       setIsError(true);
       throw error;
     }
-  }, [tasks]);
+  }, [tasks, recordHistory]);
 
   const undoDelete = useCallback(async (): Promise<void> => {
     try {
       if (deletedTasks.length === 0) return;
 
       const lastDeleted = deletedTasks[deletedTasks.length - 1];
-      const updatedTasks = [...tasks, lastDeleted.task];
+      setDeletedTasks(prev => prev.slice(0, -1));
+
+      // Already brought back by undo in the change history or from the trash
+      if (!tasks.some(t => t.id === lastDeleted.task.id && isTrashed(t))) return;
+
+      const updatedTasks = restoreTasksFromTrash(tasks, [lastDeleted.task.id], new Date().toISOString());
 
       setTasks(updatedTasks);
 
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
-
-      setDeletedTasks(prev => prev.slice(0, -1));
+      await recordHistory('Restore deleted task', diffRecords('tasks', tasks, updatedTasks));
     } catch (error) {
       console.error('Error undoing delete:', error);
       setIsError(true);
       throw error;
     }
-  }, [tasks, deletedTasks]);
+  }, [tasks, deletedTasks, recordHistory]);
 
   const hasRecentlyDeleted = deletedTasks.length > 0;
 
-  const completeTask = useCallback(async (taskId: string): Promise<void> => {
+  // Put a task back the way it was before one recorded change
+  const revertTaskChange = useCallback(async (operationId: string, taskId: string): Promise<void> => {
     try {
+      const change = historyOperations
+        .find(op => op.id === operationId)
+        ?.changes.find(c => c.table === 'tasks' && c.recordId === taskId);
+      const previous = change?.before as Task | null | undefined;
+      if (!previous) return;
+
       const timestamp = new Date().toISOString();
-      const taskToUpdate = tasks.find(t => t.id === taskId);
+      const restored: Task = { ...previous, updatedAt: timestamp };
+      let updatedTasks = tasks.some(t => t.id === taskId)
+        ? tasks.map(t => t.id === taskId ? restored : t)
+        : [...tasks, restored];
+
+      // A restored subtask goes back on its parent's list
+      if (restored.parentTaskId) {
+        updatedTasks = updatedTasks.map(t =>
+          t.id === restored.parentTaskId && !(t.subtasks || []).includes(taskId)
+            ? { ...t, subtasks: [...(t.subtasks || []), taskId], updatedAt: timestamp }
+            : t
+        );
+      }
 
-      if (!taskToUpdate) return;
+      setTasks(updatedTasks);
 
-      const updatedTask = {
-        ...taskToUpdate,
-        completed: !taskToUpdate.completed,
-        updatedAt: timestamp,
-      };
+      // Using dexie storage
+      await storage.saveTasks(updatedTasks);
+      await recordHistory(`Revert "${restored.title}"`, diffRecords('tasks', tasks, updatedTasks));
+    } catch (error) {
+      console.error('Error reverting task change:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, historyOperations, recordHistory]);
 
-      const updatedTasks = tasks.map(task =>
-        task.id === taskId ? updatedTask : task
-      );
+  const completeTask = useCallback(async (taskId: string): Promise<void> => {
+    try {
+      const task = tasks.find(t => t.id === taskId);
+      if (!task) return;
 
+      const updatedTasks = toggleTaskCompletion(tasks, taskId, new Date().toISOString());
       setTasks(updatedTasks);
 
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
+      await recordHistory(task.completed ? 'Reopen task' : 'Complete task', diffRecords('tasks', tasks, updatedTasks));
     } catch (error) {
       console.error('Error completing task:', error);
       setIsError(true);
       throw error;
     }
-  }, [tasks]);
+  }, [tasks, recordHistory]);
+
+  // Mark several tasks complete in one save; tasks already complete are left alone
+  const completeTasks = useCallback(async (taskIds: string[]): Promise<void> => {
+    try {
+      const timestamp = new Date().toISOString();
+      const updatedTasks = taskIds.reduce((current, taskId) => {
+        const task = current.find(t => t.id === taskId);
+        return task && !task.completed ? toggleTaskCompletion(current, taskId, timestamp) : current;
+      }, tasks);
+
+      setTasks(updatedTasks);
+
+      // Using dexie storage
+      await storage.saveTasks(updatedTasks);
+      await recordHistory('Complete tasks', diffRecords('tasks', tasks, updatedTasks));
+    } catch (error) {
+      console.error('Error completing tasks:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, recordHistory]);
 
   const archiveCompletedTasks = useCallback(async (): Promise<void> => {
     try {
@@ -427,12 +724,88 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveTasks(updatedTasks);
+      await recordHistory('Archive completed tasks', diffRecords('tasks', tasks, updatedTasks));
     } catch (error) {
       console.error('Error archiving completed tasks:', error);
       setIsError(true);
       throw error;
     }
-  }, [tasks]);
+  }, [tasks, recordHistory]);
+
+  // Change the due date of several tasks in one save
+  const rescheduleTasks = useCallback(async (changes: { taskId: string; dueDate: string | null }[]): Promise<void> => {
+    try {
+      const timestamp = new Date().toISOString();
+      const newDueDates = new Map(changes.map(change => [change.taskId, change.dueDate]));
+
+      const updatedTasks = tasks.map(task => {
+        if (newDueDates.has(task.id)) {
+          return {
+            ...task,
+            dueDate: newDueDates.get(task.id) as string | null,
+            updatedAt: timestamp,
+          };
+        }
+        return task;
+      });
+
+      setTasks(updatedTasks);
+
+      // Using dexie storage
+      await storage.saveTasks(updatedTasks);
+      await recordHistory('Reschedule tasks', diffRecords('tasks', tasks, updatedTasks));
+    } catch (error) {
+      console.error('Error rescheduling tasks:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, recordHistory]);
+
+  // Apply the same change (archive, move to a project, priority...) to several tasks in one save
+  const updateTasks = useCallback(async (taskIds: string[], changes: Partial<Omit<Task, 'id'>>): Promise<void> => {
+    try {
+      const timestamp = new Date().toISOString();
+      const ids = new Set(taskIds);
+
+      const updatedTasks = tasks.map(task =>
+        ids.has(task.id) ? { ...task, ...changes, updatedAt: timestamp } : task
+      );
+
+      setTasks(updatedTasks);
+
+      // Using dexie storage
+      await storage.saveTasks(updatedTasks);
+      await recordHistory('Edit tasks', diffRecords('tasks', tasks, updatedTasks));
+    } catch (error) {
+      console.error('Error updating tasks:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, recordHistory]);
+
+  // Move several tasks (and their subtasks) to the trash in one save; each can be undone like a single delete
+  const deleteTasks = useCallback(async (taskIds: string[]): Promise<void> => {
+    try {
+      const now = Date.now();
+      setDeletedTasks(prev => [
+        ...prev,
+        ...tasks
+          .filter(task => taskIds.includes(task.id))
+          .map(task => ({ task, timestamp: now })),
+      ]);
+
+      const updatedTasks = moveTasksToTrash(tasks, taskIds, new Date().toISOString());
+      setTasks(updatedTasks);
+
+      // Using dexie storage
+      await storage.saveTasks(updatedTasks);
+      await recordHistory('Delete tasks', diffRecords('tasks', tasks, updatedTasks));
+    } catch (error) {
+      console.error('Error deleting tasks:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, recordHistory]);
   
   // Projects
   const addProject = useCallback(async (projectData: Partial<Project>): Promise<Project> => {
@@ -453,13 +826,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveProjects(updatedProjects);
+      await recordHistory('Add project', diffRecords('projects', projects, updatedProjects));
       return newProject;
     } catch (error) {
       console.error('Error adding project:', error);
       setIsError(true);
       throw error;
     }
-  }, [projects]);
+  }, [projects, recordHistory]);
 
   const updateProject = useCallback(async (updatedProject: Project): Promise<void> => {
     try {
@@ -477,44 +851,32 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveProjects(updatedProjects);
+      await recordHistory('Edit project', diffRecords('projects', projects, updatedProjects));
     } catch (error) {
       console.error('Error updating project:', error);
       setIsError(true);
       throw error;
     }
-  }, [projects]);
+  }, [projects, recordHistory]);
 
   const deleteProject = useCallback(async (projectId: string): Promise<void> => {
     try {
-      // Remove project from tasks
-      const updatedTasks = tasks.map(task => {
-        if (task.projectId === projectId) {
-          return {
-            ...task,
-            projectId: null,
-            updatedAt: new Date().toISOString(),
-          };
-        }
-        return task;
-      });
-
-      setTasks(updatedTasks);
-
-      // Delete project
-      const updatedProjects = projects.filter(project => project.id !== projectId);
+      // Tasks keep their link so restoring the project brings it back
+      const timestamp = new Date().toISOString();
+      const updatedProjects = projects.map(project =>
+        project.id === projectId ? { ...project, deletedAt: timestamp, updatedAt: timestamp } : project
+      );
       setProjects(updatedProjects);
 
       // Using dexie storage
-      await Promise.all([
-        storage.saveTasks(updatedTasks),
-        storage.saveProjects(updatedProjects)
-      ]);
+      await storage.saveProjects(updatedProjects);
+      await recordHistory('Delete project', diffRecords('projects', projects, updatedProjects));
     } catch (error) {
       console.error('Error deleting project:', error);
       setIsError(true);
       throw error;
     }
-  }, [projects, tasks]);
+  }, [projects, recordHistory]);
   
   // Categories
   const addCategory = useCallback(async (categoryData: Partial<Category>): Promise<Category> => {
@@ -534,13 +896,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveCategories(updatedCategories);
+      await recordHistory('Add category', diffRecords('categories', categories, updatedCategories));
       return newCategory;
     } catch (error) {
       console.error('Error adding category:', error);
       setIsError(true);
       throw error;
     }
-  }, [categories]);
+  }, [categories, recordHistory]);
 
   const updateCategory = useCallback(async (updatedCategory: Category): Promise<void> => {
     try {
@@ -558,44 +921,115 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveCategories(updatedCategories);
+      await recordHistory('Edit category', diffRecords('categories', categories, updatedCategories));
     } catch (error) {
       console.error('Error updating category:', error);
       setIsError(true);
       throw error;
     }
-  }, [categories]);
+  }, [categories, recordHistory]);
 
   const deleteCategory = useCallback(async (categoryId: string): Promise<void> => {
     try {
-      // Remove category from tasks
-      const updatedTasks = tasks.map(task => {
-        if (task.categoryIds?.includes(categoryId) || false) {
-          return {
-            ...task,
-            categoryIds: task.categoryIds.filter(id => id !== categoryId),
-            updatedAt: new Date().toISOString(),
-          };
-        }
-        return task;
-      });
+      // Tasks keep their link so restoring the category brings it back
+      const timestamp = new Date().toISOString();
+      const updatedCategories = categories.map(category =>
+        category.id === categoryId ? { ...category, deletedAt: timestamp, updatedAt: timestamp } : category
+      );
+      setCategories(updatedCategories);
 
-      setTasks(updatedTasks);
+      // Using dexie storage
+      await storage.saveCategories(updatedCategories);
+      await recordHistory('Delete category', diffRecords('categories', categories, updatedCategories));
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [categories, recordHistory]);
+
+  // Trash
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(() =>
+    localStorage.getTrashRetentionDays() || DEFAULT_TRASH_RETENTION_DAYS
+  );
+
+  const updateTrashRetentionDays = useCallback((days: number): void => {
+    setTrashRetentionDays(days);
+    localStorage.saveTrashRetentionDays(days);
+  }, []);
+
+  const restoreFromTrash = useCallback(async (selection: TrashSelection): Promise<void> => {
+    try {
+      const timestamp = new Date().toISOString();
+      const restore = <T extends Project | Category>(records: T[], ids: string[]): T[] =>
+        records.map(record =>
+          ids.includes(record.id) && isTrashed(record) ? { ...record, deletedAt: null, updatedAt: timestamp } : record
+        );
 
-      // Delete category
-      const updatedCategories = categories.filter(category => category.id !== categoryId);
+      const updatedTasks = restoreTasksFromTrash(tasks, selection.taskIds, timestamp);
+      const updatedProjects = restore(projects, selection.projectIds);
+      const updatedCategories = restore(categories, selection.categoryIds);
+
+      setTasks(updatedTasks);
+      setProjects(updatedProjects);
       setCategories(updatedCategories);
 
       // Using dexie storage
       await Promise.all([
         storage.saveTasks(updatedTasks),
+        storage.saveProjects(updatedProjects),
         storage.saveCategories(updatedCategories)
       ]);
+      await recordHistory('Restore from trash', [
+        ...diffRecords('tasks', tasks, updatedTasks),
+        ...diffRecords('projects', projects, updatedProjects),
+        ...diffRecords('categories', categories, updatedCategories)
+      ]);
     } catch (error) {
-      console.error('Error deleting category:', error);
+      console.error('Error restoring from trash:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, projects, categories, recordHistory]);
+
+  // Permanently delete trashed items and unlink tasks from them
+  const deleteFromTrash = useCallback(async (selection: TrashSelection): Promise<void> => {
+    try {
+      const purged = purgeFromTrash({ tasks, projects, categories }, selection, new Date().toISOString());
+
+      setTasks(purged.tasks);
+      setProjects(purged.projects);
+      setCategories(purged.categories);
+
+      // Using dexie storage
+      await Promise.all([
+        storage.saveTasks(purged.tasks),
+        storage.saveProjects(purged.projects),
+        storage.saveCategories(purged.categories)
+      ]);
+      await recordHistory('Delete permanently', [
+        ...diffRecords('tasks', tasks, purged.tasks),
+        ...diffRecords('projects', projects, purged.projects),
+        ...diffRecords('categories', categories, purged.categories)
+      ]);
+    } catch (error) {
+      console.error('Error deleting from trash:', error);
       setIsError(true);
       throw error;
     }
-  }, [categories, tasks]);
+  }, [tasks, projects, categories, recordHistory]);
+
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    await deleteFromTrash(getTrashSelection({ tasks, projects, categories }));
+  }, [tasks, projects, categories, deleteFromTrash]);
+
+  // Everything outside the app context only sees what isn't in the trash
+  const activeTasks = useMemo(() => tasks.filter(task => !isTrashed(task)), [tasks]);
+  const activeProjects = useMemo(() => projects.filter(project => !isTrashed(project)), [projects]);
+  const activeCategories = useMemo(() => categories.filter(category => !isTrashed(category)), [categories]);
+  const trashedTasks = useMemo(() => tasks.filter(isTrashed), [tasks]);
+  const trashedProjects = useMemo(() => projects.filter(isTrashed), [projects]);
+  const trashedCategories = useMemo(() => categories.filter(isTrashed), [categories]);
   
   // Daily Plans
   const getDailyPlan = useCallback(async (date: string): Promise<DailyPlan | null> => {
@@ -629,12 +1063,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveDailyPlan(plan);
+      await recordHistory('Edit daily plan', diffRecords('dailyPlans', dailyPlans, updatedPlans));
     } catch (error) {
       console.error('Error saving daily plan:', error);
       setIsError(true);
       throw error;
     }
-  }, [dailyPlans]);
+  }, [dailyPlans, recordHistory]);
 
   // Function to make time blocks show up in calendar view
   const exportTimeBlocksToTasks = useCallback(async (date: string): Promise<number> => {
@@ -684,8 +1119,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Update local state first for responsive UI
       let updatedSchedule: WorkSchedule;
+      let previousSchedule: WorkSchedule | null = null;
 
       setWorkSchedule(prev => {
+        previousSchedule = prev;
         if (!prev) {
           updatedSchedule = {
             id: generateId(),
@@ -708,6 +1145,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // Save to storage
       // Using dexie storage
       await storage.saveWorkSchedule(updatedSchedule);
+      await recordHistory('Add work shift', diffRecord('workSchedules', previousSchedule, updatedSchedule!));
 
       return newShift;
     } catch (error) {
@@ -715,16 +1153,30 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsError(true);
       throw error;
     }
-  }, []);
+  }, [recordHistory]);
 
   const updateWorkShift = useCallback(async (updatedShift: WorkShift): Promise<void> => {
     try {
       // Update local state first for responsive UI
       let updatedSchedule: WorkSchedule | null = null;
+      let previousSchedule: WorkSchedule | null = null;
 
       setWorkSchedule(prev => {
+        previousSchedule = prev;
         if (!prev) return null;
 
+        // Changing a pattern shift stores a one-off shift for that date instead
+        if (isPatternShiftId(updatedShift.id) || !prev.shifts.some(shift => shift.id === updatedShift.id)) {
+          const oneOff: WorkShift = { ...updatedShift, id: generateId() };
+          delete oneOff.fromPattern;
+          updatedSchedule = {
+            ...prev,
+            shifts: [...prev.shifts, oneOff],
+            updatedAt: new Date().toISOString()
+          };
+          return updatedSchedule;
+        }
+
         updatedSchedule = {
           ...prev,
           shifts: prev.shifts.map(shift =>
@@ -739,22 +1191,35 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Save to storage
         // Using dexie storage
         await storage.saveWorkSchedule(updatedSchedule);
+        await recordHistory('Edit work shift', diffRecord('workSchedules', previousSchedule, updatedSchedule));
       }
     } catch (error) {
       console.error('Error updating work shift:', error);
       setIsError(true);
       throw error;
     }
-  }, []);
+  }, [recordHistory]);
 
   const deleteWorkShift = useCallback(async (shiftId: string): Promise<void> => {
     try {
       // Update local state first for responsive UI
       let updatedSchedule: WorkSchedule | null = null;
+      let previousSchedule: WorkSchedule | null = null;
 
       setWorkSchedule(prev => {
+        previousSchedule = prev;
         if (!prev) return null;
 
+        // Removing a pattern shift marks that day off and leaves the pattern alone
+        if (isPatternShiftId(shiftId)) {
+          updatedSchedule = {
+            ...prev,
+            daysOff: [...(prev.daysOff || []), { id: generateId(), date: getPatternShiftDate(shiftId) }],
+            updatedAt: new Date().toISOString()
+          };
+          return updatedSchedule;
+        }
+
         updatedSchedule = {
           ...prev,
           shifts: prev.shifts.filter(shift => shift.id !== shiftId),
@@ -767,13 +1232,51 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Save to storage
         // Using dexie storage
         await storage.saveWorkSchedule(updatedSchedule);
+        await recordHistory('Delete work shift', diffRecord('workSchedules', previousSchedule, updatedSchedule));
       }
     } catch (error) {
       console.error('Error deleting work shift:', error);
       setIsError(true);
       throw error;
     }
-  }, []);
+  }, [recordHistory]);
+  
+  const importWorkShifts = useCallback(async (shifts: WorkShift[], replaceShiftIds: string[] = []): Promise<void> => {
+    try {
+      // One state update for the whole roster; looping addWorkShift would save stale schedules
+      let updatedSchedule: WorkSchedule;
+      let previousSchedule: WorkSchedule | null = null;
+
+      setWorkSchedule(prev => {
+        previousSchedule = prev;
+        const now = new Date().toISOString();
+        if (!prev) {
+          updatedSchedule = {
+            id: generateId(),
+            name: 'My Work Schedule',
+            shifts,
+            createdAt: now,
+            updatedAt: now
+          };
+          return updatedSchedule;
+        }
+
+        updatedSchedule = {
+          ...prev,
+          shifts: [...prev.shifts.filter(shift => !replaceShiftIds.includes(shift.id)), ...shifts],
+          updatedAt: now
+        };
+        return updatedSchedule;
+      });
+
+      await storage.saveWorkSchedule(updatedSchedule!);
+      await recordHistory('Import work shifts', diffRecord('workSchedules', previousSchedule, updatedSchedule!));
+    } catch (error) {
+      console.error('Error importing work shifts:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [recordHistory]);
   
   const getShiftsForMonth = useCallback((year: number, month: number): WorkShift[] => {
     try {
@@ -781,12 +1284,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (!workSchedule.shifts || !Array.isArray(workSchedule.shifts)) return [];
 
       // Create date range for the given month
-      const startDate = new Date(year, month, 1).toISOString().split('T')[0];
-      const endDate = new Date(year, month + 1, 0).toISOString().split('T')[0];
+      const startDate = formatDate(new Date(year, month, 1));
+      const endDate = formatDate(new Date(year, month + 1, 0));
 
-      return workSchedule.shifts.filter(shift =>
-        shift && shift.date && shift.date >= startDate && shift.date <= endDate
-      );
+      // One-off shifts plus the rotation pattern, expanded for this month
+      return getScheduleShifts(workSchedule, startDate, endDate);
     } catch (error) {
       console.error('Error in getShiftsForMonth:', error);
       return [];
@@ -795,47 +1297,427 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   
   const getShiftForDate = useCallback((date: string): WorkShift | undefined => {
     if (!workSchedule || !workSchedule.shifts) return undefined;
-    return workSchedule.shifts.find(shift => shift.date === date);
+    return getScheduleShiftForDate(workSchedule, date);
   }, [workSchedule]);
+
+  const setShiftPattern = useCallback(async (pattern: ShiftPattern | null): Promise<void> => {
+    try {
+      let updatedSchedule: WorkSchedule;
+      let previousSchedule: WorkSchedule | null = null;
+
+      setWorkSchedule(prev => {
+        previousSchedule = prev;
+        const now = new Date().toISOString();
+        updatedSchedule = prev
+          ? { ...prev, pattern, updatedAt: now }
+          : { id: generateId(), name: 'My Work Schedule', shifts: [], pattern, createdAt: now, updatedAt: now };
+        return updatedSchedule;
+      });
+
+      await storage.saveWorkSchedule(updatedSchedule!);
+      await recordHistory('Change shift pattern', diffRecord('workSchedules', previousSchedule, updatedSchedule!));
+    } catch (error) {
+      console.error('Error saving shift pattern:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [recordHistory]);
+
+  const removeShiftDayOff = useCallback(async (dayOffId: string): Promise<void> => {
+    try {
+      let updatedSchedule: WorkSchedule | null = null;
+      let previousSchedule: WorkSchedule | null = null;
+
+      setWorkSchedule(prev => {
+        previousSchedule = prev;
+        if (!prev) return null;
+
+        updatedSchedule = {
+          ...prev,
+          daysOff: (prev.daysOff || []).filter(dayOff => dayOff.id !== dayOffId),
+          updatedAt: new Date().toISOString()
+        };
+        return updatedSchedule;
+      });
+
+      if (updatedSchedule) {
+        await storage.saveWorkSchedule(updatedSchedule);
+        await recordHistory('Restore pattern shift', diffRecord('workSchedules', previousSchedule, updatedSchedule));
+      }
+    } catch (error) {
+      console.error('Error removing day off:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [recordHistory]);
   
   // What Now Wizard
-  const recommendTasks = useCallback((criteria: WhatNowCriteria): Task[] => {
-    // Filter to incomplete tasks
-    let filteredTasks = tasks.filter(task => !task.completed);
-    
-    // Filter by available time
-    if (criteria.availableTime === 'short') {
-      // Prioritize tasks without subtasks, assuming they're quicker
-      filteredTasks = filteredTasks.filter(task => task.subtasks.length === 0);
+  const [recommendationWeights, setRecommendationWeights] = useState<RecommendationWeights>(() => ({
+    ...DEFAULT_RECOMMENDATION_WEIGHTS,
+    ...(localStorage.getRecommendationWeights() || {})
+  }));
+
+  const updateRecommendationWeights = useCallback((weights: RecommendationWeights): void => {
+    setRecommendationWeights(weights);
+    localStorage.saveRecommendationWeights(weights);
+  }, []);
+
+  const recommendTasks = useCallback((criteria: WhatNowCriteria): TaskRecommendation[] => {
+    return getRecommendations(activeTasks, criteria, recommendationWeights);
+  }, [activeTasks, recommendationWeights]);
+
+  // Search: the index follows tasks, projects and journal entries, re-indexing
+  // only the records that changed
+  const searchIndexRef = useRef(createSearchIndex());
+  const indexedRecordsRef = useRef<SearchContext | null>(null);
+
+  const syncSearch = useCallback((): SearchContext => {
+    const current = { tasks: activeTasks, projects: activeProjects, journalEntries };
+    syncSearchIndex(searchIndexRef.current, indexedRecordsRef.current, current);
+    indexedRecordsRef.current = current;
+    return current;
+  }, [activeTasks, activeProjects, journalEntries]);
+
+  useEffect(() => {
+    syncSearch();
+  }, [syncSearch]);
+
+  const searchAll = useCallback((query: string, limit?: number): SearchResult[] => {
+    // Sync first so a search in the same render as an edit sees it
+    const records = syncSearch();
+    return searchIndexRef.current.search(query, records, limit);
+  }, [syncSearch]);
+  
+  // Saved Views
+  const [savedViews, setSavedViews] = useState<SavedView[]>(() => localStorage.getSavedViews());
+
+  const addSavedView = useCallback((name: string, filter: TaskFilter, pinned = false): SavedView => {
+    const now = new Date().toISOString();
+    const view: SavedView = { id: generateId(), name, filter, pinned, createdAt: now, updatedAt: now };
+    setSavedViews(prev => {
+      const updated = [...prev, view];
+      localStorage.saveSavedViews(updated);
+      return updated;
+    });
+    return view;
+  }, []);
+
+  const updateSavedView = useCallback((view: SavedView): void => {
+    const updatedView = { ...view, updatedAt: new Date().toISOString() };
+    setSavedViews(prev => {
+      const updated = prev.map(v => v.id === view.id ? updatedView : v);
+      localStorage.saveSavedViews(updated);
+      return updated;
+    });
+  }, []);
+
+  const deleteSavedView = useCallback((viewId: string): void => {
+    setSavedViews(prev => {
+      const updated = prev.filter(v => v.id !== viewId);
+      localStorage.saveSavedViews(updated);
+      return updated;
+    });
+  }, []);
+  
+  // Task list layout, tab and filters, remembered between visits
+  const [taskListPreferences, setTaskListPreferences] = useState<TaskListPreferences>(() => {
+    const stored = localStorage.getTaskListPreferences();
+    return {
+      ...DEFAULT_TASK_LIST_PREFERENCES,
+      ...(stored || {}),
+      filter: normalizeTaskFilter(stored?.filter),
+    };
+  });
+
+  const updateTaskListPreferences = useCallback((preferences: TaskListPreferences): void => {
+    setTaskListPreferences(preferences);
+    localStorage.saveTaskListPreferences(preferences);
+  }, []);
+  
+  // Focus Sessions
+  const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings>(() => ({
+    ...DEFAULT_POMODORO_SETTINGS,
+    ...(localStorage.getPomodoroSettings() || {})
+  }));
+
+  const updatePomodoroSettings = useCallback((settings: PomodoroSettings): void => {
+    setPomodoroSettings(settings);
+    localStorage.savePomodoroSettings(settings);
+  }, []);
+
+  // Only one session runs at a time; it is the one that hasn't ended
+  const activeFocusSession = useMemo(() =>
+    focusSessions.find(session => session.endedAt === null) || null,
+  [focusSessions]);
+
+  const actualMinutesByTask = useMemo(() =>
+    getActualMinutesByTask(focusSessions),
+  [focusSessions]);
+
+  const persistFocusSessions = useCallback(async (changed: FocusSession[]): Promise<void> => {
+    const changedIds = new Set(changed.map(session => session.id));
+    setFocusSessions(prev => [
+      ...prev.filter(session => !changedIds.has(session.id)),
+      ...changed
+    ].sort((a, b) => a.startedAt.localeCompare(b.startedAt)));
+
+    for (const session of changed) {
+      await storage.saveFocusSession(session);
     }
-    
-    // Sort by energy level
-    filteredTasks.sort((a, b) => {
-      // For low energy, prioritize simpler tasks (those without subtasks)
-      if (criteria.energyLevel === 'low') {
-        return (a.subtasks.length - b.subtasks.length);
+  }, []);
+
+  const startFocusSession = useCallback(async (
+    taskId: string,
+    mode: 'pomodoro' | 'open' = 'pomodoro',
+    cycle: number = 1
+  ): Promise<FocusSession> => {
+    try {
+      const now = new Date();
+      const changed: FocusSession[] = [];
+
+      // Starting a new timer stops whatever was running
+      if (activeFocusSession) {
+        changed.push(endFocusSession(activeFocusSession, 'stopped', now));
       }
-      
-      // For high energy, prioritize complex tasks (those with subtasks)
-      if (criteria.energyLevel === 'high') {
-        return (b.subtasks.length - a.subtasks.length);
+
+      const session = createFocusSession(
+        taskId,
+        'focus',
+        mode === 'pomodoro' ? pomodoroSettings.focusMinutes : null,
+        cycle,
+        now
+      );
+      changed.push(session);
+
+      await persistFocusSessions(changed);
+
+      // The first focus session marks when work on the task started
+      const task = tasks.find(t => t.id === taskId);
+      if (task && !task.startedAt) {
+        const updatedTasks = tasks.map(t =>
+          t.id === taskId ? { ...t, startedAt: now.toISOString(), updatedAt: now.toISOString() } : t
+        );
+        setTasks(updatedTasks);
+        await storage.saveTasks(updatedTasks);
+        await recordHistory('Start task', diffRecords('tasks', tasks, updatedTasks));
       }
-      
-      // For medium energy, prioritize by due date
-      return a.dueDate && b.dueDate 
-        ? a.dueDate.localeCompare(b.dueDate)
-        : (a.dueDate ? -1 : (b.dueDate ? 1 : 0));
-    });
-    
-    // Return top 5 recommendations
-    return filteredTasks.slice(0, 5);
-  }, [tasks]);
+
+      return session;
+    } catch (error) {
+      console.error('Error starting focus session:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [tasks, activeFocusSession, pomodoroSettings, persistFocusSessions, recordHistory]);
+
+  const pauseFocusSession = useCallback(async (): Promise<void> => {
+    if (!activeFocusSession) return;
+    try {
+      await persistFocusSessions([pauseSession(activeFocusSession)]);
+    } catch (error) {
+      console.error('Error pausing focus session:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [activeFocusSession, persistFocusSessions]);
+
+  const resumeFocusSession = useCallback(async (): Promise<void> => {
+    if (!activeFocusSession) return;
+    try {
+      await persistFocusSessions([resumeSession(activeFocusSession)]);
+    } catch (error) {
+      console.error('Error resuming focus session:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [activeFocusSession, persistFocusSessions]);
+
+  const stopFocusSession = useCallback(async (): Promise<void> => {
+    if (!activeFocusSession) return;
+    try {
+      await persistFocusSessions([endFocusSession(activeFocusSession, 'stopped')]);
+    } catch (error) {
+      console.error('Error stopping focus session:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [activeFocusSession, persistFocusSessions]);
+
+  // Finish the current Pomodoro phase. A finished focus phase starts its break;
+  // a finished break waits for the user to start the next focus phase.
+  const advanceFocusSession = useCallback(async (): Promise<FocusSession | null> => {
+    if (!activeFocusSession) return null;
+    try {
+      const now = new Date();
+      const finished = endFocusSession(activeFocusSession, 'completed', now);
+      const changed: FocusSession[] = [finished];
+      let next: FocusSession | null = null;
+
+      if (finished.kind === 'focus') {
+        const phase = getNextPomodoroPhase(finished, pomodoroSettings);
+        next = createFocusSession(finished.taskId, phase.kind, phase.plannedMinutes, phase.cycle, now);
+        changed.push(next);
+      }
+
+      await persistFocusSessions(changed);
+      return next;
+    } catch (error) {
+      console.error('Error advancing focus session:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [activeFocusSession, pomodoroSettings, persistFocusSessions]);
+
+  // Accountability
+  const recordAccountabilityCheckIn = useCallback(async (
+    task: Task,
+    reasonId: string,
+    reasonText: string,
+    action: AccountabilityAction
+  ): Promise<AccountabilityRecord> => {
+    try {
+      const now = new Date();
+      const record: AccountabilityRecord = {
+        id: generateId(),
+        taskId: task.id,
+        taskTitle: task.title,
+        categoryIds: task.categoryIds || [],
+        reasonId,
+        reasonText,
+        action,
+        date: formatDate(now),
+        dueDate: task.dueDate,
+        createdAt: now.toISOString(),
+      };
+
+      setAccountabilityRecords(prev => [...prev, record]);
+      await storage.addAccountabilityRecord(record);
+      return record;
+    } catch (error) {
+      console.error('Error recording accountability check-in:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, []);
   
   // Data Management
-  const exportData = useCallback(async (): Promise<string> => {
+  // Backups
+  // Snapshot the data before something replaces all of it. Not being able to
+  // take the backup shouldn't stop the change the user asked for.
+  const backupBeforeChange = useCallback(async (note: string): Promise<void> => {
+    try {
+      await storage.createBackup('manual', note);
+      setBackups(await storage.getBackups());
+    } catch (error) {
+      console.error('Error taking backup:', error);
+    }
+  }, []);
+
+  const createBackup = useCallback(async (): Promise<BackupSummary | null> => {
+    try {
+      const backup = await storage.createBackup('manual');
+      setBackups(await storage.getBackups());
+      return backup;
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, []);
+
+  const readBackup = useCallback(async (backupId: string): Promise<string> => {
+    return storage.readBackup(backupId);
+  }, []);
+
+  const updateBackupPassphrase = useCallback(async (currentPassphrase: string, newPassphrase: string | null): Promise<void> => {
+    await storage.updateBackupPassphrase(currentPassphrase, newPassphrase);
+    setBackupEncryptionEnabled(!!newPassphrase);
+    setBackups(await storage.getBackups());
+  }, []);
+
+  // Sync
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(() => ({
+    ...DEFAULT_SYNC_SETTINGS,
+    ...(localStorage.getSyncSettings() || {})
+  }));
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({
+    isSyncing: false,
+    lastSyncedAt: null,
+    lastResult: null,
+    error: null
+  });
+  const hasSyncedOnOpenRef = useRef(false);
+
+  const updateSyncSettings = useCallback((settings: SyncSettings): void => {
+    setSyncSettings(settings);
+    localStorage.saveSyncSettings(settings);
+  }, []);
+
+  useEffect(() => {
+    getLastSyncedAt()
+      .then(lastSyncedAt => setSyncStatus(prev => ({ ...prev, lastSyncedAt })))
+      .catch(error => console.error('Error reading sync state:', error));
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<SyncResult> => {
+    setSyncStatus(prev => ({ ...prev, isSyncing: true, error: null }));
+    try {
+      if (!syncSettings.serverUrl.trim()) {
+        throw new Error('Enter the address of a sync server first');
+      }
+      const result = await syncWithServer(createHttpSyncTransport(syncSettings.serverUrl));
+
+      // Merged changes from other devices were written straight to the database
+      if (result.pulled > 0) {
+        const [tasksData, projectsData, categoriesData, dailyPlansData, workScheduleData, journalEntriesData, focusSessionsData, accountabilityData] = await Promise.all([
+          storage.getTasks(),
+          storage.getProjects(),
+          storage.getCategories(),
+          storage.getDailyPlans(),
+          storage.getWorkSchedule(),
+          storage.getJournalEntries(),
+          storage.getFocusSessions(),
+          storage.getAccountabilityRecords()
+        ]);
+        setTasks(tasksData);
+        setProjects(projectsData);
+        setCategories(categoriesData);
+        setDailyPlans(dailyPlansData);
+        setWorkSchedule(workScheduleData);
+        setJournalEntries(journalEntriesData);
+        setFocusSessions(focusSessionsData);
+        setAccountabilityRecords(accountabilityData);
+      }
+
+      setSyncStatus({ isSyncing: false, lastSyncedAt: result.syncedAt, lastResult: result, error: null });
+      return result;
+    } catch (error) {
+      // A server that can't be reached isn't a problem with the local data
+      console.error('Error syncing:', error);
+      setSyncStatus(prev => ({
+        ...prev,
+        isSyncing: false,
+        error: error instanceof Error ? error.message : 'Sync failed'
+      }));
+      throw error;
+    }
+  }, [syncSettings]);
+
+  // Sync once when the app opens, after the local data has loaded
+  useEffect(() => {
+    if (isLoading || hasSyncedOnOpenRef.current) return;
+    hasSyncedOnOpenRef.current = true;
+    if (syncSettings.syncOnOpen && syncSettings.serverUrl.trim()) {
+      syncNow().catch(() => {
+        // Already shown in the sync status
+      });
+    }
+  }, [isLoading, syncSettings, syncNow]);
+
+  const exportData = useCallback(async (passphrase?: string): Promise<string> => {
     try {
       // Using dexie storage
-      return await storage.exportData();
+      return await storage.exportData(passphrase);
     } catch (error) {
       console.error('Error exporting data:', error);
       setIsError(true);
@@ -843,8 +1725,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
-  const importData = useCallback(async (jsonData: string): Promise<boolean> => {
+  // Replace all data with an export file, keeping a backup of what was there
+  const replaceData = useCallback(async (jsonData: string, backupNote: string): Promise<boolean> => {
     try {
+      await backupBeforeChange(backupNote);
       setIsLoading(true);
       setSpecificLoadingState('importExport', true);
 
@@ -926,6 +1810,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             setSpecificLoadingState('journalEntries', false);
           }
 
+          try {
+            console.log('Loading focus sessions...');
+            const focusSessionsData = await storage.getFocusSessions();
+            setFocusSessions(focusSessionsData);
+          } catch (focusError) {
+            console.error('Error loading focus sessions after import:', focusError);
+          }
+
+          try {
+            console.log('Loading accountability records...');
+            const accountabilityData = await storage.getAccountabilityRecords();
+            setAccountabilityRecords(accountabilityData);
+          } catch (accountabilityError) {
+            console.error('Error loading accountability records after import:', accountabilityError);
+          }
+
+          // The change history doesn't carry over an import
+          setHistoryOperations([]);
+
           console.log('AppContext: All data reloaded successfully');
           setIsDataInitialized(true);
         } catch (reloadError) {
@@ -938,6 +1841,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       return result;
     } catch (error) {
+      // A file that fails validation is the user's to fix, not an app error
+      if (error instanceof ImportValidationError) {
+        throw error;
+      }
       console.error('Error importing data:', error);
       setIsError(true);
       return false;
@@ -945,10 +1852,83 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsLoading(false);
       setSpecificLoadingState('importExport', false);
     }
-  }, [loadingStates, setSpecificLoadingState]);
+  }, [loadingStates, setSpecificLoadingState, backupBeforeChange]);
+
+  // Encrypted files are opened first, so a wrong passphrase changes nothing
+  const importData = useCallback(async (jsonData: string, passphrase?: string): Promise<boolean> => {
+    return replaceData(await openExportFile(jsonData, passphrase), 'Before import');
+  }, [replaceData]);
+
+  const getLocalExportData = useCallback((): ExportData => ({
+    tasks,
+    projects,
+    categories,
+    dailyPlans,
+    workSchedule,
+    journalEntries,
+    focusSessions,
+    accountabilityRecords,
+  }), [tasks, projects, categories, dailyPlans, workSchedule, journalEntries, focusSessions, accountabilityRecords]);
+
+  const compareWithBackup = useCallback(async (backupId: string, passphrase?: string): Promise<BackupComparison[]> => {
+    const { data } = readExportFile(await openExportFile(await storage.readBackup(backupId), passphrase));
+    return compareBackup(getLocalExportData(), data);
+  }, [getLocalExportData]);
+
+  const restoreBackup = useCallback(async (backupId: string, passphrase?: string): Promise<boolean> => {
+    const storedData = await storage.readBackup(backupId);
+    // A wrong passphrase is for the user to fix, not a storage error
+    const jsonData = await openExportFile(storedData, passphrase);
+    try {
+      return await replaceData(jsonData, 'Before restoring a backup');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setIsError(true);
+      throw error;
+    }
+  }, [replaceData]);
+
+  // Compare an export file with the current data without changing anything
+  const previewMergeImport = useCallback((jsonData: string): MergeItem[] => {
+    const { data } = readExportFile(jsonData);
+    return buildMergePlan(getLocalExportData(), data);
+  }, [getLocalExportData]);
+
+  const applyMergeImport = useCallback(async (items: MergeItem[]): Promise<void> => {
+    try {
+      setSpecificLoadingState('importExport', true);
+      const { merged, changed } = applyMergePlan(getLocalExportData(), items);
+
+      await storage.mergeImportedRecords(changed);
+      await recordHistory('Merge import', [
+        ...diffRecords('tasks', tasks, merged.tasks),
+        ...diffRecords('projects', projects, merged.projects),
+        ...diffRecords('categories', categories, merged.categories),
+        ...diffRecords('dailyPlans', dailyPlans, merged.dailyPlans),
+        ...diffRecord('workSchedules', workSchedule, merged.workSchedule),
+        ...diffRecords('journalEntries', journalEntries, merged.journalEntries)
+      ]);
+
+      setTasks(merged.tasks);
+      setProjects(merged.projects);
+      setCategories(merged.categories);
+      setDailyPlans(merged.dailyPlans);
+      setWorkSchedule(merged.workSchedule);
+      setJournalEntries(merged.journalEntries);
+      setFocusSessions(merged.focusSessions);
+      setAccountabilityRecords(merged.accountabilityRecords);
+    } catch (error) {
+      console.error('Error merging imported data:', error);
+      setIsError(true);
+      throw error;
+    } finally {
+      setSpecificLoadingState('importExport', false);
+    }
+  }, [getLocalExportData, setSpecificLoadingState, tasks, projects, categories, dailyPlans, workSchedule, journalEntries, recordHistory]);
 
   const resetData = useCallback(async (): Promise<void> => {
     try {
+      await backupBeforeChange('Before reset');
       setIsLoading(true);
       // Using dexie storage
       await storage.resetData();
@@ -959,6 +1939,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setDailyPlans([]);
       setWorkSchedule(null);
       setJournalEntries([]);
+      setFocusSessions([]);
+      setAccountabilityRecords([]);
+      setHistoryOperations([]);
       setIsDataInitialized(false);
     } catch (error) {
       console.error('Error resetting data:', error);
@@ -966,7 +1949,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [backupBeforeChange]);
 
   const initializeSampleData = useCallback(async (): Promise<void> => {
     try {
@@ -994,6 +1977,12 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         storage.saveCategories(categoriesData)
       ]);
 
+      await recordHistory('Load sample data', [
+        ...diffRecords('tasks', tasks, tasksData),
+        ...diffRecords('projects', projects, projectsData),
+        ...diffRecords('categories', categories, categoriesData)
+      ]);
+
       // Update local state
       setTasks(tasksData);
       setProjects(projectsData);
@@ -1005,7 +1994,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [tasks, projects, categories, recordHistory]);
 
   // Journal Entries
   const addJournalEntry = useCallback(async (entryData: Partial<JournalEntry>): Promise<JournalEntry> => {
@@ -1031,13 +2020,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveJournalEntries(updatedEntries);
+      await recordHistory('Add journal entry', diffRecords('journalEntries', journalEntries, updatedEntries));
       return newEntry;
     } catch (error) {
       console.error('Error adding journal entry:', error);
       setIsError(true);
       throw error;
     }
-  }, [journalEntries]);
+  }, [journalEntries, recordHistory]);
 
   const updateJournalEntry = useCallback(async (updatedEntry: JournalEntry): Promise<void> => {
     try {
@@ -1055,12 +2045,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveJournalEntries(updatedEntries);
+      await recordHistory('Edit journal entry', diffRecords('journalEntries', journalEntries, updatedEntries));
     } catch (error) {
       console.error('Error updating journal entry:', error);
       setIsError(true);
       throw error;
     }
-  }, [journalEntries]);
+  }, [journalEntries, recordHistory]);
 
   const deleteJournalEntry = useCallback(async (entryId: string): Promise<void> => {
     try {
@@ -1069,12 +2060,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // Using dexie storage
       await storage.saveJournalEntries(updatedEntries);
+      await recordHistory('Delete journal entry', diffRecords('journalEntries', journalEntries, updatedEntries));
     } catch (error) {
       console.error('Error deleting journal entry:', error);
       setIsError(true);
       throw error;
     }
-  }, [journalEntries]);
+  }, [journalEntries, recordHistory]);
 
   const getJournalEntriesForDate = useCallback((date: string) => {
     return journalEntries.filter(entry => entry.date === date);
@@ -1200,50 +2192,33 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [tasks, addTask]);
 
   // Simple task creation with smart text parsing
-  const quickAddTask = useCallback(async (title: string, projectId: string | null = null): Promise<Task> => {
+  const quickAddTask = useCallback(async (
+    input: string,
+    projectId: string | null = null,
+    defaults: Partial<Task> = {}
+  ): Promise<Task> => {
     try {
-      let processedTitle = title.trim();
-      let dueDate: string | null = null;
-      let priority: 'low' | 'medium' | 'high' = 'medium';
-      const categoryIds: string[] = [];
-
-      // Extract date patterns
-      if (processedTitle.includes('!today')) {
-        const today = new Date();
-        dueDate = today.toISOString().split('T')[0];
-        processedTitle = processedTitle.replace('!today', '').trim();
-      } else if (processedTitle.includes('!tomorrow')) {
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        dueDate = tomorrow.toISOString().split('T')[0];
-        processedTitle = processedTitle.replace('!tomorrow', '').trim();
-      } else if (processedTitle.match(/!(\d+)d/)) {
-        const match = processedTitle.match(/!(\d+)d/);
-        if (match && match[1]) {
-          const days = parseInt(match[1], 10);
-          const date = new Date();
-          date.setDate(date.getDate() + days);
-          dueDate = date.toISOString().split('T')[0];
-          processedTitle = processedTitle.replace(/!(\d+)d/, '').trim();
-        }
-      }
+      const parsed = parseQuickCapture(input, { projects: activeProjects, categories: activeCategories });
 
-      // Extract priority
-      if (processedTitle.includes('!high')) {
-        priority = 'high';
-        processedTitle = processedTitle.replace('!high', '').trim();
-      } else if (processedTitle.includes('!low')) {
-        priority = 'low';
-        processedTitle = processedTitle.replace('!low', '').trim();
+      // "#name" that matches no project creates it
+      let parsedProjectId = parsed.projectId;
+      if (parsed.newProjectName) {
+        const project = await addProject({ name: parsed.newProjectName });
+        parsedProjectId = project.id;
       }
 
-      // Create and return the task
+      // Anything written in the text wins over the caller's defaults
       return await addTask({
-        title: processedTitle,
-        dueDate,
-        priority,
-        projectId,
-        categoryIds,
+        ...defaults,
+        title: parsed.title || input.trim(),
+        dueDate: parsed.dueDate ?? defaults.dueDate ?? null,
+        dueTime: parsed.dueTime ?? defaults.dueTime ?? null,
+        priority: parsed.priority ?? defaults.priority ?? 'medium',
+        energyLevel: parsed.energyLevel ?? defaults.energyLevel,
+        estimatedMinutes: parsed.estimatedMinutes ?? defaults.estimatedMinutes,
+        recurrence: parsed.recurrence ?? defaults.recurrence ?? null,
+        projectId: parsedProjectId ?? projectId,
+        categoryIds: Array.from(new Set([...(defaults.categoryIds || []), ...parsed.categoryIds])),
         completed: false
       });
     } catch (error) {
@@ -1251,22 +2226,28 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsError(true);
       throw error;
     }
-  }, [addTask]);
+  }, [activeProjects, activeCategories, addProject, addTask]);
 
   // Database maintenance
   const performDatabaseMaintenance = useCallback(async (): Promise<void> => {
     try {
       setIsLoading(true);
       console.log('Starting database maintenance...');
-      await storage.performDatabaseMaintenance();
+      await storage.performDatabaseMaintenance(trashRetentionDays);
       console.log('Database maintenance completed');
 
-      // Reload tasks after maintenance to reflect any changes
+      // Reload after maintenance to reflect archived tasks and purged trash
       try {
-        const tasksData = await storage.getTasks();
+        const [tasksData, projectsData, categoriesData] = await Promise.all([
+          storage.getTasks(),
+          storage.getProjects(),
+          storage.getCategories()
+        ]);
         setTasks(tasksData);
+        setProjects(projectsData);
+        setCategories(categoriesData);
       } catch (error) {
-        console.error('Error reloading tasks after maintenance:', error);
+        console.error('Error reloading data after maintenance:', error);
       }
     } catch (error) {
       console.error('Error performing database maintenance:', error);
@@ -1274,7 +2255,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [trashRetentionDays]);
 
   // Storage Management Functions
   const getCurrentStorage = useCallback((): string => {
@@ -1287,23 +2268,28 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
 
   const contextValue: AppContextType = {
-    tasks,
+    tasks: activeTasks,
     addTask,
     quickAddTask,
     addSubtask,
     updateTask,
     deleteTask,
     completeTask,
+    completeTasks,
+    updateTasks,
+    deleteTasks,
     archiveCompletedTasks,
+    rescheduleTasks,
     undoDelete,
     hasRecentlyDeleted,
+    revertTaskChange,
 
-    projects,
+    projects: activeProjects,
     addProject,
     updateProject,
     deleteProject,
 
-    categories,
+    categories: activeCategories,
     addCategory,
     updateCategory,
     deleteCategory,
@@ -1318,8 +2304,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     addWorkShift,
     updateWorkShift,
     deleteWorkShift,
+    importWorkShifts,
     getShiftsForMonth,
     getShiftForDate,
+    setShiftPattern,
+    removeShiftDayOff,
 
     journalEntries,
     addJournalEntry,
@@ -1330,11 +2319,63 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     getLatestWeeklyReview,
 
     recommendTasks,
+    recommendationWeights,
+    updateRecommendationWeights,
+
+    trashedTasks,
+    trashedProjects,
+    trashedCategories,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    trashRetentionDays,
+    updateTrashRetentionDays,
+
+    historyOperations,
+    undo,
+    redo,
+    searchAll,
+
+    savedViews,
+    addSavedView,
+    updateSavedView,
+    deleteSavedView,
+    taskListPreferences,
+    updateTaskListPreferences,
+
+    // Focus Sessions
+    focusSessions,
+    activeFocusSession,
+    actualMinutesByTask,
+    pomodoroSettings,
+    updatePomodoroSettings,
+    startFocusSession,
+    pauseFocusSession,
+    resumeFocusSession,
+    stopFocusSession,
+    advanceFocusSession,
+
+    // Accountability
+    accountabilityRecords,
+    recordAccountabilityCheckIn,
 
     exportData,
     importData,
+    previewMergeImport,
+    applyMergeImport,
     resetData,
     initializeSampleData,
+    backups,
+    createBackup,
+    readBackup,
+    compareWithBackup,
+    restoreBackup,
+    backupEncryptionEnabled,
+    updateBackupPassphrase,
+    syncSettings,
+    updateSyncSettings,
+    syncStatus,
+    syncNow,
     performDatabaseMaintenance,
 
     // Storage Management
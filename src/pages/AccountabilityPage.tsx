@@ -1,5 +1,6 @@
 import React from 'react';
 import AccountabilityCheckIn from '../components/planning/AccountabilityCheckIn';
+import AccountabilityInsights from '../components/planning/AccountabilityInsights';
 
 const AccountabilityPage: React.FC = () => {
   return (
@@ -14,6 +15,8 @@ const AccountabilityPage: React.FC = () => {
       
       <AccountabilityCheckIn />
       
+      <AccountabilityInsights />
+      
       <div className="bg-white rounded-lg shadow-sm p-4">
         <h2 className="text-lg font-semibold text-gray-900 mb-3">Why Accountability Matters for ADHD</h2>
         
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Task } from '../types';
 import CalendarView from '../components/calendar/CalendarView';
 import WorkScheduleSelector from '../components/calendar/WorkScheduleSelector';
+import CalendarExportModal from '../components/calendar/CalendarExportModal';
 import Modal from '../components/common/Modal';
 import { StreamlinedTaskForm } from '../components/tasks/StreamlinedTaskForm';
 
@@ -10,6 +11,7 @@ const CalendarPage: React.FC = () => {
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   
   const [showWorkSchedule, setShowWorkSchedule] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   
   const handleTaskSelect = (task: Task) => {
@@ -35,7 +37,13 @@ const CalendarPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Calendar</h1>
           <p className="text-gray-600">View your tasks by date</p>
         </div>
-        <div className="mt-4 md:mt-0">
+        <div className="mt-4 md:mt-0 flex space-x-2">
+          <button
+            className="px-4 py-2 rounded-md text-sm font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
+            onClick={() => setIsExportOpen(true)}
+          >
+            Export .ics
+          </button>
           <button 
             className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
               showWorkSchedule 
@@ -57,6 +65,8 @@ const CalendarPage: React.FC = () => {
       {/* Calendar View */}
       <CalendarView key={refreshKey} onEditTask={handleTaskSelect} />
       
+      <CalendarExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} />
+
       {/* Task Modal */}
       <Modal
         isOpen={isTaskModalOpen}
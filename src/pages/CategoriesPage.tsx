@@ -123,7 +123,7 @@ const CategoriesPage: React.FC = () => {
       >
         <div className="space-y-4">
           <p className="text-gray-600">
-            Are you sure you want to delete this category? Tasks associated with this category will remain, but will no longer have this category assigned.
+            Move this category to the trash? Its tasks stay where they are, and restoring the category from the trash gives it back to them.
           </p>
           <div className="flex justify-end space-x-3 pt-4">
             <Button
@@ -10,6 +10,7 @@ import {
   BookOpen
 } from 'lucide-react';
 import WeeklyReviewStatus from '../components/planning/WeeklyReviewStatus';
+import CapacityWarnings from '../components/planner/CapacityWarnings';
 import { useAppContext } from '../context/AppContext';
 import Card from '../components/common/Card';
 import Button from '../components/common/Button';
@@ -18,6 +19,7 @@ import Modal from '../components/common/Modal';
 import { StreamlinedTaskForm } from '../components/tasks/StreamlinedTaskForm';
 import { EnhancedQuickCapture } from '../components/tasks/EnhancedQuickCapture';
 import {
+  formatDate,
   getTasksDueToday,
   getTasksDueThisWeek,
   getOverdueTasks
@@ -175,6 +177,9 @@ const Dashboard: React.FC = () => {
         />
       </div>
 
+      {/* Shift days with more tasks than free time */}
+      <CapacityWarnings startDate={formatDate(new Date())} days={7} />
+
       {/* Memory Tools Section */}
       <div className="mb-6">
         <div className="flex justify-between items-center mb-3">
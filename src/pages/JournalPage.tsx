@@ -1,4 +1,5 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
 import Card from '../components/common/Card';
 import Button from '../components/common/Button';
@@ -9,6 +10,15 @@ import { getISOWeekAndYear } from '../utils/helpers';
 const JournalPage: React.FC = () => {
   const { journalEntries } = useAppContext();
   const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const linkedEntryId = searchParams.get('entry');
+
+  // Open and scroll to the entry picked in search (#/journal?entry=<id>)
+  useEffect(() => {
+    if (!linkedEntryId) return;
+    setExpandedEntryId(linkedEntryId);
+    document.getElementById(`journal-entry-${linkedEntryId}`)?.scrollIntoView({ block: 'center' });
+  }, [linkedEntryId]);
   
   // Group entries by week
   const entriesByWeek = useMemo(() => {
@@ -151,7 +161,7 @@ const JournalPage: React.FC = () => {
                     return 0;
                   })
                   .map(entry => (
-                    <div key={entry.id} className="p-4">
+                    <div key={entry.id} id={`journal-entry-${entry.id}`} className="p-4">
                       <div
                         className="flex items-center justify-between cursor-pointer"
                         onClick={() => toggleEntry(entry.id)}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import DailyPlannerGrid from '../components/planner/DailyPlannerGrid';
+import CapacityWarnings from '../components/planner/CapacityWarnings';
 import { ChevronLeft, ChevronRight, ExternalLink, Calendar } from 'lucide-react';
 import Button from '../components/common/Button';
 
@@ -157,6 +158,9 @@ const PlannerPage: React.FC = () => {
         </button>
       </div>
       
+      {/* Warn when the day's shift leaves too little time for the tasks due */}
+      <CapacityWarnings startDate={formattedDate} showSummary />
+      
       {/* Planner Grid */}
       <DailyPlannerGrid date={formattedDate} />
     </div>
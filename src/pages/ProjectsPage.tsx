@@ -123,7 +123,7 @@ const ProjectsPage: React.FC = () => {
       >
         <div className="space-y-4">
           <p className="text-gray-600">
-            Are you sure you want to delete this project? Any tasks associated with this project will remain, but will no longer be assigned to any project.
+            Move this project to the trash? Its tasks stay where they are, and restoring the project from the trash links them back to it.
           </p>
           <div className="flex justify-end space-x-3 pt-4">
             <Button
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useAppContext } from '../context/AppContext';
+import { Task, TaskFilter } from '../types';
+import { ImprovedTaskCard } from '../components/tasks/ImprovedTaskCard';
+import { StreamlinedTaskForm } from '../components/tasks/StreamlinedTaskForm';
+import TaskFilterEditor from '../components/tasks/TaskFilterEditor';
+import Modal from '../components/common/Modal';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import Empty from '../components/common/Empty';
+import { AlertTriangle, ArrowLeft, Calendar, CalendarDays, Check, Filter, Layers, Lock, Pin, PinOff, Trash2 } from 'lucide-react';
+import { DEFAULT_TASK_FILTER, TaskBuckets, describeTaskFilter, filterTasks, normalizeTaskFilter } from '../utils/taskFilters';
+
+const SECTIONS: { key: keyof Omit<TaskBuckets, 'all'>; label: string; icon: React.ReactNode; color: string }[] = [
+  { key: 'overdue', label: 'Overdue', icon: <AlertTriangle size={16} className="mr-2" />, color: 'text-red-600' },
+  { key: 'today', label: 'Today', icon: <Calendar size={16} className="mr-2" />, color: 'text-indigo-600' },
+  { key: 'tomorrow', label: 'Tomorrow', icon: <CalendarDays size={16} className="mr-2" />, color: 'text-indigo-600' },
+  { key: 'thisWeek', label: 'This Week', icon: <CalendarDays size={16} className="mr-2" />, color: 'text-indigo-600' },
+  { key: 'other', label: 'Other Tasks', icon: <Layers size={16} className="mr-2" />, color: 'text-gray-700' },
+  { key: 'blocked', label: 'Blocked', icon: <Lock size={16} className="mr-2" />, color: 'text-amber-600' },
+];
+
+/**
+ * A saved task filter, opened at /views/:viewId. /views/new creates one,
+ * starting from the filter passed in the navigation state if there is one.
+ */
+const SavedViewPage: React.FC = () => {
+  const { viewId } = useParams<{ viewId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { tasks, projects, categories, deleteTask, savedViews, addSavedView, updateSavedView, deleteSavedView } = useAppContext();
+
+  const isNew = viewId === 'new';
+  const view = savedViews.find(v => v.id === viewId);
+  const initialFilter = (location.state as { filter?: TaskFilter } | null)?.filter;
+
+  const [name, setName] = useState('');
+  const [filter, setFilter] = useState<TaskFilter>(DEFAULT_TASK_FILTER);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+
+  // Load the view's filter when another view is opened, but not after each save
+  const loadedViewId = useRef<string | undefined>();
+  useEffect(() => {
+    if (loadedViewId.current === viewId) return;
+    if (isNew) {
+      setName('');
+      setFilter(normalizeTaskFilter(initialFilter));
+      setIsEditing(true);
+    } else if (view) {
+      setName(view.name);
+      setFilter(normalizeTaskFilter(view.filter));
+      setIsEditing(false);
+    } else {
+      return;
+    }
+    loadedViewId.current = viewId;
+  }, [viewId, isNew, view, initialFilter]);
+
+  const results = useMemo(() => filterTasks(tasks, filter), [tasks, filter]);
+  const conditions = describeTaskFilter(filter, projects, categories);
+
+  // Matching subtasks are shown under their parent when the parent matches too
+  const matchedIds = useMemo(() => new Set(results.all.map(task => task.id)), [results]);
+  const topLevel = (list: Task[]) => list.filter(task => !task.parentTaskId || !matchedIds.has(task.parentTaskId));
+
+  const hasChanges = !view || view.name !== name || JSON.stringify(normalizeTaskFilter(view.filter)) !== JSON.stringify(filter);
+
+  if (!isNew && !view) {
+    return (
+      <Empty
+        title="View not found"
+        description="It may have been deleted."
+        action={
+          <Link to="/views" className="text-indigo-600 hover:text-indigo-800 text-sm font-medium">
+            Back to saved views
+          </Link>
+        }
+      />
+    );
+  }
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (view) {
+      updateSavedView({ ...view, name: trimmed, filter });
+      setIsEditing(false);
+    } else {
+      const created = addSavedView(trimmed, filter);
+      navigate(`/views/${created.id}`, { replace: true });
+    }
+  };
+
+  const handleDelete = () => {
+    if (view) deleteSavedView(view.id);
+    navigate('/views');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between md:items-center bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-start">
+          <Link to="/views" className="mr-3 mt-1 text-gray-400 hover:text-gray-600" aria-label="Back to saved views">
+            <ArrowLeft size={20} />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{view ? view.name : 'New View'}</h1>
+            <p className="text-gray-600">
+              {results.all.length} task{results.all.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+        <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
+          {view && (
+            <>
+              <Button
+                variant="secondary"
+                icon={view.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                onClick={() => updateSavedView({ ...view, pinned: !view.pinned })}
+              >
+                {view.pinned ? 'Unpin' : 'Pin to menu'}
+              </Button>
+              <Button variant="secondary" icon={<Trash2 size={16} />} onClick={() => setIsDeleteModalOpen(true)}>
+                Delete
+              </Button>
+            </>
+          )}
+          <Button variant="secondary" icon={<Filter size={16} />} onClick={() => setIsEditing(!isEditing)}>
+            {isEditing ? 'Hide Filters' : 'Edit Filters'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Conditions */}
+      {!isEditing && (
+        <div className="flex flex-wrap gap-2">
+          {conditions.length > 0 ? conditions.map(condition => (
+            <span key={condition} className="px-2 py-0.5 rounded-full text-xs bg-indigo-50 text-indigo-700 border border-indigo-100">
+              {condition}
+            </span>
+          )) : (
+            <span className="text-sm text-gray-500">All open tasks</span>
+          )}
+        </div>
+      )}
+
+      {/* Filter editor */}
+      {isEditing && (
+        <Card className="bg-gray-50">
+          <div className="space-y-4">
+            <label className="block text-sm font-medium text-gray-700">
+              View name
+              <input
+                type="text"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="e.g. Quick wins for low-energy days"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+            </label>
+
+            <TaskFilterEditor filter={filter} onChange={setFilter} />
+
+            <div className="flex justify-end space-x-2 pt-2 border-t border-gray-200">
+              {view && (
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    setName(view.name);
+                    setFilter(normalizeTaskFilter(view.filter));
+                    setIsEditing(false);
+                  }}
+                >
+                  Discard Changes
+                </Button>
+              )}
+              <Button
+                variant="primary"
+                icon={<Check size={16} />}
+                onClick={handleSave}
+                disabled={!name.trim() || !hasChanges}
+              >
+                {view ? 'Save View' : 'Create View'}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Results */}
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        {results.all.length > 0 ? (
+          <div className="space-y-6">
+            {SECTIONS.map(section => {
+              const sectionTasks = topLevel(results[section.key]);
+              if (sectionTasks.length === 0) return null;
+              return (
+                <div key={section.key}>
+                  <h3 className={`text-lg font-medium mb-3 flex items-center ${section.color}`}>
+                    {section.icon}
+                    {section.label}
+                  </h3>
+                  <div className="space-y-2">
+                    {sectionTasks.map(task => (
+                      <ImprovedTaskCard
+                        key={task.id}
+                        task={task}
+                        projects={projects}
+                        categories={categories}
+                        onEdit={setEditingTask}
+                        onDelete={deleteTask}
+                      />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <Empty title="No matching tasks" description="No tasks meet every condition of this view." />
+        )}
+      </div>
+
+      <Modal isOpen={!!editingTask} onClose={() => setEditingTask(null)} title="Edit Task">
+        {editingTask && (
+          <StreamlinedTaskForm task={editingTask} onClose={() => setEditingTask(null)} isEdit />
+        )}
+      </Modal>
+
+      <Modal isOpen={isDeleteModalOpen} onClose={() => setIsDeleteModalOpen(false)} title="Delete View" size="sm">
+        <p className="text-sm text-gray-600">
+          Delete the view "{view?.name}"? Its tasks are not affected.
+        </p>
+        <div className="mt-4 flex justify-end space-x-2">
+          <Button variant="secondary" onClick={() => setIsDeleteModalOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDelete}>
+            Delete
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default SavedViewPage;
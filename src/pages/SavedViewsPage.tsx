@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppContext } from '../context/AppContext';
+import Button from '../components/common/Button';
+import Empty from '../components/common/Empty';
+import { ListFilter, Pin, PinOff, Plus } from 'lucide-react';
+import { describeTaskFilter, filterTasks, normalizeTaskFilter } from '../utils/taskFilters';
+
+/**
+ * Every saved view with its conditions and how many tasks match right now
+ */
+const SavedViewsPage: React.FC = () => {
+  const { tasks, projects, categories, savedViews, updateSavedView } = useAppContext();
+
+  const counts = useMemo(() => new Map(savedViews.map(view =>
+    [view.id, filterTasks(tasks, normalizeTaskFilter(view.filter)).all.length]
+  )), [tasks, savedViews]);
+
+  const sortedViews = [...savedViews].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center bg-white rounded-lg shadow-sm p-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Saved Views</h1>
+          <p className="text-gray-600">Task lists built from your own filters. Pin the ones you use most to the menu.</p>
+        </div>
+        <Link to="/views/new" className="mt-4 md:mt-0">
+          <Button variant="primary" icon={<Plus size={16} />}>
+            New View
+          </Button>
+        </Link>
+      </div>
+
+      {sortedViews.length > 0 ? (
+        <ul className="bg-white rounded-lg shadow-sm divide-y divide-gray-100">
+          {sortedViews.map(view => {
+            const conditions = describeTaskFilter(normalizeTaskFilter(view.filter), projects, categories);
+            return (
+              <li key={view.id} className="flex items-center justify-between p-4">
+                <Link to={`/views/${view.id}`} className="min-w-0 flex-1 group">
+                  <p className="text-md font-medium text-gray-900 group-hover:text-indigo-600">
+                    {view.name}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {counts.get(view.id)} task{counts.get(view.id) !== 1 ? 's' : ''}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {conditions.length > 0 ? conditions.join(' · ') : 'All open tasks'}
+                  </p>
+                </Link>
+                <button
+                  className="ml-4 p-2 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-gray-100"
+                  onClick={() => updateSavedView({ ...view, pinned: !view.pinned })}
+                  title={view.pinned ? 'Unpin from menu' : 'Pin to menu'}
+                >
+                  {view.pinned ? <PinOff size={18} /> : <Pin size={18} />}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Empty
+            title="No saved views yet"
+            description="Combine projects, categories, priority, energy, due dates and more into a list you can come back to."
+            icon={<ListFilter className="mx-auto h-12 w-12 text-gray-400" />}
+            action={
+              <Link to="/views/new">
+                <Button variant="primary" icon={<Plus size={16} />}>
+                  Create a View
+                </Button>
+              </Link>
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsPage;
@@ -1,16 +1,28 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
 import Card from '../components/common/Card';
 import Button from '../components/common/Button';
 import Modal from '../components/common/Modal';
 import { testDexieDatabase } from '../utils/testDexie';
-import { analyzeImportFile, convertImportFormat } from '../utils/importAnalyzer';
-import { Download, Upload, Trash2, AlertCircle, Loader, Database, Check, FileText } from 'lucide-react';
+import { analyzeImportFile, convertImportFormat, ImportAnalysisResult } from '../utils/importAnalyzer';
+import { ImportValidationError } from '../utils/exportFormat';
+import { DecryptionError, decryptText, getPassphraseError, isEncryptedFile, openExportFile } from '../utils/encryption';
+import { detectExternalFormat } from '../utils/externalImporters';
+import { TRASH_RETENTION_OPTIONS } from '../utils/trash';
+import { ImportValidationIssue, MergeItem } from '../types';
+import MergeImportPreview from '../components/settings/MergeImportPreview';
+import BackupsCard from '../components/settings/BackupsCard';
+import SyncCard from '../components/settings/SyncCard';
+import CalendarExportModal from '../components/calendar/CalendarExportModal';
+import { Download, Upload, Trash2, AlertCircle, Loader, Database, Check, FileText, CalendarDays, Lock } from 'lucide-react';
 
 const SettingsPage: React.FC = () => {
   const {
     exportData,
     importData,
+    previewMergeImport,
+    applyMergeImport,
     resetData,
     initializeSampleData,
     performDatabaseMaintenance,
@@ -18,15 +30,37 @@ const SettingsPage: React.FC = () => {
     projects,
     categories,
     // Storage management
-    getCurrentStorage
+    getCurrentStorage,
+    pomodoroSettings,
+    updatePomodoroSettings,
+    createBackup,
+    trashedTasks,
+    trashedProjects,
+    trashedCategories,
+    trashRetentionDays,
+    updateTrashRetentionDays
   } = useAppContext();
 
+  const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseRepeat, setExportPassphraseRepeat] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [resetModalOpen, setResetModalOpen] = useState(false);
   const [importFile, setImportFile] = useState<File | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importIssues, setImportIssues] = useState<ImportValidationIssue[]>([]);
   const [importSuccess, setImportSuccess] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  // Encrypted files need their passphrase before they can be read
+  const [importIsEncrypted, setImportIsEncrypted] = useState(false);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  // Merge import: compare with existing data instead of replacing it
+  const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
+  const [mergeItems, setMergeItems] = useState<MergeItem[] | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [calendarExportOpen, setCalendarExportOpen] = useState(false);
   const [isPerformingMaintenance, setIsPerformingMaintenance] = useState(false);
   const [maintenanceSuccess, setMaintenanceSuccess] = useState(false);
   const [isEmergencyResetting, setIsEmergencyResetting] = useState(false);
@@ -34,14 +68,7 @@ const SettingsPage: React.FC = () => {
   const [emergencyResetSuccess, setEmergencyResetSuccess] = useState(false);
   // File analysis states
   const [isAnalyzingFile, setIsAnalyzingFile] = useState(false);
-  const [fileAnalysisResult, setFileAnalysisResult] = useState<{
-    valid: boolean;
-    topLevelKeys: string[];
-    format: string;
-    hasTasksData: boolean;
-    needsConversion: boolean;
-    conversionHints: string[];
-  } | null>(null);
+  const [fileAnalysisResult, setFileAnalysisResult] = useState<ImportAnalysisResult | null>(null);
   const [showAnalysisModal, setShowAnalysisModal] = useState(false);
   const [convertedContent, setConvertedContent] = useState<string | null>(null);
 
@@ -59,28 +86,54 @@ const SettingsPage: React.FC = () => {
     console.log('SettingsPage: Using storage type:', storage);
   }, [getCurrentStorage]);
   
-  const handleExportData = () => {
-    const data = exportData();
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `taskmanager-export-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    
-    // Clean up
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExportClick = () => {
+    setExportModalOpen(true);
+    setExportPassphrase('');
+    setExportPassphraseRepeat('');
+    setExportError(null);
+  };
+
+  const handleExportData = async () => {
+    // Leaving the passphrase empty exports an unencrypted file
+    const passphraseError = exportPassphrase ? getPassphraseError(exportPassphrase, exportPassphraseRepeat) : null;
+    if (passphraseError) {
+      setExportError(passphraseError);
+      return;
+    }
+
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const data = await exportData(exportPassphrase || undefined);
+      const blob = new Blob([data], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `taskmanager-export-${new Date().toISOString().split('T')[0]}${exportPassphrase ? '-encrypted' : ''}.json`;
+      document.body.appendChild(a);
+      a.click();
+
+      // Clean up
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setExportModalOpen(false);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
   };
   
   const handleImportClick = () => {
     setImportModalOpen(true);
     setImportFile(null);
     setImportError(null);
+    setImportIssues([]);
     setImportSuccess(false);
     setIsImporting(false);
+    setImportIsEncrypted(false);
+    setImportPassphrase('');
     // Reset file input if it exists
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -114,8 +167,16 @@ const SettingsPage: React.FC = () => {
 
         setImportFile(e.target.files[0]);
         setImportError(null);
+        setImportIssues([]);
         setFileAnalysisResult(null); // Reset any previous analysis
         setConvertedContent(null);
+        setImportIsEncrypted(false);
+        setImportPassphrase('');
+
+        // Ask for the passphrase up front if the file is encrypted
+        e.target.files[0].text()
+          .then(content => setImportIsEncrypted(isEncryptedFile(content)))
+          .catch(error => console.error('Error checking whether the file is encrypted:', error));
       }
     } catch (error) {
       console.error('Error selecting file:', error);
@@ -135,17 +196,21 @@ const SettingsPage: React.FC = () => {
 
     const reader = new FileReader();
 
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const content = e.target?.result as string;
-        const analysisResult = analyzeImportFile(content);
+        const fileContent = e.target?.result as string;
+        // Once its passphrase is entered, an encrypted file is analyzed like any other
+        const content = importPassphrase && isEncryptedFile(fileContent)
+          ? await decryptText(fileContent, importPassphrase)
+          : fileContent;
+        const analysisResult = analyzeImportFile(content, importFile.name);
         setFileAnalysisResult(analysisResult);
         setShowAnalysisModal(true);
 
         // If the file needs conversion, try to convert it
         if (analysisResult.needsConversion && analysisResult.format !== 'unknown') {
           try {
-            const converted = convertImportFormat(content, analysisResult.format);
+            const converted = convertImportFormat(content, analysisResult.format, importFile.name);
             setConvertedContent(converted);
           } catch (conversionError) {
             console.error('Error converting file:', conversionError);
@@ -153,7 +218,9 @@ const SettingsPage: React.FC = () => {
         }
       } catch (error) {
         console.error('Error analyzing file:', error);
-        setImportError('Error analyzing file. The file may be corrupted or in an unsupported format.');
+        setImportError(error instanceof DecryptionError
+          ? error.message
+          : 'Error analyzing file. The file may be corrupted or in an unsupported format.');
       } finally {
         setIsAnalyzingFile(false);
       }
@@ -167,6 +234,12 @@ const SettingsPage: React.FC = () => {
     reader.readAsText(importFile);
   };
 
+  // Files from Todoist, TickTick, Trello or Markdown are converted without needing "Analyze" first
+  const toImportContent = (content: string): string => {
+    const externalFormat = detectExternalFormat(content, importFile?.name);
+    return externalFormat ? convertImportFormat(content, externalFormat, importFile?.name) : content;
+  };
+
   const handleImportData = (useConverted = false) => {
     if (!importFile && !useConverted) {
       setImportError('Please select a file to import');
@@ -181,6 +254,7 @@ const SettingsPage: React.FC = () => {
     // Show loading state
     setIsImporting(true);
     setImportError(null);
+    setImportIssues([]);
 
     // Safety check for large files if not using converted content
     if (!useConverted && importFile && importFile.size > 25 * 1024 * 1024) { // 25MB limit
@@ -209,7 +283,7 @@ const SettingsPage: React.FC = () => {
 
         reader.onload = async (e) => {
           try {
-            const content = e.target?.result as string;
+            const content = toImportContent(e.target?.result as string);
             processImport(content, progressInterval);
           } catch (error) {
             handleImportError(error, progressInterval);
@@ -288,7 +362,7 @@ const SettingsPage: React.FC = () => {
 
       // Use a timeout to allow UI updates during processing
       const result = await Promise.race([
-        importData(content),
+        importData(content, importPassphrase),
         new Promise<boolean>((_, reject) => {
           // Set a generous timeout for large imports (120 seconds)
           setTimeout(() => reject(new Error('Import timeout - operation took too long')), 120000);
@@ -330,11 +404,89 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  // Read the file (or its converted content) and show what a merge would change
+  const handlePreviewMerge = () => {
+    if (!importFile && !convertedContent) {
+      setImportError('Please select a file to import');
+      return;
+    }
+
+    setImportError(null);
+    setImportIssues([]);
+
+    const showPreview = async (content: string) => {
+      try {
+        setMergeItems(previewMergeImport(await openExportFile(content, importPassphrase)));
+        // The review replaces the import dialog; it reopens to confirm once merged
+        setImportModalOpen(false);
+      } catch (error) {
+        if (error instanceof ImportValidationError) {
+          setImportError(`${error.message}. Nothing was imported.`);
+          setImportIssues(error.issues);
+        } else if (error instanceof DecryptionError) {
+          setImportError(error.message);
+        } else {
+          console.error('Error previewing merge:', error);
+          setImportError('Could not compare the file with your data. Please try again.');
+        }
+      }
+    };
+
+    if (convertedContent) {
+      showPreview(convertedContent);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => showPreview(toImportContent(e.target?.result as string));
+    reader.onerror = () => setImportError('Error reading the file. The file might be corrupt or inaccessible.');
+    reader.readAsText(importFile!);
+  };
+
+  const handleApplyMerge = async () => {
+    if (!mergeItems) return;
+
+    try {
+      setIsMerging(true);
+      await applyMergeImport(mergeItems);
+      setMergeItems(null);
+      setShowAnalysisModal(false);
+      setImportSuccess(true);
+      setImportModalOpen(true);
+    } catch (error) {
+      console.error('Error applying merge:', error);
+      setImportError('Merging failed. Your existing data was not changed.');
+      setMergeItems(null);
+      setImportModalOpen(true);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
   // Helper function to handle import errors
   const handleImportError = (error: unknown, progressInterval: number) => {
     console.error('Import error:', error);
     let errorMessage = 'An unexpected error occurred during import.';
 
+    if (error instanceof ImportValidationError) {
+      // Nothing was changed; show exactly what's wrong with the file
+      setImportError(`${error.message}. Nothing was imported.`);
+      setImportIssues(error.issues);
+      setIsImporting(false);
+      clearInterval(progressInterval);
+      document.title = "ADHDplanner";
+      return;
+    }
+
+    if (error instanceof DecryptionError) {
+      // No passphrase, a wrong one or a tampered file: nothing was changed
+      setImportError(`${error.message} Nothing was imported.`);
+      setIsImporting(false);
+      clearInterval(progressInterval);
+      document.title = "ADHDplanner";
+      return;
+    }
+
     if (error instanceof Error) {
       console.error('Error details:', error.message);
       // Provide more specific error message based on the error type
@@ -398,6 +550,13 @@ const SettingsPage: React.FC = () => {
     try {
       setIsEmergencyResetting(true);
 
+      // Keep whatever can still be read, in case the reset turns out to be unnecessary
+      try {
+        await createBackup();
+      } catch (backupError) {
+        console.error('Error backing up before emergency reset:', backupError);
+      }
+
       // Completely reset the database directly
       console.log('Starting emergency database reset...');
 
@@ -446,18 +605,35 @@ const SettingsPage: React.FC = () => {
             <div>
               <h3 className="text-lg font-medium text-gray-900">Export Data</h3>
               <p className="text-sm text-gray-500">
-                Download all your tasks, projects, and categories as a JSON file
+                Download all your tasks, projects, and categories as a JSON file, optionally encrypted with a passphrase
               </p>
             </div>
             <Button
               variant="primary"
               icon={<Download size={16} />}
               className="mt-2 md:mt-0"
-              onClick={handleExportData}
+              onClick={handleExportClick}
             >
               Export
             </Button>
           </div>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between py-2 border-b border-gray-200">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Export to Calendar</h3>
+              <p className="text-sm text-gray-500">
+                Download tasks, time blocks and work shifts as an .ics file for other calendar apps
+              </p>
+            </div>
+            <Button
+              variant="secondary"
+              icon={<CalendarDays size={16} />}
+              className="mt-2 md:mt-0"
+              onClick={() => setCalendarExportOpen(true)}
+            >
+              Export .ics
+            </Button>
+          </div>
           
           <div className="flex flex-col md:flex-row md:items-center justify-between py-2 border-b border-gray-200">
             <div>
@@ -492,11 +668,37 @@ const SettingsPage: React.FC = () => {
             </Button>
           </div>
           
+          <div className="flex flex-col md:flex-row md:items-center justify-between py-2 border-b border-gray-200">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">Trash</h3>
+              <p className="text-sm text-gray-500">
+                {trashedTasks.length + trashedProjects.length + trashedCategories.length} deleted items. They are purged
+                when the database is optimized, after
+                <select
+                  aria-label="Days to keep deleted items"
+                  className="mx-1 rounded-md border-gray-300 py-0 pl-2 pr-7 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  value={trashRetentionDays}
+                  onChange={(e) => updateTrashRetentionDays(parseInt(e.target.value, 10))}
+                >
+                  {TRASH_RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days}</option>
+                  ))}
+                </select>
+                days.
+              </p>
+            </div>
+            <Link to="/trash" className="mt-2 md:mt-0">
+              <Button variant="secondary" icon={<Trash2 size={16} />}>
+                Open Trash
+              </Button>
+            </Link>
+          </div>
+
           <div className="flex flex-col md:flex-row md:items-center justify-between py-2 border-b border-gray-200">
             <div>
               <h3 className="text-lg font-medium text-gray-900">Reset Data</h3>
               <p className="text-sm text-gray-500">
-                Delete all data and start fresh (cannot be undone)
+                Delete all data and start fresh (a backup is taken first)
               </p>
             </div>
             <Button
@@ -513,7 +715,7 @@ const SettingsPage: React.FC = () => {
             <div>
               <h3 className="text-lg font-medium text-gray-900">Emergency Reset</h3>
               <p className="text-sm text-gray-500">
-                Fix database crashes by completely deleting and recreating the database (cannot be undone)
+                Fix database crashes by completely deleting and recreating the database (backups are kept)
               </p>
               <p className="text-xs text-red-500 mt-1">
                 Only use this if the app is repeatedly crashing or showing memory errors
@@ -537,7 +739,10 @@ const SettingsPage: React.FC = () => {
           </div>
         </div>
       </Card>
-      
+
+      <BackupsCard />
+
+      <SyncCard />
 
       {/* Storage Information */}
       <Card title="Storage Information">
@@ -554,7 +759,7 @@ const SettingsPage: React.FC = () => {
                 are recommended using the Export feature above.
               </p>
               <p className="text-sm text-gray-600">
-                Your data is stored only on this device and never sent to any server.
+                Your data is stored only on this device and is only sent to a sync server if you set one up.
               </p>
 
               <div className="mt-4 space-y-3">
@@ -658,6 +863,38 @@ const SettingsPage: React.FC = () => {
         </div>
       </Card>
 
+      {/* Focus Timer */}
+      <Card title="Focus Timer">
+        <div className="grid grid-cols-2 gap-4">
+          {([
+            ['focusMinutes', 'Focus length (minutes)'],
+            ['shortBreakMinutes', 'Short break (minutes)'],
+            ['longBreakMinutes', 'Long break (minutes)'],
+            ['cyclesBeforeLongBreak', 'Pomodoros before a long break'],
+          ] as const).map(([key, label]) => (
+            <div key={key}>
+              <label htmlFor={`pomodoro-${key}`} className="block text-sm text-gray-600 mb-1">
+                {label}
+              </label>
+              <input
+                id={`pomodoro-${key}`}
+                type="number"
+                min="1"
+                step="1"
+                value={pomodoroSettings[key]}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!isNaN(value) && value > 0) {
+                    updatePomodoroSettings({ ...pomodoroSettings, [key]: value });
+                  }
+                }}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          ))}
+        </div>
+      </Card>
+
       {/* About */}
       <Card title="About TaskManager">
         <div className="space-y-2">
@@ -670,6 +907,70 @@ const SettingsPage: React.FC = () => {
         </div>
       </Card>
       
+      {/* Export Modal */}
+      <Modal
+        isOpen={exportModalOpen}
+        onClose={() => !isExporting && setExportModalOpen(false)}
+        title="Export Data"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The file includes your journal entries and check-in reasons. To keep them private, set a passphrase:
+            the file can then only be opened with it. A forgotten passphrase cannot be recovered.
+          </p>
+          <div>
+            <label htmlFor="export-passphrase" className="block text-sm text-gray-600 mb-1">
+              Passphrase (optional)
+            </label>
+            <input
+              id="export-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          {exportPassphrase && (
+            <div>
+              <label htmlFor="export-passphrase-repeat" className="block text-sm text-gray-600 mb-1">
+                Repeat passphrase
+              </label>
+              <input
+                id="export-passphrase-repeat"
+                type="password"
+                autoComplete="new-password"
+                value={exportPassphraseRepeat}
+                onChange={(e) => setExportPassphraseRepeat(e.target.value)}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+          )}
+
+          {exportError && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start text-sm">
+              <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              {exportError}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="secondary" onClick={() => setExportModalOpen(false)} disabled={isExporting}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              icon={isExporting ? <Loader size={16} className="animate-spin" /> : exportPassphrase ? <Lock size={16} /> : <Download size={16} />}
+              onClick={handleExportData}
+              disabled={isExporting}
+            >
+              {exportPassphrase ? 'Export Encrypted' : 'Export'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Import Modal */}
       <Modal
         isOpen={importModalOpen}
@@ -689,14 +990,45 @@ const SettingsPage: React.FC = () => {
           {!importSuccess ? (
             <>
               <p className="text-gray-600">
-                Select a task/todo data file (.json) to import. This will add the data to your existing data.
+                Select a backup (.json) to import, or an export from Todoist, TickTick or Trello, or a Markdown checklist.
               </p>
 
+              <div className="space-y-2">
+                <label className="flex items-start text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="importMode"
+                    className="mt-1 mr-2"
+                    checked={importMode === 'replace'}
+                    onChange={() => setImportMode('replace')}
+                  />
+                  <span>
+                    <span className="font-medium">Replace everything</span>
+                    <span className="block text-xs text-gray-500">Your current data is cleared and replaced by the file.</span>
+                  </span>
+                </label>
+                <label className="flex items-start text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="importMode"
+                    className="mt-1 mr-2"
+                    checked={importMode === 'merge'}
+                    onChange={() => setImportMode('merge')}
+                  />
+                  <span>
+                    <span className="font-medium">Merge with my data</span>
+                    <span className="block text-xs text-gray-500">
+                      Records are matched by id. You'll see what's new or changed and choose what to keep before anything is saved.
+                    </span>
+                  </span>
+                </label>
+              </div>
+
               <div className="mt-4">
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".json"
+                  accept=".json,.csv,.md,.markdown,.txt"
                   className="block w-full text-sm text-gray-500
                     file:mr-4 file:py-2 file:px-4
                     file:rounded-md file:border-0
@@ -710,10 +1042,38 @@ const SettingsPage: React.FC = () => {
                 </p>
               </div>
 
+              {importIsEncrypted && (
+                <div>
+                  <label htmlFor="import-passphrase" className="flex items-center text-sm text-gray-700 mb-1">
+                    <Lock size={14} className="mr-1 text-indigo-500" />
+                    This file is encrypted. Enter the passphrase it was saved with.
+                  </label>
+                  <input
+                    id="import-passphrase"
+                    type="password"
+                    autoComplete="off"
+                    value={importPassphrase}
+                    onChange={(e) => setImportPassphrase(e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              )}
+
               {importError && (
                 <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start">
                   <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
-                  <p className="text-sm">{importError}</p>
+                  <div>
+                    <p className="text-sm">{importError}</p>
+                    {importIssues.length > 0 && (
+                      <ul className="mt-2 text-xs space-y-0.5 max-h-32 overflow-y-auto">
+                        {importIssues.map((issue, index) => (
+                          <li key={index}>
+                            {issue.path && <code className="font-mono">{issue.path}</code>} {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
                 </div>
               )}
 
@@ -737,7 +1097,7 @@ const SettingsPage: React.FC = () => {
                   size="small"
                   icon={<FileText size={14} />}
                   onClick={handleAnalyzeFile}
-                  disabled={!importFile || isImporting || isAnalyzingFile}
+                  disabled={!importFile || isImporting || isAnalyzingFile || (importIsEncrypted && !importPassphrase)}
                 >
                   {isAnalyzingFile ? 'Analyzing...' : 'Analyze File Format'}
                 </Button>
@@ -749,7 +1109,15 @@ const SettingsPage: React.FC = () => {
                   >
                     Cancel
                   </Button>
-                  {fileAnalysisResult && fileAnalysisResult.valid ? (
+                  {importMode === 'merge' ? (
+                    <Button
+                      variant="primary"
+                      onClick={handlePreviewMerge}
+                      disabled={(!importFile && !convertedContent) || isImporting || (importIsEncrypted && !importPassphrase)}
+                    >
+                      Preview Merge
+                    </Button>
+                  ) : fileAnalysisResult && fileAnalysisResult.valid ? (
                     <Button
                       variant="primary"
                       onClick={() => handleImportData(!!convertedContent)}
@@ -768,7 +1136,7 @@ const SettingsPage: React.FC = () => {
                     <Button
                       variant="primary"
                       onClick={() => handleImportData(false)}
-                      disabled={!importFile || isImporting}
+                      disabled={!importFile || isImporting || (importIsEncrypted && !importPassphrase)}
                     >
                       {isImporting ? (
                         <>
@@ -877,6 +1245,19 @@ const SettingsPage: React.FC = () => {
                     </ul>
                   </div>
                 )}
+
+                {fileAnalysisResult.validationIssues.length > 0 && (
+                  <div className="mt-3">
+                    <p className="text-sm font-medium">Problems found:</p>
+                    <ul className="text-xs mt-1 space-y-1 max-h-40 overflow-y-auto">
+                      {fileAnalysisResult.validationIssues.map((issue, index) => (
+                        <li key={index} className="text-red-600">
+                          {issue.path && <code className="font-mono">{issue.path}</code>} {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
 
               {convertedContent && (
@@ -900,11 +1281,15 @@ const SettingsPage: React.FC = () => {
                   <Button
                     variant="primary"
                     onClick={() => {
-                      handleImportData(true); // Import using the converted content
+                      if (importMode === 'merge') {
+                        handlePreviewMerge();
+                      } else {
+                        handleImportData(true); // Import using the converted content
+                      }
                       setShowAnalysisModal(false);
                     }}
                   >
-                    Import Converted Data
+                    {importMode === 'merge' ? 'Preview Merge' : 'Import Converted Data'}
                   </Button>
                 )}
               </div>
@@ -913,6 +1298,26 @@ const SettingsPage: React.FC = () => {
         </div>
       </Modal>
       
+      <CalendarExportModal isOpen={calendarExportOpen} onClose={() => setCalendarExportOpen(false)} />
+
+      {/* Merge Preview Modal */}
+      <Modal
+        isOpen={mergeItems !== null}
+        onClose={() => !isMerging && setMergeItems(null)}
+        title="Review Merge"
+        size="xl"
+      >
+        {mergeItems && (
+          <MergeImportPreview
+            items={mergeItems}
+            onChange={setMergeItems}
+            onApply={handleApplyMerge}
+            onCancel={() => setMergeItems(null)}
+            isApplying={isMerging}
+          />
+        )}
+      </Modal>
+
       {/* Reset Modal */}
       <Modal
         isOpen={resetModalOpen}
@@ -923,13 +1328,13 @@ const SettingsPage: React.FC = () => {
           <div className="p-3 bg-red-50 text-red-700 rounded-md flex items-start">
             <AlertCircle size={16} className="mr-2 mt-0.5 flex-shrink-0" />
             <div>
-              <p className="text-sm font-medium">Warning: This action cannot be undone</p>
+              <p className="text-sm font-medium">Warning: This clears everything</p>
               <p className="text-sm">All your tasks, projects, and categories will be permanently deleted.</p>
             </div>
           </div>
 
           <p className="text-gray-600">
-            Consider exporting your data before resetting if you might want to restore it later.
+            A backup of your current data is taken first, which you can restore from Backups below.
           </p>
 
           <div className="flex justify-end space-x-3 pt-4">
@@ -1,34 +1,112 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { Task } from '../types';
+import { Task, TaskListLayout, TaskListPreferences, TaskListTab } from '../types';
 import { ImprovedTaskCard } from '../components/tasks/ImprovedTaskCard';
 import { StreamlinedTaskForm } from '../components/tasks/StreamlinedTaskForm';
+import TaskFilterEditor from '../components/tasks/TaskFilterEditor';
 import Modal from '../components/common/Modal';
 import Button from '../components/common/Button';
 import Card from '../components/common/Card';
 import Empty from '../components/common/Empty';
+import VirtualList from '../components/common/VirtualList';
 import { EnhancedQuickCapture } from '../components/tasks/EnhancedQuickCapture';
-import { Plus, Filter, X, Undo2, Archive, AlertTriangle, CalendarDays, Calendar, Layers } from 'lucide-react';
-import { formatDate, getOverdueTasks, getTasksDueToday, getTasksDueThisWeek } from '../utils/helpers';
+import {
+  Plus, Filter, X, Undo2, Archive, AlertTriangle, CalendarDays, Calendar, Layers, Lock, UserCheck, ListFilter,
+  Folder, Tag, List, Network, ChevronDown, ChevronRight, CheckSquare, CheckCircle2, Trash2
+} from 'lucide-react';
+import { DEFAULT_TASK_FILTER, countFilterConditions, filterTasks } from '../utils/taskFilters';
+import {
+  TASK_LIST_LAYOUTS,
+  TaskListRow,
+  buildTaskListRows,
+  getTabTasks,
+  groupTasks,
+  splitWaitingTasks
+} from '../utils/taskListLayout';
+
+const TABS: { id: TaskListTab; label: string; icon: React.ReactNode; activeClass: string }[] = [
+  { id: 'today', label: 'Today', icon: <Calendar size={16} />, activeClass: 'border-indigo-500 text-indigo-600 bg-indigo-50' },
+  { id: 'tomorrow', label: 'Tomorrow', icon: <CalendarDays size={16} />, activeClass: 'border-indigo-500 text-indigo-600 bg-indigo-50' },
+  { id: 'week', label: 'This Week', icon: <CalendarDays size={16} />, activeClass: 'border-indigo-500 text-indigo-600 bg-indigo-50' },
+  { id: 'overdue', label: 'Overdue', icon: <AlertTriangle size={16} />, activeClass: 'border-red-500 text-red-600 bg-red-50' },
+  { id: 'blocked', label: 'Blocked', icon: <Lock size={16} />, activeClass: 'border-amber-500 text-amber-600 bg-amber-50' },
+  { id: 'waiting', label: 'Waiting for', icon: <UserCheck size={16} />, activeClass: 'border-purple-500 text-purple-600 bg-purple-50' },
+  { id: 'all', label: 'All Tasks', icon: <Layers size={16} />, activeClass: 'border-indigo-500 text-indigo-600 bg-indigo-50' },
+];
+
+const EMPTY_MESSAGES: Record<TaskListTab, string> = {
+  today: 'No tasks due today. Add a task or check another tab.',
+  tomorrow: 'No tasks due tomorrow. Add a task or check another tab.',
+  week: 'No tasks due this week. Add a task or check another tab.',
+  overdue: "No overdue tasks. You're all caught up!",
+  blocked: 'Nothing is waiting on another task.',
+  waiting: 'Nothing delegated. Hand tasks off from the accountability check-in.',
+  all: 'Get started by creating your first task',
+};
+
+const LAYOUT_ICONS: Record<TaskListLayout, React.ReactNode> = {
+  due: <CalendarDays size={16} />,
+  project: <Folder size={16} />,
+  category: <Tag size={16} />,
+  flat: <List size={16} />,
+  hierarchy: <Network size={16} />,
+};
+
+// Headings for the due-date groups
+const DUE_GROUP_STYLES: Record<string, { icon: React.ReactNode; color: string }> = {
+  overdue: { icon: <AlertTriangle size={16} />, color: 'text-red-600' },
+  today: { icon: <Calendar size={16} />, color: 'text-indigo-600' },
+  tomorrow: { icon: <CalendarDays size={16} />, color: 'text-indigo-600' },
+  thisWeek: { icon: <CalendarDays size={16} />, color: 'text-indigo-600' },
+  other: { icon: <Layers size={16} />, color: 'text-gray-700' },
+  blocked: { icon: <Lock size={16} />, color: 'text-amber-600' },
+  waiting: { icon: <UserCheck size={16} />, color: 'text-purple-600' },
+};
+
+// Row heights used until a row has been measured
+const GROUP_ROW_HEIGHT = 44;
+const TASK_ROW_HEIGHT = 104;
+
+const getRowKey = (row: TaskListRow) => row.key;
+const estimateRowHeight = (row: TaskListRow) => (row.kind === 'group' ? GROUP_ROW_HEIGHT : TASK_ROW_HEIGHT);
 
 const TasksPage: React.FC = () => {
-  const { tasks, projects, categories, deleteTask, undoDelete, hasRecentlyDeleted, archiveCompletedTasks } = useAppContext();
-  
+  const {
+    tasks,
+    projects,
+    categories,
+    deleteTask,
+    undoDelete,
+    hasRecentlyDeleted,
+    archiveCompletedTasks,
+    completeTasks,
+    updateTasks,
+    deleteTasks,
+    taskListPreferences,
+    updateTaskListPreferences
+  } = useAppContext();
+  const navigate = useNavigate();
+
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [showUndoNotification, setShowUndoNotification] = useState(false);
   const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
-  
-  // Filter state
-  const [showCompleted, setShowCompleted] = useState(false);
-  const [showArchived, setShowArchived] = useState(false);
-  const [filterProjectId, setFilterProjectId] = useState<string | null>(null);
-  const [filterCategoryId, setFilterCategoryId] = useState<string | null>(null);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  
-  // View state
-  const [activeTab, setActiveTab] = useState<'today' | 'tomorrow' | 'week' | 'overdue' | 'all'>('today');
-  
+
+  // Bulk selection
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+
+  // Layout, tab, filter and collapsed groups are remembered between visits
+  const { layout, tab: activeTab, filter, collapsedGroups } = taskListPreferences;
+  const collapsedSet = useMemo(() => new Set(collapsedGroups), [collapsedGroups]);
+
+  const updatePreferences = (changes: Partial<TaskListPreferences>) => {
+    updateTaskListPreferences({ ...taskListPreferences, ...changes });
+  };
+
   // Show undo notification when a task is deleted
   useEffect(() => {
     if (hasRecentlyDeleted) {
@@ -39,40 +117,29 @@ const TasksPage: React.FC = () => {
       return () => clearTimeout(timer);
     }
   }, [hasRecentlyDeleted]);
-  
+
   const handleOpenModal = (task?: Task) => {
-    if (task) {
-      setEditingTask(task);
-    } else {
-      setEditingTask(null);
-    }
+    setEditingTask(task || null);
     setIsModalOpen(true);
   };
-  
+
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingTask(null);
   };
-  
+
   const handleDeleteTask = (taskId: string) => {
     deleteTask(taskId);
   };
-  
+
   const handleUndo = () => {
     undoDelete();
     setShowUndoNotification(false);
   };
-  
+
   const toggleFilter = () => {
     setIsFilterOpen(!isFilterOpen);
   };
-  
-  const clearFilters = () => {
-    setShowCompleted(false);
-    setShowArchived(false);
-    setFilterProjectId(null);
-    setFilterCategoryId(null);
-  };
 
   const handleArchiveConfirmOpen = () => {
     // Only show confirmation if there are completed tasks to archive
@@ -90,97 +157,110 @@ const TasksPage: React.FC = () => {
     archiveCompletedTasks();
     setShowArchiveConfirm(false);
   };
-  
-  // Get tomorrow's date in YYYY-MM-DD format
-  const getTomorrowDate = (): string => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return formatDate(tomorrow);
+
+  const handleSaveAsView = () => {
+    navigate('/views/new', { state: { filter } });
   };
-  
-  // Get tasks due tomorrow
-  const getTasksDueTomorrow = (tasks: Task[]): Task[] => {
-    const tomorrowDate = getTomorrowDate();
-    return tasks.filter(task => 
-      task.dueDate === tomorrowDate && 
-      !task.completed && 
-      !task.archived
-    );
+
+  // Filter into the due-date buckets, then arrange the tab's tasks by layout
+  const buckets = useMemo(() => splitWaitingTasks(filterTasks(tasks, filter)), [tasks, filter]);
+  const activeTaskList = useMemo(() => getTabTasks(buckets, activeTab), [buckets, activeTab]);
+  const rows = useMemo(() => buildTaskListRows(
+    groupTasks(activeTaskList, buckets, layout, projects, categories),
+    layout,
+    collapsedSet
+  ), [activeTaskList, buckets, layout, projects, categories, collapsedSet]);
+
+  const tabCounts: Record<TaskListTab, number> = {
+    today: buckets.today.length,
+    tomorrow: buckets.tomorrow.length,
+    week: buckets.thisWeek.length,
+    overdue: buckets.overdue.length,
+    blocked: buckets.blocked.length,
+    waiting: buckets.waiting.length,
+    all: 0, // Not shown
   };
-  
-  // Filter tasks based on global filters (project, category)
-  const applyBaseFilter = (task: Task): boolean => {
-    // Filter by project
-    if (filterProjectId && task.projectId !== filterProjectId) {
-      return false;
-    }
-    
-    // Filter by category
-    if (filterCategoryId && !(task.categoryIds?.includes(filterCategoryId) || false)) {
-      return false;
-    }
-    
-    return true;
+  const filterCount = countFilterConditions(filter);
+
+  const toggleGroup = (groupKey: string) => {
+    updatePreferences({
+      collapsedGroups: collapsedSet.has(groupKey)
+        ? collapsedGroups.filter(key => key !== groupKey)
+        : [...collapsedGroups, groupKey],
+    });
+  };
+
+  const toggleSelected = useCallback((taskId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds(new Set());
+  };
+
+  const visibleTaskIds = rows.flatMap(row => (row.kind === 'task' ? [row.task.id] : []));
+  const allVisibleSelected = visibleTaskIds.length > 0 && visibleTaskIds.every(id => selectedIds.has(id));
+
+  const runBulkAction = async (action: (taskIds: string[]) => Promise<void>) => {
+    await action(Array.from(selectedIds));
+    setIsSelecting(false);
+    setSelectedIds(new Set());
   };
-  
-  // Get tasks for each section
-  const overdueTasks = getOverdueTasks(tasks)
-    .filter(task => !task.archived)
-    .filter(applyBaseFilter);
-    
-  const todayTasks = getTasksDueToday(tasks)
-    .filter(task => !task.archived)
-    .filter(applyBaseFilter);
-    
-  const tomorrowTasks = getTasksDueTomorrow(tasks)
-    .filter(applyBaseFilter);
-    
-  const thisWeekTasks = getTasksDueThisWeek(tasks)
-    .filter(task => 
-      // Remove tasks already shown in Today or Tomorrow
-      task.dueDate !== formatDate(new Date()) && 
-      task.dueDate !== getTomorrowDate()
-    )
-    .filter(task => !task.archived)
-    .filter(applyBaseFilter);
-    
-  // Other tasks (no due date, or due date beyond this week)
-  const otherTasks = tasks.filter(task => 
-    // Not completed or show completed is enabled
-    (showCompleted || !task.completed) &&
-    // Not archived or show archived is enabled
-    (showArchived || !task.archived) &&
-    // Not in other categories
-    (!task.dueDate || 
-      (!overdueTasks.some(t => t.id === task.id) && 
-       !todayTasks.some(t => t.id === task.id) && 
-       !tomorrowTasks.some(t => t.id === task.id) && 
-       !thisWeekTasks.some(t => t.id === task.id))
-    )
-  ).filter(applyBaseFilter);
-  
-  // Get currently active task list based on the selected tab
-  const getActiveTaskList = (): Task[] => {
-    switch (activeTab) {
-      case 'today':
-        return todayTasks;
-      case 'tomorrow':
-        return tomorrowTasks;
-      case 'week':
-        return thisWeekTasks;
-      case 'overdue':
-        return overdueTasks;
-      case 'all':
-        return [...overdueTasks, ...todayTasks, ...tomorrowTasks, ...thisWeekTasks, ...otherTasks];
-      default:
-        return todayTasks;
+
+  const renderRow = (row: TaskListRow) => {
+    if (row.kind === 'group') {
+      const style = DUE_GROUP_STYLES[row.group.key];
+      return (
+        <button
+          className={`w-full flex items-center py-2 text-lg font-medium ${style ? style.color : 'text-gray-700'}`}
+          onClick={() => toggleGroup(row.group.key)}
+          aria-expanded={!row.collapsed}
+        >
+          {row.collapsed ? <ChevronRight size={16} className="mr-1" /> : <ChevronDown size={16} className="mr-1" />}
+          {style && <span className="mr-2">{style.icon}</span>}
+          {row.group.color && (
+            <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: row.group.color }} />
+          )}
+          {row.group.label}
+          <span className="ml-2 text-sm font-normal text-gray-500">{row.group.tasks.length}</span>
+        </button>
+      );
     }
+
+    return (
+      <div className="flex items-start pb-2" style={{ paddingLeft: row.depth * 24 }}>
+        {isSelecting && (
+          <input
+            type="checkbox"
+            className="mt-5 mr-3 h-4 w-4 text-indigo-600 border-gray-300 rounded"
+            checked={selectedIds.has(row.task.id)}
+            onChange={() => toggleSelected(row.task.id)}
+            aria-label={`Select ${row.task.title}`}
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <ImprovedTaskCard
+            task={row.task}
+            projects={projects}
+            categories={categories}
+            showSubtasks={layout !== 'hierarchy'}
+            onEdit={handleOpenModal}
+            onDelete={handleDeleteTask}
+          />
+        </div>
+      </div>
+    );
   };
-  
-  // Group tasks by parent/child for the active list
-  const activeTaskList = getActiveTaskList();
-  const parentTasks = activeTaskList.filter(task => !task.parentTaskId);
-  
+
   return (
     <div className="space-y-6">
       {/* Header - Improved for mobile */}
@@ -189,7 +269,7 @@ const TasksPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Tasks</h1>
           <p className="text-gray-600">
             {activeTaskList.length} task{activeTaskList.length !== 1 ? 's' : ''}
-            {(filterProjectId || filterCategoryId) && ' (filtered)'}
+            {filterCount > 0 && ' (filtered)'}
           </p>
         </div>
         <div className="mt-4 md:mt-0 flex flex-wrap gap-2">
@@ -205,6 +285,12 @@ const TasksPage: React.FC = () => {
               onClick={toggleFilter}
               className="ml-2"
             />
+            <Button
+              variant="secondary"
+              icon={<CheckSquare size={16} />}
+              onClick={toggleSelecting}
+              className="ml-2"
+            />
             <Button
               variant="secondary"
               icon={<Archive size={16} />}
@@ -220,12 +306,19 @@ const TasksPage: React.FC = () => {
             >
               Archive Completed
             </Button>
+            <Button
+              variant="secondary"
+              icon={<CheckSquare size={16} />}
+              onClick={toggleSelecting}
+            >
+              {isSelecting ? 'Done Selecting' : 'Select'}
+            </Button>
             <Button
               variant="secondary"
               icon={<Filter size={16} />}
               onClick={toggleFilter}
             >
-              Filter
+              Filter{filterCount > 0 && ` (${filterCount})`}
             </Button>
             <Button
               variant="primary"
@@ -237,101 +330,45 @@ const TasksPage: React.FC = () => {
           </div>
         </div>
       </div>
-      
+
       {/* Quick Task Input */}
       <div className="mb-6">
-        <EnhancedQuickCapture 
+        <EnhancedQuickCapture
           placeholder="Add a task quickly... (try !today, !tomorrow, !high)"
-          defaultProjectId={filterProjectId}
+          defaultProjectId={filter.projectIds.length === 1 ? filter.projectIds[0] : null}
           onTaskAdded={() => {
-            // Force re-render to show the new task
-            if (activeTab === 'today') {
-              // Stay on today tab
-            } else if (activeTab === 'all') {
-              // Stay on all tab
-            } else {
-              // Switch to all to ensure the user sees their new task
-              setActiveTab('all');
+            // Switch to all to ensure the user sees their new task
+            if (activeTab !== 'today' && activeTab !== 'all') {
+              updatePreferences({ tab: 'all' });
             }
           }}
         />
       </div>
-      
+
       {/* Tab navigation - improved for mobile */}
       <div className="overflow-x-auto pb-1 md:pb-0 hide-scrollbar">
         <div className="flex min-w-max border-b border-gray-200">
-          <button
-            className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
-              activeTab === 'today' 
-                ? 'border-indigo-500 text-indigo-600 bg-indigo-50' 
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            }`}
-            onClick={() => setActiveTab('today')}
-          >
-            <div className="flex items-center space-x-2">
-              <Calendar size={16} />
-              <span className="whitespace-nowrap">Today{todayTasks.length > 0 && ` (${todayTasks.length})`}</span>
-            </div>
-          </button>
-          
-          <button
-            className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
-              activeTab === 'tomorrow' 
-                ? 'border-indigo-500 text-indigo-600 bg-indigo-50' 
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            }`}
-            onClick={() => setActiveTab('tomorrow')}
-          >
-            <div className="flex items-center space-x-2">
-              <CalendarDays size={16} />
-              <span className="whitespace-nowrap">Tomorrow{tomorrowTasks.length > 0 && ` (${tomorrowTasks.length})`}</span>
-            </div>
-          </button>
-          
-          <button
-            className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
-              activeTab === 'week' 
-                ? 'border-indigo-500 text-indigo-600 bg-indigo-50' 
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            }`}
-            onClick={() => setActiveTab('week')}
-          >
-            <div className="flex items-center space-x-2">
-              <CalendarDays size={16} />
-              <span className="whitespace-nowrap">This Week{thisWeekTasks.length > 0 && ` (${thisWeekTasks.length})`}</span>
-            </div>
-          </button>
-          
-          <button
-            className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
-              activeTab === 'overdue' 
-                ? 'border-red-500 text-red-600 bg-red-50' 
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            }`}
-            onClick={() => setActiveTab('overdue')}
-          >
-            <div className="flex items-center space-x-2">
-              <AlertTriangle size={16} className={overdueTasks.length > 0 ? 'text-red-500' : ''} />
-              <span className="whitespace-nowrap">Overdue{overdueTasks.length > 0 && ` (${overdueTasks.length})`}</span>
-            </div>
-          </button>
-          
-          <button
-            className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
-              activeTab === 'all' 
-                ? 'border-indigo-500 text-indigo-600 bg-indigo-50' 
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            }`}
-            onClick={() => setActiveTab('all')}
-          >
-            <div className="flex items-center space-x-2">
-              <Layers size={16} />
-              <span className="whitespace-nowrap">All Tasks</span>
-            </div>
-          </button>
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              className={`flex-shrink-0 px-4 py-2 font-medium text-sm rounded-t-md border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? tab.activeClass
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+              onClick={() => updatePreferences({ tab: tab.id })}
+            >
+              <div className="flex items-center space-x-2">
+                <span className={tab.id === 'overdue' && tabCounts.overdue > 0 ? 'text-red-500' : ''}>{tab.icon}</span>
+                <span className="whitespace-nowrap">
+                  {tab.label}{tabCounts[tab.id] > 0 && ` (${tabCounts[tab.id]})`}
+                </span>
+              </div>
+            </button>
+          ))}
         </div>
       </div>
-      
+
       {/* Add CSS for hiding scrollbar but allowing scroll */}
       <style jsx>{`
         .hide-scrollbar {
@@ -342,11 +379,11 @@ const TasksPage: React.FC = () => {
           display: none;  /* Chrome, Safari, Opera */
         }
       `}</style>
-      
+
       {/* Undo notification */}
       {showUndoNotification && (
         <div className="fixed bottom-4 right-4 bg-gray-800 text-white px-4 py-2 rounded-lg shadow-lg flex items-center space-x-3">
-          <span>Task deleted</span>
+          <span>Task moved to trash</span>
           <Button
             variant="secondary"
             size="sm"
@@ -357,7 +394,7 @@ const TasksPage: React.FC = () => {
           </Button>
         </div>
       )}
-      
+
       {/* Filter panel */}
       {isFilterOpen && (
         <Card className="bg-gray-50">
@@ -371,309 +408,142 @@ const TasksPage: React.FC = () => {
                 <X size={20} />
               </button>
             </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Task Status
-                </label>
-                <div className="flex flex-col space-y-2">
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      id="showCompleted"
-                      checked={showCompleted}
-                      onChange={() => setShowCompleted(!showCompleted)}
-                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
-                    />
-                    <label htmlFor="showCompleted" className="ml-2 text-sm text-gray-700">
-                      Show completed tasks
-                    </label>
-                  </div>
-                  <div className="flex items-center">
-                    <input
-                      type="checkbox"
-                      id="showArchived"
-                      checked={showArchived}
-                      onChange={() => setShowArchived(!showArchived)}
-                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
-                    />
-                    <label htmlFor="showArchived" className="ml-2 text-sm text-gray-700">
-                      Show archived tasks
-                    </label>
-                  </div>
-                </div>
-              </div>
-              
-              <div>
-                <label htmlFor="projectFilter" className="block text-sm font-medium text-gray-700 mb-1">
-                  Project
-                </label>
-                <select
-                  id="projectFilter"
-                  value={filterProjectId || ''}
-                  onChange={(e) => setFilterProjectId(e.target.value || null)}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                >
-                  <option value="">All Projects</option>
-                  {projects.map(project => (
-                    <option key={project.id} value={project.id}>
-                      {project.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-              
-              <div>
-                <label htmlFor="categoryFilter" className="block text-sm font-medium text-gray-700 mb-1">
-                  Category
-                </label>
-                <select
-                  id="categoryFilter"
-                  value={filterCategoryId || ''}
-                  onChange={(e) => setFilterCategoryId(e.target.value || null)}
-                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                >
-                  <option value="">All Categories</option>
-                  {categories.map(category => (
-                    <option key={category.id} value={category.id}>
-                      {category.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-            
-            <div className="flex justify-end">
+
+            <TaskFilterEditor
+              filter={filter}
+              onChange={nextFilter => updatePreferences({ filter: nextFilter })}
+            />
+
+            <div className="flex justify-end space-x-2">
               <Button
                 variant="secondary"
                 size="sm"
-                onClick={clearFilters}
+                onClick={() => updatePreferences({ filter: DEFAULT_TASK_FILTER })}
               >
                 Clear Filters
               </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                icon={<ListFilter size={14} />}
+                onClick={handleSaveAsView}
+              >
+                Save as View
+              </Button>
             </div>
           </div>
         </Card>
       )}
-      
+
+      {/* Bulk actions */}
+      {isSelecting && (
+        <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 bg-indigo-50 border border-indigo-100 rounded-lg px-4 py-2">
+          <span className="text-sm font-medium text-indigo-800">{selectedIds.size} selected</span>
+          <button
+            className="text-sm text-indigo-600 hover:text-indigo-800 mr-auto"
+            onClick={() => setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleTaskIds))}
+          >
+            {allVisibleSelected ? 'Select none' : 'Select all'}
+          </button>
+          <Button
+            variant="secondary"
+            size="sm"
+            icon={<CheckCircle2 size={14} />}
+            disabled={selectedIds.size === 0}
+            onClick={() => runBulkAction(completeTasks)}
+          >
+            Complete
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            icon={<Archive size={14} />}
+            disabled={selectedIds.size === 0}
+            onClick={() => runBulkAction(taskIds => updateTasks(taskIds, { archived: true }))}
+          >
+            Archive
+          </Button>
+          <select
+            className="rounded-md border-gray-300 shadow-sm text-sm py-1"
+            value=""
+            disabled={selectedIds.size === 0}
+            onChange={(e) => {
+              const projectId = e.target.value === 'none' ? null : e.target.value;
+              runBulkAction(taskIds => updateTasks(taskIds, { projectId }));
+            }}
+            aria-label="Move to project"
+          >
+            <option value="" disabled>Move to project...</option>
+            <option value="none">No project</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="danger"
+            size="sm"
+            icon={<Trash2 size={14} />}
+            disabled={selectedIds.size === 0}
+            onClick={() => setShowBulkDeleteConfirm(true)}
+          >
+            Delete
+          </Button>
+        </div>
+      )}
+
       {/* Task list */}
       <div className="bg-white rounded-lg shadow-sm p-4">
-        {/* Tab header */}
-        <div className="mb-4">
-          {activeTab === 'today' && (
-            <div className="flex items-center space-x-2">
-              <Calendar size={20} className="text-indigo-500" />
-              <h2 className="text-xl font-semibold text-gray-900">Today's Tasks</h2>
-            </div>
-          )}
-          {activeTab === 'tomorrow' && (
-            <div className="flex items-center space-x-2">
-              <CalendarDays size={20} className="text-indigo-500" />
-              <h2 className="text-xl font-semibold text-gray-900">Tomorrow's Tasks</h2>
-            </div>
-          )}
-          {activeTab === 'week' && (
-            <div className="flex items-center space-x-2">
-              <CalendarDays size={20} className="text-indigo-500" />
-              <h2 className="text-xl font-semibold text-gray-900">This Week's Tasks</h2>
-            </div>
-          )}
-          {activeTab === 'overdue' && (
-            <div className="flex items-center space-x-2">
-              <AlertTriangle size={20} className="text-red-500" />
-              <h2 className="text-xl font-semibold text-gray-900">Overdue Tasks</h2>
-            </div>
-          )}
-          {activeTab === 'all' && (
-            <div className="flex items-center space-x-2">
-              <Layers size={20} className="text-indigo-500" />
-              <h2 className="text-xl font-semibold text-gray-900">All Tasks</h2>
-            </div>
-          )}
+        {/* Tab header and layout switcher */}
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {TABS.find(tab => tab.id === activeTab)?.label}
+          </h2>
+          <div className="inline-flex rounded-md bg-gray-100 p-0.5">
+            {TASK_LIST_LAYOUTS.map(option => (
+              <button
+                key={option.id}
+                className={`flex items-center px-2 py-1 rounded-md text-sm ${
+                  layout === option.id ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500 hover:text-gray-700'
+                }`}
+                onClick={() => updatePreferences({ layout: option.id })}
+                title={option.label}
+                aria-pressed={layout === option.id}
+              >
+                {LAYOUT_ICONS[option.id]}
+                <span className="ml-1 hidden lg:inline">{option.label}</span>
+              </button>
+            ))}
+          </div>
         </div>
-        
+
         {/* Tasks */}
-        <div className="space-y-4">
-          {parentTasks.length > 0 ? (
-            <div>
-              {/* For 'All' tab, group by categories */}
-              {activeTab === 'all' && (
-                <div className="space-y-6">
-                  {/* Overdue section */}
-                  {overdueTasks.length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-red-600 mb-3 flex items-center">
-                        <AlertTriangle size={16} className="mr-2" />
-                        Overdue
-                      </h3>
-                      <div className="space-y-2">
-                        {overdueTasks
-                          .filter(task => !task.parentTaskId)
-                          .map(task => (
-                            <ImprovedTaskCard
-                              key={task.id}
-                              task={task}
-                              projects={projects}
-                              categories={categories}
-                              onEdit={handleOpenModal}
-                              onDelete={handleDeleteTask}
-                            />
-                          ))
-                        }
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* Today section */}
-                  {todayTasks.length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-indigo-600 mb-3 flex items-center">
-                        <Calendar size={16} className="mr-2" />
-                        Today
-                      </h3>
-                      <div className="space-y-2">
-                        {todayTasks
-                          .filter(task => !task.parentTaskId)
-                          .map(task => (
-                            <ImprovedTaskCard
-                              key={task.id}
-                              task={task}
-                              projects={projects}
-                              categories={categories}
-                              onEdit={handleOpenModal}
-                              onDelete={handleDeleteTask}
-                            />
-                          ))
-                        }
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* Tomorrow section */}
-                  {tomorrowTasks.length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-indigo-600 mb-3 flex items-center">
-                        <CalendarDays size={16} className="mr-2" />
-                        Tomorrow
-                      </h3>
-                      <div className="space-y-2">
-                        {tomorrowTasks
-                          .filter(task => !task.parentTaskId)
-                          .map(task => (
-                            <ImprovedTaskCard
-                              key={task.id}
-                              task={task}
-                              projects={projects}
-                              categories={categories}
-                              onEdit={handleOpenModal}
-                              onDelete={handleDeleteTask}
-                            />
-                          ))
-                        }
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* This week section */}
-                  {thisWeekTasks.length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-indigo-600 mb-3 flex items-center">
-                        <CalendarDays size={16} className="mr-2" />
-                        This Week
-                      </h3>
-                      <div className="space-y-2">
-                        {thisWeekTasks
-                          .filter(task => !task.parentTaskId)
-                          .map(task => (
-                            <ImprovedTaskCard
-                              key={task.id}
-                              task={task}
-                              projects={projects}
-                              categories={categories}
-                              onEdit={handleOpenModal}
-                              onDelete={handleDeleteTask}
-                            />
-                          ))
-                        }
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* Other tasks section */}
-                  {otherTasks.filter(t => !t.parentTaskId).length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-gray-700 mb-3 flex items-center">
-                        <Layers size={16} className="mr-2" />
-                        Other Tasks
-                      </h3>
-                      <div className="space-y-2">
-                        {otherTasks
-                          .filter(task => !task.parentTaskId)
-                          .map(task => (
-                            <ImprovedTaskCard
-                              key={task.id}
-                              task={task}
-                              projects={projects}
-                              categories={categories}
-                              onEdit={handleOpenModal}
-                              onDelete={handleDeleteTask}
-                            />
-                          ))
-                        }
-                      </div>
-                    </div>
-                  )}
-                </div>
-              )}
-              
-              {/* Standard view for specific tabs */}
-              {activeTab !== 'all' && (
-                <div className="space-y-2">
-                  {parentTasks.map(task => (
-                    <ImprovedTaskCard
-                      key={task.id}
-                      task={task}
-                      projects={projects}
-                      categories={categories}
-                      onEdit={handleOpenModal}
-                      onDelete={handleDeleteTask}
-                    />
-                  ))}
-                </div>
-              )}
-            </div>
-          ) : (
-            <Empty
-              title="No tasks found"
-              description={
-                filterProjectId || filterCategoryId
-                  ? "Try adjusting your filters or create a new task"
-                  : activeTab === 'today'
-                    ? "No tasks due today. Add a task or check another tab."
-                    : activeTab === 'tomorrow'
-                      ? "No tasks due tomorrow. Add a task or check another tab."
-                      : activeTab === 'week'
-                        ? "No tasks due this week. Add a task or check another tab."
-                        : activeTab === 'overdue'
-                          ? "No overdue tasks. You're all caught up!"
-                          : "Get started by creating your first task"
-              }
-              action={
-                <Button
-                  variant="primary"
-                  size="sm"
-                  icon={<Plus size={16} />}
-                  onClick={() => handleOpenModal()}
-                >
-                  New Task
-                </Button>
-              }
-            />
-          )}
-        </div>
+        {rows.length > 0 ? (
+          <VirtualList
+            items={rows}
+            getKey={getRowKey}
+            estimateHeight={estimateRowHeight}
+            renderItem={renderRow}
+          />
+        ) : (
+          <Empty
+            title="No tasks found"
+            description={filterCount > 0 ? 'Try adjusting your filters or create a new task' : EMPTY_MESSAGES[activeTab]}
+            action={
+              <Button
+                variant="primary"
+                size="sm"
+                icon={<Plus size={16} />}
+                onClick={() => handleOpenModal()}
+              >
+                New Task
+              </Button>
+            }
+          />
+        )}
       </div>
-      
+
       {/* Task Modal */}
       <Modal
         isOpen={isModalOpen}
@@ -686,7 +556,7 @@ const TasksPage: React.FC = () => {
           isEdit={!!editingTask}
         />
       </Modal>
-      
+
       {/* Archive Confirmation Modal */}
       <Modal
         isOpen={showArchiveConfirm}
@@ -715,8 +585,40 @@ const TasksPage: React.FC = () => {
           </div>
         </div>
       </Modal>
+
+      {/* Bulk Delete Confirmation Modal */}
+      <Modal
+        isOpen={showBulkDeleteConfirm}
+        onClose={() => setShowBulkDeleteConfirm(false)}
+        title="Delete Tasks"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Delete {selectedIds.size} task{selectedIds.size !== 1 ? 's' : ''} along with their subtasks?
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button
+              variant="secondary"
+              onClick={() => setShowBulkDeleteConfirm(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              icon={<Trash2 size={16} />}
+              onClick={() => {
+                setShowBulkDeleteConfirm(false);
+                runBulkAction(deleteTasks);
+              }}
+            >
+              Delete Tasks
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   );
 };
 
-export default TasksPage;
\ No newline at end of file
+export default TasksPage;
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAppContext } from '../context/AppContext';
+import Button from '../components/common/Button';
+import Card from '../components/common/Card';
+import Empty from '../components/common/Empty';
+import Modal from '../components/common/Modal';
+import { CheckSquare, Folder, RotateCcw, Tag, Trash2, XCircle } from 'lucide-react';
+import { getTrashedSubtree, getTrashedTaskRoots, TrashSelection } from '../utils/trash';
+
+const NOTHING: TrashSelection = { taskIds: [], projectIds: [], categoryIds: [] };
+
+const formatDeletedAt = (deletedAt: string, retentionDays: number): string => {
+  const deleted = new Date(deletedAt);
+  const daysLeft = Math.ceil((deleted.getTime() + retentionDays * 24 * 60 * 60 * 1000 - Date.now()) / (24 * 60 * 60 * 1000));
+  const left = daysLeft > 0 ? `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left` : 'purged at next optimize';
+  return `Deleted ${deleted.toLocaleDateString()} · ${left}`;
+};
+
+/**
+ * Deleted tasks, projects and categories, which can be restored until they are purged
+ */
+const TrashPage: React.FC = () => {
+  const {
+    projects,
+    categories,
+    trashedTasks,
+    trashedProjects,
+    trashedCategories,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    trashRetentionDays
+  } = useAppContext();
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  // Batches only depend on other trashed tasks, so the trashed list is enough
+  const taskRoots = useMemo(() => getTrashedTaskRoots(trashedTasks), [trashedTasks]);
+  const projectNames = useMemo(() => new Map(
+    [...projects, ...trashedProjects].map(project => [project.id, project.name])
+  ), [projects, trashedProjects]);
+  const categoryNames = useMemo(() => new Map(
+    [...categories, ...trashedCategories].map(category => [category.id, category.name])
+  ), [categories, trashedCategories]);
+  const trashedProjectIds = new Set(trashedProjects.map(project => project.id));
+  const trashedCategoryIds = new Set(trashedCategories.map(category => category.id));
+
+  const isEmpty = taskRoots.length === 0 && trashedProjects.length === 0 && trashedCategories.length === 0;
+
+  const describeLinks = (projectId: string | null, categoryIds: string[]): string => {
+    const links = [
+      ...(projectId && projectNames.has(projectId)
+        ? [`${projectNames.get(projectId)}${trashedProjectIds.has(projectId) ? ' (in trash)' : ''}`]
+        : []),
+      ...categoryIds
+        .filter(id => categoryNames.has(id))
+        .map(id => `${categoryNames.get(id)}${trashedCategoryIds.has(id) ? ' (in trash)' : ''}`),
+    ];
+    return links.join(', ');
+  };
+
+  const renderActions = (selection: Partial<TrashSelection>) => (
+    <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+      <Button
+        variant="secondary"
+        size="sm"
+        icon={<RotateCcw size={14} />}
+        onClick={() => restoreFromTrash({ ...NOTHING, ...selection })}
+      >
+        Restore
+      </Button>
+      <button
+        className="p-1.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-gray-100"
+        onClick={() => deleteFromTrash({ ...NOTHING, ...selection })}
+        title="Delete permanently"
+      >
+        <XCircle size={16} />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center bg-white rounded-lg shadow-sm p-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600">
+            Deleted items are kept for {trashRetentionDays} days, then purged when the database is optimized.{' '}
+            <Link to="/settings" className="text-indigo-600 hover:text-indigo-800">Change in Settings</Link>
+          </p>
+        </div>
+        {!isEmpty && (
+          <Button
+            variant="danger"
+            icon={<Trash2 size={16} />}
+            className="mt-4 md:mt-0"
+            onClick={() => setConfirmEmpty(true)}
+          >
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      {isEmpty ? (
+        <div className="bg-white rounded-lg shadow-sm">
+          <Empty
+            title="Trash is empty"
+            description="Deleted tasks, projects and categories show up here so you can bring them back."
+            icon={<Trash2 className="mx-auto h-12 w-12 text-gray-400" />}
+          />
+        </div>
+      ) : (
+        <>
+          {taskRoots.length > 0 && (
+            <Card title={`Tasks (${taskRoots.length})`}>
+              <ul className="divide-y divide-gray-100">
+                {taskRoots.map(task => {
+                  const subtree = getTrashedSubtree(trashedTasks, task.id);
+                  const links = describeLinks(task.projectId, task.categoryIds || []);
+                  return (
+                    <li key={task.id} className="py-3">
+                      <div className="flex items-start justify-between">
+                        <div className="min-w-0 flex items-start">
+                          <CheckSquare size={16} className="mr-2 mt-0.5 text-gray-400 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900 truncate">{task.title}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatDeletedAt(task.deletedAt as string, trashRetentionDays)}
+                              {links && ` · ${links}`}
+                            </p>
+                          </div>
+                        </div>
+                        {renderActions({ taskIds: [task.id] })}
+                      </div>
+                      {subtree.length > 0 && (
+                        <ul className="mt-1 ml-6 text-xs text-gray-500 space-y-0.5">
+                          {subtree.map(subtask => (
+                            <li key={subtask.id} className="truncate">↳ {subtask.title}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </Card>
+          )}
+
+          {trashedProjects.length > 0 && (
+            <Card title={`Projects (${trashedProjects.length})`}>
+              <ul className="divide-y divide-gray-100">
+                {trashedProjects.map(project => (
+                  <li key={project.id} className="flex items-center justify-between py-3">
+                    <div className="min-w-0 flex items-center">
+                      <Folder size={16} className="mr-2 flex-shrink-0" style={{ color: project.color }} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{project.name}</p>
+                        <p className="text-xs text-gray-500">{formatDeletedAt(project.deletedAt as string, trashRetentionDays)}</p>
+                      </div>
+                    </div>
+                    {renderActions({ projectIds: [project.id] })}
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          {trashedCategories.length > 0 && (
+            <Card title={`Categories (${trashedCategories.length})`}>
+              <ul className="divide-y divide-gray-100">
+                {trashedCategories.map(category => (
+                  <li key={category.id} className="flex items-center justify-between py-3">
+                    <div className="min-w-0 flex items-center">
+                      <Tag size={16} className="mr-2 flex-shrink-0" style={{ color: category.color }} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{category.name}</p>
+                        <p className="text-xs text-gray-500">{formatDeletedAt(category.deletedAt as string, trashRetentionDays)}</p>
+                      </div>
+                    </div>
+                    {renderActions({ categoryIds: [category.id] })}
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Modal
+        isOpen={confirmEmpty}
+        onClose={() => setConfirmEmpty(false)}
+        title="Empty Trash"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Permanently delete everything in the trash? Tasks lose their links to deleted projects and categories.
+          </p>
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button variant="secondary" onClick={() => setConfirmEmpty(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              onClick={async () => {
+                await emptyTrash();
+                setConfirmEmpty(false);
+              }}
+            >
+              Empty Trash
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default TrashPage;
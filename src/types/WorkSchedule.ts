@@ -1,19 +1,40 @@
-export type ShiftType = 'full' | 'morning' | 'afternoon';
+export type ShiftType = 'full' | 'morning' | 'afternoon' | 'night';
 
 export interface WorkShift {
   id: string;
   date: string; // ISO date string YYYY-MM-DD format
   startTime: string; // 24h format HH:MM 
-  endTime: string; // 24h format HH:MM
-  shiftType?: ShiftType; // Type of shift (full day, morning, afternoon)
+  endTime: string; // 24h format HH:MM; at or before startTime when the shift ends the next day
+  shiftType?: ShiftType; // Type of shift (full day, morning, afternoon, night)
   color?: string; // Custom color for the shift
   notes?: string; // Any additional notes
+  fromPattern?: boolean; // Generated from the rotation pattern rather than stored
+}
+
+// One day of a rotation: a shift type, or a day off
+export type ShiftPatternStep = ShiftType | 'off';
+
+// A repeating rotation such as "3 on, 4 off"
+export interface ShiftPattern {
+  name: string;
+  steps: ShiftPatternStep[]; // One entry per day, repeated end to end
+  anchorDate: string; // YYYY-MM-DD the first step falls on
+  endDate?: string | null; // No pattern shifts after this YYYY-MM-DD date
+}
+
+// A rotation day that isn't worked, e.g. annual leave or a shift swapped away
+export interface ShiftDayOff {
+  id: string;
+  date: string; // YYYY-MM-DD
+  note?: string;
 }
 
 export interface WorkSchedule {
   id: string;
   name: string;
-  shifts: WorkShift[];
+  shifts: WorkShift[]; // One-off shifts; these take precedence over the pattern on their date
+  pattern?: ShiftPattern | null;
+  daysOff?: ShiftDayOff[]; // Pattern days cancelled by leave or swaps
   createdAt: string;
   updatedAt: string;
 }
@@ -34,6 +55,11 @@ export const DEFAULT_SHIFTS = {
     startTime: '13:00',
     endTime: '19:00',
     shiftType: 'afternoon' as ShiftType
+  },
+  night: {
+    startTime: '19:00',
+    endTime: '07:00', // Next morning
+    shiftType: 'night' as ShiftType
   }
 };
 
@@ -1,3 +1,5 @@
+import { WorkShift, WorkSchedule } from './WorkSchedule';
+
 export interface Task {
   id: string;
   title: string;
@@ -5,6 +7,7 @@ export interface Task {
   completed: boolean;
   archived: boolean;
   dueDate: string | null;
+  dueTime?: string | null; // HH:MM, when the task is due at a specific time
   projectId: string | null;
   categoryIds: string[];
   parentTaskId: string | null;
@@ -15,15 +18,40 @@ export interface Task {
   estimatedMinutes?: number;
   phase?: string; // Project phase this task belongs to
   tags?: string[]; // Tags associated with the task, including phase name
+  recurrence?: RecurrenceRule | null; // Repeat rule; the next occurrence is created on completion
+  recurringSeriesId?: string; // Shared by every occurrence of the same recurring task
+  blockedBy?: string[]; // IDs of tasks that must be completed before this one can start
+  unblockedAt?: string | null; // Set when the last blocker was completed, cleared once acknowledged
+  startedAt?: string | null; // When work on the task first started
+  completedAt?: string | null; // When the task was last marked complete
+  delegatedTo?: string | null; // Who the task was handed to; shows it in "Waiting for"
+  followUpDate?: string | null; // When to check in with the person it was delegated to
+  deletedAt?: string | null; // Set while the task is in the trash
+  unlinkedDependents?: string[] | null; // Tasks it stopped blocking when it went to the trash, blocked again on restore
   createdAt: string;
   updatedAt: string;
 }
 
+// Recurrence rule for repeating tasks (modelled loosely on iCalendar RRULE)
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'afterCompletion';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months (or N days after completion)
+  weekdays?: number[]; // Weekly rules: 0 (Sunday) - 6 (Saturday)
+  monthlyMode?: 'dayOfMonth' | 'nthWeekday';
+  dayOfMonth?: number; // 1-31, clamped to the last day of shorter months
+  nthWeek?: number; // 1-4, or -1 for the last week of the month
+  nthWeekday?: number; // 0 (Sunday) - 6 (Saturday)
+  endDate?: string | null; // No occurrences after this YYYY-MM-DD date
+}
+
 export interface Project {
   id: string;
   name: string;
   description: string;
   color: string;
+  deletedAt?: string | null; // Set while the project is in the trash
   createdAt: string;
   updatedAt: string;
 }
@@ -32,6 +60,7 @@ export interface Category {
   id: string;
   name: string;
   color: string;
+  deletedAt?: string | null; // Set while the category is in the trash
   createdAt: string;
   updatedAt: string;
 }
@@ -56,6 +85,428 @@ export interface WhatNowCriteria {
   availableTime: 'short' | 'medium' | 'long';
   energyLevel: 'low' | 'medium' | 'high';
   blockers: string[];
+  lowEnergyOnly?: boolean; // Recovery days after a night shift only suggest low-energy tasks
+}
+
+// Relative weights of the factors used to score "What Now?" recommendations
+export interface RecommendationWeights {
+  urgency: number; // How soon the task is due (or how overdue it is)
+  priority: number;
+  energy: number; // How well the task's energy level matches the user's
+  timeFit: number; // How well the estimate fits the available time
+  neglect: number; // How long the task has gone untouched
+}
+
+export interface RecommendationFactor {
+  key: keyof RecommendationWeights;
+  score: number; // 0-1, before weighting
+  reason: string | null; // Human-readable explanation, if this factor is notable
+}
+
+export interface TaskRecommendation {
+  task: Task;
+  score: number; // 0-100
+  factors: RecommendationFactor[];
+  reasons: string[]; // "Why this task", most influential first
+}
+
+export interface DayCapacity {
+  date: string;
+  shift: WorkShift | null;
+  awakeMinutes: number; // Length of the plannable day
+  busyMinutes: number; // Covered by the work shift and time blocks
+  freeMinutes: number; // awakeMinutes - busyMinutes
+  taskMinutes: number; // Estimated minutes of unscheduled tasks due this day
+  remainingMinutes: number; // freeMinutes - taskMinutes (negative when over capacity)
+  tasks: Task[]; // Unscheduled tasks due this day
+  overflowTasks: Task[]; // Tasks that don't fit, in priority order
+}
+
+export interface OverflowMove {
+  task: Task;
+  fromDate: string;
+  toDate: string;
+}
+
+export interface AutoScheduleResult {
+  plan: DailyPlan; // Existing blocks plus the proposed ones
+  proposedBlocks: TimeBlock[];
+  unplacedTasks: Task[]; // Candidates that didn't fit in any free gap, or that need too much energy on a recovery day
+  recoveryDay: boolean; // The day after a night shift; only low-energy tasks were placed
+}
+
+export type FocusSessionKind = 'focus' | 'break';
+export type FocusSessionStatus = 'running' | 'paused' | 'completed' | 'stopped';
+
+export interface FocusSession {
+  id: string;
+  taskId: string;
+  kind: FocusSessionKind;
+  plannedMinutes: number | null; // Pomodoro phase length; null for an open-ended timer
+  cycle: number; // Pomodoro number within the current run, starting at 1
+  status: FocusSessionStatus;
+  startedAt: string;
+  endedAt: string | null;
+  accumulatedMs: number; // Time counted before the current running stretch
+  resumedAt: string | null; // Start of the current running stretch, null while paused or ended
+}
+
+export interface PomodoroSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface EstimateSample {
+  task: Task;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  completedAt: string;
+}
+
+export interface EstimateMultiplier {
+  key: string; // Group id (category/project id, size or energy level)
+  label: string;
+  multiplier: number; // Typical actual / estimated time; 1.5 = takes 50% longer
+  sampleSize: number;
+}
+
+export interface EstimateBreakdown {
+  overall: EstimateMultiplier | null;
+  byCategory: EstimateMultiplier[];
+  byProject: EstimateMultiplier[];
+  bySize: EstimateMultiplier[];
+  byEnergy: EstimateMultiplier[];
+}
+
+export interface EstimateTrendPoint {
+  weekNumber: number;
+  weekYear: number;
+  multiplier: number | null; // null for weeks without completed, estimated tasks
+  sampleSize: number;
+}
+
+// Task fields recognised in a quick-capture line
+export interface ParsedTaskInput {
+  title: string; // What's left once recognised phrases are removed
+  dueDate: string | null;
+  dueTime: string | null;
+  priority: 'low' | 'medium' | 'high' | null;
+  energyLevel: 'low' | 'medium' | 'high' | null;
+  estimatedMinutes: number | null;
+  recurrence: RecurrenceRule | null;
+  projectId: string | null;
+  newProjectName: string | null; // "#name" that matched no existing project
+  categoryIds: string[];
+}
+
+export type AccountabilityAction = 'reschedule' | 'break_down' | 'delegate' | 'abandon';
+
+// One answer from the accountability check-in for an overdue task
+export interface AccountabilityRecord {
+  id: string;
+  taskId: string;
+  taskTitle: string; // Kept so history still reads well after the task is deleted
+  categoryIds: string[]; // The task's categories at check-in time
+  reasonId: string; // One of the common reason ids, or 'custom'
+  reasonText: string;
+  action: AccountabilityAction;
+  date: string; // YYYY-MM-DD the check-in happened
+  dueDate: string | null; // The due date that was missed
+  createdAt: string;
+}
+
+// Everything included in a full data export
+export interface ExportData {
+  tasks: Task[];
+  projects: Project[];
+  categories: Category[];
+  dailyPlans: DailyPlan[];
+  workSchedule: WorkSchedule | null;
+  journalEntries: JournalEntry[];
+  focusSessions: FocusSession[];
+  accountabilityRecords: AccountabilityRecord[];
+}
+
+// The file written by "Export Data"
+export interface ExportEnvelope {
+  format: 'adhd-planner-export';
+  schemaVersion: number; // Shape of `data`; older files are migrated on import
+  appVersion: string; // App build that wrote the file
+  exportedAt: string;
+  checksum: string; // Hash of the serialized `data`, to catch corrupted or hand-edited files
+  data: ExportData;
+}
+
+// An export file (or backup) locked with a passphrase. Everything but `data`
+// is authenticated along with it, so any edit to the file is detected.
+export interface EncryptedEnvelope {
+  format: 'adhd-planner-encrypted';
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }; // Base64 salt
+  cipher: { name: 'AES-GCM'; iv: string }; // Base64 IV
+  check: string; // Hash of derived key material, to tell a wrong passphrase from a damaged file
+  compression: 'gzip' | null; // Applied to the text before encrypting
+  data: string; // Base64 ciphertext
+}
+
+// A key derived from a passphrase, with what's needed to derive it again
+export interface EncryptionKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+export type MergeCollection = keyof ExportData;
+
+export type ExportRecord =
+  | Task
+  | Project
+  | Category
+  | DailyPlan
+  | WorkSchedule
+  | JournalEntry
+  | FocusSession
+  | AccountabilityRecord;
+
+// How an incoming record compares with the local record of the same id
+export type MergeStatus = 'new' | 'unchanged' | 'local_newer' | 'incoming_newer' | 'conflict';
+export type MergeResolution = 'keep_local' | 'use_incoming';
+
+// One incoming record in a merge import, and what to do with it
+export interface MergeItem {
+  collection: MergeCollection;
+  id: string;
+  label: string; // Title or name to show in the preview
+  status: MergeStatus;
+  local: ExportRecord | null;
+  incoming: ExportRecord;
+  changedFields: string[]; // Fields that differ from the local record, ignoring updatedAt
+  resolution: MergeResolution;
+}
+
+// Sync between devices through a sync server
+export type SyncTable =
+  | 'tasks'
+  | 'projects'
+  | 'categories'
+  | 'dailyPlans'
+  | 'workSchedules'
+  | 'journalEntries'
+  | 'focusSessions'
+  | 'accountabilityRecords';
+
+// One record as sent to or received from the server; `record` is null once deleted
+export interface SyncChange {
+  table: SyncTable;
+  recordId: string;
+  record: ExportRecord | null;
+  modifiedAt: string; // When the change was made, used for deletions and records without updatedAt
+  baseSeq?: number; // Server sequence of the version the change was made on (push)
+  seq?: number; // Server sequence of this version (pull)
+}
+
+export interface SyncPushRequest {
+  clientId: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResponse {
+  accepted: { table: SyncTable; recordId: string; seq: number }[];
+  // Changed on the server by another device since the client last pulled
+  rejected: { table: SyncTable; recordId: string }[];
+}
+
+export interface SyncPullRequest {
+  clientId: string;
+  since: number;
+}
+
+export interface SyncPullResponse {
+  changes: SyncChange[];
+  latestSeq: number;
+}
+
+// How changes travel to and from the server
+export interface SyncTransport {
+  push: (request: SyncPushRequest) => Promise<SyncPushResponse>;
+  pull: (request: SyncPullRequest) => Promise<SyncPullResponse>;
+}
+
+// Change tracking for one local record
+export interface SyncRecordState {
+  key: string; // `${table}:${recordId}`
+  table: SyncTable;
+  recordId: string;
+  seq: number; // Local change sequence number of the last change
+  modifiedAt: string;
+  fingerprint: string | null; // The record as last seen, null once deleted
+  base: ExportRecord | null; // The version last agreed with the server
+  serverSeq: number;
+}
+
+export interface SyncState {
+  id: 'local';
+  clientId: string;
+  localSeq: number; // Last local change sequence number handed out
+  pushedSeq: number; // Local changes up to here have been pushed
+  pulledSeq: number; // Server changes up to here have been pulled
+  lastSyncedAt: string | null;
+}
+
+export interface SyncSettings {
+  serverUrl: string;
+  syncOnOpen: boolean;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number; // Fields changed on both sides and settled by updatedAt
+  syncedAt: string;
+}
+
+export interface SyncStatus {
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  lastResult: SyncResult | null;
+  error: string | null;
+}
+
+// Snapshots of the export payload kept in a separate database
+export type BackupKind = 'daily' | 'weekly' | 'manual';
+
+export interface BackupSummary {
+  id: string;
+  kind: BackupKind;
+  createdAt: string;
+  note?: string; // Why a manual backup was taken, e.g. "Before reset"
+  counts: Record<MergeCollection, number>;
+  size: number; // Bytes stored
+  encrypted?: boolean; // Stored as an encrypted envelope, readable only with the backup passphrase
+}
+
+export interface BackupSnapshot extends BackupSummary {
+  compressed: boolean; // Gzipped when the browser supports CompressionStream
+  payload: ArrayBuffer | string;
+}
+
+// The key new backups are encrypted with. It can't be read out of the
+// browser, so old backups still need the passphrase to be opened.
+export interface BackupEncryptionKey extends EncryptionKey {
+  id: 'backups';
+  createdAt: string;
+}
+
+// How a backup differs from the current data, for one kind of record
+export interface BackupComparison {
+  collection: MergeCollection;
+  backupCount: number;
+  currentCount: number;
+  onlyInBackup: number;
+  onlyInCurrent: number;
+  changed: number;
+}
+
+// A problem found while validating an import file
+export interface ImportValidationIssue {
+  path: string; // e.g. "tasks[3].dueDate"; empty for the file as a whole
+  message: string;
+}
+
+// What to include in an iCalendar (.ics) export
+export interface CalendarExportOptions {
+  startDate: string | null; // YYYY-MM-DD, inclusive; null for no lower bound
+  endDate: string | null; // YYYY-MM-DD, inclusive; null for no upper bound
+  projectIds: string[]; // Only tasks in these projects; empty for all
+  categoryIds: string[]; // Only tasks with one of these categories; empty for all
+  includeTasks: boolean;
+  includeCompletedTasks: boolean;
+  includeTimeBlocks: boolean;
+  includeWorkShifts: boolean;
+}
+
+// How an imported shift compares with the shifts already in the schedule
+export type ShiftImportStatus = 'new' | 'duplicate' | 'overlap';
+
+// One shift read from a roster file, as shown in the import preview
+export interface ShiftImportItem {
+  shift: WorkShift;
+  status: ShiftImportStatus;
+  conflicts: WorkShift[]; // Existing shifts on the same date (or earlier rows of the file)
+  source: string; // Where it came from, e.g. "Line 4" or the event summary
+  selected: boolean; // Overlaps replace the conflicting shifts when imported
+}
+
+// Whether completed or archived tasks are left out, shown too, or the only ones shown
+export type TaskFilterInclusion = 'hide' | 'include' | 'only';
+
+// Due-date conditions; presets are relative to today, so saved views stay current
+export type TaskDueFilter = 'any' | 'overdue' | 'today' | 'tomorrow' | 'thisWeek' | 'next7Days' | 'noDate' | 'range';
+
+// A task filter expression. Every condition has to hold; within a list, any value matches.
+// Empty lists don't filter anything.
+export interface TaskFilter {
+  projectIds: string[];
+  categoryIds: string[];
+  priorities: ('low' | 'medium' | 'high')[];
+  energyLevels: ('low' | 'medium' | 'high')[];
+  sizes: ('small' | 'medium' | 'large')[];
+  tags: string[];
+  due: TaskDueFilter;
+  dueFrom: string | null; // YYYY-MM-DD, inclusive; only used with due: 'range'
+  dueTo: string | null;
+  completed: TaskFilterInclusion;
+  archived: TaskFilterInclusion;
+  noEstimate: boolean; // Only tasks without an estimated time
+}
+
+// A named task filter, opened at /views/:id
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+  pinned: boolean; // Listed in the main navigation
+  createdAt: string;
+  updatedAt: string;
+}
+
+// How the task list arranges tasks
+export type TaskListLayout = 'due' | 'project' | 'category' | 'flat' | 'hierarchy';
+
+export type TaskListTab = 'today' | 'tomorrow' | 'week' | 'overdue' | 'blocked' | 'waiting' | 'all';
+
+// Task list settings remembered between visits
+export interface TaskListPreferences {
+  layout: TaskListLayout;
+  tab: TaskListTab;
+  filter: TaskFilter;
+  collapsedGroups: string[]; // Keys of groups the user folded away
+}
+
+// Tables whose changes are kept in the history and can be undone
+export type HistoryTable = 'tasks' | 'projects' | 'categories' | 'dailyPlans' | 'workSchedules' | 'journalEntries';
+
+export type HistoryRecord = Task | Project | Category | DailyPlan | WorkSchedule | JournalEntry;
+
+// A record before and after a change; no `before` means it was created, no `after` that it was deleted
+export interface HistoryRecordChange {
+  table: HistoryTable;
+  recordId: string;
+  before: HistoryRecord | null;
+  after: HistoryRecord | null;
+}
+
+// One user action in the change history, e.g. "Edit task" or "Delete project"
+export interface HistoryOperation {
+  id: string;
+  label: string;
+  timestamp: string;
+  sequence: number; // Orders operations, including ones recorded within the same millisecond
+  changes: HistoryRecordChange[];
+  undone: boolean; // Undone operations form the redo stack until something new is recorded
 }
 
 export type ViewMode = 'day' | 'week' | 'month';
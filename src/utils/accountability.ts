@@ -0,0 +1,189 @@
+/**
+ * Accountability check-in analytics
+ *
+ * Every check-in answer is stored as an AccountabilityRecord. These helpers
+ * turn that history into the patterns shown on the Accountability page.
+ */
+
+import { AccountabilityRecord, Category } from '../types';
+import { getISOWeekAndYear } from './helpers';
+import { parseLocalDate } from './recurrence';
+
+export interface AccountabilityReason {
+  id: string;
+  text: string;
+}
+
+// Common reasons for not completing tasks
+export const COMMON_REASONS: AccountabilityReason[] = [
+  { id: 'forgot', text: 'I forgot about it' },
+  { id: 'no_time', text: "I didn't have enough time" },
+  { id: 'too_difficult', text: 'It was more difficult than expected' },
+  { id: 'energy', text: "I didn't have the energy" },
+  { id: 'focus', text: "I couldn't focus enough" },
+  { id: 'motivation', text: "I wasn't motivated" },
+  { id: 'prerequisite', text: 'A prerequisite task wasn\'t completed' },
+  { id: 'resources', text: 'I was missing resources or information' },
+  { id: 'interruptions', text: 'I was interrupted too many times' },
+  { id: 'not_clear', text: 'The task wasn\'t clear enough' },
+  { id: 'not_important', text: 'It turned out not to be important' }
+];
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ReasonCount {
+  reasonId: string;
+  reasonText: string;
+  count: number;
+}
+
+export interface ReasonGroup {
+  key: string;
+  label: string;
+  total: number;
+  reasons: ReasonCount[]; // Most frequent first
+}
+
+export interface RecurringReason {
+  taskId: string;
+  taskTitle: string;
+  reasonId: string;
+  reasonText: string;
+  count: number;
+  lastDate: string;
+}
+
+/**
+ * Custom reasons are grouped by their text, common ones by id
+ */
+const reasonKey = (record: AccountabilityRecord): string =>
+  record.reasonId === 'custom' ? `custom:${record.reasonText.trim().toLowerCase()}` : record.reasonId;
+
+/**
+ * Count reasons across records, most frequent first
+ */
+export const countReasons = (records: AccountabilityRecord[]): ReasonCount[] => {
+  const counts = new Map<string, ReasonCount>();
+
+  records.forEach(record => {
+    const key = reasonKey(record);
+    const existing = counts.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      counts.set(key, { reasonId: key, reasonText: record.reasonText, count: 1 });
+    }
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+};
+
+const groupRecords = (
+  records: AccountabilityRecord[],
+  getKeys: (record: AccountabilityRecord) => string[],
+  getLabel: (key: string) => string
+): ReasonGroup[] => {
+  const groups = new Map<string, AccountabilityRecord[]>();
+
+  records.forEach(record => {
+    getKeys(record).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), record]);
+    });
+  });
+
+  return Array.from(groups.entries()).map(([key, groupRecords]) => ({
+    key,
+    label: getLabel(key),
+    total: groupRecords.length,
+    reasons: countReasons(groupRecords),
+  }));
+};
+
+/**
+ * Reason counts per ISO week for the last `weeks` weeks, oldest first
+ */
+export const getReasonsByWeek = (
+  records: AccountabilityRecord[],
+  weeks: number = 8,
+  today: Date = new Date()
+): ReasonGroup[] => {
+  const result: ReasonGroup[] = [];
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const day = new Date(today);
+    day.setDate(day.getDate() - i * 7);
+    const { weekNumber, weekYear } = getISOWeekAndYear(day);
+
+    const weekRecords = records.filter(record => {
+      const week = getISOWeekAndYear(parseLocalDate(record.date));
+      return week.weekNumber === weekNumber && week.weekYear === weekYear;
+    });
+
+    result.push({
+      key: `${weekYear}-W${weekNumber}`,
+      label: `W${weekNumber}`,
+      total: weekRecords.length,
+      reasons: countReasons(weekRecords),
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Reason counts per category, busiest category first
+ */
+export const getReasonsByCategory = (
+  records: AccountabilityRecord[],
+  categories: Category[]
+): ReasonGroup[] => {
+  return groupRecords(
+    records,
+    record => (record.categoryIds.length > 0 ? record.categoryIds : ['uncategorized']),
+    key => categories.find(c => c.id === key)?.name || (key === 'uncategorized' ? 'Uncategorized' : 'Deleted category')
+  ).sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Reason counts per weekday of the missed due date, Sunday first
+ */
+export const getReasonsByWeekday = (records: AccountabilityRecord[]): ReasonGroup[] => {
+  const groups = groupRecords(
+    records,
+    record => [String(parseLocalDate(record.dueDate || record.date).getDay())],
+    key => WEEKDAY_NAMES[Number(key)]
+  );
+
+  return WEEKDAY_NAMES.map((name, day) =>
+    groups.find(group => group.key === String(day)) || { key: String(day), label: name, total: 0, reasons: [] }
+  );
+};
+
+/**
+ * Reasons given more than once for the same task, most repeated first
+ */
+export const getRecurringReasons = (records: AccountabilityRecord[], minCount: number = 2): RecurringReason[] => {
+  const byTaskAndReason = new Map<string, RecurringReason>();
+
+  records.forEach(record => {
+    const key = `${record.taskId}|${reasonKey(record)}`;
+    const existing = byTaskAndReason.get(key);
+    if (existing) {
+      existing.count++;
+      if (record.date > existing.lastDate) existing.lastDate = record.date;
+    } else {
+      byTaskAndReason.set(key, {
+        taskId: record.taskId,
+        taskTitle: record.taskTitle,
+        reasonId: record.reasonId,
+        reasonText: record.reasonText,
+        count: 1,
+        lastDate: record.date,
+      });
+    }
+  });
+
+  return Array.from(byTaskAndReason.values())
+    .filter(item => item.count >= minCount)
+    .sort((a, b) => b.count - a.count || b.lastDate.localeCompare(a.lastDate));
+};
@@ -0,0 +1,231 @@
+/**
+ * Auto-scheduler for the daily planner
+ *
+ * Proposes time blocks for a day's due and high-priority tasks in the gaps
+ * left by the work shift and existing blocks. Nothing is saved here; the
+ * planner shows the proposal so the user can accept, tweak or discard it.
+ */
+
+import { Task, TimeBlock, WorkShift, AutoScheduleResult } from '../types';
+import { formatDate, generateId, timeToMinutes, minutesToTime } from './helpers';
+import { createTaskMap, isTaskBlocked, isTaskWaiting } from './dependencies';
+import { getEffectiveEstimate } from './recommendations';
+
+export interface AutoScheduleOptions {
+  dayStart: string; // HH:MM
+  dayEnd: string; // HH:MM
+  morningEnd: string; // High-energy tasks go before this time
+  bufferMinutes: number; // Gap kept between blocks
+  defaultTaskMinutes: number; // Used for tasks with no estimate or size
+  now?: Date; // When planning today, nothing is placed before this
+}
+
+export const DEFAULT_AUTO_SCHEDULE_OPTIONS: AutoScheduleOptions = {
+  dayStart: '08:00',
+  dayEnd: '21:00',
+  morningEnd: '12:00',
+  bufferMinutes: 10,
+  defaultTaskMinutes: 30,
+};
+
+interface AutoScheduleInput {
+  date: string;
+  tasks: Task[];
+  timeBlocks: TimeBlock[];
+  shift?: WorkShift | null;
+  overnightShift?: WorkShift | null; // Yesterday's shift, if it runs past midnight into this day
+  recoveryDay?: boolean; // Only place low-energy tasks
+  options?: Partial<AutoScheduleOptions>;
+}
+
+interface Gap {
+  start: number;
+  end: number;
+}
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 3 };
+const ENERGY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+// Round up to the next quarter hour so blocks start on tidy times
+const roundUpToQuarter = (minutes: number): number => Math.ceil(minutes / 15) * 15;
+
+/**
+ * Free gaps in the day once busy ranges (plus buffer) are taken out
+ */
+const getFreeGaps = (dayStart: number, dayEnd: number, busy: Gap[], buffer: number): Gap[] => {
+  const sorted = [...busy].sort((a, b) => a.start - b.start);
+  const gaps: Gap[] = [];
+  let cursor = dayStart;
+
+  for (const range of sorted) {
+    const gapEnd = Math.min(range.start - buffer, dayEnd);
+    if (gapEnd > cursor) {
+      gaps.push({ start: cursor, end: gapEnd });
+    }
+    cursor = Math.max(cursor, range.end + buffer);
+  }
+
+  if (dayEnd > cursor) {
+    gaps.push({ start: cursor, end: dayEnd });
+  }
+
+  return gaps;
+};
+
+/**
+ * Tasks worth scheduling on a date, most important first: overdue and due
+ * tasks, then high-priority tasks without a due date or due later. Blocked
+ * tasks and delegated tasks still waiting on their follow-up are left out.
+ */
+export const getSchedulingCandidates = (tasks: Task[], date: string, timeBlocks: TimeBlock[]): Task[] => {
+  const taskMap = createTaskMap(tasks);
+  const scheduledIds = new Set<string>();
+  timeBlocks.forEach(block => {
+    (block.taskIds || []).forEach(id => scheduledIds.add(id));
+    if (block.taskId) scheduledIds.add(block.taskId);
+  });
+
+  return tasks
+    .filter(task =>
+      !task.completed &&
+      !task.archived &&
+      !task.parentTaskId &&
+      !scheduledIds.has(task.id) &&
+      !isTaskBlocked(task, taskMap) &&
+      !isTaskWaiting(task, date) &&
+      ((task.dueDate !== null && task.dueDate <= date) || task.priority === 'high')
+    )
+    .sort((a, b) => {
+      const aDue = a.dueDate !== null && a.dueDate <= date;
+      const bDue = b.dueDate !== null && b.dueDate <= date;
+      if (aDue !== bDue) return aDue ? -1 : 1;
+
+      const priorityDiff = (a.priority ? PRIORITY_RANK[a.priority] : 2) - (b.priority ? PRIORITY_RANK[b.priority] : 2);
+      if (priorityDiff !== 0) return priorityDiff;
+
+      return (a.dueDate || '9999-12-31').localeCompare(b.dueDate || '9999-12-31');
+    });
+};
+
+/**
+ * Propose a daily plan that fits candidate tasks into the day's free gaps.
+ *
+ * Tasks are first chosen by importance until the free time runs out, then
+ * placed by energy: high-energy tasks take the earliest (morning) slots and
+ * low-energy tasks are pushed after `morningEnd` when there is room.
+ */
+export const generateAutoSchedule = ({
+  date,
+  tasks,
+  timeBlocks,
+  shift,
+  overnightShift,
+  recoveryDay = false,
+  options: optionOverrides,
+}: AutoScheduleInput): AutoScheduleResult => {
+  const options = { ...DEFAULT_AUTO_SCHEDULE_OPTIONS, ...optionOverrides };
+  const buffer = options.bufferMinutes;
+  const morningEnd = timeToMinutes(options.morningEnd);
+  const dayEnd = timeToMinutes(options.dayEnd);
+  let dayStart = timeToMinutes(options.dayStart);
+
+  if (options.now) {
+    const today = formatDate(options.now);
+    if (today === date) {
+      dayStart = Math.max(dayStart, roundUpToQuarter(options.now.getHours() * 60 + options.now.getMinutes()));
+    } else if (today > date) {
+      dayStart = dayEnd; // Nothing can be planned in the past
+    }
+  }
+
+  const busy: Gap[] = timeBlocks.map(block => ({
+    start: timeToMinutes(block.startTime),
+    end: timeToMinutes(block.endTime),
+  }));
+  if (shift) {
+    const shiftStart = timeToMinutes(shift.startTime);
+    const shiftEnd = timeToMinutes(shift.endTime);
+    // A shift that ends after midnight occupies the rest of the day
+    busy.push({ start: shiftStart, end: shiftEnd > shiftStart ? shiftEnd : 24 * 60 });
+  }
+  if (overnightShift) {
+    busy.push({ start: 0, end: timeToMinutes(overnightShift.endTime) });
+  }
+
+  const gaps = getFreeGaps(dayStart, dayEnd, busy, buffer);
+  const estimateOf = (task: Task) => getEffectiveEstimate(task) || options.defaultTaskMinutes;
+
+  // Pick the most important tasks that fit in the total free time
+  let budget = gaps.reduce((sum, gap) => sum + (gap.end - gap.start), 0);
+  const selected: Task[] = [];
+  const unplacedTasks: Task[] = [];
+
+  for (const task of getSchedulingCandidates(tasks, date, timeBlocks)) {
+    if (recoveryDay && task.energyLevel !== 'low') {
+      unplacedTasks.push(task);
+      continue;
+    }
+
+    const needed = estimateOf(task) + buffer;
+    if (needed - buffer <= budget) {
+      selected.push(task);
+      budget -= needed;
+    } else {
+      unplacedTasks.push(task);
+    }
+  }
+
+  // Place high-energy tasks first so they get the morning
+  const byEnergy = [...selected].sort((a, b) =>
+    (a.energyLevel ? ENERGY_RANK[a.energyLevel] : 1) - (b.energyLevel ? ENERGY_RANK[b.energyLevel] : 1)
+  );
+
+  const proposedBlocks: TimeBlock[] = [];
+
+  for (const task of byEnergy) {
+    const duration = estimateOf(task);
+    const fits = (gap: Gap, from: number) => gap.end - Math.max(gap.start, from) >= duration;
+
+    // Low-energy tasks prefer the afternoon, but take a morning slot rather than nothing
+    const preferredFrom = task.energyLevel === 'low' ? morningEnd : 0;
+    let gap = gaps.find(g => fits(g, preferredFrom));
+    let start = gap ? Math.max(gap.start, preferredFrom) : 0;
+
+    if (!gap) {
+      gap = gaps.find(g => fits(g, 0));
+      start = gap ? gap.start : 0;
+    }
+
+    if (!gap) {
+      unplacedTasks.push(task);
+      continue;
+    }
+
+    const end = start + duration;
+    proposedBlocks.push({
+      id: generateId(),
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(end),
+      taskId: null,
+      taskIds: [task.id, ...task.subtasks],
+      title: task.title,
+      description: 'Auto-planned',
+    });
+
+    // Split the gap around the new block, keeping the buffer on both sides
+    const index = gaps.indexOf(gap);
+    const remaining: Gap[] = [];
+    if (start - buffer > gap.start) remaining.push({ start: gap.start, end: start - buffer });
+    if (gap.end > end + buffer) remaining.push({ start: end + buffer, end: gap.end });
+    gaps.splice(index, 1, ...remaining);
+  }
+
+  const allBlocks = [...timeBlocks, ...proposedBlocks].sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return {
+    plan: { id: date, date, timeBlocks: allBlocks },
+    proposedBlocks: proposedBlocks.sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    unplacedTasks,
+    recoveryDay,
+  };
+};
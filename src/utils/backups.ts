@@ -0,0 +1,129 @@
+/**
+ * Rolling backups
+ *
+ * The export payload is saved as a snapshot once a day and once a week, and
+ * on demand or before anything replaces all data. Only the newest few of each
+ * kind are kept. Snapshots are gzipped where the browser supports it.
+ */
+
+import { BackupComparison, BackupKind, BackupSummary, ExportData, MergeCollection } from '../types';
+import { formatDate, getISOWeekAndYear } from './helpers';
+import { MERGE_COLLECTIONS, getChangedFields, getRecords } from './mergeImport';
+
+// How many snapshots of each kind to keep
+export const BACKUP_RETENTION: Record<BackupKind, number> = {
+  daily: 7,
+  weekly: 4,
+  manual: 10,
+};
+
+export const BACKUP_KIND_LABELS: Record<BackupKind, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  manual: 'Manual',
+};
+
+export const BACKUP_COLLECTION_LABELS: Record<MergeCollection, string> = {
+  tasks: 'Tasks',
+  projects: 'Projects',
+  categories: 'Categories',
+  dailyPlans: 'Daily plans',
+  workSchedule: 'Work schedule',
+  journalEntries: 'Journal entries',
+  focusSessions: 'Focus sessions',
+  accountabilityRecords: 'Check-ins',
+};
+
+/**
+ * Gzip text when CompressionStream is available, otherwise keep it as is
+ */
+export const compressText = async (text: string): Promise<{ payload: ArrayBuffer | string; compressed: boolean }> => {
+  if (typeof CompressionStream === 'undefined') {
+    return { payload: text, compressed: false };
+  }
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return { payload: await new Response(stream).arrayBuffer(), compressed: true };
+};
+
+export const decompressText = async (payload: ArrayBuffer | string, compressed: boolean): Promise<string> => {
+  if (!compressed) return payload as string;
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed backups');
+  }
+  const stream = new Blob([payload]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+export const getPayloadSize = (payload: ArrayBuffer | string): number =>
+  typeof payload === 'string' ? new Blob([payload]).size : payload.byteLength;
+
+export const countRecords = (data: ExportData): Record<MergeCollection, number> =>
+  MERGE_COLLECTIONS.reduce((counts, collection) => ({
+    ...counts,
+    [collection]: getRecords(data, collection).length,
+  }), {} as Record<MergeCollection, number>);
+
+/**
+ * Scheduled backups that haven't been taken yet: one per calendar day and one per ISO week
+ */
+export const getDueBackupKinds = (backups: BackupSummary[], now: Date = new Date()): BackupKind[] => {
+  const today = formatDate(now);
+  const { weekNumber, weekYear } = getISOWeekAndYear(now);
+  const isThisWeek = (createdAt: string) => {
+    const week = getISOWeekAndYear(new Date(createdAt));
+    return week.weekNumber === weekNumber && week.weekYear === weekYear;
+  };
+
+  const due: BackupKind[] = [];
+  if (!backups.some(backup => backup.kind === 'daily' && formatDate(new Date(backup.createdAt)) === today)) {
+    due.push('daily');
+  }
+  if (!backups.some(backup => backup.kind === 'weekly' && isThisWeek(backup.createdAt))) {
+    due.push('weekly');
+  }
+  return due;
+};
+
+/**
+ * Backups beyond the number kept for their kind, oldest first to go
+ */
+export const getExpiredBackupIds = (backups: BackupSummary[]): string[] => {
+  const newestFirst = [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return (Object.keys(BACKUP_RETENTION) as BackupKind[]).flatMap(kind =>
+    newestFirst
+      .filter(backup => backup.kind === kind)
+      .slice(BACKUP_RETENTION[kind])
+      .map(backup => backup.id)
+  );
+};
+
+/**
+ * How a backup differs from the current data, for each kind of record
+ */
+export const compareBackup = (current: ExportData, backup: ExportData): BackupComparison[] =>
+  MERGE_COLLECTIONS.map(collection => {
+    const currentRecords = getRecords(current, collection);
+    const backupRecords = getRecords(backup, collection);
+    const currentById = new Map(currentRecords.map(record => [record.id, record]));
+    const backupIds = new Set(backupRecords.map(record => record.id));
+
+    let onlyInBackup = 0;
+    let changed = 0;
+    backupRecords.forEach(record => {
+      const local = currentById.get(record.id);
+      if (!local) {
+        onlyInBackup++;
+      } else if (getChangedFields(local, record).length > 0) {
+        changed++;
+      }
+    });
+
+    return {
+      collection,
+      backupCount: backupRecords.length,
+      currentCount: currentRecords.length,
+      onlyInBackup,
+      onlyInCurrent: currentRecords.filter(record => !backupIds.has(record.id)).length,
+      changed,
+    };
+  });
@@ -0,0 +1,227 @@
+/**
+ * Daily capacity planning
+ *
+ * Works out how much free time is left in a day once the work shift and the
+ * planner's time blocks are taken out, and compares it with the estimated
+ * time of the tasks due that day.
+ */
+
+import { Task, DailyPlan, WorkShift, DayCapacity, OverflowMove } from '../types';
+import { formatDate, timeToMinutes } from './helpers';
+import { parseLocalDate } from './recurrence';
+import { getShiftIntervalsForDate } from './nightShifts';
+import { getEffectiveEstimate } from './recommendations';
+import { isTaskWaiting } from './dependencies';
+
+// The part of the day that can be planned at all
+export const DAY_START = '07:00';
+export const DAY_END = '22:00';
+
+// How far ahead to look for a day with free time
+const MAX_LOOKAHEAD_DAYS = 14;
+
+const PRIORITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 3 };
+
+export interface CapacityInput {
+  tasks: Task[];
+  dailyPlans: DailyPlan[];
+  getShiftForDate: (date: string) => WorkShift | undefined;
+}
+
+type Interval = [number, number];
+
+const addDaysToDate = (date: string, days: number): string => {
+  const result = parseLocalDate(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Clamp an HH:MM range to the plannable day. Ranges that end before they
+ * start (past midnight) are treated as running to the end of the day.
+ */
+const toInterval = (startTime: string, endTime: string, dayStart: number, dayEnd: number): Interval | null => {
+  const start = Math.max(timeToMinutes(startTime), dayStart);
+  const rawEnd = timeToMinutes(endTime);
+  const end = Math.min(rawEnd <= timeToMinutes(startTime) ? dayEnd : rawEnd, dayEnd);
+  return end > start ? [start, end] : null;
+};
+
+/**
+ * Total minutes covered by a set of intervals, counting overlaps once
+ */
+const getCoveredMinutes = (intervals: Interval[]): number => {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let currentEnd = -1;
+
+  for (const [start, end] of sorted) {
+    if (end <= currentEnd) continue;
+    total += end - Math.max(start, currentEnd);
+    currentEnd = end;
+  }
+
+  return total;
+};
+
+const comparePriority = (a: Task, b: Task): number => {
+  const aOrder = a.priority ? PRIORITY_ORDER[a.priority] : 2;
+  const bOrder = b.priority ? PRIORITY_ORDER[b.priority] : 2;
+  return aOrder - bOrder;
+};
+
+/**
+ * Calculate the free time and task load for a single day.
+ * Tasks already placed in one of the day's time blocks are counted through
+ * the block rather than their estimate.
+ */
+export const calculateDayCapacity = (date: string, input: CapacityInput): DayCapacity => {
+  const dayStart = timeToMinutes(DAY_START);
+  const dayEnd = timeToMinutes(DAY_END);
+  const shift = input.getShiftForDate(date) || null;
+  const plan = input.dailyPlans.find(p => p.date === date);
+
+  // Includes the morning end of a night shift that started the day before
+  const busyIntervals: Interval[] = getShiftIntervalsForDate(date, input.getShiftForDate)
+    .map(({ start, end }): Interval => [Math.max(start, dayStart), Math.min(end, dayEnd)])
+    .filter(([start, end]) => end > start);
+
+  const scheduledTaskIds = new Set<string>();
+  for (const block of plan?.timeBlocks || []) {
+    const interval = toInterval(block.startTime, block.endTime, dayStart, dayEnd);
+    if (interval) busyIntervals.push(interval);
+
+    (block.taskIds || []).forEach(id => scheduledTaskIds.add(id));
+    if (block.taskId) scheduledTaskIds.add(block.taskId);
+  }
+
+  const awakeMinutes = dayEnd - dayStart;
+  const busyMinutes = getCoveredMinutes(busyIntervals);
+  const freeMinutes = awakeMinutes - busyMinutes;
+
+  const tasks = input.tasks
+    .filter(task =>
+      task.dueDate === date &&
+      !task.completed &&
+      !task.archived &&
+      // Someone else is doing delegated work until it's time to follow up
+      !isTaskWaiting(task, date) &&
+      !scheduledTaskIds.has(task.id)
+    )
+    .sort(comparePriority);
+
+  // Keep the most important tasks that fit; the rest overflow
+  let taskMinutes = 0;
+  let keptMinutes = 0;
+  const overflowTasks: Task[] = [];
+
+  for (const task of tasks) {
+    const estimate = getEffectiveEstimate(task) || 0;
+    taskMinutes += estimate;
+
+    if (keptMinutes + estimate <= freeMinutes) {
+      keptMinutes += estimate;
+    } else {
+      overflowTasks.push(task);
+    }
+  }
+
+  return {
+    date,
+    shift,
+    awakeMinutes,
+    busyMinutes,
+    freeMinutes,
+    taskMinutes,
+    remainingMinutes: freeMinutes - taskMinutes,
+    tasks,
+    overflowTasks,
+  };
+};
+
+/**
+ * Calculate capacity for a run of consecutive days
+ */
+export const calculateCapacityRange = (startDate: string, days: number, input: CapacityInput): DayCapacity[] => {
+  return Array.from({ length: days }, (_, i) => calculateDayCapacity(addDaysToDate(startDate, i), input));
+};
+
+/**
+ * Shift days whose due tasks don't fit in the time left around the shift
+ */
+export const getShiftOverloadWarnings = (startDate: string, days: number, input: CapacityInput): DayCapacity[] => {
+  return calculateCapacityRange(startDate, days, input)
+    .filter(day => day.shift && day.overflowTasks.length > 0);
+};
+
+/**
+ * Plan where each overflow task of a day should move: the first later day
+ * that still has room for it, taking earlier moves into account.
+ * Tasks with no such day within two weeks are left where they are.
+ */
+export const planOverflowMoves = (date: string, input: CapacityInput): OverflowMove[] => {
+  const { overflowTasks } = calculateDayCapacity(date, input);
+  const moves: OverflowMove[] = [];
+  const addedMinutes = new Map<string, number>();
+  const remainingByDate = new Map<string, number>();
+
+  const getRemaining = (candidate: string): number => {
+    if (!remainingByDate.has(candidate)) {
+      remainingByDate.set(candidate, calculateDayCapacity(candidate, input).remainingMinutes);
+    }
+    return (remainingByDate.get(candidate) as number) - (addedMinutes.get(candidate) || 0);
+  };
+
+  // Overflow tasks are in priority order, so the most important get the earliest slots
+  for (const task of overflowTasks) {
+    const estimate = getEffectiveEstimate(task) || 0;
+
+    for (let i = 1; i <= MAX_LOOKAHEAD_DAYS; i++) {
+      const candidate = addDaysToDate(date, i);
+      if (getRemaining(candidate) >= estimate) {
+        moves.push({ task, fromDate: date, toDate: candidate });
+        addedMinutes.set(candidate, (addedMinutes.get(candidate) || 0) + estimate);
+        break;
+      }
+    }
+  }
+
+  return moves;
+};
+
+/**
+ * Days after `fromDate` that still have room for a task, earliest first
+ */
+export const findDaysWithRoom = (
+  task: Task,
+  fromDate: string,
+  input: CapacityInput,
+  limit: number = 3
+): DayCapacity[] => {
+  const estimate = getEffectiveEstimate(task) || 0;
+  // The task itself shouldn't count against the days it could move to
+  const otherInput = { ...input, tasks: input.tasks.filter(t => t.id !== task.id) };
+  const days: DayCapacity[] = [];
+
+  for (let i = 1; i <= MAX_LOOKAHEAD_DAYS && days.length < limit; i++) {
+    const day = calculateDayCapacity(addDaysToDate(fromDate, i), otherInput);
+    if (day.remainingMinutes >= estimate) {
+      days.push(day);
+    }
+  }
+
+  return days;
+};
+
+/**
+ * Format a number of minutes as e.g. "2h 30m"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  const absolute = Math.abs(Math.round(minutes));
+  const hours = Math.floor(absolute / 60);
+  const mins = absolute % 60;
+
+  if (hours === 0) return `${sign}${mins}m`;
+  return mins === 0 ? `${sign}${hours}h` : `${sign}${hours}h ${mins}m`;
+};
@@ -1,5 +1,5 @@
 import Dexie from 'dexie';
-import { Task, Project, Category, DailyPlan, JournalEntry } from '../types';
+import { Task, Project, Category, DailyPlan, JournalEntry, FocusSession, AccountabilityRecord, HistoryOperation, BackupSnapshot, BackupEncryptionKey, SyncRecordState, SyncState } from '../types';
 import { WorkSchedule } from '../types/WorkSchedule';
 
 /**
@@ -15,6 +15,11 @@ export class ADHDPlannerDB extends Dexie {
   dailyPlans!: Dexie.Table<DailyPlan, string>;
   workSchedules!: Dexie.Table<WorkSchedule, string>;
   journalEntries!: Dexie.Table<JournalEntry, string>;
+  focusSessions!: Dexie.Table<FocusSession, string>;
+  accountabilityRecords!: Dexie.Table<AccountabilityRecord, string>;
+  operations!: Dexie.Table<HistoryOperation, string>;
+  syncRecords!: Dexie.Table<SyncRecordState, string>;
+  syncState!: Dexie.Table<SyncState, string>;
 
   constructor() {
     super('ADHDPlannerDB');
@@ -29,6 +34,27 @@ export class ADHDPlannerDB extends Dexie {
       journalEntries: 'id, date, weekNumber, weekYear, createdAt, updatedAt'
     });
 
+    // Version 2: focus/Pomodoro sessions linked to tasks
+    this.version(2).stores({
+      focusSessions: 'id, taskId, status, startedAt'
+    });
+
+    // Version 3: accountability check-in history
+    this.version(3).stores({
+      accountabilityRecords: 'id, taskId, reasonId, date'
+    });
+
+    // Version 4: change history for undo/redo
+    this.version(4).stores({
+      operations: 'id, sequence'
+    });
+
+    // Version 5: per-record change tracking for sync
+    this.version(5).stores({
+      syncRecords: 'key, table, seq',
+      syncState: 'id'
+    });
+
     // Note: We're using interfaces, not classes, so we don't use mapToClass
   }
 
@@ -109,4 +135,30 @@ export class ADHDPlannerDB extends Dexie {
 }
 
 // Create and export a singleton instance
-export const db = new ADHDPlannerDB();
\ No newline at end of file
+export const db = new ADHDPlannerDB();
+
+/**
+ * ADHDPlannerBackupsDB - rolling snapshots of the planner data
+ *
+ * Kept apart from ADHDPlannerDB so a corrupted database or an emergency
+ * reset doesn't take the backups with it
+ */
+export class ADHDPlannerBackupsDB extends Dexie {
+  snapshots!: Dexie.Table<BackupSnapshot, string>;
+  keys!: Dexie.Table<BackupEncryptionKey, string>;
+
+  constructor() {
+    super('ADHDPlannerBackupsDB');
+
+    this.version(1).stores({
+      snapshots: 'id, kind, createdAt'
+    });
+
+    // Version 2: key for encrypting backups with a passphrase
+    this.version(2).stores({
+      keys: 'id'
+    });
+  }
+}
+
+export const backupsDb = new ADHDPlannerBackupsDB();
\ No newline at end of file
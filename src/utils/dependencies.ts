@@ -0,0 +1,116 @@
+/**
+ * Task dependency utilities
+ *
+ * A task can be blocked by other tasks through `Task.blockedBy`. A task is
+ * blocked while at least one of its blockers is still incomplete. The
+ * "blocked by" relations must form a directed acyclic graph.
+ */
+
+import { Task } from '../types';
+
+/**
+ * Build an id -> task lookup map for fast dependency checks
+ */
+export const createTaskMap = (tasks: Task[]): Map<string, Task> => {
+  return new Map(tasks.map(task => [task.id, task]));
+};
+
+/**
+ * Get the blockers of a task that are still incomplete.
+ * Blockers that no longer exist are ignored.
+ */
+export const getIncompleteBlockers = (task: Task, taskMap: Map<string, Task>): Task[] => {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+
+  return task.blockedBy
+    .map(id => taskMap.get(id))
+    .filter((blocker): blocker is Task => !!blocker && !blocker.completed);
+};
+
+/**
+ * Check whether a task is currently blocked by an incomplete task
+ */
+export const isTaskBlocked = (task: Task, taskMap: Map<string, Task>): boolean => {
+  return getIncompleteBlockers(task, taskMap).length > 0;
+};
+
+/**
+ * Check whether a task is delegated and waiting on someone else on `date`
+ * (YYYY-MM-DD). It needs attention again once its follow-up date comes round.
+ */
+export const isTaskWaiting = (task: Task, date: string): boolean => {
+  return !task.completed && !!task.delegatedTo && (!task.followUpDate || task.followUpDate > date);
+};
+
+/**
+ * Look for a dependency cycle that would be created by giving `taskId`
+ * the blockers in `blockedBy`.
+ *
+ * @returns The ids along the cycle (starting and ending with `taskId`), or null if there is none
+ */
+export const findDependencyCycle = (
+  taskId: string,
+  blockedBy: string[],
+  tasks: Task[]
+): string[] | null => {
+  const taskMap = createTaskMap(tasks);
+  const visited = new Set<string>();
+
+  // Depth-first search from each proposed blocker back to the task itself
+  const search = (currentId: string, path: string[]): string[] | null => {
+    if (currentId === taskId) return [...path, currentId];
+    if (visited.has(currentId)) return null;
+    visited.add(currentId);
+
+    const current = taskMap.get(currentId);
+    for (const nextId of current?.blockedBy || []) {
+      const cycle = search(nextId, [...path, currentId]);
+      if (cycle) return cycle;
+    }
+
+    return null;
+  };
+
+  for (const blockerId of blockedBy) {
+    const cycle = search(blockerId, [taskId]);
+    if (cycle) return cycle;
+  }
+
+  return null;
+};
+
+/**
+ * Throw if the task's blockers would create a dependency cycle
+ */
+export const assertNoDependencyCycle = (task: Pick<Task, 'id' | 'blockedBy'>, tasks: Task[]): void => {
+  if (!task.blockedBy || task.blockedBy.length === 0) return;
+
+  const cycle = findDependencyCycle(task.id, task.blockedBy, tasks);
+  if (cycle) {
+    const taskMap = createTaskMap(tasks);
+    const names = cycle.map(id => taskMap.get(id)?.title || id);
+    throw new Error(`Dependency cycle detected: ${names.join(' → ')}`);
+  }
+};
+
+/**
+ * Update the "newly unblocked" flags after a task's completion state changes.
+ * Tasks whose last incomplete blocker was just completed get `unblockedAt`;
+ * tasks that become blocked again (e.g. a blocker is un-completed) lose it.
+ */
+export const updateUnblockedFlags = (tasks: Task[], changedTaskId: string, timestamp: string): Task[] => {
+  const taskMap = createTaskMap(tasks);
+
+  return tasks.map(task => {
+    if (task.completed || !task.blockedBy?.includes(changedTaskId)) return task;
+
+    const blocked = isTaskBlocked(task, taskMap);
+    if (!blocked && !task.unblockedAt) {
+      return { ...task, unblockedAt: timestamp, updatedAt: timestamp };
+    }
+    if (blocked && task.unblockedAt) {
+      return { ...task, unblockedAt: null, updatedAt: timestamp };
+    }
+    return task;
+  });
+};
@@ -1,6 +1,13 @@
-import { Task, Project, Category, DailyPlan, JournalEntry } from '../types';
+import Dexie from 'dexie';
+import { Task, Project, Category, DailyPlan, JournalEntry, FocusSession, AccountabilityRecord, ExportData, HistoryOperation, HistoryRecord, HistoryTable, BackupKind, BackupSnapshot, BackupSummary, EncryptionKey } from '../types';
 import { WorkSchedule } from '../types/WorkSchedule';
-import { db } from './db';
+import { db, backupsDb } from './db';
+import { createExportEnvelope, readExportFile } from './exportFormat';
+import { HistoryDirection, MAX_HISTORY_OPERATIONS, getChangeTarget } from './history';
+import { compressText, countRecords, decompressText, getDueBackupKinds, getExpiredBackupIds, getPayloadSize } from './backups';
+import { DecryptionError, decryptText, deriveEncryptionKey, encryptText, openExportFile } from './encryption';
+import { generateId } from './helpers';
+import { DEFAULT_TRASH_RETENTION_DAYS, getExpiredTrashSelection, purgeFromTrash } from './trash';
 
 // Error handling utilities
 const handleStorageError = (operation: string, error: Error | unknown): never => {
@@ -308,49 +315,170 @@ export const deleteJournalEntry = async (entryId: string): Promise<void> => {
   }
 };
 
-// Data Import/Export
-export const exportData = async (): Promise<string> => {
+// Focus Sessions
+export const getFocusSessions = async (): Promise<FocusSession[]> => {
   try {
-    // Create an export object, building it incrementally to prevent excessive memory use
-    const exportObject: Record<string, unknown> = {};
+    return await db.focusSessions.orderBy('startedAt').toArray();
+  } catch (error) {
+    handleStorageError('get focus sessions', error);
+    return [];
+  }
+};
+
+export const saveFocusSession = async (session: FocusSession): Promise<void> => {
+  try {
+    await db.focusSessions.put(session);
+  } catch (error) {
+    handleStorageError('save focus session', error);
+  }
+};
 
-    // Export each type of data separately to manage memory better
+export const deleteFocusSessionsForTask = async (taskId: string): Promise<void> => {
+  try {
+    await db.focusSessions.where('taskId').equals(taskId).delete();
+  } catch (error) {
+    handleStorageError('delete focus sessions', error);
+  }
+};
+
+// Accountability Records
+export const getAccountabilityRecords = async (): Promise<AccountabilityRecord[]> => {
+  try {
+    return await db.accountabilityRecords.orderBy('date').toArray();
+  } catch (error) {
+    handleStorageError('get accountability records', error);
+    return [];
+  }
+};
+
+export const addAccountabilityRecord = async (record: AccountabilityRecord): Promise<void> => {
+  try {
+    await db.accountabilityRecords.add(record);
+  } catch (error) {
+    handleStorageError('add accountability record', error);
+  }
+};
+
+// Change History
+const getHistoryTable = (table: HistoryTable): Dexie.Table<HistoryRecord, string> => {
+  switch (table) {
+    case 'tasks': return db.tasks as Dexie.Table<HistoryRecord, string>;
+    case 'projects': return db.projects as Dexie.Table<HistoryRecord, string>;
+    case 'categories': return db.categories as Dexie.Table<HistoryRecord, string>;
+    case 'dailyPlans': return db.dailyPlans as Dexie.Table<HistoryRecord, string>;
+    case 'workSchedules': return db.workSchedules as Dexie.Table<HistoryRecord, string>;
+    case 'journalEntries': return db.journalEntries as Dexie.Table<HistoryRecord, string>;
+  }
+};
+
+export const getHistoryOperations = async (): Promise<HistoryOperation[]> => {
+  try {
+    return await db.operations.orderBy('sequence').toArray();
+  } catch (error) {
+    handleStorageError('get history', error);
+    return [];
+  }
+};
+
+/**
+ * Record a new operation. Undone operations can't be redone after this,
+ * and the oldest are dropped once the log is full.
+ */
+export const addHistoryOperation = async (operation: HistoryOperation): Promise<void> => {
+  try {
+    await db.transaction('rw', db.operations, async () => {
+      await db.operations.filter(op => op.undone).delete();
+      await db.operations.add(operation);
+
+      const excess = await db.operations.count() - MAX_HISTORY_OPERATIONS;
+      if (excess > 0) {
+        const oldestIds = await db.operations.orderBy('sequence').limit(excess).primaryKeys();
+        await db.operations.bulkDelete(oldestIds);
+      }
+    });
+  } catch (error) {
+    handleStorageError('record history', error);
+  }
+};
+
+/**
+ * Write back the records an undo or redo leaves behind, and mark the operation
+ */
+export const applyHistoryOperation = async (operation: HistoryOperation, direction: HistoryDirection): Promise<void> => {
+  try {
+    const tables = Array.from(new Set(operation.changes.map(change => change.table))).map(getHistoryTable);
+    await db.transaction('rw', [...tables, db.operations], async () => {
+      for (const change of operation.changes) {
+        const target = getChangeTarget(change, direction);
+        if (target) {
+          await getHistoryTable(change.table).put(target);
+        } else {
+          await getHistoryTable(change.table).delete(change.recordId);
+        }
+      }
+      await db.operations.update(operation.id, { undone: direction === 'undo' });
+    });
+  } catch (error) {
+    handleStorageError(direction, error);
+  }
+};
+
+export const clearHistory = async (): Promise<void> => {
+  try {
+    await db.operations.clear();
+  } catch (error) {
+    handleStorageError('clear history', error);
+  }
+};
+
+// Data Import/Export
+/**
+ * Export all data as JSON, encrypted with the passphrase if one is given
+ */
+export const exportData = async (passphrase?: string): Promise<string> => {
+  try {
     console.log('Starting data export...');
 
-    // Export tasks
     const tasks = await db.tasks.toArray();
     console.log(`Exporting ${tasks.length} tasks`);
-    exportObject.tasks = tasks;
 
-    // Export projects
     const projects = await db.projects.toArray();
     console.log(`Exporting ${projects.length} projects`);
-    exportObject.projects = projects;
 
-    // Export categories
     const categories = await getCategories();
     console.log(`Exporting ${categories.length} categories`);
-    exportObject.categories = categories;
 
-    // Export daily plans
     const dailyPlans = await db.dailyPlans.toArray();
     console.log(`Exporting ${dailyPlans.length} daily plans`);
-    exportObject.dailyPlans = dailyPlans;
 
-    // Export work schedule
     const workSchedules = await db.workSchedules.toArray();
     console.log(`Exporting ${workSchedules.length} work schedules`);
-    // Use consistent field name workSchedule (not workSchedules)
-    exportObject.workSchedule = workSchedules.length > 0 ? workSchedules[0] : null;
 
-    // Export journal entries
     const journalEntries = await db.journalEntries.toArray();
     console.log(`Exporting ${journalEntries.length} journal entries`);
-    exportObject.journalEntries = journalEntries;
 
-    // Convert to JSON string in chunks if necessary for very large datasets
+    const focusSessions = await db.focusSessions.toArray();
+    console.log(`Exporting ${focusSessions.length} focus sessions`);
+
+    const accountabilityRecords = await db.accountabilityRecords.toArray();
+    console.log(`Exporting ${accountabilityRecords.length} accountability records`);
+
+    // Wrap in a versioned envelope so imports can be migrated and checked
+    const envelope = createExportEnvelope({
+      tasks,
+      projects,
+      categories,
+      dailyPlans,
+      // Use consistent field name workSchedule (not workSchedules)
+      workSchedule: workSchedules.length > 0 ? workSchedules[0] : null,
+      journalEntries,
+      focusSessions,
+      accountabilityRecords,
+    });
+
     console.log('Converting data to JSON...');
-    return JSON.stringify(exportObject);
+    const json = JSON.stringify(envelope);
+    return passphrase ? await encryptText(json, passphrase) : json;
   } catch (error) {
     console.error('Error during data export:', error);
     throw new Error(`Failed to export data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -360,84 +488,67 @@ export const exportData = async (): Promise<string> => {
 // Removed chunkArray function since it's no longer used in the simplified importData function
 
 /**
- * Simplifying importData function to avoid complex parsing errors
+ * Import an export file, replacing all existing data.
+ * Older export formats are migrated first; files that fail validation throw an
+ * ImportValidationError listing the problems, and encrypted files that can't
+ * be opened with the passphrase throw a DecryptionError, before anything is cleared.
  */
-export const importData = async (jsonData: string): Promise<boolean> => {
-  try {
-    console.log('Starting data import process...');
-
-    // First try to parse the JSON normally
-    try {
-      const data = JSON.parse(jsonData);
-      console.log('Successfully parsed JSON data');
-
-      // Check if we have any existing data
-      const hasExistingData = await db.tasks.count() > 0 ||
-                              await db.projects.count() > 0 ||
-                              await db.categories.count() > 0;
-
-      if (hasExistingData) {
-        console.log('Clearing existing data before importing...');
-        await Promise.all([
-          db.tasks.clear(),
-          db.projects.clear(),
-          db.categories.clear(),
-          db.dailyPlans.clear(),
-          db.workSchedules.clear(),
-          db.journalEntries.clear()
-        ]);
-      }
+export const importData = async (jsonData: string, passphrase?: string): Promise<boolean> => {
+  console.log('Starting data import process...');
 
-      // Import tasks
-      if (Array.isArray(data.tasks)) {
-        console.log(`Importing ${data.tasks.length} tasks...`);
-        await db.tasks.bulkAdd(data.tasks);
-      } else if (Array.isArray(data) && data.length > 0) {
-        // If the root is an array, assume it's tasks
-        console.log(`Importing ${data.length} tasks from root array...`);
-        await db.tasks.bulkAdd(data);
-      }
+  const { data, sourceVersion, appVersion } = readExportFile(await openExportFile(jsonData, passphrase));
+  console.log(`Validated export (schema ${sourceVersion}, app ${appVersion ?? 'unknown'})`);
 
-      // Import projects
-      if (Array.isArray(data.projects)) {
-        console.log(`Importing ${data.projects.length} projects...`);
-        await db.projects.bulkAdd(data.projects);
-      }
+  try {
+    // Check if we have any existing data
+    const hasExistingData = await db.tasks.count() > 0 ||
+                            await db.projects.count() > 0 ||
+                            await db.categories.count() > 0;
+
+    if (hasExistingData) {
+      console.log('Clearing existing data before importing...');
+      await Promise.all([
+        db.tasks.clear(),
+        db.projects.clear(),
+        db.categories.clear(),
+        db.dailyPlans.clear(),
+        db.workSchedules.clear(),
+        db.journalEntries.clear(),
+        db.focusSessions.clear(),
+        db.accountabilityRecords.clear(),
+        // Undoing past an import would mix the old and new data
+        db.operations.clear()
+      ]);
+    }
 
-      // Import categories
-      if (Array.isArray(data.categories)) {
-        console.log(`Importing ${data.categories.length} categories...`);
-        await db.categories.bulkAdd(data.categories);
-      }
+    console.log(`Importing ${data.tasks.length} tasks...`);
+    await db.tasks.bulkAdd(data.tasks);
 
-      // Import daily plans
-      if (Array.isArray(data.dailyPlans)) {
-        console.log(`Importing ${data.dailyPlans.length} daily plans...`);
-        await db.dailyPlans.bulkAdd(data.dailyPlans);
-      }
+    console.log(`Importing ${data.projects.length} projects...`);
+    await db.projects.bulkAdd(data.projects);
 
-      // Import work schedule
-      if (data.workSchedule && typeof data.workSchedule === 'object') {
-        console.log('Importing work schedule...');
-        await db.workSchedules.add(data.workSchedule);
-      }
+    console.log(`Importing ${data.categories.length} categories...`);
+    await db.categories.bulkAdd(data.categories);
 
-      // Import journal entries
-      if (Array.isArray(data.journalEntries)) {
-        console.log(`Importing ${data.journalEntries.length} journal entries...`);
-        await db.journalEntries.bulkAdd(data.journalEntries);
-      }
+    console.log(`Importing ${data.dailyPlans.length} daily plans...`);
+    await db.dailyPlans.bulkAdd(data.dailyPlans);
 
-      console.log('Data import completed successfully');
-      return true;
-    } catch (parseError) {
-      console.error('Error parsing or importing JSON:', parseError);
-      if (parseError instanceof Error) {
-        console.error('Error name:', parseError.name);
-        console.error('Error message:', parseError.message);
-      }
-      return false;
+    if (data.workSchedule) {
+      console.log('Importing work schedule...');
+      await db.workSchedules.add(data.workSchedule);
     }
+
+    console.log(`Importing ${data.journalEntries.length} journal entries...`);
+    await db.journalEntries.bulkAdd(data.journalEntries);
+
+    console.log(`Importing ${data.focusSessions.length} focus sessions...`);
+    await db.focusSessions.bulkAdd(data.focusSessions);
+
+    console.log(`Importing ${data.accountabilityRecords.length} accountability records...`);
+    await db.accountabilityRecords.bulkAdd(data.accountabilityRecords);
+
+    console.log('Data import completed successfully');
+    return true;
   } catch (error) {
     console.error('Critical error during import process:', error);
     if (error instanceof Error) {
@@ -448,6 +559,164 @@ export const importData = async (jsonData: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Write the records chosen in a merge import, leaving everything else as it is
+ */
+export const mergeImportedRecords = async (records: ExportData): Promise<void> => {
+  try {
+    await db.transaction(
+      'rw',
+      [db.tasks, db.projects, db.categories, db.dailyPlans, db.workSchedules, db.journalEntries, db.focusSessions, db.accountabilityRecords],
+      async () => {
+        await db.tasks.bulkPut(records.tasks);
+        await db.projects.bulkPut(records.projects);
+        await db.categories.bulkPut(records.categories);
+        await db.dailyPlans.bulkPut(records.dailyPlans);
+        await db.journalEntries.bulkPut(records.journalEntries);
+        await db.focusSessions.bulkPut(records.focusSessions);
+        await db.accountabilityRecords.bulkPut(records.accountabilityRecords);
+
+        // Only one work schedule is kept
+        if (records.workSchedule) {
+          await db.workSchedules.clear();
+          await db.workSchedules.add(records.workSchedule);
+        }
+      }
+    );
+  } catch (error) {
+    handleStorageError('merge imported records', error);
+  }
+};
+
+// Backups
+const toBackupSummary = (snapshot: BackupSnapshot): BackupSummary => ({
+  id: snapshot.id,
+  kind: snapshot.kind,
+  createdAt: snapshot.createdAt,
+  note: snapshot.note,
+  counts: snapshot.counts,
+  size: snapshot.size,
+  encrypted: !!snapshot.encrypted,
+});
+
+// Encrypted backups are gzipped inside the envelope
+const encodeBackup = async (json: string, key: EncryptionKey | null) =>
+  key
+    ? { payload: await encryptText(json, key), compressed: false, encrypted: true }
+    : { ...(await compressText(json)), encrypted: false };
+
+/**
+ * All backups without their payload, newest first
+ */
+export const getBackups = async (): Promise<BackupSummary[]> => {
+  try {
+    const snapshots = await backupsDb.snapshots.orderBy('createdAt').reverse().toArray();
+    return snapshots.map(toBackupSummary);
+  } catch (error) {
+    handleStorageError('get backups', error);
+    return [];
+  }
+};
+
+/**
+ * Snapshot the current data, then drop backups beyond the number kept.
+ * An empty database isn't worth a backup, so nothing is saved for one.
+ */
+export const createBackup = async (kind: BackupKind, note?: string): Promise<BackupSummary | null> => {
+  try {
+    const json = await exportData();
+    const counts = countRecords(readExportFile(json).data);
+    if (Object.values(counts).every(count => count === 0)) return null;
+
+    const { payload, compressed, encrypted } = await encodeBackup(json, (await backupsDb.keys.get('backups')) || null);
+    const snapshot: BackupSnapshot = {
+      id: generateId(),
+      kind,
+      createdAt: new Date().toISOString(),
+      ...(note ? { note } : {}),
+      counts,
+      size: getPayloadSize(payload),
+      encrypted,
+      compressed,
+      payload,
+    };
+    await backupsDb.snapshots.add(snapshot);
+
+    const expired = getExpiredBackupIds(await getBackups());
+    if (expired.length > 0) {
+      await backupsDb.snapshots.bulkDelete(expired);
+    }
+    return toBackupSummary(snapshot);
+  } catch (error) {
+    handleStorageError('create backup', error);
+    return null;
+  }
+};
+
+/**
+ * Take the daily and weekly backups if they haven't been taken yet
+ */
+export const runScheduledBackups = async (): Promise<void> => {
+  const due = getDueBackupKinds(await getBackups());
+  for (const kind of due) {
+    await createBackup(kind);
+  }
+};
+
+/**
+ * The export file a backup holds, still encrypted if the backup is
+ */
+export const readBackup = async (backupId: string): Promise<string> => {
+  const snapshot = await backupsDb.snapshots.get(backupId);
+  if (!snapshot) {
+    throw new Error('Backup not found');
+  }
+  return decompressText(snapshot.payload, snapshot.compressed);
+};
+
+export const isBackupEncryptionEnabled = async (): Promise<boolean> =>
+  (await backupsDb.keys.count()) > 0;
+
+/**
+ * Start encrypting backups, change their passphrase or stop encrypting them.
+ * Every stored backup is re-saved with the new passphrase (or unencrypted), so
+ * one passphrase always opens them all. Changing or removing the passphrase
+ * needs the current one.
+ */
+export const updateBackupPassphrase = async (currentPassphrase: string, newPassphrase: string | null): Promise<void> => {
+  const storedKey = await backupsDb.keys.get('backups');
+  let currentKey: EncryptionKey | null = null;
+  if (storedKey) {
+    currentKey = await deriveEncryptionKey(currentPassphrase, storedKey.salt, storedKey.iterations);
+    if (currentKey.check !== storedKey.check) {
+      throw new DecryptionError('The current backup passphrase is wrong.');
+    }
+  }
+  const newKey = newPassphrase ? await deriveEncryptionKey(newPassphrase) : null;
+
+  // Re-encode everything before saving, so a backup that can't be opened leaves them all as they were
+  const snapshots: BackupSnapshot[] = [];
+  for (const snapshot of await backupsDb.snapshots.toArray()) {
+    const stored = await decompressText(snapshot.payload, snapshot.compressed);
+    const json = snapshot.encrypted ? await decryptText(stored, currentKey || currentPassphrase) : stored;
+    const { payload, compressed, encrypted } = await encodeBackup(json, newKey);
+    snapshots.push({ ...snapshot, size: getPayloadSize(payload), encrypted, compressed, payload });
+  }
+
+  try {
+    await backupsDb.transaction('rw', backupsDb.snapshots, backupsDb.keys, async () => {
+      await backupsDb.snapshots.bulkPut(snapshots);
+      if (newKey) {
+        await backupsDb.keys.put({ ...newKey, id: 'backups', createdAt: new Date().toISOString() });
+      } else {
+        await backupsDb.keys.delete('backups');
+      }
+    });
+  } catch (error) {
+    handleStorageError('update backup passphrase', error);
+  }
+};
+
 // generateId function is no longer needed with simplified importData
 
 // Reset data
@@ -474,6 +743,21 @@ export const resetData = async (): Promise<void> => {
     console.log('Clearing journal entries...');
     await db.journalEntries.clear();
 
+    console.log('Clearing focus sessions...');
+    await db.focusSessions.clear();
+
+    console.log('Clearing accountability records...');
+    await db.accountabilityRecords.clear();
+
+    console.log('Clearing change history...');
+    await db.operations.clear();
+
+    // A reset stays on this device: the next sync starts over and pulls
+    // everything back instead of deleting it everywhere
+    console.log('Clearing sync tracking...');
+    await db.syncRecords.clear();
+    await db.syncState.clear();
+
     console.log('Database reset complete');
   } catch (error) {
     console.error('Error during data reset:', error);
@@ -501,13 +785,36 @@ export const compact = async (): Promise<void> => {
  * Performs periodic database maintenance to optimize performance
  * and prevent memory issues
  */
-export const performDatabaseMaintenance = async (): Promise<void> => {
+export const performDatabaseMaintenance = async (trashRetentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): Promise<void> => {
   try {
     console.log('Starting database maintenance...');
 
     // Compact the database to reclaim space
     await compact();
 
+    // Purge items that have been in the trash longer than the retention period
+    await db.transaction('rw', db.tasks, db.projects, db.categories, async () => {
+      const data = {
+        tasks: await db.tasks.toArray(),
+        projects: await db.projects.toArray(),
+        categories: await db.categories.toArray()
+      };
+      const expired = getExpiredTrashSelection(data, trashRetentionDays);
+      if (expired.taskIds.length + expired.projectIds.length + expired.categoryIds.length === 0) return;
+
+      console.log(`Purging ${expired.taskIds.length} tasks, ${expired.projectIds.length} projects and ${expired.categoryIds.length} categories from the trash...`);
+      const purged = purgeFromTrash(data, expired, new Date().toISOString());
+      const keptTaskIds = new Set(purged.tasks.map(task => task.id));
+      const keptProjectIds = new Set(purged.projects.map(project => project.id));
+      const keptCategoryIds = new Set(purged.categories.map(category => category.id));
+      const originalTasks = new Set(data.tasks);
+
+      await db.tasks.bulkDelete(data.tasks.filter(task => !keptTaskIds.has(task.id)).map(task => task.id));
+      await db.tasks.bulkPut(purged.tasks.filter(task => !originalTasks.has(task)));
+      await db.projects.bulkDelete(data.projects.filter(project => !keptProjectIds.has(project.id)).map(project => project.id));
+      await db.categories.bulkDelete(data.categories.filter(category => !keptCategoryIds.has(category.id)).map(category => category.id));
+    });
+
     // Archive old completed tasks to reduce database size
     const threeMonthsAgo = new Date();
     threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { EncryptionKey } from '../types';
+import {
+  DecryptionError,
+  decryptText,
+  deriveEncryptionKey,
+  encryptText,
+  getPassphraseError,
+  isEncryptedFile,
+  openExportFile,
+} from './encryption';
+
+const PASSPHRASE = 'correct horse battery';
+const TEXT = JSON.stringify({ version: 3, data: { tasks: [{ id: 't1', title: 'Call dentist ☎' }] } });
+
+// Few iterations keep the tests quick; decrypting reads the count from the file
+let key: EncryptionKey;
+let encrypted: string;
+
+beforeAll(async () => {
+  key = await deriveEncryptionKey(PASSPHRASE, undefined, 1000);
+  encrypted = await encryptText(TEXT, key);
+});
+
+const editEnvelope = (edit: (envelope: Record<string, unknown>) => void): string => {
+  const envelope = JSON.parse(encrypted);
+  edit(envelope);
+  return JSON.stringify(envelope);
+};
+
+const expectDecryptionError = async (text: string, secret: string | EncryptionKey, message: RegExp) => {
+  const error = await decryptText(text, secret).catch(caught => caught);
+  expect(error).toBeInstanceOf(DecryptionError);
+  expect(error.message).toMatch(message);
+};
+
+describe('encryptText and decryptText', () => {
+  it('round-trips text with the passphrase at the default strength', async () => {
+    const text = await encryptText(TEXT, PASSPHRASE);
+    expect(text).not.toContain('Call dentist');
+    expect(JSON.parse(text).kdf.iterations).toBe(600000);
+    expect(await decryptText(text, PASSPHRASE)).toBe(TEXT);
+  });
+
+  it('round-trips text with the passphrase or the derived key', async () => {
+    expect(JSON.parse(encrypted)).toMatchObject({ format: 'adhd-planner-encrypted', compression: 'gzip' });
+    expect(await decryptText(encrypted, PASSPHRASE)).toBe(TEXT);
+    expect(await decryptText(encrypted, key)).toBe(TEXT);
+  });
+
+  it('uses a new salt and IV every time', async () => {
+    const again = JSON.parse(await encryptText(TEXT, await deriveEncryptionKey(PASSPHRASE, undefined, 1000)));
+    const first = JSON.parse(encrypted);
+    expect(again.kdf.salt).not.toBe(first.kdf.salt);
+    expect(again.cipher.iv).not.toBe(first.cipher.iv);
+  });
+
+  it('asks for a passphrase when none is given', async () => {
+    await expectDecryptionError(encrypted, '', /Enter its passphrase/);
+  });
+
+  it('reports a wrong passphrase or key', async () => {
+    await expectDecryptionError(encrypted, 'wrong horse battery', /Wrong passphrase/);
+    await expectDecryptionError(encrypted, await deriveEncryptionKey(PASSPHRASE, undefined, 1000), /Wrong passphrase/);
+  });
+
+  it('reports changed data as tampering rather than a wrong passphrase', async () => {
+    const tampered = editEnvelope(envelope => {
+      const data = envelope.data as string;
+      envelope.data = (data[0] === 'A' ? 'B' : 'A') + data.slice(1);
+    });
+    await expectDecryptionError(tampered, PASSPHRASE, /changed or damaged since it was created/);
+  });
+
+  it('reports a changed header as tampering', async () => {
+    const tampered = editEnvelope(envelope => {
+      envelope.kdf = { ...(envelope.kdf as object), hash: 'SHA-512' };
+    });
+    await expectDecryptionError(tampered, PASSPHRASE, /changed or damaged since it was created/);
+
+    const uncompressed = editEnvelope(envelope => {
+      envelope.compression = null;
+    });
+    await expectDecryptionError(uncompressed, PASSPHRASE, /changed or damaged since it was created/);
+  });
+
+  it('refuses an iteration count far above the default', async () => {
+    const tampered = editEnvelope(envelope => {
+      envelope.kdf = { ...(envelope.kdf as object), iterations: 600000 * 10 + 1 };
+    });
+    await expectDecryptionError(tampered, PASSPHRASE, /damaged and cannot be opened/);
+  });
+
+  it('refuses files that are not readable envelopes', async () => {
+    await expectDecryptionError('{"format":"adhd-planner-encrypted"', PASSPHRASE, /damaged and cannot be opened/);
+    await expectDecryptionError('{"version":3}', PASSPHRASE, /not an encrypted file/);
+    await expectDecryptionError(editEnvelope(envelope => { delete envelope.cipher; }), PASSPHRASE, /damaged and cannot be opened/);
+    await expectDecryptionError(editEnvelope(envelope => { envelope.version = 2; }), PASSPHRASE, /newer version of the app/);
+  });
+});
+
+describe('openExportFile', () => {
+  it('passes plain exports through and decrypts encrypted ones', async () => {
+    expect(isEncryptedFile(TEXT)).toBe(false);
+    expect(isEncryptedFile(encrypted)).toBe(true);
+    expect(await openExportFile(TEXT)).toBe(TEXT);
+    expect(await openExportFile(encrypted, PASSPHRASE)).toBe(TEXT);
+  });
+});
+
+describe('getPassphraseError', () => {
+  it('wants a long enough passphrase typed the same twice', () => {
+    expect(getPassphraseError('short', 'short')).toMatch(/at least 8 characters/);
+    expect(getPassphraseError(PASSPHRASE, 'correct horse')).toBe('The passphrases do not match');
+    expect(getPassphraseError(PASSPHRASE, PASSPHRASE)).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Passphrase encryption for export files and backups
+ *
+ * A key is derived from the passphrase with PBKDF2 (SHA-256) and the text is
+ * gzipped, then encrypted with AES-GCM. The envelope keeps the salt, IV and a
+ * hash of extra derived key material: a passphrase that doesn't reproduce the
+ * hash is wrong, while one that does but fails to decrypt means the file was
+ * changed or damaged. The passphrase itself is never stored.
+ */
+
+import { EncryptedEnvelope, EncryptionKey } from '../types';
+import { compressText, decompressText } from './backups';
+
+export const ENCRYPTED_FORMAT = 'adhd-planner-encrypted';
+const ENCRYPTED_VERSION = 1;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Thrown when an encrypted file can't be opened: no passphrase was given, the
+ * passphrase is wrong, or the file was changed or damaged
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * What's wrong with a new passphrase and its repeat, if anything
+ */
+export const getPassphraseError = (passphrase: string, repeated: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== repeated) {
+    return 'The passphrases do not match';
+  }
+  return null;
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large files don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isEncryptedEnvelope = (value: unknown): value is EncryptedEnvelope =>
+  isRecord(value) && value.format === ENCRYPTED_FORMAT;
+
+/**
+ * Whether file contents are an encrypted envelope rather than a plain export
+ */
+export const isEncryptedFile = (text: string): boolean => {
+  if (!text.includes(ENCRYPTED_FORMAT)) return false;
+  try {
+    return isEncryptedEnvelope(JSON.parse(text));
+  } catch {
+    return false;
+  }
+};
+
+// Everything but the ciphertext, bound to it as additional data
+const getHeader = (envelope: Omit<EncryptedEnvelope, 'data'>): Uint8Array =>
+  new TextEncoder().encode(JSON.stringify([
+    envelope.format,
+    envelope.version,
+    envelope.kdf,
+    envelope.cipher,
+    envelope.check,
+    envelope.compression,
+  ]));
+
+/**
+ * Derive an AES-GCM key from a passphrase. A new random salt is used unless
+ * one is given, as when opening an existing file.
+ */
+export const deriveEncryptionKey = async (
+  passphrase: string,
+  salt: string = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<EncryptionKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    baseKey,
+    512
+  ));
+
+  // The first half is the key; the second half is only used to check the passphrase
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const check = toBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', bits.slice(32))));
+  return { key, salt, iterations, check };
+};
+
+/**
+ * Encrypt text into an envelope, with a passphrase or an already derived key
+ */
+export const encryptText = async (text: string, secret: string | EncryptionKey): Promise<string> => {
+  const { key, salt, iterations, check } = typeof secret === 'string' ? await deriveEncryptionKey(secret) : secret;
+  const { payload, compressed } = await compressText(text);
+  const plaintext = typeof payload === 'string' ? new TextEncoder().encode(payload) : new Uint8Array(payload);
+
+  const header: Omit<EncryptedEnvelope, 'data'> = {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt },
+    cipher: { name: 'AES-GCM', iv: toBase64(crypto.getRandomValues(new Uint8Array(IV_BYTES))) },
+    check,
+    compression: compressed ? 'gzip' : null,
+  };
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: fromBase64(header.cipher.iv), additionalData: getHeader(header) },
+    key,
+    plaintext
+  );
+
+  return JSON.stringify({ ...header, data: toBase64(new Uint8Array(ciphertext)) });
+};
+
+const readEnvelope = (text: string): EncryptedEnvelope => {
+  let envelope: unknown;
+  try {
+    envelope = JSON.parse(text);
+  } catch {
+    throw new DecryptionError('The encrypted file is damaged and cannot be opened.');
+  }
+  if (!isEncryptedEnvelope(envelope)) {
+    throw new DecryptionError('This is not an encrypted file.');
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > ENCRYPTED_VERSION) {
+    throw new DecryptionError('This file was encrypted by a newer version of the app.');
+  }
+  if (
+    !isRecord(envelope.kdf) || typeof envelope.kdf.salt !== 'string' || typeof envelope.kdf.iterations !== 'number' ||
+    // An edited iteration count could otherwise keep the browser busy for hours
+    envelope.kdf.iterations > PBKDF2_ITERATIONS * 10 ||
+    !isRecord(envelope.cipher) || typeof envelope.cipher.iv !== 'string' ||
+    typeof envelope.check !== 'string' || typeof envelope.data !== 'string'
+  ) {
+    throw new DecryptionError('The encrypted file is damaged and cannot be opened.');
+  }
+  return envelope;
+};
+
+/**
+ * Decrypt an envelope with a passphrase, or with the key it was encrypted with.
+ * Throws a DecryptionError saying whether the passphrase is wrong or the file
+ * was tampered with.
+ */
+export const decryptText = async (text: string, secret: string | EncryptionKey): Promise<string> => {
+  const envelope = readEnvelope(text);
+  if (secret === '') {
+    throw new DecryptionError('This file is encrypted. Enter its passphrase to open it.');
+  }
+
+  let encryptionKey: EncryptionKey;
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    encryptionKey = typeof secret === 'string'
+      ? await deriveEncryptionKey(secret, envelope.kdf.salt, envelope.kdf.iterations)
+      : secret;
+    iv = fromBase64(envelope.cipher.iv);
+    ciphertext = fromBase64(envelope.data);
+  } catch {
+    throw new DecryptionError('The encrypted file is damaged and cannot be opened.');
+  }
+
+  if (encryptionKey.salt !== envelope.kdf.salt || encryptionKey.check !== envelope.check) {
+    throw new DecryptionError('Wrong passphrase. Check it and try again.');
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: getHeader(envelope) },
+      encryptionKey.key,
+      ciphertext
+    );
+  } catch {
+    throw new DecryptionError('The encrypted file has been changed or damaged since it was created, so it cannot be trusted.');
+  }
+
+  return envelope.compression === 'gzip'
+    ? decompressText(plaintext, true)
+    : new TextDecoder().decode(plaintext);
+};
+
+/**
+ * The plain export in a file, decrypting it first if it's encrypted
+ */
+export const openExportFile = async (text: string, passphrase = ''): Promise<string> =>
+  isEncryptedFile(text) ? decryptText(text, passphrase) : text;
@@ -0,0 +1,217 @@
+/**
+ * Estimate-accuracy analytics
+ *
+ * Compares `estimatedMinutes` with how long completed tasks really took and
+ * turns that into personal time multipliers, overall and per category,
+ * project, size and energy level.
+ */
+
+import {
+  Task,
+  Project,
+  Category,
+  FocusSession,
+  EstimateSample,
+  EstimateMultiplier,
+  EstimateBreakdown,
+  EstimateTrendPoint
+} from '../types';
+import { getISOWeekAndYear } from './helpers';
+import { getActualMinutesByTask } from './focusSessions';
+
+// A group needs this many samples before we suggest anything from it
+export const MIN_SAMPLES = 3;
+
+// Start-to-finish spans longer than this are not treated as working time
+const MAX_WALL_CLOCK_MINUTES = 8 * 60;
+
+// Ignore ratios that are almost certainly data-entry mistakes
+const MIN_RATIO = 0.1;
+const MAX_RATIO = 10;
+
+const SIZE_LABELS: Record<string, string> = { small: 'small', medium: 'medium-sized', large: 'large' };
+const ENERGY_LABELS: Record<string, string> = { low: 'low-energy', medium: 'medium-energy', high: 'high-energy' };
+
+/**
+ * How long a completed task actually took. Focus-timer time is preferred;
+ * otherwise the span between starting and completing it is used when short
+ * enough to be believable.
+ */
+export const getActualMinutes = (task: Task, focusedMinutes: number | undefined): number | null => {
+  if (focusedMinutes && focusedMinutes >= 1) return focusedMinutes;
+
+  if (task.startedAt && task.completedAt) {
+    const minutes = (new Date(task.completedAt).getTime() - new Date(task.startedAt).getTime()) / 60000;
+    if (minutes >= 1 && minutes <= MAX_WALL_CLOCK_MINUTES) return minutes;
+  }
+
+  return null;
+};
+
+/**
+ * Completed tasks that have both an estimate and a measured duration
+ */
+export const collectEstimateSamples = (tasks: Task[], sessions: FocusSession[]): EstimateSample[] => {
+  const focusedByTask = getActualMinutesByTask(sessions);
+  const samples: EstimateSample[] = [];
+
+  tasks.forEach(task => {
+    if (!task.completed || !task.completedAt || !task.estimatedMinutes) return;
+
+    const actualMinutes = getActualMinutes(task, focusedByTask.get(task.id));
+    if (actualMinutes === null) return;
+
+    const ratio = actualMinutes / task.estimatedMinutes;
+    if (ratio < MIN_RATIO || ratio > MAX_RATIO) return;
+
+    samples.push({
+      task,
+      estimatedMinutes: task.estimatedMinutes,
+      actualMinutes,
+      completedAt: task.completedAt,
+    });
+  });
+
+  return samples;
+};
+
+/**
+ * Typical actual / estimated ratio of a set of samples (the median, so a
+ * single runaway task doesn't skew it)
+ */
+export const computeMultiplier = (samples: EstimateSample[]): number | null => {
+  if (samples.length === 0) return null;
+
+  const ratios = samples
+    .map(sample => sample.actualMinutes / sample.estimatedMinutes)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(ratios.length / 2);
+
+  return ratios.length % 2 === 0 ? (ratios[middle - 1] + ratios[middle]) / 2 : ratios[middle];
+};
+
+const groupMultipliers = (
+  samples: EstimateSample[],
+  getKeys: (task: Task) => string[],
+  getLabel: (key: string) => string | null
+): EstimateMultiplier[] => {
+  const groups = new Map<string, EstimateSample[]>();
+
+  samples.forEach(sample => {
+    getKeys(sample.task).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), sample]);
+    });
+  });
+
+  const multipliers: EstimateMultiplier[] = [];
+  groups.forEach((groupSamples, key) => {
+    const label = getLabel(key);
+    const multiplier = computeMultiplier(groupSamples);
+    if (label && multiplier !== null) {
+      multipliers.push({ key, label, multiplier, sampleSize: groupSamples.length });
+    }
+  });
+
+  return multipliers.sort((a, b) => b.sampleSize - a.sampleSize);
+};
+
+/**
+ * Personal time multipliers, overall and broken down by category, project,
+ * size and energy level
+ */
+export const getEstimateBreakdown = (
+  tasks: Task[],
+  sessions: FocusSession[],
+  projects: Project[],
+  categories: Category[]
+): EstimateBreakdown => {
+  const samples = collectEstimateSamples(tasks, sessions);
+  const overallMultiplier = computeMultiplier(samples);
+
+  return {
+    overall: overallMultiplier !== null
+      ? { key: 'overall', label: 'all tasks', multiplier: overallMultiplier, sampleSize: samples.length }
+      : null,
+    byCategory: groupMultipliers(
+      samples,
+      task => task.categoryIds || [],
+      id => categories.find(c => c.id === id)?.name || null
+    ),
+    byProject: groupMultipliers(
+      samples,
+      task => (task.projectId ? [task.projectId] : []),
+      id => projects.find(p => p.id === id)?.name || null
+    ),
+    bySize: groupMultipliers(
+      samples,
+      task => (task.size ? [task.size] : []),
+      size => SIZE_LABELS[size] || null
+    ),
+    byEnergy: groupMultipliers(
+      samples,
+      task => (task.energyLevel ? [task.energyLevel] : []),
+      level => ENERGY_LABELS[level] || null
+    ),
+  };
+};
+
+/**
+ * Pick the most specific multiplier with enough history for a task being
+ * edited: category, then project, size, energy level and finally overall.
+ */
+export const getMultiplierForTask = (
+  task: Partial<Task>,
+  breakdown: EstimateBreakdown
+): EstimateMultiplier | null => {
+  const enough = (m: EstimateMultiplier | undefined) => (m && m.sampleSize >= MIN_SAMPLES ? m : undefined);
+
+  const candidates = [
+    ...(task.categoryIds || []).map(id => enough(breakdown.byCategory.find(m => m.key === id))),
+    task.projectId ? enough(breakdown.byProject.find(m => m.key === task.projectId)) : undefined,
+    task.size ? enough(breakdown.bySize.find(m => m.key === task.size)) : undefined,
+    task.energyLevel ? enough(breakdown.byEnergy.find(m => m.key === task.energyLevel)) : undefined,
+    breakdown.overall ? enough(breakdown.overall) : undefined,
+  ];
+
+  return candidates.find((m): m is EstimateMultiplier => !!m) || null;
+};
+
+/**
+ * Apply a multiplier to an estimate, rounded to 5 minutes
+ */
+export const correctEstimate = (estimatedMinutes: number, multiplier: number): number => {
+  return Math.max(5, Math.round((estimatedMinutes * multiplier) / 5) * 5);
+};
+
+/**
+ * Overall multiplier per ISO week for the last `weeks` weeks, oldest first
+ */
+export const getEstimateTrend = (
+  tasks: Task[],
+  sessions: FocusSession[],
+  weeks: number = 8,
+  today: Date = new Date()
+): EstimateTrendPoint[] => {
+  const samples = collectEstimateSamples(tasks, sessions);
+  const points: EstimateTrendPoint[] = [];
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const day = new Date(today);
+    day.setDate(day.getDate() - i * 7);
+    const { weekNumber, weekYear } = getISOWeekAndYear(day);
+
+    const weekSamples = samples.filter(sample => {
+      const completed = getISOWeekAndYear(new Date(sample.completedAt));
+      return completed.weekNumber === weekNumber && completed.weekYear === weekYear;
+    });
+
+    points.push({
+      weekNumber,
+      weekYear,
+      multiplier: computeMultiplier(weekSamples),
+      sampleSize: weekSamples.length,
+    });
+  }
+
+  return points;
+};
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExportData } from '../types';
+import {
+  EXPORT_SCHEMA_VERSION,
+  ImportValidationError,
+  computeChecksum,
+  createExportEnvelope,
+  readExportFile,
+} from './exportFormat';
+
+const NOW = '2025-06-04T10:00:00.000Z';
+
+// The original export, before `completed`, `categoryIds` and `subtasks` existed
+const V0_EXPORT = {
+  exportDate: '2024-03-01T08:00:00.000Z',
+  version: '1.0',
+  tasks: [
+    { id: 't1', title: 'Plan trip', status: 'pending', categories: ['c1'], dueDate: '2024-03-10', projectId: 'p1' },
+    { id: 't2', title: 'Book hotel', status: 'completed', parentId: 't1', dueDate: null, projectId: 'p1' },
+  ],
+  projects: [{ id: 'p1', name: 'Holiday', description: '' }],
+  categories: [{ id: 'c1', name: 'Errands', color: '#10B981' }],
+};
+
+// A bare export from before envelopes: time blocks only have `taskId`
+const V1_EXPORT = {
+  tasks: [{
+    id: 't1',
+    title: 'Plan trip',
+    completed: false,
+    categoryIds: [],
+    createdAt: '2024-05-01T08:00:00.000Z',
+    updatedAt: '2024-05-02T08:00:00.000Z',
+  }],
+  projects: [{ id: 'p1', name: 'Holiday', createdAt: '2024-05-01T08:00:00.000Z', updatedAt: '2024-05-01T08:00:00.000Z' }],
+  categories: [],
+  dailyPlans: [{
+    id: 'plan-1',
+    date: '2024-05-03',
+    timeBlocks: [{ id: 'b1', startTime: '09:00', endTime: '10:00', taskId: 't1' }],
+  }],
+  workSchedule: null,
+};
+
+const CURRENT_DATA: ExportData = {
+  tasks: [{
+    id: 't1',
+    title: 'Plan trip',
+    description: '',
+    completed: false,
+    archived: false,
+    dueDate: '2025-06-10',
+    projectId: null,
+    categoryIds: [],
+    parentTaskId: null,
+    subtasks: [],
+    createdAt: NOW,
+    updatedAt: NOW,
+  }],
+  projects: [],
+  categories: [],
+  dailyPlans: [],
+  workSchedule: null,
+  journalEntries: [],
+  focusSessions: [],
+  accountabilityRecords: [],
+};
+
+const readError = (json: string): ImportValidationError => {
+  try {
+    readExportFile(json);
+  } catch (error) {
+    if (error instanceof ImportValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected the file to be rejected');
+};
+
+describe('readExportFile', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(NOW));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('migrates an original export to the current shape', () => {
+    const { data, sourceVersion, exportedAt, appVersion } = readExportFile(JSON.stringify(V0_EXPORT));
+
+    expect(sourceVersion).toBe(0);
+    expect(exportedAt).toBe('2024-03-01T08:00:00.000Z');
+    expect(appVersion).toBeNull();
+    expect(data.tasks).toEqual([
+      {
+        id: 't1',
+        title: 'Plan trip',
+        description: '',
+        completed: false,
+        archived: false,
+        dueDate: '2024-03-10',
+        projectId: 'p1',
+        categoryIds: ['c1'],
+        parentTaskId: null,
+        subtasks: ['t2'],
+        createdAt: '2024-03-01T08:00:00.000Z',
+        updatedAt: '2024-03-01T08:00:00.000Z',
+      },
+      {
+        id: 't2',
+        title: 'Book hotel',
+        description: '',
+        completed: true,
+        archived: false,
+        dueDate: null,
+        projectId: 'p1',
+        categoryIds: [],
+        parentTaskId: 't1',
+        subtasks: [],
+        createdAt: '2024-03-01T08:00:00.000Z',
+        updatedAt: '2024-03-01T08:00:00.000Z',
+      },
+    ]);
+    expect(data.projects).toEqual([{
+      id: 'p1',
+      name: 'Holiday',
+      description: '',
+      color: '#3B82F6',
+      createdAt: '2024-03-01T08:00:00.000Z',
+      updatedAt: '2024-03-01T08:00:00.000Z',
+    }]);
+    expect(data.categories[0]).toMatchObject({ id: 'c1', color: '#10B981' });
+    expect(data).toMatchObject({ dailyPlans: [], workSchedule: null, journalEntries: [], focusSessions: [], accountabilityRecords: [] });
+  });
+
+  it('migrates a bare export and fills in what it lacks', () => {
+    const { data, sourceVersion } = readExportFile(JSON.stringify(V1_EXPORT));
+
+    expect(sourceVersion).toBe(1);
+    expect(data.tasks[0]).toMatchObject({ description: '', archived: false, dueDate: null, subtasks: [], updatedAt: '2024-05-02T08:00:00.000Z' });
+    expect(data.projects[0]).toMatchObject({ description: '', color: '#3B82F6' });
+    expect(data.dailyPlans[0].timeBlocks).toEqual([
+      { id: 'b1', startTime: '09:00', endTime: '10:00', taskId: 't1', taskIds: ['t1'], title: '', description: '' },
+    ]);
+  });
+
+  it('reads a list of tasks as a bare export', () => {
+    const { data, sourceVersion } = readExportFile(JSON.stringify(V1_EXPORT.tasks));
+
+    expect(sourceVersion).toBe(1);
+    expect(data.tasks.map(task => task.id)).toEqual(['t1']);
+    expect(data.projects).toEqual([]);
+  });
+
+  it('reads back its own envelope unchanged', () => {
+    const envelope = createExportEnvelope(CURRENT_DATA);
+    expect(envelope).toMatchObject({ schemaVersion: EXPORT_SCHEMA_VERSION, exportedAt: NOW, checksum: computeChecksum(CURRENT_DATA) });
+
+    const result = readExportFile(JSON.stringify(envelope));
+    expect(result.data).toEqual(CURRENT_DATA);
+    expect(result.sourceVersion).toBe(EXPORT_SCHEMA_VERSION);
+  });
+
+  it('rejects a file edited after export', () => {
+    const envelope = createExportEnvelope(CURRENT_DATA);
+    envelope.data.tasks[0].title = 'Plan holiday';
+
+    expect(readError(JSON.stringify(envelope)).issues).toEqual([{ path: 'checksum', message: 'does not match the exported data' }]);
+  });
+
+  it('rejects a file from a newer version of the app', () => {
+    const envelope = { ...createExportEnvelope(CURRENT_DATA), schemaVersion: EXPORT_SCHEMA_VERSION + 1 };
+
+    expect(readError(JSON.stringify(envelope)).message).toMatch(/newer version of the app/);
+  });
+
+  it('lists every field that fails validation', () => {
+    const broken = { ...CURRENT_DATA, tasks: [{ ...CURRENT_DATA.tasks[0], completed: 'no' }, { ...CURRENT_DATA.tasks[0], title: 5 }] };
+    const envelope = { ...createExportEnvelope(CURRENT_DATA), data: broken, checksum: undefined };
+
+    expect(readError(JSON.stringify(envelope)).issues).toEqual([
+      { path: 'tasks[0].completed', message: 'must be true or false' },
+      { path: 'tasks[1].title', message: 'must be a string' },
+      { path: 'tasks[1].id', message: 'duplicate id "t1"' },
+    ]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(readError('{"tasks": [').message).toBe('The file is not valid JSON');
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * Versioned export format
+ *
+ * Exports are wrapped in an envelope that records the schema version of the
+ * data, the app version that wrote it and a checksum. On import, files are
+ * identified by their version rather than guessed from key names, upgraded
+ * one schema version at a time and validated field by field before anything
+ * is written to the database.
+ *
+ * Schema versions:
+ *   0 - the original export ({ tasks, categories, projects, exportDate, version })
+ *       with `status`/`categories`/`parentId` on tasks
+ *   1 - the bare export object written before envelopes existed
+ *   2 - the enveloped export with focus sessions and accountability records
+ */
+
+import { ExportData, ExportEnvelope, ImportValidationIssue } from '../types';
+import { isEncryptedEnvelope } from './encryption';
+
+export const EXPORT_FORMAT = 'adhd-planner-export';
+export const EXPORT_SCHEMA_VERSION = 2;
+
+// Stop collecting issues after this many; one broken field tends to repeat on every record
+const MAX_ISSUES = 50;
+
+const DEFAULT_COLOR = '#3B82F6';
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Thrown when an import file can't be read, is from a newer app version or
+ * doesn't pass validation. `issues` lists every problem found.
+ */
+export class ImportValidationError extends Error {
+  issues: ImportValidationIssue[];
+
+  constructor(message: string, issues: ImportValidationIssue[]) {
+    super(message);
+    this.name = 'ImportValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecords = (value: unknown): RawRecord[] =>
+  Array.isArray(value) ? value.filter(isRecord) : [];
+
+/**
+ * Build-time app version; falls back when running outside the Vite build
+ */
+const getAppVersion = (): string =>
+  typeof __APP_VERSION__ === 'string' ? __APP_VERSION__ : 'unknown';
+
+/**
+ * 32-bit FNV-1a hash of the serialized data. Enough to catch truncated or
+ * hand-edited files, and synchronous so every storage backend can use it.
+ */
+export const computeChecksum = (data: ExportData): string => {
+  const json = JSON.stringify(data);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+/**
+ * Wrap export data in a versioned envelope
+ */
+export const createExportEnvelope = (data: ExportData): ExportEnvelope => ({
+  format: EXPORT_FORMAT,
+  schemaVersion: EXPORT_SCHEMA_VERSION,
+  appVersion: getAppVersion(),
+  exportedAt: new Date().toISOString(),
+  checksum: computeChecksum(data),
+  data,
+});
+
+export const isExportEnvelope = (value: unknown): value is ExportEnvelope =>
+  isRecord(value) && value.format === EXPORT_FORMAT && typeof value.schemaVersion === 'number';
+
+/**
+ * Work out which schema version an un-enveloped file was written with
+ */
+const detectBareSchemaVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 1;
+
+  // Version 0 tasks have a `status` string instead of `completed`
+  const tasks = isRecord(raw) ? asRecords(raw.tasks) : [];
+  const isLegacy = tasks.length > 0 && tasks.every(task => typeof task.status === 'string' && !('completed' in task));
+  return isLegacy ? 0 : 1;
+};
+
+// Migrations, keyed by the version they upgrade from
+
+const migrateV0ToV1 = (raw: unknown): unknown => {
+  const data = isRecord(raw) ? raw : {};
+  const timestamp = typeof data.exportDate === 'string' ? data.exportDate : new Date().toISOString();
+
+  const tasks = asRecords(data.tasks).map((task): RawRecord & { parentTaskId: string | null; subtasks: string[] } => {
+    const { status, categories, parentId, ...rest } = task;
+    return {
+      description: '',
+      ...rest,
+      completed: status === 'completed',
+      categoryIds: Array.isArray(categories) ? categories : [],
+      parentTaskId: typeof parentId === 'string' ? parentId : null,
+      subtasks: [] as string[],
+      createdAt: typeof rest.createdAt === 'string' ? rest.createdAt : timestamp,
+      updatedAt: typeof rest.updatedAt === 'string' ? rest.updatedAt : timestamp,
+    };
+  });
+
+  // Version 0 only stored the parent on the subtask
+  tasks.forEach(task => {
+    const parent = task.parentTaskId ? tasks.find(t => t.id === task.parentTaskId) : undefined;
+    if (parent && typeof task.id === 'string') {
+      parent.subtasks.push(task.id);
+    }
+  });
+
+  const stamp = (item: RawRecord) => ({
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...item,
+  });
+
+  return {
+    tasks,
+    projects: asRecords(data.projects).map(project => stamp({ color: DEFAULT_COLOR, ...project })),
+    categories: asRecords(data.categories).map(stamp),
+  };
+};
+
+const migrateV1ToV2 = (raw: unknown): unknown => {
+  // A root array was always treated as a list of tasks
+  const data = Array.isArray(raw) ? { tasks: raw } : isRecord(raw) ? raw : {};
+  const timestamp = new Date().toISOString();
+
+  return {
+    tasks: asRecords(data.tasks).map(task => ({
+      ...task,
+      description: typeof task.description === 'string' ? task.description : '',
+      archived: typeof task.archived === 'boolean' ? task.archived : false,
+      dueDate: task.dueDate ?? null,
+      projectId: task.projectId ?? null,
+      categoryIds: Array.isArray(task.categoryIds) ? task.categoryIds : [],
+      parentTaskId: task.parentTaskId ?? null,
+      subtasks: Array.isArray(task.subtasks) ? task.subtasks : [],
+      createdAt: task.createdAt ?? timestamp,
+      updatedAt: task.updatedAt ?? timestamp,
+    })),
+    projects: asRecords(data.projects).map(project => ({
+      ...project,
+      description: typeof project.description === 'string' ? project.description : '',
+      color: typeof project.color === 'string' ? project.color : DEFAULT_COLOR,
+    })),
+    categories: asRecords(data.categories).map(category => ({
+      ...category,
+      color: typeof category.color === 'string' ? category.color : DEFAULT_COLOR,
+    })),
+    dailyPlans: asRecords(data.dailyPlans).map(plan => ({
+      ...plan,
+      timeBlocks: asRecords(plan.timeBlocks).map(block => ({
+        ...block,
+        taskId: block.taskId ?? null,
+        // Blocks from before multi-task support only have `taskId`
+        taskIds: Array.isArray(block.taskIds)
+          ? block.taskIds
+          : typeof block.taskId === 'string' ? [block.taskId] : [],
+        title: typeof block.title === 'string' ? block.title : '',
+        description: typeof block.description === 'string' ? block.description : '',
+      })),
+    })),
+    workSchedule: isRecord(data.workSchedule) ? data.workSchedule : null,
+    journalEntries: asRecords(data.journalEntries),
+    focusSessions: asRecords(data.focusSessions),
+    accountabilityRecords: asRecords(data.accountabilityRecords),
+  };
+};
+
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  0: migrateV0ToV1,
+  1: migrateV1ToV2,
+};
+
+/**
+ * Upgrade data from `fromVersion` to the current schema, one step at a time
+ */
+export const migrateExportData = (data: unknown, fromVersion: number): unknown => {
+  let current = data;
+  for (let version = fromVersion; version < EXPORT_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from export schema version ${version}`);
+    }
+    current = migrate(current);
+  }
+  return current;
+};
+
+// Field-level validation
+
+type FieldCheck = (value: unknown) => string | null;
+
+const string: FieldCheck = value => (typeof value === 'string' ? null : 'must be a string');
+const number: FieldCheck = value =>
+  typeof value === 'number' && !Number.isNaN(value) ? null : 'must be a number';
+const boolean: FieldCheck = value => (typeof value === 'boolean' ? null : 'must be true or false');
+const stringArray: FieldCheck = value =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'must be a list of strings';
+const array: FieldCheck = value => (Array.isArray(value) ? null : 'must be a list');
+const oneOf = (...allowed: string[]): FieldCheck => value =>
+  typeof value === 'string' && allowed.includes(value) ? null : `must be one of ${allowed.join(', ')}`;
+const nullable = (check: FieldCheck): FieldCheck => value => (value === null ? null : check(value));
+const optional = (check: FieldCheck): FieldCheck => value =>
+  (value === undefined || value === null ? null : check(value));
+
+type RecordSchema = Record<string, FieldCheck>;
+
+const LEVEL = oneOf('low', 'medium', 'high');
+
+const TASK_SCHEMA: RecordSchema = {
+  id: string,
+  title: string,
+  description: string,
+  completed: boolean,
+  archived: boolean,
+  dueDate: nullable(string),
+  dueTime: optional(string),
+  projectId: nullable(string),
+  categoryIds: stringArray,
+  parentTaskId: nullable(string),
+  subtasks: stringArray,
+  priority: optional(LEVEL),
+  energyLevel: optional(LEVEL),
+  size: optional(oneOf('small', 'medium', 'large')),
+  estimatedMinutes: optional(number),
+  blockedBy: optional(stringArray),
+  deletedAt: optional(string),
+  unlinkedDependents: optional(stringArray),
+  createdAt: string,
+  updatedAt: string,
+};
+
+const PROJECT_SCHEMA: RecordSchema = {
+  id: string,
+  name: string,
+  description: string,
+  color: string,
+  deletedAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+};
+
+const CATEGORY_SCHEMA: RecordSchema = {
+  id: string,
+  name: string,
+  color: string,
+  deletedAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+};
+
+const DAILY_PLAN_SCHEMA: RecordSchema = {
+  id: string,
+  date: string,
+  timeBlocks: array,
+};
+
+const TIME_BLOCK_SCHEMA: RecordSchema = {
+  id: string,
+  startTime: string,
+  endTime: string,
+  taskIds: stringArray,
+  title: string,
+};
+
+const WORK_SCHEDULE_SCHEMA: RecordSchema = {
+  id: string,
+  name: string,
+  shifts: array,
+  daysOff: optional(array),
+};
+
+const SHIFT_PATTERN_SCHEMA: RecordSchema = {
+  name: string,
+  steps: stringArray,
+  anchorDate: string,
+  endDate: optional(string),
+};
+
+const WORK_SHIFT_SCHEMA: RecordSchema = {
+  id: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+};
+
+const JOURNAL_ENTRY_SCHEMA: RecordSchema = {
+  id: string,
+  date: string,
+  content: string,
+  weekNumber: number,
+  weekYear: number,
+  isCompleted: boolean,
+  createdAt: string,
+  updatedAt: string,
+};
+
+const FOCUS_SESSION_SCHEMA: RecordSchema = {
+  id: string,
+  taskId: string,
+  kind: oneOf('focus', 'break'),
+  status: oneOf('running', 'paused', 'completed', 'stopped'),
+  startedAt: string,
+  accumulatedMs: number,
+};
+
+const ACCOUNTABILITY_RECORD_SCHEMA: RecordSchema = {
+  id: string,
+  taskId: string,
+  reasonId: string,
+  action: oneOf('reschedule', 'break_down', 'delegate', 'abandon'),
+  date: string,
+};
+
+const validateRecord = (
+  value: unknown,
+  path: string,
+  schema: RecordSchema,
+  issues: ImportValidationIssue[]
+): void => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  for (const [field, check] of Object.entries(schema)) {
+    const message = check(value[field]);
+    if (message) {
+      issues.push({ path: `${path}.${field}`, message });
+    }
+  }
+};
+
+const validateList = (
+  value: unknown,
+  path: string,
+  schema: RecordSchema,
+  issues: ImportValidationIssue[],
+  validateChildren?: (item: RawRecord, itemPath: string) => void
+): void => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be a list' });
+    return;
+  }
+
+  const seenIds = new Set<unknown>();
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    validateRecord(item, itemPath, schema, issues);
+    if (!isRecord(item)) return;
+
+    if (seenIds.has(item.id)) {
+      issues.push({ path: `${itemPath}.id`, message: `duplicate id "${String(item.id)}"` });
+    }
+    seenIds.add(item.id);
+    validateChildren?.(item, itemPath);
+  });
+};
+
+/**
+ * Check that data has the shape of the current export schema.
+ * Returns every field-level problem found (up to a limit); an empty list means it's valid.
+ */
+export const validateExportData = (data: unknown): ImportValidationIssue[] => {
+  const issues: ImportValidationIssue[] = [];
+
+  if (!isRecord(data)) {
+    return [{ path: '', message: 'Export data must be an object' }];
+  }
+
+  validateList(data.tasks, 'tasks', TASK_SCHEMA, issues);
+  validateList(data.projects, 'projects', PROJECT_SCHEMA, issues);
+  validateList(data.categories, 'categories', CATEGORY_SCHEMA, issues);
+  validateList(data.dailyPlans, 'dailyPlans', DAILY_PLAN_SCHEMA, issues, (plan, planPath) => {
+    if (Array.isArray(plan.timeBlocks)) {
+      validateList(plan.timeBlocks, `${planPath}.timeBlocks`, TIME_BLOCK_SCHEMA, issues);
+    }
+  });
+  if (data.workSchedule !== null) {
+    validateRecord(data.workSchedule, 'workSchedule', WORK_SCHEDULE_SCHEMA, issues);
+    if (isRecord(data.workSchedule) && Array.isArray(data.workSchedule.shifts)) {
+      validateList(data.workSchedule.shifts, 'workSchedule.shifts', WORK_SHIFT_SCHEMA, issues);
+    }
+    if (isRecord(data.workSchedule) && data.workSchedule.pattern) {
+      validateRecord(data.workSchedule.pattern, 'workSchedule.pattern', SHIFT_PATTERN_SCHEMA, issues);
+    }
+  }
+  validateList(data.journalEntries, 'journalEntries', JOURNAL_ENTRY_SCHEMA, issues);
+  validateList(data.focusSessions, 'focusSessions', FOCUS_SESSION_SCHEMA, issues);
+  validateList(data.accountabilityRecords, 'accountabilityRecords', ACCOUNTABILITY_RECORD_SCHEMA, issues);
+
+  return issues.slice(0, MAX_ISSUES);
+};
+
+export interface ReadExportResult {
+  data: ExportData;
+  sourceVersion: number; // Schema version the file was written with
+  appVersion: string | null; // Null for files from before envelopes
+  exportedAt: string | null;
+}
+
+/**
+ * Parse an export file, upgrade it to the current schema and validate it.
+ * Throws an ImportValidationError describing every problem if it can't be imported.
+ */
+export const readExportFile = (json: string): ReadExportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new ImportValidationError('The file is not valid JSON', [{ path: '', message: reason }]);
+  }
+
+  // Encrypted files have to be opened with their passphrase first (see encryption.ts)
+  if (isEncryptedEnvelope(raw)) {
+    throw new ImportValidationError(
+      'This file is encrypted. Enter its passphrase to open it',
+      [{ path: '', message: 'is an encrypted file' }]
+    );
+  }
+
+  let payload: unknown = raw;
+  let sourceVersion: number;
+  let appVersion: string | null = null;
+  let exportedAt: string | null = null;
+
+  if (isExportEnvelope(raw)) {
+    sourceVersion = raw.schemaVersion;
+    appVersion = typeof raw.appVersion === 'string' ? raw.appVersion : null;
+    exportedAt = typeof raw.exportedAt === 'string' ? raw.exportedAt : null;
+    payload = raw.data;
+
+    if (sourceVersion > EXPORT_SCHEMA_VERSION) {
+      throw new ImportValidationError(
+        `This file was exported by a newer version of the app (schema ${sourceVersion})`,
+        [{ path: 'schemaVersion', message: `must be ${EXPORT_SCHEMA_VERSION} or lower` }]
+      );
+    }
+
+    if (typeof raw.checksum === 'string' && isRecord(payload) && computeChecksum(payload as unknown as ExportData) !== raw.checksum) {
+      throw new ImportValidationError(
+        'The file has been modified or corrupted since it was exported',
+        [{ path: 'checksum', message: 'does not match the exported data' }]
+      );
+    }
+  } else {
+    sourceVersion = detectBareSchemaVersion(raw);
+    if (isRecord(raw) && typeof raw.exportDate === 'string') {
+      exportedAt = raw.exportDate;
+    }
+  }
+
+  const migrated = migrateExportData(payload, sourceVersion);
+  const issues = validateExportData(migrated);
+  if (issues.length > 0) {
+    throw new ImportValidationError(
+      `The file doesn't match the export format (${issues.length}${issues.length === MAX_ISSUES ? '+' : ''} problems)`,
+      issues
+    );
+  }
+
+  return { data: migrated as ExportData, sourceVersion, appVersion, exportedAt };
+};
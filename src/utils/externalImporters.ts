@@ -0,0 +1,525 @@
+/**
+ * Importers for other task apps
+ *
+ * Converts exports from Todoist (CSV template or JSON backup), TickTick (CSV
+ * backup), Trello (board JSON) and Markdown checklists into our export data.
+ * Nesting becomes parentTaskId/subtasks and labels/tags become categories.
+ * Ids are derived from the source ids where there are any, so importing the
+ * same file again in merge mode matches the earlier import.
+ */
+
+import { Category, ExportData, Project, Task } from '../types';
+import { formatDate, generateId } from './helpers';
+import { parseQuickCapture } from './quickCaptureParser';
+
+export type ExternalImportFormat = 'todoist-csv' | 'todoist-json' | 'ticktick-csv' | 'trello' | 'markdown';
+
+export const EXTERNAL_FORMAT_LABELS: Record<ExternalImportFormat, string> = {
+  'todoist-csv': 'Todoist (CSV)',
+  'todoist-json': 'Todoist (backup)',
+  'ticktick-csv': 'TickTick (CSV)',
+  trello: 'Trello board',
+  markdown: 'Markdown checklist',
+};
+
+const DEFAULT_COLOR = '#3B82F6';
+
+// Named colors used by Todoist and Trello
+const NAMED_COLORS: Record<string, string> = {
+  red: '#EF4444',
+  berry_red: '#DB2777',
+  orange: '#F97316',
+  yellow: '#EAB308',
+  olive_green: '#84CC16',
+  lime_green: '#84CC16',
+  lime: '#84CC16',
+  green: '#22C55E',
+  mint_green: '#10B981',
+  teal: '#14B8A6',
+  sky: '#0EA5E9',
+  sky_blue: '#0EA5E9',
+  light_blue: '#38BDF8',
+  blue: '#3B82F6',
+  grape: '#8B5CF6',
+  violet: '#7C3AED',
+  purple: '#A855F7',
+  lavender: '#C084FC',
+  magenta: '#D946EF',
+  pink: '#EC4899',
+  salmon: '#FB7185',
+  charcoal: '#4B5563',
+  black: '#1F2937',
+  grey: '#9CA3AF',
+  taupe: '#A8A29E',
+};
+
+const toColor = (name: unknown): string =>
+  typeof name === 'string' ? NAMED_COLORS[name.replace(/_(dark|light)$/, '')] || DEFAULT_COLOR : DEFAULT_COLOR;
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecords = (value: unknown): RawRecord[] =>
+  Array.isArray(value) ? value.filter(isRecord) : [];
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : value == null ? '' : String(value));
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields containing
+ * commas, doubled quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+/**
+ * Turn CSV rows into objects keyed by the header row at `headerIndex`
+ */
+const csvToRecords = (rows: string[][], headerIndex: number): Record<string, string>[] => {
+  const header = rows[headerIndex].map(name => name.trim());
+  return rows.slice(headerIndex + 1).map(row =>
+    Object.fromEntries(header.map((name, i) => [name, (row[i] || '').trim()]))
+  );
+};
+
+const findTickTickHeader = (rows: string[][]): number =>
+  rows.findIndex(row => row.includes('List Name') && row.includes('Title') && row.includes('taskId'));
+
+/**
+ * Work out whether a file comes from one of the supported apps
+ */
+export const detectExternalFormat = (content: string, fileName = ''): ExternalImportFormat | null => {
+  const trimmed = content.trim();
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const data = JSON.parse(trimmed);
+      if (Array.isArray(data.cards) && Array.isArray(data.lists)) return 'trello';
+      if (asRecords(data.items).some(item => 'content' in item && 'project_id' in item)) return 'todoist-json';
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  if (/^"?TYPE"?,"?CONTENT"?/i.test(trimmed)) return 'todoist-csv';
+  if (extension === 'csv' || trimmed.includes('"List Name"')) {
+    if (findTickTickHeader(parseCsv(trimmed)) >= 0) return 'ticktick-csv';
+  }
+  if (/^\s*[-*+] \[[ xX]\]/m.test(trimmed)) return 'markdown';
+
+  return null;
+};
+
+/**
+ * Collects the records of one import and keeps parent/child links consistent
+ */
+const createCollector = (timestamp: string) => {
+  const tasks: Task[] = [];
+  const projects: Project[] = [];
+  const categories: Category[] = [];
+
+  const addProject = (id: string, name: string, color = DEFAULT_COLOR): Project => {
+    const existing = projects.find(p => p.id === id);
+    if (existing) return existing;
+
+    const project: Project = { id, name, description: '', color, createdAt: timestamp, updatedAt: timestamp };
+    projects.push(project);
+    return project;
+  };
+
+  // Labels are matched by name, since most apps only store the name on the task
+  const getCategoryId = (name: string, color = DEFAULT_COLOR): string => {
+    const cleanName = name.trim();
+    const existing = categories.find(c => c.name.toLowerCase() === cleanName.toLowerCase());
+    if (existing) return existing.id;
+
+    const category: Category = {
+      id: `label-${cleanName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+      name: cleanName,
+      color,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    categories.push(category);
+    return category.id;
+  };
+
+  const addTask = (fields: Partial<Task> & { id: string; title: string }): Task => {
+    const task: Task = {
+      description: '',
+      completed: false,
+      archived: false,
+      dueDate: null,
+      projectId: null,
+      categoryIds: [],
+      parentTaskId: null,
+      subtasks: [],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      ...fields,
+    };
+    tasks.push(task);
+    return task;
+  };
+
+  const build = (): ExportData => {
+    // Fill in subtasks from the parent links, dropping links to missing parents
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    for (const task of tasks) {
+      const parent = task.parentTaskId ? byId.get(task.parentTaskId) : undefined;
+      if (!parent) {
+        task.parentTaskId = null;
+      } else if (!parent.subtasks.includes(task.id)) {
+        parent.subtasks.push(task.id);
+      }
+    }
+
+    return {
+      tasks,
+      projects,
+      categories,
+      dailyPlans: [],
+      workSchedule: null,
+      journalEntries: [],
+      focusSessions: [],
+      accountabilityRecords: [],
+    };
+  };
+
+  return { addProject, getCategoryId, addTask, build };
+};
+
+/**
+ * Read a date written in plain words ("every monday", "Jan 5", "tomorrow at 3pm")
+ */
+const parseDateText = (text: string, today: Date): Pick<Task, 'dueDate' | 'dueTime' | 'recurrence'> => {
+  if (!text) return { dueDate: null, dueTime: null, recurrence: null };
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const time = text.match(/T(\d{2}:\d{2})/);
+    return { dueDate: text.slice(0, 10), dueTime: time ? time[1] : null, recurrence: null };
+  }
+
+  const parsed = parseQuickCapture(text, { projects: [], categories: [], today });
+  return { dueDate: parsed.dueDate, dueTime: parsed.dueTime, recurrence: parsed.recurrence };
+};
+
+// Pull "@label" words out of a title
+const extractLabels = (text: string): { title: string; labels: string[] } => {
+  const labels: string[] = [];
+  const title = text
+    .replace(/(^|\s)@([\w-]+)/g, (_, space: string, label: string) => {
+      labels.push(label);
+      return space;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { title, labels };
+};
+
+// Todoist uses 1 for p1 (most urgent) in CSV templates
+const TODOIST_CSV_PRIORITY: Record<string, Task['priority']> = { '1': 'high', '2': 'medium', '3': 'low' };
+// ...but 4 for p1 in backups
+const TODOIST_JSON_PRIORITY: Record<number, Task['priority']> = { 4: 'high', 3: 'medium', 2: 'low' };
+
+const convertTodoistCsv = (content: string, fileName: string, today: Date): ExportData => {
+  const timestamp = new Date().toISOString();
+  const collector = createCollector(timestamp);
+  const projectName = fileName.replace(/\.[^.]+$/, '') || 'Todoist import';
+  const project = collector.addProject(`todoist-${projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`, projectName);
+
+  // The most recent task at each indent level, for nesting
+  const parents: Task[] = [];
+  let section = '';
+
+  csvToRecords(parseCsv(content), 0).forEach((row, index) => {
+    const type = row.TYPE.toLowerCase();
+    if (type === 'section') {
+      section = row.CONTENT;
+      parents.length = 0;
+      return;
+    }
+    if (type !== 'task') return;
+
+    const indent = Math.max(1, parseInt(row.INDENT, 10) || 1);
+    const { title, labels } = extractLabels(row.CONTENT);
+    const duration = parseInt(row.DURATION, 10);
+
+    const task = collector.addTask({
+      id: `${project.id}-${index}`,
+      title: title || 'Untitled Task',
+      description: row.DESCRIPTION || '',
+      projectId: project.id,
+      categoryIds: labels.map(label => collector.getCategoryId(label)),
+      parentTaskId: indent > 1 && parents[indent - 2] ? parents[indent - 2].id : null,
+      priority: TODOIST_CSV_PRIORITY[row.PRIORITY],
+      estimatedMinutes: duration > 0 && row.DURATION_UNIT === 'minute' ? duration : undefined,
+      phase: section || undefined,
+      ...parseDateText(row.DATE, today),
+    });
+
+    parents[indent - 1] = task;
+    parents.length = indent;
+  });
+
+  return collector.build();
+};
+
+const convertTodoistJson = (content: string, today: Date): ExportData => {
+  const data = JSON.parse(content) as RawRecord;
+  const timestamp = new Date().toISOString();
+  const collector = createCollector(timestamp);
+
+  const labelColors = new Map(asRecords(data.labels).map(label => [asString(label.name), toColor(label.color)]));
+
+  asRecords(data.projects).forEach(project => {
+    collector.addProject(`todoist-${asString(project.id)}`, asString(project.name) || 'Untitled Project', toColor(project.color));
+  });
+
+  asRecords(data.items).forEach(item => {
+    const due = isRecord(item.due) ? item.due : null;
+    const dueFields = due
+      ? parseDateText(asString(due.date), today)
+      : { dueDate: null, dueTime: null, recurrence: null };
+    if (due && due.is_recurring) {
+      dueFields.recurrence = parseDateText(asString(due.string), today).recurrence;
+    }
+
+    const duration = isRecord(item.duration) ? Number(item.duration.amount) : 0;
+    const labels = Array.isArray(item.labels) ? item.labels.map(asString) : [];
+    const createdAt = asString(item.added_at) || timestamp;
+
+    collector.addTask({
+      id: `todoist-${asString(item.id)}`,
+      title: asString(item.content) || 'Untitled Task',
+      description: asString(item.description),
+      completed: item.checked === true || item.checked === 1,
+      completedAt: asString(item.completed_at) || null,
+      projectId: item.project_id ? `todoist-${asString(item.project_id)}` : null,
+      categoryIds: labels.map(label => collector.getCategoryId(label, labelColors.get(label))),
+      parentTaskId: item.parent_id ? `todoist-${asString(item.parent_id)}` : null,
+      priority: TODOIST_JSON_PRIORITY[Number(item.priority)],
+      estimatedMinutes: duration > 0 ? duration : undefined,
+      createdAt,
+      updatedAt: asString(item.updated_at) || createdAt,
+      ...dueFields,
+    });
+  });
+
+  return collector.build();
+};
+
+// TickTick: 0 none, 1 low, 3 medium, 5 high
+const TICKTICK_PRIORITY: Record<string, Task['priority']> = { '1': 'low', '3': 'medium', '5': 'high' };
+
+const toIsoTimestamp = (value: string): string | null => {
+  if (!value) return null;
+  // TickTick writes "+0000" offsets, which not every browser parses
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const convertTickTickCsv = (content: string): ExportData => {
+  const timestamp = new Date().toISOString();
+  const collector = createCollector(timestamp);
+  const rows = parseCsv(content);
+
+  csvToRecords(rows, findTickTickHeader(rows)).forEach(row => {
+    if (!row.taskId || !row.Title) return;
+
+    const listName = row['List Name'];
+    const project = listName
+      ? collector.addProject(`ticktick-${listName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`, listName)
+      : null;
+    const tags = row.Tags ? row.Tags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
+    const dueAt = toIsoTimestamp(row['Due Date']);
+    const createdAt = toIsoTimestamp(row['Created Time']) || timestamp;
+    const isAllDay = row['Is All Day'] !== 'false';
+
+    collector.addTask({
+      id: `ticktick-${row.taskId}`,
+      title: row.Title,
+      description: row.Content || '',
+      completed: row.Status === '1' || row.Status === '2',
+      archived: row.Status === '2',
+      completedAt: toIsoTimestamp(row['Completed Time']),
+      dueDate: dueAt ? formatDate(new Date(dueAt)) : null,
+      dueTime: dueAt && !isAllDay ? new Date(dueAt).toTimeString().slice(0, 5) : null,
+      projectId: project ? project.id : null,
+      categoryIds: tags.map(tag => collector.getCategoryId(tag)),
+      parentTaskId: row.parentId ? `ticktick-${row.parentId}` : null,
+      priority: TICKTICK_PRIORITY[row.Priority],
+      createdAt,
+      updatedAt: createdAt,
+    });
+  });
+
+  return collector.build();
+};
+
+const convertTrello = (content: string): ExportData => {
+  const board = JSON.parse(content) as RawRecord;
+  const timestamp = new Date().toISOString();
+  const collector = createCollector(timestamp);
+
+  const project = collector.addProject(`trello-${asString(board.id) || generateId()}`, asString(board.name) || 'Trello board');
+  const lists = new Map(asRecords(board.lists).map(list => [asString(list.id), list]));
+  const labels = new Map(asRecords(board.labels).map(label => [asString(label.id), label]));
+  const checklists = asRecords(board.checklists);
+
+  asRecords(board.cards).forEach(card => {
+    const list = lists.get(asString(card.idList));
+    const listName = list ? asString(list.name) : '';
+    const cardId = `trello-${asString(card.id)}`;
+    const due = asString(card.due);
+    const updatedAt = asString(card.dateLastActivity) || timestamp;
+
+    const categoryIds = (Array.isArray(card.idLabels) ? card.idLabels : [])
+      .map(id => labels.get(asString(id)))
+      .filter((label): label is RawRecord => !!label)
+      .map(label => collector.getCategoryId(asString(label.name) || asString(label.color), toColor(label.color)));
+
+    collector.addTask({
+      id: cardId,
+      title: asString(card.name) || 'Untitled Card',
+      description: asString(card.desc),
+      // Trello has no completed state of its own besides a finished due date
+      completed: card.dueComplete === true || /^(done|complete[d]?)$/i.test(listName.trim()),
+      archived: card.closed === true || (list ? list.closed === true : false),
+      dueDate: due ? formatDate(new Date(due)) : null,
+      projectId: project.id,
+      categoryIds,
+      tags: listName ? [listName] : undefined,
+      createdAt: updatedAt,
+      updatedAt,
+    });
+
+    // Checklist items become subtasks of the card
+    checklists
+      .filter(checklist => asString(checklist.idCard) === asString(card.id))
+      .forEach(checklist => {
+        asRecords(checklist.checkItems).forEach(item => {
+          collector.addTask({
+            id: `trello-${asString(item.id)}`,
+            title: asString(item.name) || 'Untitled Item',
+            completed: item.state === 'complete',
+            dueDate: item.due ? formatDate(new Date(asString(item.due))) : null,
+            projectId: project.id,
+            parentTaskId: cardId,
+            tags: [asString(checklist.name)].filter(Boolean),
+            createdAt: updatedAt,
+            updatedAt,
+          });
+        });
+      });
+  });
+
+  return collector.build();
+};
+
+const convertMarkdown = (content: string): ExportData => {
+  const timestamp = new Date().toISOString();
+  const collector = createCollector(timestamp);
+
+  // The most recent task at each indent depth, for nesting
+  const parents: { depth: number; task: Task }[] = [];
+  let projectId: string | null = null;
+
+  content.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+    if (heading) {
+      projectId = collector.addProject(generateId(), heading[1]).id;
+      parents.length = 0;
+      return;
+    }
+
+    const item = line.match(/^(\s*)[-*+] \[([ xX])\]\s+(.*)$/);
+    if (!item) return;
+
+    // Nesting follows indentation; a tab counts as two spaces
+    const depth = item[1].replace(/\t/g, '  ').length;
+    while (parents.length > 0 && parents[parents.length - 1].depth >= depth) {
+      parents.pop();
+    }
+
+    const { title, labels } = extractLabels(item[3]);
+    const task = collector.addTask({
+      id: generateId(),
+      title: title || 'Untitled Task',
+      completed: item[2].toLowerCase() === 'x',
+      projectId,
+      categoryIds: labels.map(label => collector.getCategoryId(label)),
+      parentTaskId: parents.length > 0 ? parents[parents.length - 1].task.id : null,
+    });
+    parents.push({ depth, task });
+  });
+
+  return collector.build();
+};
+
+/**
+ * Convert a file from one of the supported apps into export data
+ */
+export const convertExternalFile = (
+  content: string,
+  format: ExternalImportFormat,
+  fileName = '',
+  today: Date = new Date()
+): ExportData => {
+  switch (format) {
+    case 'todoist-csv':
+      return convertTodoistCsv(content, fileName, today);
+    case 'todoist-json':
+      return convertTodoistJson(content, today);
+    case 'ticktick-csv':
+      return convertTickTickCsv(content);
+    case 'trello':
+      return convertTrello(content);
+    case 'markdown':
+      return convertMarkdown(content);
+    default:
+      throw new Error(`Unsupported import format: ${format}`);
+  }
+};
@@ -0,0 +1,151 @@
+/**
+ * Focus session utilities
+ *
+ * A focus session is one stretch of timed work (or a Pomodoro break) on a
+ * task. Running time is derived from timestamps rather than a ticking
+ * counter, so an active timer picks up where it left off after a reload.
+ */
+
+import { FocusSession, FocusSessionKind, PomodoroSettings } from '../types';
+import { generateId } from './helpers';
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+// Sessions shorter than this are treated as accidental starts
+const MIN_TRACKED_MS = 60 * 1000;
+
+/**
+ * Create a new running session
+ */
+export const createFocusSession = (
+  taskId: string,
+  kind: FocusSessionKind,
+  plannedMinutes: number | null,
+  cycle: number = 1,
+  now: Date = new Date()
+): FocusSession => {
+  const timestamp = now.toISOString();
+  return {
+    id: generateId(),
+    taskId,
+    kind,
+    plannedMinutes,
+    cycle,
+    status: 'running',
+    startedAt: timestamp,
+    endedAt: null,
+    accumulatedMs: 0,
+    resumedAt: timestamp,
+  };
+};
+
+/**
+ * Time counted on a session so far, in milliseconds
+ */
+export const getElapsedMs = (session: FocusSession, now: number = Date.now()): number => {
+  if (session.status === 'running' && session.resumedAt) {
+    return session.accumulatedMs + Math.max(0, now - new Date(session.resumedAt).getTime());
+  }
+  return session.accumulatedMs;
+};
+
+/**
+ * Time left in a timed (Pomodoro) session, or null for an open-ended one
+ */
+export const getRemainingMs = (session: FocusSession, now: number = Date.now()): number | null => {
+  if (session.plannedMinutes === null) return null;
+  return Math.max(0, session.plannedMinutes * 60 * 1000 - getElapsedMs(session, now));
+};
+
+export const pauseFocusSession = (session: FocusSession, now: Date = new Date()): FocusSession => {
+  if (session.status !== 'running') return session;
+  return {
+    ...session,
+    status: 'paused',
+    accumulatedMs: getElapsedMs(session, now.getTime()),
+    resumedAt: null,
+  };
+};
+
+export const resumeFocusSession = (session: FocusSession, now: Date = new Date()): FocusSession => {
+  if (session.status !== 'paused') return session;
+  return {
+    ...session,
+    status: 'running',
+    resumedAt: now.toISOString(),
+  };
+};
+
+/**
+ * End a session, either because its planned time ran out ('completed') or
+ * because the user stopped it early ('stopped')
+ */
+export const endFocusSession = (
+  session: FocusSession,
+  status: 'completed' | 'stopped',
+  now: Date = new Date()
+): FocusSession => {
+  const elapsed = getElapsedMs(session, now.getTime());
+  return {
+    ...session,
+    status,
+    endedAt: now.toISOString(),
+    // A completed Pomodoro counts its planned length even if the tab was asleep past the end
+    accumulatedMs: status === 'completed' && session.plannedMinutes !== null
+      ? Math.min(elapsed, session.plannedMinutes * 60 * 1000)
+      : elapsed,
+    resumedAt: null,
+  };
+};
+
+/**
+ * Work out which Pomodoro phase follows a finished one
+ */
+export const getNextPomodoroPhase = (
+  finished: FocusSession,
+  settings: PomodoroSettings = DEFAULT_POMODORO_SETTINGS
+): { kind: FocusSessionKind; plannedMinutes: number; cycle: number } => {
+  if (finished.kind === 'focus') {
+    const isLongBreak = finished.cycle % settings.cyclesBeforeLongBreak === 0;
+    return {
+      kind: 'break',
+      plannedMinutes: isLongBreak ? settings.longBreakMinutes : settings.shortBreakMinutes,
+      cycle: finished.cycle,
+    };
+  }
+
+  return { kind: 'focus', plannedMinutes: settings.focusMinutes, cycle: finished.cycle + 1 };
+};
+
+/**
+ * Total focused minutes per task, including a session that is still running
+ */
+export const getActualMinutesByTask = (sessions: FocusSession[], now: number = Date.now()): Map<string, number> => {
+  const totals = new Map<string, number>();
+
+  sessions.forEach(session => {
+    if (session.kind !== 'focus') return;
+    const elapsed = getElapsedMs(session, now);
+    if (session.endedAt && elapsed < MIN_TRACKED_MS) return;
+    totals.set(session.taskId, (totals.get(session.taskId) || 0) + elapsed / 60000);
+  });
+
+  return totals;
+};
+
+/**
+ * Format a session's time as MM:SS (or H:MM:SS for long sessions)
+ */
+export const formatTimer = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
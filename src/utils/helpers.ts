@@ -1,4 +1,4 @@
-import { Task, Project, Category, WhatNowCriteria } from '../types';
+import { Task, Project, Category } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 // Generate a unique ID
@@ -111,6 +111,18 @@ export const calculateDuration = (
   }
 };
 
+// Convert a 24-hour time string (HH:MM) to minutes since midnight
+export const timeToMinutes = (timeString: string): number => {
+  const [hours, minutes] = timeString.split(':').map(num => parseInt(num, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Convert minutes since midnight to a 24-hour time string (HH:MM)
+export const minutesToTime = (totalMinutes: number): string => {
+  const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(totalMinutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
 // Get tasks due today
 export const getTasksDueToday = (tasks: Task[]): Task[] => {
   // Create a date for today and set time to beginning of day
@@ -213,42 +225,6 @@ export const getProjectColor = (
   return project ? project.color : '#9CA3AF'; // Default gray color
 };
 
-// Recommend tasks based on "What Now?" criteria
-export const recommendTasks = (
-  tasks: Task[],
-  criteria: WhatNowCriteria
-): Task[] => {
-  // Filter to incomplete tasks
-  let filteredTasks = tasks.filter((task) => !task.completed);
-  
-  // Filter by available time
-  if (criteria.availableTime === 'short') {
-    // Prioritize tasks without subtasks, assuming they're quicker
-    filteredTasks = filteredTasks.filter((task) => task.subtasks.length === 0);
-  }
-  
-  // Sort by energy level
-  filteredTasks.sort((a, b) => {
-    // For low energy, prioritize simpler tasks (those without subtasks)
-    if (criteria.energyLevel === 'low') {
-      return (a.subtasks.length - b.subtasks.length);
-    }
-    
-    // For high energy, prioritize complex tasks (those with subtasks)
-    if (criteria.energyLevel === 'high') {
-      return (b.subtasks.length - a.subtasks.length);
-    }
-    
-    // For medium energy, prioritize by due date
-    return a.dueDate && b.dueDate 
-      ? a.dueDate.localeCompare(b.dueDate)
-      : (a.dueDate ? -1 : (b.dueDate ? 1 : 0));
-  });
-  
-  // Return top 5 recommendations
-  return filteredTasks.slice(0, 5);
-};
-
 /**
  * Returns the ISO week number for the given date (1-53)
  * Also returns the year that the week belongs to (can be different from the date's year at year boundaries)
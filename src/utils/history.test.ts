@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HistoryOperation, Task } from '../types';
+import {
+  MAX_HISTORY_OPERATIONS,
+  applyHistoryChanges,
+  createHistoryOperation,
+  diffRecords,
+  getChangedFields,
+  getRecordHistory,
+  getRedoOperation,
+  getUndoOperation,
+  markOperation,
+  recordOperation,
+} from './history';
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: null,
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  createdAt: '2025-06-01T00:00:00.000Z',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+  ...fields,
+});
+
+const a = makeTask('a');
+const b = makeTask('b');
+
+// Record `label` as a change to task "a"
+const record = (operations: HistoryOperation[], label: string): HistoryOperation[] =>
+  recordOperation(operations, createHistoryOperation(label, diffRecords('tasks', [a], [{ ...a, title: label }])));
+
+const step = (operations: HistoryOperation[], direction: 'undo' | 'redo'): HistoryOperation[] => {
+  const operation = direction === 'undo' ? getUndoOperation(operations) : getRedoOperation(operations);
+  if (!operation) throw new Error(`Nothing to ${direction}`);
+  return markOperation(operations, operation.id, direction);
+};
+
+const labels = (operations: HistoryOperation[]) => operations.map(operation => operation.label);
+
+describe('undo and redo', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('undoes the latest operation first and redoes the earliest undone one first', () => {
+    let operations = record(record(record([], 'one'), 'two'), 'three');
+
+    operations = step(step(operations, 'undo'), 'undo');
+    expect(getUndoOperation(operations)?.label).toBe('one');
+    expect(getRedoOperation(operations)?.label).toBe('two');
+
+    operations = step(operations, 'redo');
+    expect(getUndoOperation(operations)?.label).toBe('two');
+    expect(getRedoOperation(operations)?.label).toBe('three');
+  });
+
+  it('drops the redo stack when something new is recorded', () => {
+    let operations = record(record([], 'one'), 'two');
+    operations = step(operations, 'undo');
+    operations = step(operations, 'redo');
+    operations = step(operations, 'undo');
+
+    operations = record(operations, 'three');
+
+    expect(labels(operations)).toEqual(['one', 'three']);
+    expect(getRedoOperation(operations)).toBeNull();
+    expect(getUndoOperation(operations)?.label).toBe('three');
+  });
+
+  it('has nothing to undo or redo at either end of the log', () => {
+    expect(getUndoOperation([])).toBeNull();
+    const operations = step(record([], 'one'), 'undo');
+    expect(getUndoOperation(operations)).toBeNull();
+    expect(getRedoOperation(step(operations, 'redo'))).toBeNull();
+  });
+
+  it('keeps only the latest operations', () => {
+    let operations: HistoryOperation[] = [];
+    for (let i = 0; i <= MAX_HISTORY_OPERATIONS; i++) {
+      operations = record(operations, `edit ${i}`);
+    }
+    expect(operations).toHaveLength(MAX_HISTORY_OPERATIONS);
+    expect(operations[0].label).toBe('edit 1');
+  });
+
+  it('orders operations recorded within the same millisecond', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-04T10:00:00.000Z'));
+
+    const first = createHistoryOperation('one', []);
+    const second = createHistoryOperation('two', []);
+    expect(second.timestamp).toBe(first.timestamp);
+    expect(second.sequence).toBeGreaterThan(first.sequence);
+  });
+});
+
+describe('applyHistoryChanges', () => {
+  it('writes back the records before or after an operation', () => {
+    const edited = { ...a, title: 'Edited' };
+    const c = makeTask('c');
+    const changes = diffRecords('tasks', [a, b], [edited, c]);
+
+    expect(applyHistoryChanges([edited, c], changes, 'tasks', 'undo')).toEqual([a, b]);
+    expect(applyHistoryChanges([a, b], changes, 'tasks', 'redo')).toEqual([edited, c]);
+    expect(applyHistoryChanges([a, b], changes, 'projects', 'redo')).toEqual([a, b]);
+  });
+});
+
+describe('getRecordHistory', () => {
+  it('lists applied changes to one record, newest first, with the fields they touched', () => {
+    let operations = record(record([], 'one'), 'two');
+    operations = recordOperation(operations, createHistoryOperation('other', diffRecords('tasks', [b], [{ ...b, dueDate: '2025-06-05' }])));
+    operations = step(operations, 'undo');
+
+    const history = getRecordHistory(operations, 'tasks', 'a');
+    expect(history.map(entry => entry.operation.label)).toEqual(['two', 'one']);
+    expect(getChangedFields(history[0].change)).toEqual(['title']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Change history
+ *
+ * Every change made through the app context is recorded as an operation
+ * holding each affected record before and after. Undo writes the `before`
+ * snapshots back and redo the `after` ones. Operations form one linear
+ * stack: recording something new drops whatever had been undone.
+ */
+
+import { HistoryOperation, HistoryRecord, HistoryRecordChange, HistoryTable } from '../types';
+import { generateId } from './helpers';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+// Older operations are dropped from the log
+export const MAX_HISTORY_OPERATIONS = 200;
+
+/**
+ * Compare two versions of a list. Updates always create new record objects,
+ * so records that are the same object are unchanged.
+ */
+export const diffRecords = (
+  table: HistoryTable,
+  before: HistoryRecord[],
+  after: HistoryRecord[]
+): HistoryRecordChange[] => {
+  const beforeById = new Map(before.map(record => [record.id, record]));
+  const afterIds = new Set(after.map(record => record.id));
+  const changes: HistoryRecordChange[] = [];
+
+  after.forEach(record => {
+    const previous = beforeById.get(record.id) || null;
+    if (previous !== record) {
+      changes.push({ table, recordId: record.id, before: previous, after: record });
+    }
+  });
+
+  before.forEach(record => {
+    if (!afterIds.has(record.id)) {
+      changes.push({ table, recordId: record.id, before: record, after: null });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Compare two versions of a single record, such as the work schedule
+ */
+export const diffRecord = (
+  table: HistoryTable,
+  before: HistoryRecord | null,
+  after: HistoryRecord | null
+): HistoryRecordChange[] => diffRecords(table, before ? [before] : [], after ? [after] : []);
+
+// Timestamps can repeat, so operations are ordered by a sequence number that
+// follows the clock but always goes up
+let lastSequence = 0;
+
+const nextSequence = (): number => {
+  lastSequence = Math.max(Date.now(), lastSequence + 1);
+  return lastSequence;
+};
+
+export const createHistoryOperation = (label: string, changes: HistoryRecordChange[]): HistoryOperation => ({
+  id: generateId(),
+  label,
+  timestamp: new Date().toISOString(),
+  sequence: nextSequence(),
+  changes,
+  undone: false,
+});
+
+/**
+ * Add a new operation to the log, dropping the redo stack and the oldest
+ * operations once the log is full
+ */
+export const recordOperation = (operations: HistoryOperation[], operation: HistoryOperation): HistoryOperation[] =>
+  [...operations.filter(op => !op.undone), operation].slice(-MAX_HISTORY_OPERATIONS);
+
+/**
+ * Mark an operation as undone or redone
+ */
+export const markOperation = (
+  operations: HistoryOperation[],
+  operationId: string,
+  direction: HistoryDirection
+): HistoryOperation[] =>
+  operations.map(op => op.id === operationId ? { ...op, undone: direction === 'undo' } : op);
+
+/**
+ * The snapshot a change leaves behind when undone or redone
+ */
+export const getChangeTarget = (change: HistoryRecordChange, direction: HistoryDirection): HistoryRecord | null =>
+  direction === 'undo' ? change.before : change.after;
+
+/**
+ * Apply an operation's changes for one table to a list of records.
+ * Records keep their position; restored records are added at the end.
+ */
+export const applyHistoryChanges = <T extends HistoryRecord>(
+  records: T[],
+  changes: HistoryRecordChange[],
+  table: HistoryTable,
+  direction: HistoryDirection
+): T[] => {
+  const targets = new Map<string, T | null>();
+  changes
+    .filter(change => change.table === table)
+    .forEach(change => targets.set(change.recordId, getChangeTarget(change, direction) as T | null));
+  if (targets.size === 0) return records;
+
+  const updated: T[] = [];
+  records.forEach(record => {
+    if (!targets.has(record.id)) {
+      updated.push(record);
+      return;
+    }
+    const target = targets.get(record.id);
+    if (target) updated.push(target);
+    targets.delete(record.id);
+  });
+
+  targets.forEach(target => {
+    if (target) updated.push(target);
+  });
+
+  return updated;
+};
+
+/**
+ * The operation Ctrl+Z would undo: the latest one still applied
+ */
+export const getUndoOperation = (operations: HistoryOperation[]): HistoryOperation | null => {
+  for (let i = operations.length - 1; i >= 0; i--) {
+    if (!operations[i].undone) return operations[i];
+  }
+  return null;
+};
+
+/**
+ * The operation redo would re-apply: the earliest one undone
+ */
+export const getRedoOperation = (operations: HistoryOperation[]): HistoryOperation | null =>
+  operations.find(operation => operation.undone) || null;
+
+/**
+ * Applied changes to one record, newest first
+ */
+export const getRecordHistory = (
+  operations: HistoryOperation[],
+  table: HistoryTable,
+  recordId: string
+): { operation: HistoryOperation; change: HistoryRecordChange }[] =>
+  operations
+    .filter(operation => !operation.undone)
+    .flatMap(operation => operation.changes
+      .filter(change => change.table === table && change.recordId === recordId)
+      .map(change => ({ operation, change })))
+    .reverse();
+
+/**
+ * Names of the fields a change touched, apart from timestamps
+ */
+export const getChangedFields = (change: HistoryRecordChange): string[] => {
+  if (!change.before || !change.after) return [];
+  const before = change.before as unknown as Record<string, unknown>;
+  const after = change.after as unknown as Record<string, unknown>;
+
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => key !== 'updatedAt' && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
@@ -0,0 +1,313 @@
+/**
+ * iCalendar (RFC 5545) export
+ *
+ * Tasks with a due date become VTODOs, planner time blocks and work shifts
+ * become VEVENTs. Times are written as floating local times, so they show up
+ * at the same clock time in whichever calendar app opens the file.
+ */
+
+import {
+  Task,
+  Project,
+  Category,
+  DailyPlan,
+  TimeBlock,
+  WorkSchedule,
+  WorkShift,
+  RecurrenceRule,
+  CalendarExportOptions,
+} from '../types';
+import { formatDate, timeToMinutes } from './helpers';
+import { parseLocalDate } from './recurrence';
+import { getScheduleShifts } from './shiftPattern';
+
+const PRODUCT_ID = '-//ADHD Planner//Calendar Export//EN';
+const UID_DOMAIN = 'adhd-planner';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RFC 5545 priorities: 1 is highest, 9 lowest
+const PRIORITY_VALUES: Record<string, number> = { high: 1, medium: 5, low: 9 };
+
+const SHIFT_LABELS: Record<string, string> = {
+  full: 'Full day',
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  night: 'Night',
+};
+
+export const DEFAULT_CALENDAR_EXPORT_OPTIONS: CalendarExportOptions = {
+  startDate: null,
+  endDate: null,
+  projectIds: [],
+  categoryIds: [],
+  includeTasks: true,
+  includeCompletedTasks: false,
+  includeTimeBlocks: true,
+  includeWorkShifts: true,
+};
+
+export interface CalendarExportInput {
+  tasks: Task[];
+  projects: Project[];
+  categories: Category[];
+  dailyPlans: DailyPlan[];
+  workSchedule: WorkSchedule | null;
+}
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Iterate by code point so multi-byte characters are never split
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines lose one octet to the leading space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (date: string): string => date.replace(/-/g, '');
+
+const toICalDateTime = (date: string, time: string): string =>
+  `${toICalDate(date)}T${time.replace(':', '').padEnd(4, '0')}00`;
+
+const toICalTimestamp = (iso: string): string =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const addDays = (date: string, days: number): string => {
+  const result = parseLocalDate(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * DTSTART/DTEND for a time range on a date; ranges that end before they
+ * start run past midnight into the next day
+ */
+const getEventTimes = (date: string, startTime: string, endTime: string): string[] => {
+  const endDate = timeToMinutes(endTime) <= timeToMinutes(startTime) ? addDays(date, 1) : date;
+  return [
+    `DTSTART:${toICalDateTime(date, startTime)}`,
+    `DTEND:${toICalDateTime(endDate, endTime)}`,
+  ];
+};
+
+/**
+ * Translate a recurrence rule into an RRULE value. Rules that repeat after
+ * completion have no iCalendar equivalent and return null.
+ * UNTIL has to match the value type of the start: a date, or a date-time.
+ */
+export const toRRule = (rule: RecurrenceRule, startDate: string, hasTime = false): string | null => {
+  const parts: string[] = [];
+
+  switch (rule.frequency) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if (rule.weekdays && rule.weekdays.length > 0) {
+        parts.push(`BYDAY=${rule.weekdays.map(day => WEEKDAY_CODES[day]).join(',')}`);
+      }
+      break;
+    case 'monthly': {
+      parts.push('FREQ=MONTHLY');
+      const start = parseLocalDate(startDate);
+      if (rule.monthlyMode === 'nthWeekday') {
+        const nth = rule.nthWeek ?? Math.ceil(start.getDate() / 7);
+        const weekday = rule.nthWeekday ?? start.getDay();
+        parts.push(`BYDAY=${nth}${WEEKDAY_CODES[weekday]}`);
+      } else {
+        parts.push(`BYMONTHDAY=${rule.dayOfMonth ?? start.getDate()}`);
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.endDate) {
+    parts.push(`UNTIL=${hasTime ? toICalDateTime(rule.endDate, '23:59') : toICalDate(rule.endDate)}`);
+  }
+
+  return parts.join(';');
+};
+
+const isInRange = (date: string, options: CalendarExportOptions): boolean =>
+  (!options.startDate || date >= options.startDate) && (!options.endDate || date <= options.endDate);
+
+const hasFilter = (options: CalendarExportOptions): boolean =>
+  options.projectIds.length > 0 || options.categoryIds.length > 0;
+
+const matchesFilter = (task: Task, options: CalendarExportOptions): boolean => {
+  if (options.projectIds.length > 0 && (!task.projectId || !options.projectIds.includes(task.projectId))) {
+    return false;
+  }
+  if (options.categoryIds.length > 0 && !task.categoryIds.some(id => options.categoryIds.includes(id))) {
+    return false;
+  }
+  return true;
+};
+
+const buildTodo = (task: Task, input: CalendarExportInput, stamp: string): string[] => {
+  const dueDate = task.dueDate as string;
+  const project = task.projectId ? input.projects.find(p => p.id === task.projectId) : undefined;
+  const categoryNames = input.categories
+    .filter(category => task.categoryIds.includes(category.id))
+    .map(category => escapeText(category.name));
+
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:task-${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    task.dueTime ? `DUE:${toICalDateTime(dueDate, task.dueTime)}` : `DUE;VALUE=DATE:${toICalDate(dueDate)}`,
+    `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    `CREATED:${toICalTimestamp(task.createdAt)}`,
+    `LAST-MODIFIED:${toICalTimestamp(task.updatedAt)}`,
+  ];
+
+  const description = [task.description, project ? `Project: ${project.name}` : ''].filter(Boolean).join('\n\n');
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (task.completed && task.completedAt) lines.push(`COMPLETED:${toICalTimestamp(task.completedAt)}`);
+  if (task.priority) lines.push(`PRIORITY:${PRIORITY_VALUES[task.priority]}`);
+  if (categoryNames.length > 0) lines.push(`CATEGORIES:${categoryNames.join(',')}`);
+  if (task.estimatedMinutes) lines.push(`X-ESTIMATED-DURATION:PT${task.estimatedMinutes}M`);
+
+  const rrule = task.recurrence ? toRRule(task.recurrence, dueDate, !!task.dueTime) : null;
+  if (rrule) {
+    // Recurrence is anchored on DTSTART, so it has to be present
+    lines.push(
+      task.dueTime ? `DTSTART:${toICalDateTime(dueDate, task.dueTime)}` : `DTSTART;VALUE=DATE:${toICalDate(dueDate)}`,
+      `RRULE:${rrule}`
+    );
+  }
+
+  lines.push('END:VTODO');
+  return lines;
+};
+
+const buildTimeBlockEvent = (plan: DailyPlan, block: TimeBlock, tasks: Task[], stamp: string): string[] => {
+  const taskTitles = tasks.map(task => `- ${task.title}`);
+  const summary = block.title || (tasks.length === 1 ? tasks[0].title : 'Planned time');
+  const description = [block.description, taskTitles.join('\n')].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:block-${block.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...getEventTimes(plan.date, block.startTime, block.endTime),
+    `SUMMARY:${escapeText(summary)}`,
+  ];
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const buildShiftEvent = (shift: WorkShift, stamp: string): string[] => {
+  const label = shift.shiftType ? SHIFT_LABELS[shift.shiftType] : null;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:shift-${shift.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...getEventTimes(shift.date, shift.startTime, shift.endTime),
+    `SUMMARY:${escapeText(label ? `Work shift (${label})` : 'Work shift')}`,
+    'CATEGORIES:Work',
+    'TRANSP:OPAQUE',
+  ];
+  if (shift.notes) lines.push(`DESCRIPTION:${escapeText(shift.notes)}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build an .ics calendar from the planner's data
+ */
+export const generateICalendar = (
+  input: CalendarExportInput,
+  options: CalendarExportOptions = DEFAULT_CALENDAR_EXPORT_OPTIONS
+): string => {
+  const stamp = toICalTimestamp(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:ADHD Planner',
+  ];
+
+  if (options.includeTasks) {
+    input.tasks
+      .filter(task =>
+        task.dueDate &&
+        !task.archived &&
+        (options.includeCompletedTasks || !task.completed) &&
+        isInRange(task.dueDate, options) &&
+        matchesFilter(task, options)
+      )
+      .forEach(task => lines.push(...buildTodo(task, input, stamp)));
+  }
+
+  if (options.includeTimeBlocks) {
+    const tasksById = new Map(input.tasks.map(task => [task.id, task]));
+
+    input.dailyPlans
+      .filter(plan => isInRange(plan.date, options))
+      .forEach(plan => {
+        plan.timeBlocks.forEach(block => {
+          const ids = block.taskIds && block.taskIds.length > 0 ? block.taskIds : block.taskId ? [block.taskId] : [];
+          const blockTasks = ids.map(id => tasksById.get(id)).filter((task): task is Task => !!task);
+
+          // With a project/category filter, only blocks holding a matching task are included
+          if (hasFilter(options) && !blockTasks.some(task => matchesFilter(task, options))) return;
+
+          lines.push(...buildTimeBlockEvent(plan, block, blockTasks, stamp));
+        });
+      });
+  }
+
+  if (options.includeWorkShifts && input.workSchedule) {
+    // Without a date range, a rotation pattern is written out for a year from today
+    const schedule = input.workSchedule;
+    const oneOffDates = schedule.shifts.map(shift => shift.date).sort();
+    const defaultEnd = addDays(formatDate(new Date()), 365);
+    const startDate = options.startDate || [oneOffDates[0], schedule.pattern?.anchorDate].filter(Boolean).sort()[0] || '';
+    const endDate = options.endDate || [oneOffDates[oneOffDates.length - 1], defaultEnd].filter(Boolean).sort().pop() || '';
+
+    getScheduleShifts(schedule, startDate, endDate)
+      .forEach(shift => lines.push(...buildShiftEvent(shift, stamp)));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  // RFC 5545 requires CRLF line endings
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
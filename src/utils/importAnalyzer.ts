@@ -3,9 +3,20 @@
  * Helps identify the structure of imported files to aid in conversion
  */
 
+import { ImportValidationIssue } from '../types';
+import { EXPORT_SCHEMA_VERSION, ImportValidationError, createExportEnvelope, isExportEnvelope, readExportFile } from './exportFormat';
+import { isEncryptedFile } from './encryption';
+import {
+  EXTERNAL_FORMAT_LABELS,
+  ExternalImportFormat,
+  convertExternalFile,
+  detectExternalFormat
+} from './externalImporters';
+
 /**
- * Analyzes a JSON string to identify its structure
- * @param jsonString The JSON string to analyze
+ * Analyzes an import file to identify its structure
+ * @param jsonString The file contents (JSON, or CSV/Markdown from a supported app)
+ * @param fileName The file's name, used to tell CSV and Markdown files apart
  * @returns Information about the file structure
  */
 export interface ImportAnalysisResult {
@@ -15,9 +26,12 @@ export interface ImportAnalysisResult {
   hasTasksData: boolean;
   needsConversion: boolean;
   conversionHints: string[];
+  schemaVersion: number | null; // Export schema version, for files from this app
+  validationIssues: ImportValidationIssue[];
+  encrypted: boolean; // Needs its passphrase before it can be read
 }
 
-export const analyzeImportFile = (jsonString: string): ImportAnalysisResult => {
+export const analyzeImportFile = (jsonString: string, fileName = ''): ImportAnalysisResult => {
   // Default result
   const result: ImportAnalysisResult = {
     valid: false,
@@ -25,10 +39,37 @@ export const analyzeImportFile = (jsonString: string): ImportAnalysisResult => {
     format: 'unknown',
     hasTasksData: false,
     needsConversion: true,
-    conversionHints: []
+    conversionHints: [],
+    schemaVersion: null,
+    validationIssues: [],
+    encrypted: false
   };
 
   try {
+    // Encrypted exports and backups can't be looked into without the passphrase
+    if (isEncryptedFile(jsonString)) {
+      result.valid = true;
+      result.format = 'adhd-planner';
+      result.needsConversion = false;
+      result.encrypted = true;
+      result.conversionHints.push('This file is encrypted. Enter its passphrase to check and import it');
+      return result;
+    }
+
+    // Files from apps we have a real converter for
+    const externalFormat = detectExternalFormat(jsonString, fileName);
+    if (externalFormat) {
+      const data = convertExternalFile(jsonString, externalFormat, fileName);
+      result.valid = true;
+      result.format = externalFormat;
+      result.hasTasksData = data.tasks.length > 0;
+      result.conversionHints.push(
+        `Recognised a ${EXTERNAL_FORMAT_LABELS[externalFormat]} export`,
+        `Found ${data.tasks.length} tasks, ${data.projects.length} projects and ${data.categories.length} labels to convert`
+      );
+      return result;
+    }
+
     // First check if it's valid JSON
     if (!jsonString.trim().startsWith('{') || !jsonString.trim().endsWith('}')) {
       result.conversionHints.push('File is not a valid JSON object. It should start with { and end with }');
@@ -61,11 +102,36 @@ export const analyzeImportFile = (jsonString: string): ImportAnalysisResult => {
       key.toLowerCase().includes('item')
     );
     
-    // Determine format based on keys
-    if (matchingKeys.length >= 3) {
+    // Our own exports are identified by their envelope (or, for older files,
+    // their shape) and migrated rather than converted
+    if (isExportEnvelope(data) || matchingKeys.length >= 3) {
       result.format = 'adhd-planner';
       result.needsConversion = false;
-    } else if (result.topLevelKeys.includes('items') || result.topLevelKeys.includes('tasks')) {
+
+      try {
+        const { data: exportData, sourceVersion, appVersion } = readExportFile(jsonString);
+        result.schemaVersion = sourceVersion;
+        result.hasTasksData = exportData.tasks.length > 0;
+        if (sourceVersion < EXPORT_SCHEMA_VERSION) {
+          result.conversionHints.push(
+            `Exported with schema version ${sourceVersion}; it will be upgraded to version ${EXPORT_SCHEMA_VERSION} on import`
+          );
+        }
+        if (appVersion) {
+          result.conversionHints.push(`Exported by app version ${appVersion}`);
+        }
+      } catch (error) {
+        if (!(error instanceof ImportValidationError)) throw error;
+        result.valid = false;
+        result.validationIssues = error.issues;
+        result.conversionHints.push(error.message);
+      }
+
+      return result;
+    }
+
+    // Determine format based on keys
+    if (result.topLevelKeys.includes('items') || result.topLevelKeys.includes('tasks')) {
       if (result.topLevelKeys.includes('lists')) {
         result.format = 'todo-app';
       } else if (result.topLevelKeys.includes('projects')) {
@@ -132,7 +198,12 @@ interface ConvertedData {
   version: string;
 }
 
-export const convertImportFormat = (jsonData: string, sourceFormat: string): string => {
+export const convertImportFormat = (jsonData: string, sourceFormat: string, fileName = ''): string => {
+  if (sourceFormat in EXTERNAL_FORMAT_LABELS) {
+    const data = convertExternalFile(jsonData, sourceFormat as ExternalImportFormat, fileName);
+    return JSON.stringify(createExportEnvelope(data));
+  }
+
   const parsed = JSON.parse(jsonData) as Record<string, unknown>;
   const converted: ConvertedData = {
     tasks: [],
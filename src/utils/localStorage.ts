@@ -1,6 +1,6 @@
-import { Task, Project, Category, DailyPlan, JournalEntry } from '../types';
+import { Task, Project, Category, DailyPlan, JournalEntry, RecommendationWeights, PomodoroSettings, SavedView, TaskListPreferences, SyncSettings } from '../types';
 import { WorkSchedule, WorkShift } from '../types/WorkSchedule';
-import { transformImportedData } from './importTransform';
+import { createExportEnvelope, readExportFile } from './exportFormat';
 
 // Local storage keys
 const TASKS_KEY = 'taskManager_tasks';
@@ -9,6 +9,12 @@ const CATEGORIES_KEY = 'taskManager_categories';
 const DAILY_PLANS_KEY = 'taskManager_dailyPlans';
 const WORK_SCHEDULE_KEY = 'taskManager_workSchedule';
 const JOURNAL_ENTRIES_KEY = 'taskManager_journalEntries';
+const RECOMMENDATION_WEIGHTS_KEY = 'taskManager_recommendationWeights';
+const POMODORO_SETTINGS_KEY = 'taskManager_pomodoroSettings';
+const SAVED_VIEWS_KEY = 'taskManager_savedViews';
+const TASK_LIST_PREFERENCES_KEY = 'taskManager_taskListPreferences';
+const TRASH_RETENTION_DAYS_KEY = 'taskManager_trashRetentionDays';
+const SYNC_SETTINGS_KEY = 'taskManager_syncSettings';
 
 // Tasks
 export const getTasks = (): Task[] => {
@@ -215,42 +221,89 @@ const generateId = (): string => {
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
 };
 
+// Preferences
+export const getRecommendationWeights = (): RecommendationWeights | null => {
+  const weightsJSON = localStorage.getItem(RECOMMENDATION_WEIGHTS_KEY);
+  return weightsJSON ? JSON.parse(weightsJSON) : null;
+};
+
+export const saveRecommendationWeights = (weights: RecommendationWeights): void => {
+  localStorage.setItem(RECOMMENDATION_WEIGHTS_KEY, JSON.stringify(weights));
+};
+
+export const getPomodoroSettings = (): PomodoroSettings | null => {
+  const settingsJSON = localStorage.getItem(POMODORO_SETTINGS_KEY);
+  return settingsJSON ? JSON.parse(settingsJSON) : null;
+};
+
+export const savePomodoroSettings = (settings: PomodoroSettings): void => {
+  localStorage.setItem(POMODORO_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getSavedViews = (): SavedView[] => {
+  const viewsJSON = localStorage.getItem(SAVED_VIEWS_KEY);
+  return viewsJSON ? JSON.parse(viewsJSON) : [];
+};
+
+export const saveSavedViews = (views: SavedView[]): void => {
+  localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify(views));
+};
+
+export const getTaskListPreferences = (): TaskListPreferences | null => {
+  const preferencesJSON = localStorage.getItem(TASK_LIST_PREFERENCES_KEY);
+  return preferencesJSON ? JSON.parse(preferencesJSON) : null;
+};
+
+export const saveTaskListPreferences = (preferences: TaskListPreferences): void => {
+  localStorage.setItem(TASK_LIST_PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+export const getTrashRetentionDays = (): number | null => {
+  const daysJSON = localStorage.getItem(TRASH_RETENTION_DAYS_KEY);
+  return daysJSON ? JSON.parse(daysJSON) : null;
+};
+
+export const saveTrashRetentionDays = (days: number): void => {
+  localStorage.setItem(TRASH_RETENTION_DAYS_KEY, JSON.stringify(days));
+};
+
+export const getSyncSettings = (): SyncSettings | null => {
+  const settingsJSON = localStorage.getItem(SYNC_SETTINGS_KEY);
+  return settingsJSON ? JSON.parse(settingsJSON) : null;
+};
+
+export const saveSyncSettings = (settings: SyncSettings): void => {
+  localStorage.setItem(SYNC_SETTINGS_KEY, JSON.stringify(settings));
+};
+
 // Data Import/Export
 export const exportData = (): string => {
-  const data = {
+  const envelope = createExportEnvelope({
     tasks: getTasks(),
     projects: getProjects(),
     categories: getCategories(),
     dailyPlans: getDailyPlans(),
     workSchedule: getWorkSchedule(),
     journalEntries: getJournalEntries(),
-  };
+    focusSessions: [],
+    accountabilityRecords: [],
+  });
 
-  return JSON.stringify(data);
+  return JSON.stringify(envelope);
 };
 
 export const importData = (jsonData: string): boolean => {
   try {
-    // Try to transform the imported data first
-    const transformedData = transformImportedData(jsonData);
-    
-    if (transformedData) {
-      // Save transformed data
-      saveTasks(transformedData.tasks);
-      saveProjects(transformedData.projects);
-      saveCategories(transformedData.categories);
-      return true;
-    }
-    
-    // If transformation fails, try direct import
-    const data = JSON.parse(jsonData);
-    if (data.tasks) saveTasks(data.tasks);
-    if (data.projects) saveProjects(data.projects);
-    if (data.categories) saveCategories(data.categories);
-    if (data.dailyPlans) saveDailyPlans(data.dailyPlans);
+    // Migrates older formats (including the original legacy export) and validates
+    const { data } = readExportFile(jsonData);
+
+    saveTasks(data.tasks);
+    saveProjects(data.projects);
+    saveCategories(data.categories);
+    saveDailyPlans(data.dailyPlans);
     if (data.workSchedule) saveWorkSchedule(data.workSchedule);
-    if (data.journalEntries) saveJournalEntries(data.journalEntries);
-    
+    saveJournalEntries(data.journalEntries);
+
     return true;
   } catch (error) {
     console.error('Failed to import data:', error);
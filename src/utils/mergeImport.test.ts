@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { ExportData, Project, Task } from '../types';
+import { applyMergePlan, buildMergePlan, resolveAll, summarizeMergePlan } from './mergeImport';
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: null,
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  createdAt: '2025-06-01T00:00:00.000Z',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+  ...fields,
+});
+
+const makeData = (fields: Partial<ExportData>): ExportData => ({
+  tasks: [],
+  projects: [],
+  categories: [],
+  dailyPlans: [],
+  workSchedule: null,
+  journalEntries: [],
+  focusSessions: [],
+  accountabilityRecords: [],
+  ...fields,
+});
+
+const home: Project = { id: 'p1', name: 'Home', description: '', color: '#3B82F6', createdAt: '2025-06-01T00:00:00.000Z', updatedAt: '2025-06-01T00:00:00.000Z' };
+
+const local = makeData({
+  tasks: [
+    makeTask('same'),
+    makeTask('local-newer', { title: 'Edited here', updatedAt: '2025-06-03T00:00:00.000Z' }),
+    makeTask('incoming-newer', { title: 'Old title', updatedAt: '2025-06-02T00:00:00.000Z' }),
+    makeTask('conflict', { title: 'Edited here', updatedAt: '2025-06-02T00:00:00.000Z' }),
+    makeTask('local-only'),
+  ],
+  projects: [home],
+});
+
+const incoming = makeData({
+  tasks: [
+    makeTask('same'),
+    makeTask('local-newer', { title: 'Edited there', updatedAt: '2025-06-02T00:00:00.000Z' }),
+    makeTask('incoming-newer', { title: 'New title', updatedAt: '2025-06-03T00:00:00.000Z' }),
+    makeTask('conflict', { title: 'Edited there', updatedAt: '2025-06-02T00:00:00.000Z' }),
+    makeTask('new'),
+  ],
+  projects: [{ ...home, color: '#EF4444', updatedAt: '2025-06-03T00:00:00.000Z' }],
+});
+
+const titles = (data: ExportData) => Object.fromEntries(data.tasks.map(task => [task.id, task.title]));
+
+describe('buildMergePlan', () => {
+  it('classifies incoming records against the local ones', () => {
+    const plan = buildMergePlan(local, incoming);
+
+    expect(plan.filter(item => item.collection === 'tasks').map(item => [item.id, item.status, item.resolution])).toEqual([
+      ['same', 'unchanged', 'keep_local'],
+      ['local-newer', 'local_newer', 'keep_local'],
+      ['incoming-newer', 'incoming_newer', 'use_incoming'],
+      ['conflict', 'conflict', 'keep_local'],
+      ['new', 'new', 'use_incoming'],
+    ]);
+    expect(plan.find(item => item.id === 'p1')).toMatchObject({ status: 'incoming_newer', changedFields: ['color'] });
+    expect(summarizeMergePlan(plan)).toEqual({ new: 1, unchanged: 1, local_newer: 1, incoming_newer: 2, conflict: 1 });
+  });
+});
+
+describe('applyMergePlan', () => {
+  it('keeps the newer side by default and leaves local-only records alone', () => {
+    const { merged, changed } = applyMergePlan(local, buildMergePlan(local, incoming));
+
+    expect(titles(merged)).toEqual({
+      same: 'Task same',
+      'local-newer': 'Edited here',
+      'incoming-newer': 'New title',
+      conflict: 'Edited here',
+      'local-only': 'Task local-only',
+      new: 'Task new',
+    });
+    expect(merged.projects[0].color).toBe('#EF4444');
+    expect(changed.tasks.map(task => task.id)).toEqual(['incoming-newer', 'new']);
+  });
+
+  it('takes the incoming side of a conflict when chosen', () => {
+    const plan = buildMergePlan(local, incoming).map(item =>
+      item.id === 'conflict' ? { ...item, resolution: 'use_incoming' as const } : item
+    );
+    const { merged, changed } = applyMergePlan(local, plan);
+
+    expect(titles(merged).conflict).toBe('Edited there');
+    expect(titles(merged)['local-newer']).toBe('Edited here');
+    expect(changed.tasks.map(task => task.id)).toEqual(['incoming-newer', 'conflict', 'new']);
+  });
+
+  it('keeps every local version when told to', () => {
+    const { merged, changed } = applyMergePlan(local, resolveAll(buildMergePlan(local, incoming), 'keep_local'));
+
+    expect(merged.tasks).toEqual(local.tasks);
+    expect(merged.projects).toEqual(local.projects);
+    expect(changed.tasks).toEqual([]);
+  });
+
+  it('takes every incoming version of one status when told to', () => {
+    const plan = resolveAll(buildMergePlan(local, incoming), 'use_incoming', 'local_newer');
+    const { merged } = applyMergePlan(local, plan);
+
+    expect(titles(merged)['local-newer']).toBe('Edited there');
+    expect(titles(merged).conflict).toBe('Edited here');
+  });
+
+  it('lists imported subtasks on their local parent', () => {
+    const withSubtask = makeData({ tasks: [makeTask('sub', { parentTaskId: 'same' })] });
+    const { merged, changed } = applyMergePlan(local, buildMergePlan(local, withSubtask));
+
+    const parent = merged.tasks.find(task => task.id === 'same');
+    expect(parent?.subtasks).toEqual(['sub']);
+    expect(changed.tasks.map(task => task.id)).toEqual(['sub', 'same']);
+  });
+
+  it('replaces the work schedule only when the incoming one is chosen', () => {
+    const schedule = { id: 'ws', name: 'Shifts', shifts: [], createdAt: '2025-06-01T00:00:00.000Z', updatedAt: '2025-06-01T00:00:00.000Z' };
+    const localData = makeData({ workSchedule: schedule });
+    const incomingData = makeData({ workSchedule: { ...schedule, name: 'Rota' } });
+
+    const plan = buildMergePlan(localData, incomingData);
+    expect(plan[0]).toMatchObject({ collection: 'workSchedule', status: 'conflict', resolution: 'keep_local' });
+    expect(applyMergePlan(localData, plan).merged.workSchedule?.name).toBe('Shifts');
+    expect(applyMergePlan(localData, resolveAll(plan, 'use_incoming')).merged.workSchedule?.name).toBe('Rota');
+  });
+});
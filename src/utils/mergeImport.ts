@@ -0,0 +1,236 @@
+/**
+ * Merge imports
+ *
+ * Instead of replacing everything, an import can be merged into the existing
+ * data: records are matched by id and compared by `updatedAt`, and the user
+ * picks which version to keep for each one before anything is written.
+ * Local records that aren't in the file are left alone.
+ */
+
+import {
+  ExportData,
+  ExportRecord,
+  MergeCollection,
+  MergeItem,
+  MergeResolution,
+  MergeStatus,
+  Task,
+} from '../types';
+
+export const MERGE_COLLECTIONS: MergeCollection[] = [
+  'tasks',
+  'projects',
+  'categories',
+  'dailyPlans',
+  'workSchedule',
+  'journalEntries',
+  'focusSessions',
+  'accountabilityRecords',
+];
+
+export const MERGE_COLLECTION_LABELS: Record<MergeCollection, string> = {
+  tasks: 'Task',
+  projects: 'Project',
+  categories: 'Category',
+  dailyPlans: 'Daily plan',
+  workSchedule: 'Work schedule',
+  journalEntries: 'Journal entry',
+  focusSessions: 'Focus session',
+  accountabilityRecords: 'Check-in',
+};
+
+// What each status does unless the user says otherwise
+const DEFAULT_RESOLUTIONS: Record<MergeStatus, MergeResolution> = {
+  new: 'use_incoming',
+  unchanged: 'keep_local',
+  local_newer: 'keep_local',
+  incoming_newer: 'use_incoming',
+  conflict: 'keep_local',
+};
+
+export const getRecords = (data: ExportData, collection: MergeCollection): ExportRecord[] => {
+  if (collection === 'workSchedule') {
+    return data.workSchedule ? [data.workSchedule] : [];
+  }
+  return data[collection];
+};
+
+const getRecordLabel = (collection: MergeCollection, record: ExportRecord): string => {
+  const fields = record as unknown as Record<string, unknown>;
+  switch (collection) {
+    case 'tasks':
+      return String(fields.title);
+    case 'journalEntries':
+      return `${fields.date}: ${String(fields.content).slice(0, 40)}`;
+    case 'dailyPlans':
+      return String(fields.date);
+    case 'focusSessions':
+      return `Session on ${String(fields.startedAt).slice(0, 10)}`;
+    case 'accountabilityRecords':
+      return `${fields.taskTitle} (${fields.date})`;
+    default:
+      return String(fields.name);
+  }
+};
+
+const getUpdatedAt = (record: ExportRecord): string | null =>
+  'updatedAt' in record && typeof record.updatedAt === 'string' ? record.updatedAt : null;
+
+/**
+ * Fields whose values differ between two versions of a record, ignoring updatedAt
+ */
+export const getChangedFields = (local: ExportRecord, incoming: ExportRecord): string[] => {
+  const a = local as unknown as Record<string, unknown>;
+  const b = incoming as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('updatedAt');
+
+  return Array.from(keys).filter(key => JSON.stringify(a[key]) !== JSON.stringify(b[key]));
+};
+
+/**
+ * Classify an incoming record against the local one. Records that differ but
+ * can't be ordered by updatedAt (same timestamp, or none) are conflicts.
+ */
+export const classifyRecord = (
+  local: ExportRecord | null,
+  incoming: ExportRecord,
+  changedFields: string[]
+): MergeStatus => {
+  if (!local) return 'new';
+  if (changedFields.length === 0) return 'unchanged';
+
+  const localUpdated = getUpdatedAt(local);
+  const incomingUpdated = getUpdatedAt(incoming);
+  if (localUpdated && incomingUpdated && localUpdated !== incomingUpdated) {
+    return localUpdated > incomingUpdated ? 'local_newer' : 'incoming_newer';
+  }
+  return 'conflict';
+};
+
+/**
+ * Compare every incoming record with the local data
+ */
+export const buildMergePlan = (local: ExportData, incoming: ExportData): MergeItem[] => {
+  const items: MergeItem[] = [];
+
+  for (const collection of MERGE_COLLECTIONS) {
+    const localById = new Map(getRecords(local, collection).map(record => [record.id, record]));
+
+    for (const record of getRecords(incoming, collection)) {
+      const localRecord = localById.get(record.id) || null;
+      const changedFields = localRecord ? getChangedFields(localRecord, record) : [];
+      const status = classifyRecord(localRecord, record, changedFields);
+
+      items.push({
+        collection,
+        id: record.id,
+        label: getRecordLabel(collection, record),
+        status,
+        local: localRecord,
+        incoming: record,
+        changedFields,
+        resolution: DEFAULT_RESOLUTIONS[status],
+      });
+    }
+  }
+
+  return items;
+};
+
+/**
+ * Count merge items by status
+ */
+export const summarizeMergePlan = (items: MergeItem[]): Record<MergeStatus, number> => {
+  const summary: Record<MergeStatus, number> = {
+    new: 0,
+    unchanged: 0,
+    local_newer: 0,
+    incoming_newer: 0,
+    conflict: 0,
+  };
+  items.forEach(item => {
+    summary[item.status]++;
+  });
+  return summary;
+};
+
+/**
+ * Set the same resolution on every item matching `status` (or every item)
+ */
+export const resolveAll = (
+  items: MergeItem[],
+  resolution: MergeResolution,
+  status?: MergeStatus
+): MergeItem[] =>
+  items.map(item =>
+    item.status === 'unchanged' || (status && item.status !== status) ? item : { ...item, resolution }
+  );
+
+const emptyExportData = (): ExportData => ({
+  tasks: [],
+  projects: [],
+  categories: [],
+  dailyPlans: [],
+  workSchedule: null,
+  journalEntries: [],
+  focusSessions: [],
+  accountabilityRecords: [],
+});
+
+/**
+ * Apply the chosen resolutions.
+ * Returns the merged data set and just the records that need writing.
+ */
+export const applyMergePlan = (
+  local: ExportData,
+  items: MergeItem[]
+): { merged: ExportData; changed: ExportData } => {
+  const changed = emptyExportData();
+
+  for (const item of items) {
+    if (item.resolution !== 'use_incoming' || item.status === 'unchanged') continue;
+
+    if (item.collection === 'workSchedule') {
+      changed.workSchedule = item.incoming as ExportData['workSchedule'];
+    } else {
+      (changed[item.collection] as ExportRecord[]).push(item.incoming);
+    }
+  }
+
+  const merged = emptyExportData();
+  const mergedLists = merged as unknown as Record<MergeCollection, ExportRecord[]>;
+  for (const collection of MERGE_COLLECTIONS) {
+    if (collection === 'workSchedule') {
+      merged.workSchedule = changed.workSchedule || local.workSchedule;
+      continue;
+    }
+
+    const localRecords = local[collection] as ExportRecord[];
+    const changedRecords = changed[collection] as ExportRecord[];
+    const replacements = new Map(changedRecords.map(record => [record.id, record]));
+    const localIds = new Set(localRecords.map(record => record.id));
+
+    mergedLists[collection] = [
+      ...localRecords.map(record => replacements.get(record.id) || record),
+      ...changedRecords.filter(record => !localIds.has(record.id)),
+    ];
+  }
+
+  // Imported subtasks need to be listed on their (possibly local) parent
+  const changedTasks = new Map(changed.tasks.map(task => [task.id, task]));
+  for (const task of changed.tasks) {
+    if (!task.parentTaskId) continue;
+
+    const parentIndex = merged.tasks.findIndex(t => t.id === task.parentTaskId);
+    const parent = merged.tasks[parentIndex];
+    if (!parent || parent.subtasks.includes(task.id)) continue;
+
+    const updatedParent: Task = { ...parent, subtasks: [...parent.subtasks, task.id] };
+    merged.tasks[parentIndex] = updatedParent;
+    changedTasks.set(parent.id, updatedParent);
+  }
+  changed.tasks = Array.from(changedTasks.values());
+
+  return { merged, changed };
+};
@@ -0,0 +1,91 @@
+/**
+ * Night shifts and shifts that cross midnight
+ *
+ * A shift is stored on the date it starts. When its end time is at or before
+ * its start time it finishes the next morning, and that morning is both busy
+ * and the start of a recovery day.
+ */
+
+import { WorkShift } from '../types';
+import { calculateDuration, formatDate, timeToMinutes } from './helpers';
+import { parseLocalDate } from './recurrence';
+
+// Days after a night shift that only get low-energy suggestions
+export const RECOVERY_DAYS_AFTER_NIGHT_SHIFT = 1;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+type ShiftLookup = (date: string) => WorkShift | undefined;
+
+export interface ShiftInterval {
+  start: number; // Minutes since midnight on the date
+  end: number;
+  shift: WorkShift;
+  fromPreviousDay: boolean; // The tail end of a shift that started the day before
+}
+
+const addDays = (date: string, days: number): string => {
+  const result = parseLocalDate(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Whether a shift finishes on the day after it starts
+ */
+export const crossesMidnight = (shift: Pick<WorkShift, 'startTime' | 'endTime'>): boolean =>
+  timeToMinutes(shift.endTime) <= timeToMinutes(shift.startTime);
+
+/**
+ * Length of a shift in minutes, including the part after midnight
+ */
+export const getShiftDurationMinutes = (shift: Pick<WorkShift, 'startTime' | 'endTime'>): number =>
+  calculateDuration(shift.startTime, shift.endTime, { allowOvernight: true }) as number;
+
+/**
+ * The date a shift finishes on
+ */
+export const getShiftEndDate = (shift: WorkShift): string =>
+  crossesMidnight(shift) ? addDays(shift.date, 1) : shift.date;
+
+/**
+ * The previous day's shift, if it runs past midnight into this date
+ */
+export const getOvernightShift = (date: string, getShiftForDate: ShiftLookup): WorkShift | undefined => {
+  const previous = getShiftForDate(addDays(date, -1));
+  return previous && crossesMidnight(previous) ? previous : undefined;
+};
+
+/**
+ * The parts of a date spent at work: the morning end of last night's shift,
+ * and this date's shift up to midnight
+ */
+export const getShiftIntervalsForDate = (date: string, getShiftForDate: ShiftLookup): ShiftInterval[] => {
+  const intervals: ShiftInterval[] = [];
+
+  const overnight = getOvernightShift(date, getShiftForDate);
+  if (overnight && timeToMinutes(overnight.endTime) > 0) {
+    intervals.push({ start: 0, end: timeToMinutes(overnight.endTime), shift: overnight, fromPreviousDay: true });
+  }
+
+  const shift = getShiftForDate(date);
+  if (shift) {
+    const start = timeToMinutes(shift.startTime);
+    const end = crossesMidnight(shift) ? MINUTES_PER_DAY : timeToMinutes(shift.endTime);
+    intervals.push({ start, end, shift, fromPreviousDay: false });
+  }
+
+  return intervals;
+};
+
+/**
+ * Whether a date comes straight after a night shift, when the planner should
+ * only suggest low-energy tasks
+ */
+export const isRecoveryDay = (date: string, getShiftForDate: ShiftLookup): boolean => {
+  for (let daysBack = 1; daysBack <= RECOVERY_DAYS_AFTER_NIGHT_SHIFT; daysBack++) {
+    const shift = getShiftForDate(addDays(date, -daysBack));
+    if (shift && crossesMidnight(shift)) return true;
+  }
+  return false;
+};
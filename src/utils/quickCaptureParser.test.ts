@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Project } from '../types';
+import { hasParsedFields, parseQuickCapture } from './quickCaptureParser';
+
+const projects = [{ id: 'p-health', name: 'Health' }, { id: 'p-home', name: 'Home Repairs' }] as Project[];
+const categories = [{ id: 'c-calls', name: 'Calls' }, { id: 'c-errands', name: 'errands' }] as Category[];
+
+// Wednesday 4 June 2025
+const today = new Date(2025, 5, 4, 10, 30);
+
+const parse = (input: string) => parseQuickCapture(input, { projects, categories, today });
+
+describe('parseQuickCapture', () => {
+  describe('dates', () => {
+    it('reads "next friday" as the coming Friday', () => {
+      const parsed = parse('Call dentist next friday');
+      expect(parsed.dueDate).toBe('2025-06-06');
+      expect(parsed.title).toBe('Call dentist');
+    });
+
+    it('reads "in 3 days"', () => {
+      expect(parse('Renew library books in 3 days').dueDate).toBe('2025-06-07');
+    });
+
+    it('reads "jun 5" as the next June 5th', () => {
+      const parsed = parse('Submit form jun 5');
+      expect(parsed.dueDate).toBe('2025-06-05');
+      expect(parsed.title).toBe('Submit form');
+    });
+
+    it('rolls a month and day that has passed over to next year', () => {
+      expect(parse('Renew passport jan 31').dueDate).toBe('2026-01-31');
+    });
+
+    it('reads the !today and !2w shortcuts', () => {
+      expect(parse('Water plants !today').dueDate).toBe('2025-06-04');
+      const parsed = parse('Review budget !2w');
+      expect(parsed.dueDate).toBe('2025-06-18');
+      expect(parsed.title).toBe('Review budget');
+    });
+
+    it('reads times and puts a lone time on today', () => {
+      const parsed = parse('Standup at 9:30am');
+      expect(parsed.dueTime).toBe('09:30');
+      expect(parsed.dueDate).toBe('2025-06-04');
+    });
+  });
+
+  describe('recurrence', () => {
+    it('reads "every other week" as a two-weekly rule starting today', () => {
+      const parsed = parse('Clean the fridge every other week');
+      expect(parsed.recurrence).toEqual({ frequency: 'weekly', interval: 2 });
+      expect(parsed.dueDate).toBe('2025-06-04');
+      expect(parsed.title).toBe('Clean the fridge');
+    });
+
+    it('reads "every month" with the day of the month of the first occurrence', () => {
+      const parsed = parse('Pay rent every month');
+      expect(parsed.recurrence).toEqual({ frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 4 });
+      expect(parsed.dueDate).toBe('2025-06-04');
+    });
+
+    it('anchors "every month" on a parsed due date', () => {
+      const parsed = parse('Pay rent every month jan 31');
+      expect(parsed.dueDate).toBe('2026-01-31');
+      expect(parsed.recurrence).toEqual({ frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 31 });
+    });
+
+    it('reads weekdays and starts on the first matching day', () => {
+      const parsed = parse('Gym every mon and thu');
+      expect(parsed.recurrence).toEqual({ frequency: 'weekly', interval: 1, weekdays: [1, 4] });
+      expect(parsed.dueDate).toBe('2025-06-05');
+    });
+  });
+
+  describe('priority, project and categories', () => {
+    it('reads !high and "low priority"', () => {
+      expect(parse('Fix leak !high').priority).toBe('high');
+      const parsed = parse('Sort photos low priority');
+      expect(parsed.priority).toBe('low');
+      expect(parsed.title).toBe('Sort photos');
+    });
+
+    it('matches a #project by name', () => {
+      const parsed = parse('Fix the tap #home-repairs');
+      expect(parsed.projectId).toBe('p-home');
+      expect(parsed.newProjectName).toBeNull();
+      expect(parsed.title).toBe('Fix the tap');
+    });
+
+    it('proposes a new project for an unknown #name', () => {
+      const parsed = parse('Plan the route #road-trip');
+      expect(parsed.projectId).toBeNull();
+      expect(parsed.newProjectName).toBe('road trip');
+    });
+
+    it('takes known @categories out of the title and leaves unknown ones', () => {
+      const parsed = parse('Ring the bank @calls @errands @someday');
+      expect(parsed.categoryIds).toEqual(['c-calls', 'c-errands']);
+      expect(parsed.title).toBe('Ring the bank @someday');
+    });
+
+    it('reads a combined line', () => {
+      const parsed = parse('Call dentist next friday at 3pm ~15m #health @calls');
+      expect(parsed).toMatchObject({
+        title: 'Call dentist',
+        dueDate: '2025-06-06',
+        dueTime: '15:00',
+        estimatedMinutes: 15,
+        projectId: 'p-health',
+        categoryIds: ['c-calls'],
+      });
+    });
+  });
+
+  describe('text that should be left alone', () => {
+    it.each([
+      "Read tomorrow's notes",
+      'Email bob@example.com about invoices',
+      'Buy 3 apples',
+      'Watch Friday Night Lights',
+      'Ask about the everyday carry list',
+      'Finish chapter 12',
+    ])('keeps "%s" as it is', input => {
+      const parsed = parse(input);
+      expect(parsed.title).toBe(input);
+      expect(hasParsedFields(parsed)).toBe(false);
+    });
+  });
+});
+
+describe('hasParsedFields', () => {
+  it('is true once anything besides the title was found', () => {
+    expect(hasParsedFields(parse('Fix leak !high'))).toBe(true);
+    expect(hasParsedFields(parse('Ring the bank @calls'))).toBe(true);
+  });
+});
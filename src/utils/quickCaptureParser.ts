@@ -0,0 +1,292 @@
+/**
+ * Natural-language quick capture
+ *
+ * Turns a line like "Call dentist next friday at 3pm ~15m #health @calls"
+ * into task fields. Every capture input uses this parser so the same
+ * shortcuts work everywhere. Recognised phrases are removed from the title;
+ * anything not understood is left in it.
+ *
+ * Supported:
+ *   dates       today, tomorrow, next friday, on mon, in 3 days, next week,
+ *               jun 5, 5 june, 2025-06-05, and the older !today, !3d, !2w
+ *   times       at 3pm, at 15:30, 9:30am, at noon
+ *   durations   ~30m, ~1h, ~1.5h, ~1h30m
+ *   priority    !high, !medium, !low, high priority
+ *   energy      low energy, high-energy
+ *   recurrence  every day, every monday, every mon and thu, every weekday,
+ *               every other week, every 3 days, every month
+ *   project     #project-name (a new project is proposed if none matches)
+ *   categories  @category-name (unknown categories stay in the title)
+ */
+
+import { Project, Category, ParsedTaskInput } from '../types';
+import { formatDate } from './helpers';
+import { parseLocalDate } from './recurrence';
+
+interface ParseContext {
+  projects: Project[];
+  categories: Category[];
+  today?: Date;
+}
+
+const WEEKDAY = 'sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?';
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_KEYS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+
+// A phrase has to end at a word boundary that isn't an apostrophe ("tomorrow's" is left alone)
+const END = "(?=[\\s,.;!?)]|$)";
+// Optional lead-in words for dates
+const LEAD = '(?:(?:due|on|by)\\s+)?';
+
+const weekdayIndex = (word: string): number => WEEKDAY_KEYS.indexOf(word.slice(0, 3).toLowerCase());
+const monthIndex = (word: string): number => MONTH_KEYS.indexOf(word.slice(0, 3).toLowerCase());
+const toNumber = (word: string): number => NUMBER_WORDS[word.toLowerCase()] ?? parseInt(word, 10);
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+/**
+ * First date on one of `weekdays`, starting today or strictly after it
+ */
+const nextWeekday = (today: Date, weekdays: number[], includeToday: boolean): Date => {
+  for (let i = includeToday ? 0 : 1; i <= 7; i++) {
+    const candidate = addDays(today, i);
+    if (weekdays.includes(candidate.getDay())) return candidate;
+  }
+  return today;
+};
+
+/**
+ * A month/day without a year means the next time that date comes round
+ */
+const upcomingMonthDay = (today: Date, month: number, day: number): Date | null => {
+  if (month < 0 || day < 1 || day > 31) return null;
+
+  let candidate = new Date(today.getFullYear(), month, day);
+  if (candidate.getMonth() !== month) return null; // e.g. feb 30
+  if (formatDate(candidate) < formatDate(today)) {
+    candidate = new Date(today.getFullYear() + 1, month, day);
+  }
+  return candidate;
+};
+
+const to24Hour = (hours: number, minutes: number, meridiem: string | undefined): string | null => {
+  let h = hours;
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    const pm = meridiem.toLowerCase() === 'pm';
+    h = (h % 12) + (pm ? 12 : 0);
+  } else if (h >= 1 && h <= 6) {
+    // "at 3" almost always means the afternoon
+    h += 12;
+  }
+  if (h > 23 || minutes > 59) return null;
+  return `${String(h).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+const slugify = (name: string): string => name.toLowerCase().trim().replace(/[\s_]+/g, '-');
+
+/**
+ * Parse a quick-capture line into task fields
+ */
+export const parseQuickCapture = (input: string, { projects, categories, today: now = new Date() }: ParseContext): ParsedTaskInput => {
+  const today = parseLocalDate(formatDate(now));
+  const result: ParsedTaskInput = {
+    title: '',
+    dueDate: null,
+    dueTime: null,
+    priority: null,
+    energyLevel: null,
+    estimatedMinutes: null,
+    recurrence: null,
+    projectId: null,
+    newProjectName: null,
+    categoryIds: [],
+  };
+
+  let text = ` ${input} `;
+
+  // Run a pattern once; when the handler accepts the match, remove it from the text
+  const take = (pattern: string, handler: (match: RegExpExecArray) => boolean) => {
+    const regex = new RegExp(pattern, 'i');
+    const match = regex.exec(text);
+    if (match && handler(match)) {
+      text = text.slice(0, match.index) + ' ' + text.slice(match.index + match[0].length);
+    }
+  };
+
+  const setDate = (date: Date | null): boolean => {
+    if (!date || result.dueDate) return false;
+    result.dueDate = formatDate(date);
+    return true;
+  };
+
+  // Recurrence first, so "every monday" isn't read as a one-off date
+  take(`\\bevery\\s+(other\\s+)?((?:${WEEKDAY})(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY}))*)${END}`, match => {
+    const days = match[2].split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex).filter(day => day >= 0);
+    result.recurrence = { frequency: 'weekly', interval: match[1] ? 2 : 1, weekdays: Array.from(new Set(days)).sort() };
+    return true;
+  });
+  take(`\\bevery\\s+weekday${END}`, () => {
+    result.recurrence = { frequency: 'weekly', interval: 1, weekdays: [1, 2, 3, 4, 5] };
+    return true;
+  });
+  take(`\\bevery\\s+(?:(other)\\s+|(\\d+)\\s+)?(day|week|month)s?${END}`, match => {
+    if (result.recurrence) return false;
+    const frequency = ({ day: 'daily', week: 'weekly', month: 'monthly' } as const)[match[3].toLowerCase() as 'day' | 'week' | 'month'];
+    const interval = match[1] ? 2 : match[2] ? Math.max(1, parseInt(match[2], 10)) : 1;
+    result.recurrence = { frequency, interval };
+    return true;
+  });
+
+  // Shortcut syntax
+  take(`!today${END}`, () => setDate(today));
+  take(`!tomorrow${END}`, () => setDate(addDays(today, 1)));
+  take(`!next-week${END}`, () => setDate(addDays(today, 7)));
+  take(`!(\\d+)([dw])${END}`, match => setDate(addDays(today, parseInt(match[1], 10) * (match[2].toLowerCase() === 'w' ? 7 : 1))));
+
+  // Natural-language dates
+  take(`\\b${LEAD}(today|tonight)${END}`, () => setDate(today));
+  take(`\\b${LEAD}tomorrow${END}`, () => setDate(addDays(today, 1)));
+  take(`\\bin\\s+(\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)\\s+(day|week|month)s?${END}`, match => {
+    const amount = toNumber(match[1]);
+    const unit = match[2].toLowerCase();
+    return setDate(unit === 'month' ? addMonths(today, amount) : addDays(today, amount * (unit === 'week' ? 7 : 1)));
+  });
+  take(`\\b${LEAD}next\\s+(week|month)${END}`, match =>
+    setDate(match[1].toLowerCase() === 'week' ? addDays(today, 7) : addMonths(today, 1))
+  );
+  take(`\\b${LEAD}(next|this)\\s+(${WEEKDAY})${END}`, match =>
+    setDate(nextWeekday(today, [weekdayIndex(match[2])], match[1].toLowerCase() === 'this'))
+  );
+  take(`\\b(?:due|on|by)\\s+(${WEEKDAY})${END}`, match => setDate(nextWeekday(today, [weekdayIndex(match[1])], false)));
+  take(`\\b${LEAD}(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?${END}`, match =>
+    setDate(upcomingMonthDay(today, monthIndex(match[1]), parseInt(match[2], 10)))
+  );
+  take(`\\b${LEAD}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})${END}`, match =>
+    setDate(upcomingMonthDay(today, monthIndex(match[2]), parseInt(match[1], 10)))
+  );
+  take(`\\b${LEAD}(\\d{4}-\\d{2}-\\d{2})${END}`, match => {
+    const date = parseLocalDate(match[1]);
+    return !isNaN(date.getTime()) && formatDate(date) === match[1] && setDate(date);
+  });
+
+  // Times
+  take(`\\bat\\s+(noon|midnight)${END}`, match => {
+    result.dueTime = match[1].toLowerCase() === 'noon' ? '12:00' : '00:00';
+    return true;
+  });
+  take(`\\bat\\s+(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?${END}`, match => {
+    if (result.dueTime) return false;
+    result.dueTime = to24Hour(parseInt(match[1], 10), parseInt(match[2] || '0', 10), match[3]);
+    return result.dueTime !== null;
+  });
+  take(`\\b(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)${END}`, match => {
+    if (result.dueTime) return false;
+    result.dueTime = to24Hour(parseInt(match[1], 10), parseInt(match[2] || '0', 10), match[3]);
+    return result.dueTime !== null;
+  });
+
+  // Durations
+  take(`~\\s*(\\d+(?:\\.\\d+)?)\\s*(h|hrs?|hours?|m|mins?|minutes?)(?:\\s*(\\d+)\\s*(?:m|mins?|minutes?))?${END}`, match => {
+    const amount = parseFloat(match[1]);
+    const isHours = match[2].toLowerCase().startsWith('h');
+    const minutes = Math.round(isHours ? amount * 60 + (match[3] ? parseInt(match[3], 10) : 0) : amount);
+    if (minutes <= 0) return false;
+    result.estimatedMinutes = minutes;
+    return true;
+  });
+
+  // Priority and energy
+  take(`!(high|medium|low)${END}`, match => {
+    result.priority = match[1].toLowerCase() as ParsedTaskInput['priority'];
+    return true;
+  });
+  take(`\\b(high|medium|low)\\s+priority${END}`, match => {
+    if (result.priority) return false;
+    result.priority = match[1].toLowerCase() as ParsedTaskInput['priority'];
+    return true;
+  });
+  take(`\\b(high|medium|low)[\\s-]energy${END}`, match => {
+    result.energyLevel = match[1].toLowerCase() as ParsedTaskInput['energyLevel'];
+    return true;
+  });
+
+  // Project: match by name, otherwise offer to create it
+  take(`(?:^|\\s)#([\\w-]+)${END}`, match => {
+    const slug = slugify(match[1]);
+    const project = projects.find(p => slugify(p.name) === slug);
+    if (project) {
+      result.projectId = project.id;
+    } else {
+      result.newProjectName = match[1].replace(/[-_]+/g, ' ');
+    }
+    return true;
+  });
+
+  // Categories: only known ones are taken out of the title
+  const categoryPattern = /(^|\s)@([\w-]+)(?=[\s,.;!?)]|$)/g;
+  text = text.replace(categoryPattern, (whole, lead: string, name: string) => {
+    const category = categories.find(c => slugify(c.name) === slugify(name));
+    if (!category) return whole;
+    if (!result.categoryIds.includes(category.id)) result.categoryIds.push(category.id);
+    return lead;
+  });
+
+  // A recurring task needs a first occurrence
+  if (result.recurrence && !result.dueDate) {
+    const weekdays = result.recurrence.weekdays;
+    result.dueDate = formatDate(weekdays && weekdays.length > 0 ? nextWeekday(today, weekdays, true) : today);
+  }
+
+  // Monthly rules repeat on the day of the month of the first occurrence, as the repeat editor sets them
+  if (result.recurrence && result.recurrence.frequency === 'monthly' && result.dueDate) {
+    result.recurrence = {
+      ...result.recurrence,
+      monthlyMode: 'dayOfMonth',
+      dayOfMonth: parseLocalDate(result.dueDate).getDate(),
+    };
+  }
+
+  // A time on its own means today
+  if (result.dueTime && !result.dueDate) {
+    result.dueDate = formatDate(today);
+  }
+
+  result.title = text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;!?])/g, '$1')
+    .replace(/^[\s,;]+|[\s,;]+$/g, '')
+    .trim();
+
+  return result;
+};
+
+/**
+ * Whether parsing found anything besides the title
+ */
+export const hasParsedFields = (parsed: ParsedTaskInput): boolean => {
+  return !!(
+    parsed.dueDate ||
+    parsed.dueTime ||
+    parsed.priority ||
+    parsed.energyLevel ||
+    parsed.estimatedMinutes ||
+    parsed.recurrence ||
+    parsed.projectId ||
+    parsed.newProjectName ||
+    parsed.categoryIds.length > 0
+  );
+};
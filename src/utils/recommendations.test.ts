@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { Task, WhatNowCriteria } from '../types';
+import { DEFAULT_RECOMMENDATION_WEIGHTS, getRecommendations, scoreTask } from './recommendations';
+import { getSchedulingCandidates } from './autoScheduler';
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: '2025-06-04',
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  createdAt: '2025-06-01T00:00:00.000Z',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+  ...fields,
+});
+
+const criteria: WhatNowCriteria = { availableTime: 'medium', energyLevel: 'medium', blockers: [] };
+
+// Wednesday 4 June 2025
+const now = new Date(2025, 5, 4, 10, 30);
+
+const rank = (tasks: Task[], overrides: Partial<WhatNowCriteria> = {}, weights = DEFAULT_RECOMMENDATION_WEIGHTS) =>
+  getRecommendations(tasks, { ...criteria, ...overrides }, weights, 10, now).map(rec => rec.task.id);
+
+describe('scoring', () => {
+  it('ranks tasks that match the current energy first', () => {
+    const tasks = [
+      makeTask('high', { energyLevel: 'high' }),
+      makeTask('medium', { energyLevel: 'medium' }),
+      makeTask('low', { energyLevel: 'low' }),
+    ];
+
+    expect(rank(tasks, { energyLevel: 'low' })).toEqual(['low', 'medium', 'high']);
+    expect(rank(tasks, { energyLevel: 'medium' })).toEqual(['medium', 'low', 'high']);
+    expect(rank(tasks, { energyLevel: 'high' })).toEqual(['high', 'medium', 'low']);
+  });
+
+  it('ranks overdue and sooner due dates first', () => {
+    const tasks = [
+      makeTask('none', { dueDate: null }),
+      makeTask('next-week', { dueDate: '2025-06-11' }),
+      makeTask('in-3-days', { dueDate: '2025-06-07' }),
+      makeTask('tomorrow', { dueDate: '2025-06-05' }),
+      makeTask('today', { dueDate: '2025-06-04' }),
+      makeTask('overdue', { dueDate: '2025-06-02' }),
+    ];
+
+    expect(rank(tasks)).toEqual(['overdue', 'today', 'tomorrow', 'in-3-days', 'next-week', 'none']);
+  });
+
+  it('ranks higher priorities first', () => {
+    const tasks = [
+      makeTask('low', { priority: 'low' }),
+      makeTask('unset'),
+      makeTask('high', { priority: 'high' }),
+      makeTask('medium', { priority: 'medium' }),
+    ];
+
+    expect(rank(tasks)).toEqual(['high', 'medium', 'unset', 'low']);
+  });
+
+  it('lets the weights decide between factors', () => {
+    const tasks = [
+      makeTask('urgent', { dueDate: '2025-06-03', priority: 'low' }),
+      makeTask('important', { dueDate: '2025-06-20', priority: 'high' }),
+    ];
+
+    expect(rank(tasks)).toEqual(['urgent', 'important']);
+    expect(rank(tasks, {}, { ...DEFAULT_RECOMMENDATION_WEIGHTS, urgency: 0 })).toEqual(['important', 'urgent']);
+  });
+
+  it('explains a score with the most influential reasons first', () => {
+    const task = makeTask('report', {
+      dueDate: '2025-06-02',
+      priority: 'high',
+      energyLevel: 'medium',
+      estimatedMinutes: 60,
+      updatedAt: new Date(2025, 4, 20, 10, 30).toISOString(),
+    });
+
+    const { score, reasons } = scoreTask(task, criteria, DEFAULT_RECOMMENDATION_WEIGHTS, now);
+    expect(score).toBe(95);
+    expect(reasons).toEqual([
+      'Overdue by 2 days',
+      'High priority',
+      'Matches your medium energy',
+      'Fits in your 120 min (est. 60 min)',
+      'Untouched for 15 days',
+    ]);
+
+    const withoutPriority = scoreTask(task, criteria, { ...DEFAULT_RECOMMENDATION_WEIGHTS, priority: 0 }, now);
+    expect(withoutPriority.reasons).not.toContain('High priority');
+  });
+
+  it('marks tasks that need more time or energy than is available', () => {
+    const task = makeTask('move', { energyLevel: 'high', estimatedMinutes: 180 });
+    const { reasons } = scoreTask(task, { ...criteria, availableTime: 'short', energyLevel: 'low' }, DEFAULT_RECOMMENDATION_WEIGHTS, now);
+
+    expect(reasons).toContain('Needs high energy');
+    expect(reasons).toContain('Takes longer than you have (est. 180 min)');
+  });
+});
+
+describe('getRecommendations', () => {
+  it('skips finished, blocked and blocker-matching tasks', () => {
+    const tasks = [
+      makeTask('todo'),
+      makeTask('done', { completed: true }),
+      makeTask('archived', { archived: true }),
+      makeTask('blocked', { blockedBy: ['todo'] }),
+      makeTask('online', { title: 'Renew car tax online' }),
+    ];
+
+    expect(rank(tasks, { blockers: ['No internet', 'online'] })).toEqual(['todo']);
+  });
+
+  it('returns at most `limit` tasks', () => {
+    const tasks = ['a', 'b', 'c'].map(id => makeTask(id));
+    expect(getRecommendations(tasks, criteria, DEFAULT_RECOMMENDATION_WEIGHTS, 2, now)).toHaveLength(2);
+  });
+});
+
+const delegatedTasks = [
+  makeTask('mine'),
+  makeTask('waiting', { delegatedTo: 'Sam', followUpDate: '2025-06-10' }),
+  makeTask('no-follow-up', { delegatedTo: 'Sam' }),
+  makeTask('follow-up-due', { delegatedTo: 'Sam', followUpDate: '2025-06-04' }),
+  makeTask('blocked', { blockedBy: ['mine'] }),
+];
+
+describe('delegated tasks', () => {
+  it('are left out of What Now until their follow-up date', () => {
+    const ids = getRecommendations(delegatedTasks, criteria, undefined, 10, now).map(rec => rec.task.id);
+    expect(ids.sort()).toEqual(['follow-up-due', 'mine']);
+  });
+
+  it('are not auto-scheduled until their follow-up date', () => {
+    const ids = getSchedulingCandidates(delegatedTasks, '2025-06-04', []).map(task => task.id);
+    expect(ids.sort()).toEqual(['follow-up-due', 'mine']);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Recommendation engine for the "What Now?" wizard
+ *
+ * Scores every actionable task against the user's available time, energy and
+ * current blockers. Each factor produces a 0-1 score and an optional reason;
+ * the weighted average becomes the task's overall score.
+ */
+
+import {
+  Task,
+  WhatNowCriteria,
+  RecommendationWeights,
+  RecommendationFactor,
+  TaskRecommendation
+} from '../types';
+import { formatDate } from './helpers';
+import { createTaskMap, isTaskBlocked, isTaskWaiting } from './dependencies';
+
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  urgency: 3,
+  priority: 2,
+  energy: 2,
+  timeFit: 2,
+  neglect: 1,
+};
+
+// Upper bound of each "available time" answer in the wizard, in minutes
+export const AVAILABLE_MINUTES: Record<WhatNowCriteria['availableTime'], number> = {
+  short: 30,
+  medium: 120,
+  long: 240,
+};
+
+// Fallback estimates when a task has no estimatedMinutes
+const SIZE_MINUTES: Record<NonNullable<Task['size']>, number> = {
+  small: 15,
+  medium: 45,
+  large: 120,
+};
+
+const LEVELS = { low: 0, medium: 1, high: 2 };
+
+// Words stripped from blockers so "no internet" matches tasks mentioning "internet"
+const BLOCKER_STOP_WORDS = new Set(['no', 'not', 'cant', "can't", 'cannot', 'without', 'any', 'the', 'a', 'an', 'make', 'use', 'have']);
+
+const DAY_MS = 86400000;
+
+const daysBetween = (from: string, to: string): number => {
+  const [fy, fm, fd] = from.split('-').map(n => parseInt(n, 10));
+  const [ty, tm, td] = to.split('-').map(n => parseInt(n, 10));
+  return Math.round((new Date(ty, tm - 1, td).getTime() - new Date(fy, fm - 1, fd).getTime()) / DAY_MS);
+};
+
+/**
+ * Best guess at how long a task will take, in minutes
+ */
+export const getEffectiveEstimate = (task: Task): number | null => {
+  if (task.estimatedMinutes && task.estimatedMinutes > 0) return task.estimatedMinutes;
+  if (task.size) return SIZE_MINUTES[task.size];
+  return null;
+};
+
+/**
+ * Find the first blocker keyword that a task mentions, if any
+ */
+export const findMatchingBlocker = (task: Task, blockers: string[]): string | null => {
+  const haystack = [task.title, task.description, ...(task.tags || [])].join(' ').toLowerCase();
+
+  for (const blocker of blockers) {
+    const keywords = blocker
+      .toLowerCase()
+      .split(/[^a-z0-9']+/)
+      .filter(word => word.length >= 3 && !BLOCKER_STOP_WORDS.has(word));
+
+    const match = keywords.find(keyword => haystack.includes(keyword));
+    if (match) return match;
+  }
+
+  return null;
+};
+
+const scoreUrgency = (task: Task, today: string): RecommendationFactor => {
+  if (!task.dueDate) {
+    return { key: 'urgency', score: 0.1, reason: null };
+  }
+
+  const daysUntilDue = daysBetween(today, task.dueDate);
+
+  if (daysUntilDue < 0) {
+    const overdueDays = -daysUntilDue;
+    return { key: 'urgency', score: 1, reason: `Overdue by ${overdueDays} day${overdueDays !== 1 ? 's' : ''}` };
+  }
+  if (daysUntilDue === 0) {
+    return { key: 'urgency', score: 0.9, reason: 'Due today' };
+  }
+  if (daysUntilDue === 1) {
+    return { key: 'urgency', score: 0.75, reason: 'Due tomorrow' };
+  }
+  if (daysUntilDue <= 7) {
+    return { key: 'urgency', score: 0.7 - daysUntilDue * 0.05, reason: `Due in ${daysUntilDue} days` };
+  }
+
+  return { key: 'urgency', score: Math.max(0.15, 0.3 - (daysUntilDue - 7) * 0.01), reason: null };
+};
+
+const scorePriority = (task: Task): RecommendationFactor => {
+  switch (task.priority) {
+    case 'high':
+      return { key: 'priority', score: 1, reason: 'High priority' };
+    case 'medium':
+      return { key: 'priority', score: 0.5, reason: null };
+    case 'low':
+      return { key: 'priority', score: 0.2, reason: null };
+    default:
+      return { key: 'priority', score: 0.4, reason: null };
+  }
+};
+
+const scoreEnergy = (task: Task, energyLevel: WhatNowCriteria['energyLevel']): RecommendationFactor => {
+  if (!task.energyLevel) {
+    return { key: 'energy', score: 0.6, reason: null };
+  }
+
+  const difference = LEVELS[task.energyLevel] - LEVELS[energyLevel];
+
+  if (difference === 0) {
+    return { key: 'energy', score: 1, reason: `Matches your ${energyLevel} energy` };
+  }
+  if (difference < 0) {
+    // Easier than what the user has in the tank - doable, but not the best use of high energy
+    return { key: 'energy', score: difference === -1 ? 0.7 : 0.5, reason: energyLevel === 'low' ? null : 'Easy on your energy' };
+  }
+
+  return {
+    key: 'energy',
+    score: difference === 1 ? 0.25 : 0,
+    reason: `Needs ${task.energyLevel} energy`
+  };
+};
+
+const scoreTimeFit = (task: Task, availableTime: WhatNowCriteria['availableTime']): RecommendationFactor => {
+  const available = AVAILABLE_MINUTES[availableTime];
+  const estimate = getEffectiveEstimate(task);
+
+  if (estimate === null) {
+    // Without an estimate, fall back to "tasks with subtasks are bigger"
+    const score = task.subtasks.length === 0 ? 0.5 : (availableTime === 'short' ? 0.2 : 0.5);
+    return { key: 'timeFit', score, reason: null };
+  }
+
+  if (estimate <= available) {
+    // Prefer tasks that use the time well over tiny ones
+    return {
+      key: 'timeFit',
+      score: 0.5 + 0.5 * (estimate / available),
+      reason: `Fits in your ${available} min (est. ${estimate} min)`
+    };
+  }
+
+  const overrun = (estimate - available) / available;
+  return {
+    key: 'timeFit',
+    score: Math.max(0, 0.4 - overrun * 0.4),
+    reason: `Takes longer than you have (est. ${estimate} min)`
+  };
+};
+
+const scoreNeglect = (task: Task, now: Date): RecommendationFactor => {
+  const lastTouched = new Date(task.updatedAt || task.createdAt).getTime();
+  if (isNaN(lastTouched)) {
+    return { key: 'neglect', score: 0, reason: null };
+  }
+
+  const days = Math.floor((now.getTime() - lastTouched) / DAY_MS);
+  return {
+    key: 'neglect',
+    score: Math.min(1, Math.max(0, days / 14)),
+    reason: days >= 7 ? `Untouched for ${days} days` : null
+  };
+};
+
+/**
+ * Score a single task against the "What Now?" criteria
+ */
+export const scoreTask = (
+  task: Task,
+  criteria: WhatNowCriteria,
+  weights: RecommendationWeights = DEFAULT_RECOMMENDATION_WEIGHTS,
+  now: Date = new Date()
+): TaskRecommendation => {
+  const factors = [
+    scoreUrgency(task, formatDate(now)),
+    scorePriority(task),
+    scoreEnergy(task, criteria.energyLevel),
+    scoreTimeFit(task, criteria.availableTime),
+    scoreNeglect(task, now),
+  ];
+
+  const totalWeight = factors.reduce((sum, factor) => sum + Math.max(0, weights[factor.key]), 0);
+  const weightedSum = factors.reduce((sum, factor) => sum + factor.score * Math.max(0, weights[factor.key]), 0);
+  const score = totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 100) : 0;
+
+  // Order reasons by how much each factor contributed to the score
+  const reasons = factors
+    .filter(factor => factor.reason && weights[factor.key] > 0)
+    .sort((a, b) => b.score * weights[b.key] - a.score * weights[a.key])
+    .map(factor => factor.reason as string);
+
+  return { task, score, factors, reasons };
+};
+
+/**
+ * Rank actionable tasks for the "What Now?" wizard.
+ * Completed, archived, dependency-blocked and delegated tasks still waiting
+ * on their follow-up date are skipped, as are tasks that mention one of the
+ * user's current blockers. With `lowEnergyOnly` (a recovery day after a night
+ * shift) only low-energy tasks are suggested.
+ */
+export const getRecommendations = (
+  tasks: Task[],
+  criteria: WhatNowCriteria,
+  weights: RecommendationWeights = DEFAULT_RECOMMENDATION_WEIGHTS,
+  limit: number = 5,
+  now: Date = new Date()
+): TaskRecommendation[] => {
+  const taskMap = createTaskMap(tasks);
+  const today = formatDate(now);
+
+  return tasks
+    .filter(task =>
+      !task.completed &&
+      !task.archived &&
+      !isTaskBlocked(task, taskMap) &&
+      !isTaskWaiting(task, today) &&
+      !findMatchingBlocker(task, criteria.blockers) &&
+      (!criteria.lowEnergyOnly || task.energyLevel === 'low')
+    )
+    .map(task => scoreTask(task, criteria, weights, now))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { RecurrenceRule, Task } from '../types';
+import { anchorRecurrence, getNextDueDate, getNextOccurrence, getOccurrencesInRange } from './recurrence';
+
+const makeTask = (dueDate: string, recurrence: RecurrenceRule): Task => ({
+  id: 'task-1',
+  title: 'Pay rent',
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate,
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  recurrence,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('anchorRecurrence', () => {
+  it('fills in the day of the month from the first occurrence', () => {
+    expect(anchorRecurrence({ frequency: 'monthly', interval: 1 }, '2025-01-31'))
+      .toEqual({ frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 31 });
+  });
+
+  it('keeps a day of the month that is already set', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 15 };
+    expect(anchorRecurrence(rule, '2025-01-31')).toBe(rule);
+  });
+
+  it('fills in the week and weekday for nth-weekday rules', () => {
+    // Friday 20 June 2025 is the third Friday
+    expect(anchorRecurrence({ frequency: 'monthly', interval: 1, monthlyMode: 'nthWeekday' }, '2025-06-20'))
+      .toEqual({ frequency: 'monthly', interval: 1, monthlyMode: 'nthWeekday', nthWeek: 3, nthWeekday: 5 });
+  });
+
+  it('leaves other frequencies alone', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2 };
+    expect(anchorRecurrence(rule, '2025-01-31')).toBe(rule);
+  });
+});
+
+describe('monthly rules at the end of the month', () => {
+  const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, monthlyMode: 'dayOfMonth', dayOfMonth: 31 };
+
+  it('goes Jan 31 -> Feb 28 -> Mar 31', () => {
+    expect(getNextOccurrence(rule, '2025-01-31')).toBe('2025-02-28');
+    expect(getNextOccurrence(rule, '2025-02-28')).toBe('2025-03-31');
+  });
+
+  it('goes Jan 31 -> Feb 29 -> Mar 31 in a leap year', () => {
+    expect(getNextOccurrence(rule, '2024-01-31')).toBe('2024-02-29');
+    expect(getNextOccurrence(rule, '2024-02-29')).toBe('2024-03-31');
+  });
+
+  it('anchors a rule saved without a day of the month on the due date', () => {
+    const task = makeTask('2025-01-31', { frequency: 'monthly', interval: 1 });
+    expect(getNextDueDate(task, '2025-01-31')).toBe('2025-02-28');
+    expect(getOccurrencesInRange(task, '2025-02-01', '2025-05-31'))
+      .toEqual(['2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31']);
+  });
+
+  it('returns to the 31st after a short month once the rule is anchored', () => {
+    const task = makeTask('2025-02-28', anchorRecurrence({ frequency: 'monthly', interval: 1 }, '2025-01-31'));
+    expect(getNextDueDate(task, '2025-02-28')).toBe('2025-03-31');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Recurrence utilities
+ *
+ * Computes occurrence dates for repeating tasks. Only the current occurrence
+ * of a recurring task is stored; the next one is created when it is completed,
+ * and future ones are projected on the fly for calendar views.
+ */
+
+import { Task, RecurrenceRule } from '../types';
+import { formatDate } from './helpers';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+// Safety limit so a malformed rule can never loop forever
+const MAX_ITERATIONS = 1000;
+
+/**
+ * Parse a YYYY-MM-DD string as a local date (avoids UTC offset issues)
+ */
+export const parseLocalDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(num => parseInt(num, 10));
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+const startOfWeek = (date: Date): Date => {
+  return addDays(date, -date.getDay());
+};
+
+/**
+ * Get the date of the nth weekday of a month (nth = -1 for the last one)
+ */
+const getNthWeekdayOfMonth = (year: number, month: number, nth: number, weekday: number): Date | null => {
+  if (nth === -1) {
+    const lastDay = new Date(year, month, daysInMonth(year, month));
+    const offset = (lastDay.getDay() - weekday + 7) % 7;
+    return addDays(lastDay, -offset);
+  }
+
+  const firstDay = new Date(year, month, 1);
+  const offset = (weekday - firstDay.getDay() + 7) % 7;
+  const day = 1 + offset + (nth - 1) * 7;
+
+  return day <= daysInMonth(year, month) ? new Date(year, month, day) : null;
+};
+
+/**
+ * Fill in the day a monthly rule falls on from the first occurrence of the
+ * series. Without it each occurrence would be worked out from the one before,
+ * so a series starting on the 31st would slip to the 28th after February and
+ * stay there.
+ */
+export const anchorRecurrence = (rule: RecurrenceRule, startDate: string): RecurrenceRule => {
+  if (rule.frequency !== 'monthly') return rule;
+
+  const start = parseLocalDate(startDate);
+  if (rule.monthlyMode === 'nthWeekday') {
+    if (rule.nthWeek !== undefined && rule.nthWeekday !== undefined) return rule;
+    return {
+      ...rule,
+      // A fifth weekday only happens in some months, so it becomes the last one
+      nthWeek: rule.nthWeek ?? (start.getDate() > 28 ? -1 : Math.ceil(start.getDate() / 7)),
+      nthWeekday: rule.nthWeekday ?? start.getDay(),
+    };
+  }
+
+  if (rule.monthlyMode === 'dayOfMonth' && rule.dayOfMonth !== undefined) return rule;
+  return { ...rule, monthlyMode: 'dayOfMonth', dayOfMonth: rule.dayOfMonth ?? start.getDate() };
+};
+
+// Rules are anchored with anchorRecurrence when saved; the fallbacks only cover older data
+const getMonthlyCandidate = (rule: RecurrenceRule, year: number, month: number, anchor: Date): Date | null => {
+  if (rule.monthlyMode === 'nthWeekday') {
+    const nth = rule.nthWeek ?? Math.ceil(anchor.getDate() / 7);
+    const weekday = rule.nthWeekday ?? anchor.getDay();
+    return getNthWeekdayOfMonth(year, month, nth, weekday);
+  }
+
+  const day = Math.min(rule.dayOfMonth ?? anchor.getDate(), daysInMonth(year, month));
+  return new Date(year, month, day);
+};
+
+/**
+ * Get the first occurrence strictly after `fromDate`.
+ *
+ * @param rule The recurrence rule
+ * @param fromDate The current occurrence (YYYY-MM-DD); also the anchor for intervals
+ * @param completedDate For 'afterCompletion' rules, the date the task was completed
+ * @returns The next occurrence as YYYY-MM-DD, or null if the rule has ended
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  fromDate: string,
+  completedDate?: string
+): string | null => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const anchor = parseLocalDate(fromDate);
+  let next: Date | null = null;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(anchor, interval);
+      break;
+
+    case 'afterCompletion':
+      next = addDays(parseLocalDate(completedDate || fromDate), interval);
+      break;
+
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [anchor.getDay()];
+      const anchorWeek = startOfWeek(anchor).getTime();
+
+      for (let i = 1; i <= 7 * interval + 7; i++) {
+        const candidate = addDays(anchor, i);
+        const weeksFromAnchor = Math.round((startOfWeek(candidate).getTime() - anchorWeek) / (7 * 86400000));
+        if (weeksFromAnchor % interval === 0 && weekdays.includes(candidate.getDay())) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+
+    case 'monthly':
+      for (let i = 0; i <= 24; i++) {
+        const monthIndex = anchor.getMonth() + i * interval;
+        const candidate = getMonthlyCandidate(rule, anchor.getFullYear(), monthIndex, anchor);
+        if (candidate && candidate > anchor) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+  }
+
+  if (!next) return null;
+
+  const nextDate = formatDate(next);
+  if (rule.endDate && nextDate > rule.endDate) return null;
+
+  return nextDate;
+};
+
+/**
+ * Get the due date for the occurrence that follows a completed task.
+ * Scheduled rules skip occurrences up to and including the completion date, so a late
+ * completion doesn't produce a pile of overdue copies.
+ */
+export const getNextDueDate = (task: Task, completedDate: string): string | null => {
+  if (!task.recurrence) return null;
+
+  const fromDate = task.dueDate || completedDate;
+  const rule = anchorRecurrence(task.recurrence, fromDate);
+  let next = getNextOccurrence(rule, fromDate, completedDate);
+
+  if (rule.frequency === 'afterCompletion') return next;
+
+  for (let i = 0; next && next <= completedDate && i < MAX_ITERATIONS; i++) {
+    next = getNextOccurrence(rule, next, completedDate);
+  }
+
+  return next;
+};
+
+/**
+ * Project the future occurrences of a recurring task that fall inside a date range.
+ * The task's own due date is not included. 'afterCompletion' rules are projected
+ * as if each occurrence is completed on its due date.
+ */
+export const getOccurrencesInRange = (task: Task, rangeStart: string, rangeEnd: string): string[] => {
+  if (!task.recurrence || !task.dueDate || task.completed) return [];
+
+  const occurrences: string[] = [];
+  const rule = anchorRecurrence(task.recurrence, task.dueDate);
+  let current = task.dueDate;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = getNextOccurrence(rule, current);
+    if (!next || next > rangeEnd) break;
+
+    if (next >= rangeStart) {
+      occurrences.push(next);
+    }
+    current = next;
+  }
+
+  return occurrences;
+};
+
+/**
+ * Describe a recurrence rule in plain language (e.g. "Every 2 weeks on Mon, Thu")
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const every = (unit: string) => (interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`);
+
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = every('day');
+      break;
+    case 'weekly':
+      description = every('week');
+      if (rule.weekdays && rule.weekdays.length > 0) {
+        description += ` on ${[...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_NAMES[d].slice(0, 3)).join(', ')}`;
+      }
+      break;
+    case 'monthly':
+      description = every('month');
+      if (rule.monthlyMode === 'nthWeekday' && rule.nthWeek !== undefined && rule.nthWeekday !== undefined) {
+        description += ` on the ${ORDINALS[rule.nthWeek] || `${rule.nthWeek}th`} ${WEEKDAY_NAMES[rule.nthWeekday]}`;
+      } else if (rule.dayOfMonth) {
+        description += ` on day ${rule.dayOfMonth}`;
+      }
+      break;
+    case 'afterCompletion':
+      description = interval === 1 ? '1 day after completion' : `${interval} days after completion`;
+      break;
+    default:
+      description = 'Repeats';
+  }
+
+  if (rule.endDate) {
+    description += ` until ${rule.endDate}`;
+  }
+
+  return description;
+};
@@ -0,0 +1,471 @@
+/**
+ * Full-text search
+ *
+ * An in-memory inverted index over task titles, descriptions and tags,
+ * project names and journal entries. Query words match indexed words exactly,
+ * by prefix, or within a small edit distance so typos still find things.
+ * Task filters such as `is:done`, `project:home` and `due:<2026-01-31` narrow
+ * the results down further.
+ */
+
+import { Task, Project, JournalEntry } from '../types';
+import { formatDate } from './helpers';
+import { parseLocalDate } from './recurrence';
+
+export type SearchKind = 'task' | 'project' | 'journal';
+
+export interface SearchResult {
+  kind: SearchKind;
+  id: string; // Id of the task, project or journal entry
+  title: string;
+  snippet: string; // Text around the first match, or a short description
+  score: number;
+}
+
+export type TaskStatusFilter = 'done' | 'open' | 'archived' | 'overdue' | 'blocked';
+
+export interface DueFilter {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  date: string | null; // null with '=' means "no due date"
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  statuses: TaskStatusFilter[];
+  projectNames: string[];
+  due: DueFilter[];
+  kinds: SearchKind[]; // Restricted by `in:tasks` etc.; empty for everything
+}
+
+export interface SearchContext {
+  tasks: Task[];
+  projects: Project[];
+  journalEntries: JournalEntry[];
+  today?: Date;
+}
+
+interface IndexedDocument {
+  key: string; // `${kind}:${id}`
+  kind: SearchKind;
+  id: string;
+  title: string;
+  text: string; // Everything searchable, for snippets
+  terms: Map<string, number>; // Term -> weight
+}
+
+// How much a match in each field counts
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  body: 1,
+};
+
+const STATUS_ALIASES: Record<string, TaskStatusFilter> = {
+  done: 'done',
+  completed: 'done',
+  complete: 'done',
+  open: 'open',
+  todo: 'open',
+  active: 'open',
+  archived: 'archived',
+  overdue: 'overdue',
+  late: 'overdue',
+  blocked: 'blocked',
+};
+
+const KIND_ALIASES: Record<string, SearchKind> = {
+  task: 'task',
+  tasks: 'task',
+  project: 'project',
+  projects: 'project',
+  journal: 'journal',
+  journals: 'journal',
+  notes: 'journal',
+};
+
+const SNIPPET_RADIUS = 40;
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Lowercase, strip accents and split text into words
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+
+/**
+ * Edit distance (with adjacent swaps) between two words, giving up once it
+ * goes over `max`
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Longer words can carry more typos
+const allowedTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * How well a query word matches an indexed word: 1 for exact, less for
+ * prefixes and typos, 0 for no match
+ */
+const matchQuality = (queryTerm: string, indexedTerm: string): number => {
+  if (queryTerm === indexedTerm) return 1;
+  if (indexedTerm.startsWith(queryTerm)) return 0.8;
+
+  const typos = allowedTypos(queryTerm);
+  if (typos === 0) return 0;
+  const distance = editDistance(queryTerm, indexedTerm, typos);
+  return distance <= typos ? 0.6 - 0.2 * (distance - 1) : 0;
+};
+
+const addTerms = (terms: Map<string, number>, text: string, weight: number) => {
+  tokenize(text).forEach(term => {
+    terms.set(term, (terms.get(term) || 0) + weight);
+  });
+};
+
+const taskDocument = (task: Task): IndexedDocument => {
+  const terms = new Map<string, number>();
+  addTerms(terms, task.title, FIELD_WEIGHTS.title);
+  addTerms(terms, (task.tags || []).join(' '), FIELD_WEIGHTS.tags);
+  addTerms(terms, task.description || '', FIELD_WEIGHTS.body);
+  return {
+    key: `task:${task.id}`,
+    kind: 'task',
+    id: task.id,
+    title: task.title,
+    text: [task.description, (task.tags || []).map(tag => `#${tag}`).join(' ')].filter(Boolean).join(' '),
+    terms,
+  };
+};
+
+const projectDocument = (project: Project): IndexedDocument => {
+  const terms = new Map<string, number>();
+  addTerms(terms, project.name, FIELD_WEIGHTS.title);
+  addTerms(terms, project.description || '', FIELD_WEIGHTS.body);
+  return {
+    key: `project:${project.id}`,
+    kind: 'project',
+    id: project.id,
+    title: project.name,
+    text: project.description || '',
+    terms,
+  };
+};
+
+const journalDocument = (entry: JournalEntry): IndexedDocument => {
+  const terms = new Map<string, number>();
+  addTerms(terms, entry.content, FIELD_WEIGHTS.body);
+  return {
+    key: `journal:${entry.id}`,
+    kind: 'journal',
+    id: entry.id,
+    title: `Journal, week ${entry.weekNumber} ${entry.weekYear}`,
+    text: entry.content,
+    terms,
+  };
+};
+
+/**
+ * Split a query into search words and filters. Filter values may be quoted:
+ * project:"Home renovation"
+ */
+export const parseSearchQuery = (query: string, today: Date = new Date()): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], statuses: [], projectNames: [], due: [], kinds: [] };
+  const pattern = /(\w+):("([^"]*)"|\S+)|"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, key, rawValue, quotedValue, quotedPhrase, word] = match;
+
+    if (key) {
+      const value = (quotedValue ?? rawValue).toLowerCase();
+      const name = key.toLowerCase();
+
+      if (name === 'is' && STATUS_ALIASES[value]) {
+        parsed.statuses.push(STATUS_ALIASES[value]);
+        continue;
+      }
+      if (name === 'in' && KIND_ALIASES[value]) {
+        parsed.kinds.push(KIND_ALIASES[value]);
+        continue;
+      }
+      if (name === 'project' && value) {
+        parsed.projectNames.push(value);
+        continue;
+      }
+      if (name === 'due') {
+        const dueFilter = parseDueFilter(value, today);
+        if (dueFilter) {
+          parsed.due.push(dueFilter);
+          continue;
+        }
+      }
+    }
+
+    // Anything that isn't a recognised filter is searched for as text
+    parsed.terms.push(...tokenize(quotedPhrase ?? word ?? match[0]));
+  }
+
+  return parsed;
+};
+
+const addDays = (date: Date, days: number): string => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+/**
+ * Parse `<2026-01-31`, `>=today`, `tomorrow`, `week` (the next 7 days) or `none`
+ */
+const parseDueFilter = (value: string, today: Date): DueFilter | null => {
+  if (value === 'none') return { operator: '=', date: null };
+  if (value === 'week') return { operator: '<=', date: addDays(today, 7) };
+
+  const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const operator = (match[1] || '=') as DueFilter['operator'];
+  const dateText = match[2];
+
+  let date: string | null = null;
+  if (dateText === 'today') date = formatDate(today);
+  else if (dateText === 'tomorrow') date = addDays(today, 1);
+  else if (dateText === 'yesterday') date = addDays(today, -1);
+  else if (/^\d{4}-\d{2}-\d{2}$/.test(dateText) && !isNaN(parseLocalDate(dateText).getTime())) date = dateText;
+
+  return date ? { operator, date } : null;
+};
+
+const matchesDue = (task: Task, filter: DueFilter): boolean => {
+  if (filter.date === null) return !task.dueDate;
+  if (!task.dueDate) return false;
+  switch (filter.operator) {
+    case '<': return task.dueDate < filter.date;
+    case '<=': return task.dueDate <= filter.date;
+    case '>': return task.dueDate > filter.date;
+    case '>=': return task.dueDate >= filter.date;
+    default: return task.dueDate === filter.date;
+  }
+};
+
+const matchesStatus = (task: Task, status: TaskStatusFilter, today: string, tasksById: Map<string, Task>): boolean => {
+  switch (status) {
+    case 'done': return task.completed;
+    case 'open': return !task.completed && !task.archived;
+    case 'archived': return task.archived;
+    case 'overdue': return !task.completed && !!task.dueDate && task.dueDate < today;
+    case 'blocked': return (task.blockedBy || []).some(id => {
+      const blocker = tasksById.get(id);
+      return !!blocker && !blocker.completed;
+    });
+  }
+};
+
+const hasTaskFilters = (query: ParsedSearchQuery): boolean =>
+  query.statuses.length > 0 || query.projectNames.length > 0 || query.due.length > 0;
+
+/**
+ * Text around the first matching word, so results show why they matched
+ */
+const buildSnippet = (text: string, terms: string[]): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return '';
+
+  const lower = clean.toLowerCase();
+  const positions = terms
+    .map(term => lower.indexOf(term))
+    .filter(position => position >= 0);
+  if (positions.length === 0) {
+    return clean.length > SNIPPET_RADIUS * 2 ? `${clean.slice(0, SNIPPET_RADIUS * 2)}…` : clean;
+  }
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(clean.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${clean.slice(start, end)}${end < clean.length ? '…' : ''}`;
+};
+
+/**
+ * Create an empty search index. Documents are added and replaced one at a
+ * time, so the index can follow changes without being rebuilt.
+ */
+export const createSearchIndex = () => {
+  const documents = new Map<string, IndexedDocument>();
+  // Term -> keys of the documents that contain it
+  const postings = new Map<string, Set<string>>();
+
+  const removeDocument = (key: string) => {
+    const existing = documents.get(key);
+    if (!existing) return;
+    existing.terms.forEach((_, term) => {
+      const keys = postings.get(term);
+      if (!keys) return;
+      keys.delete(key);
+      if (keys.size === 0) postings.delete(term);
+    });
+    documents.delete(key);
+  };
+
+  const addDocument = (document: IndexedDocument) => {
+    removeDocument(document.key);
+    documents.set(document.key, document);
+    document.terms.forEach((_, term) => {
+      const keys = postings.get(term) || new Set<string>();
+      keys.add(document.key);
+      postings.set(term, keys);
+    });
+  };
+
+  /**
+   * Score every document containing a word that matches each query term.
+   * All terms have to match for a document to be returned.
+   */
+  const scoreDocuments = (terms: string[]): Map<string, number> => {
+    let scores: Map<string, number> | null = null;
+
+    for (const queryTerm of terms) {
+      const termScores = new Map<string, number>();
+      postings.forEach((keys, indexedTerm) => {
+        const quality = matchQuality(queryTerm, indexedTerm);
+        if (quality === 0) return;
+        keys.forEach(key => {
+          const weight = documents.get(key)?.terms.get(indexedTerm) || 0;
+          termScores.set(key, Math.max(termScores.get(key) || 0, quality * weight));
+        });
+      });
+
+      const previousScores: Map<string, number> | null = scores;
+      scores = new Map<string, number>();
+      termScores.forEach((score, key) => {
+        if (previousScores === null) {
+          scores!.set(key, score);
+        } else if (previousScores.has(key)) {
+          scores!.set(key, (previousScores.get(key) || 0) + score);
+        }
+      });
+    }
+
+    return scores || new Map<string, number>();
+  };
+
+  return {
+    upsertTask: (task: Task) => addDocument(taskDocument(task)),
+    upsertProject: (project: Project) => addDocument(projectDocument(project)),
+    upsertJournalEntry: (entry: JournalEntry) => addDocument(journalDocument(entry)),
+    remove: (kind: SearchKind, id: string) => removeDocument(`${kind}:${id}`),
+    get size() {
+      return documents.size;
+    },
+
+    /**
+     * Run a query. The context supplies the current records, which filters
+     * (project names, due dates, completion) are checked against.
+     */
+    search: (query: string, context: SearchContext, limit = DEFAULT_LIMIT): SearchResult[] => {
+      const today = context.today || new Date();
+      const parsed = parseSearchQuery(query, today);
+      const taskOnly = hasTaskFilters(parsed);
+      if (parsed.terms.length === 0 && !taskOnly) return [];
+
+      const tasksById = new Map(context.tasks.map(task => [task.id, task]));
+      const todayStr = formatDate(today);
+      const projectIds = parsed.projectNames.length > 0
+        ? new Set(context.projects
+          .filter(project => parsed.projectNames.some(name => project.name.toLowerCase().includes(name)))
+          .map(project => project.id))
+        : null;
+
+      const passesFilters = (document: IndexedDocument): boolean => {
+        if (parsed.kinds.length > 0 && !parsed.kinds.includes(document.kind)) return false;
+        if (!taskOnly) return true;
+        if (document.kind !== 'task') return false;
+
+        const task = tasksById.get(document.id);
+        if (!task) return false;
+        if (projectIds && (!task.projectId || !projectIds.has(task.projectId))) return false;
+        if (!parsed.statuses.every(status => matchesStatus(task, status, todayStr, tasksById))) return false;
+        return parsed.due.every(filter => matchesDue(task, filter));
+      };
+
+      // With only filters, every task that passes them is a result
+      const scores = parsed.terms.length > 0
+        ? scoreDocuments(parsed.terms)
+        : new Map(Array.from(documents.keys()).map(key => [key, 1]));
+
+      const results: SearchResult[] = [];
+      scores.forEach((score, key) => {
+        const document = documents.get(key);
+        if (!document || !passesFilters(document)) return;
+        results.push({
+          kind: document.kind,
+          id: document.id,
+          title: document.title,
+          snippet: buildSnippet(document.text, parsed.terms),
+          score,
+        });
+      });
+
+      return results
+        .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+        .slice(0, limit);
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+/**
+ * Bring an index in line with the current records. Only records whose object
+ * changed since `previous` are re-indexed, so this is cheap after a single edit.
+ */
+export const syncSearchIndex = (
+  index: SearchIndex,
+  previous: SearchContext | null,
+  current: SearchContext
+): void => {
+  const sync = <T extends { id: string }>(
+    kind: SearchKind,
+    before: T[] | undefined,
+    after: T[],
+    upsert: (record: T) => void
+  ) => {
+    if (before === after) return;
+    const beforeById = new Map((before || []).map(record => [record.id, record]));
+    after.forEach(record => {
+      if (beforeById.get(record.id) !== record) upsert(record);
+      beforeById.delete(record.id);
+    });
+    beforeById.forEach((_, id) => index.remove(kind, id));
+  };
+
+  sync('task', previous?.tasks, current.tasks, index.upsertTask);
+  sync('project', previous?.projects, current.projects, index.upsertProject);
+  sync('journal', previous?.journalEntries, current.journalEntries, index.upsertJournalEntry);
+};
@@ -0,0 +1,304 @@
+/**
+ * Work shift import
+ *
+ * Reads a roster from an iCalendar (.ics) file or a CSV of date/start/end rows
+ * and turns it into work shifts. Times that match one of the default shifts get
+ * that shift type; anything else is kept as a custom shift with its own times.
+ */
+
+import { ShiftImportItem, ShiftType, WorkShift, DEFAULT_SHIFTS } from '../types';
+import { formatDate, generateId, timeToMinutes } from './helpers';
+import { parseCsv } from './externalImporters';
+
+export interface ParsedShift {
+  shift: WorkShift;
+  source: string;
+}
+
+export interface ShiftFileResult {
+  shifts: ParsedShift[];
+  warnings: string[]; // Rows or events that were skipped, and why
+}
+
+const SHIFT_TYPES = Object.keys(DEFAULT_SHIFTS) as ShiftType[];
+
+// Shift type names accepted in a CSV "type" column when it has no times
+const SHIFT_TYPE_NAMES: Record<string, ShiftType> = {
+  full: 'full',
+  'full day': 'full',
+  day: 'full',
+  morning: 'morning',
+  am: 'morning',
+  afternoon: 'afternoon',
+  pm: 'afternoon',
+  night: 'night',
+  nights: 'night',
+};
+
+const CSV_COLUMNS: Record<'date' | 'start' | 'end' | 'notes' | 'type', string[]> = {
+  date: ['date', 'day', 'shift date'],
+  start: ['start', 'start time', 'from', 'begin'],
+  end: ['end', 'end time', 'to', 'finish'],
+  notes: ['notes', 'note', 'description', 'summary', 'title', 'location'],
+  type: ['type', 'shift', 'shift type'],
+};
+
+/**
+ * The default shift type with exactly these times, if there is one
+ */
+export const matchShiftType = (startTime: string, endTime: string): ShiftType | undefined =>
+  SHIFT_TYPES.find(type => DEFAULT_SHIFTS[type].startTime === startTime && DEFAULT_SHIFTS[type].endTime === endTime);
+
+const createShift = (date: string, startTime: string, endTime: string, notes?: string): WorkShift => {
+  const shiftType = matchShiftType(startTime, endTime);
+  const shift: WorkShift = { id: generateId(), date, startTime, endTime };
+  if (shiftType) shift.shiftType = shiftType;
+  if (notes) shift.notes = notes;
+  return shift;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Normalize "7:00", "0700", "7am", "7:30 PM" or "19:00:00" to HH:MM
+ */
+export const parseTimeText = (text: string): string | null => {
+  const match = text.trim().toLowerCase().match(/^(\d{1,2})(?::?(\d{2}))?(?::\d{2})?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem.startsWith('p') && hours < 12) hours += 12;
+    if (meridiem.startsWith('a') && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+/**
+ * Parse YYYY-MM-DD (or YYYY/MM/DD) and DD/MM/YYYY or MM/DD/YYYY dates
+ */
+export const parseDateText = (text: string, dayFirst = false): string | null => {
+  const trimmed = text.trim();
+
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  const local = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (local) {
+    const [first, second, rawYear] = local.slice(1).map(Number);
+    const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+    const [day, month] = dayFirst ? [first, second] : [second, first];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null;
+  }
+
+  return null;
+};
+
+/**
+ * Split an .ics file into content lines, undoing line folding
+ */
+const unfoldLines = (content: string): string[] =>
+  content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+/**
+ * Local date and time of a DTSTART/DTEND value. UTC times ("Z") are converted
+ * to local time; times with a TZID are taken as the wall-clock time on the rota.
+ */
+const parseICalDateTime = (value: string): { date: string; time: string | null } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours) return { date: `${year}-${month}-${day}`, time: null };
+
+  if (utc) {
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+    return { date: formatDate(local), time: `${pad(local.getHours())}:${pad(local.getMinutes())}` };
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+};
+
+// "PT12H", "PT7H30M" or "P1DT2H"
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return null;
+  const [, days, hours, minutes] = match.map(part => (part ? parseInt(part, 10) : 0));
+  return days * 24 * 60 + hours * 60 + minutes;
+};
+
+const parseICalendarShifts = (content: string): ShiftFileResult => {
+  const shifts: ParsedShift[] = [];
+  const warnings: string[] = [];
+  let event: Record<string, string> | null = null;
+
+  unfoldLines(content).forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const current: Record<string, string> = event;
+      event = null;
+
+      const summary = unescapeText(current.SUMMARY || '').trim();
+      const label = summary || 'Untitled event';
+      const start = parseICalDateTime(current.DTSTART || '');
+      if (!start) {
+        warnings.push(`${label}: no start date`);
+        return;
+      }
+      if (!start.time) {
+        warnings.push(`${label} (${start.date}): all-day events are skipped`);
+        return;
+      }
+
+      let endTime: string | null = null;
+      const end = current.DTEND ? parseICalDateTime(current.DTEND) : null;
+      if (end && end.time) {
+        endTime = end.time;
+      } else if (current.DURATION) {
+        const minutes = parseDurationMinutes(current.DURATION);
+        if (minutes) {
+          const total = (timeToMinutes(start.time) + minutes) % (24 * 60);
+          endTime = `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+        }
+      }
+      if (!endTime) {
+        warnings.push(`${label} (${start.date}): no end time`);
+        return;
+      }
+
+      const description = unescapeText(current.DESCRIPTION || '').trim();
+      const notes = [summary, description].filter(Boolean).join(' - ');
+      shifts.push({ shift: createShift(start.date, start.time, endTime, notes), source: label });
+      return;
+    }
+    if (!event) return;
+
+    // NAME;PARAM=...:VALUE - parameters are ignored
+    const colon = line.indexOf(':');
+    if (colon === -1) return;
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    event[name] = line.slice(colon + 1);
+  });
+
+  return { shifts, warnings };
+};
+
+const findColumn = (header: string[], names: string[]): number =>
+  header.findIndex(cell => names.includes(cell.trim().toLowerCase()));
+
+const parseCsvShifts = (content: string): ShiftFileResult => {
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+  const shifts: ParsedShift[] = [];
+  const warnings: string[] = [];
+  if (rows.length === 0) return { shifts, warnings };
+
+  // Without a header row, the columns are date, start, end and notes
+  const hasHeader = !parseDateText(rows[0][0] || '') && !parseDateText(rows[0][0] || '', true);
+  const columns = hasHeader
+    ? {
+      date: findColumn(rows[0], CSV_COLUMNS.date),
+      start: findColumn(rows[0], CSV_COLUMNS.start),
+      end: findColumn(rows[0], CSV_COLUMNS.end),
+      notes: findColumn(rows[0], CSV_COLUMNS.notes),
+      type: findColumn(rows[0], CSV_COLUMNS.type),
+    }
+    : { date: 0, start: 1, end: 2, notes: 3, type: -1 };
+
+  if (columns.date === -1) {
+    throw new Error('The CSV file needs a "Date" column');
+  }
+
+  const firstRow = hasHeader ? 1 : 0;
+  const cell = (row: string[], index: number): string => (index >= 0 ? (row[index] || '').trim() : '');
+
+  // 13/04/2026 can only be day-first; if any row reads that way, they all do
+  const dayFirst = rows.slice(firstRow).some(row => {
+    const parts = cell(row, columns.date).match(/^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}$/);
+    return !!parts && parseInt(parts[1], 10) > 12;
+  });
+
+  rows.slice(firstRow).forEach((row, index) => {
+    const source = `Line ${firstRow + index + 1}`;
+    const date = parseDateText(cell(row, columns.date), dayFirst);
+    if (!date) {
+      warnings.push(`${source}: "${cell(row, columns.date)}" is not a date`);
+      return;
+    }
+
+    let startTime = parseTimeText(cell(row, columns.start));
+    let endTime = parseTimeText(cell(row, columns.end));
+    if (!startTime || !endTime) {
+      const shiftType = SHIFT_TYPE_NAMES[cell(row, columns.type).toLowerCase()];
+      if (!shiftType) {
+        warnings.push(`${source} (${date}): no start and end time`);
+        return;
+      }
+      startTime = DEFAULT_SHIFTS[shiftType].startTime;
+      endTime = DEFAULT_SHIFTS[shiftType].endTime;
+    }
+
+    shifts.push({ shift: createShift(date, startTime, endTime, cell(row, columns.notes)), source });
+  });
+
+  return { shifts, warnings };
+};
+
+/**
+ * Whether a file looks like an iCalendar file rather than a CSV roster
+ */
+export const isICalendarFile = (content: string, fileName = ''): boolean =>
+  fileName.toLowerCase().endsWith('.ics') || /^\s*BEGIN:VCALENDAR/i.test(content);
+
+/**
+ * Read the shifts in a roster file (.ics or CSV)
+ */
+export const parseShiftFile = (content: string, fileName = ''): ShiftFileResult =>
+  isICalendarFile(content, fileName) ? parseICalendarShifts(content) : parseCsvShifts(content);
+
+/**
+ * Compare imported shifts with the schedule. The calendar holds one shift per
+ * day, so a shift on a day that already has a different one is an overlap;
+ * importing it replaces the existing shift. Duplicates are left unselected.
+ */
+export const buildShiftImportPreview = (parsed: ParsedShift[], existing: WorkShift[]): ShiftImportItem[] => {
+  const items: ShiftImportItem[] = [];
+
+  parsed.forEach(({ shift, source }) => {
+    const sameDay = [
+      ...existing.filter(other => other.date === shift.date),
+      ...items.filter(item => item.shift.date === shift.date).map(item => item.shift),
+    ];
+    const isDuplicate = sameDay.some(other =>
+      other.startTime === shift.startTime && other.endTime === shift.endTime
+    );
+    const status = isDuplicate ? 'duplicate' : sameDay.length > 0 ? 'overlap' : 'new';
+
+    items.push({
+      shift,
+      status,
+      conflicts: isDuplicate ? [] : sameDay,
+      source,
+      selected: status === 'new',
+    });
+  });
+
+  return items.sort((a, b) => a.shift.date.localeCompare(b.shift.date) || a.shift.startTime.localeCompare(b.shift.startTime));
+};
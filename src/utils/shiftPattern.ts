@@ -0,0 +1,136 @@
+/**
+ * Rotating shift patterns
+ *
+ * A pattern is a repeating list of shift types and days off starting on an
+ * anchor date. Pattern shifts are never stored: they are worked out per date,
+ * with one-off shifts and days off from the schedule layered on top.
+ */
+
+import { ShiftPattern, ShiftPatternStep, WorkSchedule, WorkShift, DEFAULT_SHIFTS } from '../types';
+import { formatDate } from './helpers';
+import { parseLocalDate } from './recurrence';
+
+const PATTERN_ID_PREFIX = 'pattern-';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Common rotations offered when setting up a pattern
+export const SHIFT_PATTERN_PRESETS: { name: string; steps: ShiftPatternStep[] }[] = [
+  { name: '3 on, 4 off', steps: ['full', 'full', 'full', 'off', 'off', 'off', 'off'] },
+  { name: '4 on, 4 off', steps: ['full', 'full', 'full', 'full', 'off', 'off', 'off', 'off'] },
+  { name: '2 on, 2 off', steps: ['full', 'full', 'off', 'off'] },
+  { name: '2 days, 2 nights, 4 off', steps: ['full', 'full', 'night', 'night', 'off', 'off', 'off', 'off'] },
+  {
+    name: 'Pitman (2-2-3)',
+    steps: ['full', 'full', 'off', 'off', 'full', 'full', 'full', 'off', 'off', 'full', 'full', 'off', 'off', 'off'],
+  },
+  { name: '2 mornings, 2 afternoons, 3 off', steps: ['morning', 'morning', 'afternoon', 'afternoon', 'off', 'off', 'off'] },
+];
+
+// Days between two YYYY-MM-DD dates, counted in UTC so DST changes don't matter
+const daysBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  return Math.round((Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / DAY_MS);
+};
+
+/**
+ * Whether a shift id belongs to a generated pattern shift
+ */
+export const isPatternShiftId = (id: string): boolean => id.startsWith(PATTERN_ID_PREFIX);
+
+/**
+ * The date of a generated pattern shift
+ */
+export const getPatternShiftDate = (id: string): string => id.slice(PATTERN_ID_PREFIX.length);
+
+/**
+ * The pattern step that falls on a date, or null outside the pattern's range
+ */
+export const getPatternStep = (pattern: ShiftPattern, date: string): ShiftPatternStep | null => {
+  if (pattern.steps.length === 0) return null;
+  if (date < pattern.anchorDate) return null;
+  if (pattern.endDate && date > pattern.endDate) return null;
+
+  const offset = daysBetween(pattern.anchorDate, date);
+  return pattern.steps[offset % pattern.steps.length];
+};
+
+/**
+ * The shift a pattern puts on a date, if it's a working day
+ */
+export const getPatternShift = (pattern: ShiftPattern, date: string): WorkShift | undefined => {
+  const step = getPatternStep(pattern, date);
+  if (!step || step === 'off') return undefined;
+
+  return {
+    id: `${PATTERN_ID_PREFIX}${date}`,
+    date,
+    ...DEFAULT_SHIFTS[step],
+    fromPattern: true,
+  };
+};
+
+/**
+ * The shift worked on a date: a one-off shift first, then the pattern unless
+ * the day has been taken off
+ */
+export const getScheduleShiftForDate = (schedule: WorkSchedule | null, date: string): WorkShift | undefined => {
+  if (!schedule) return undefined;
+
+  const oneOff = (schedule.shifts || []).find(shift => shift.date === date);
+  if (oneOff) return oneOff;
+  if (!schedule.pattern) return undefined;
+  if ((schedule.daysOff || []).some(dayOff => dayOff.date === date)) return undefined;
+
+  return getPatternShift(schedule.pattern, date);
+};
+
+/**
+ * Every shift between two dates (inclusive), with the pattern expanded
+ */
+export const getScheduleShifts = (schedule: WorkSchedule | null, startDate: string, endDate: string): WorkShift[] => {
+  if (!schedule) return [];
+
+  const oneOffs = (schedule.shifts || []).filter(shift =>
+    shift && shift.date && shift.date >= startDate && shift.date <= endDate
+  );
+  if (!schedule.pattern || schedule.pattern.steps.length === 0) return oneOffs;
+
+  const taken = new Set([
+    ...oneOffs.map(shift => shift.date),
+    ...(schedule.daysOff || []).map(dayOff => dayOff.date),
+  ]);
+  const patternShifts: WorkShift[] = [];
+
+  // Only walk the part of the range the pattern covers
+  const from = startDate > schedule.pattern.anchorDate ? startDate : schedule.pattern.anchorDate;
+  const to = schedule.pattern.endDate && schedule.pattern.endDate < endDate ? schedule.pattern.endDate : endDate;
+  const current = parseLocalDate(from);
+  for (let date = from; date <= to; date = formatDate(current)) {
+    if (!taken.has(date)) {
+      const shift = getPatternShift(schedule.pattern, date);
+      if (shift) patternShifts.push(shift);
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  return [...oneOffs, ...patternShifts].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Short description of a pattern, e.g. "3 on, 4 off" for a custom pattern
+ */
+export const describePattern = (steps: ShiftPatternStep[]): string => {
+  const runs: string[] = [];
+  let index = 0;
+  while (index < steps.length) {
+    const isOff = steps[index] === 'off';
+    let length = 0;
+    while (index < steps.length && (steps[index] === 'off') === isOff) {
+      length++;
+      index++;
+    }
+    runs.push(`${length} ${isOff ? 'off' : 'on'}`);
+  }
+  return runs.join(', ');
+};
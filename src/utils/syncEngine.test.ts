@@ -0,0 +1,177 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SyncChange, SyncPushRequest, SyncTransport, Task } from '../types';
+import { db } from './db';
+import { syncWithServer } from './syncEngine';
+
+interface ServerEntry extends SyncChange {
+  seq: number;
+  clientId: string;
+}
+
+// An in-memory server following the rules of server/sync-store.js
+const createFakeServer = () => {
+  let latestSeq = 0;
+  const entries = new Map<string, ServerEntry>();
+
+  const push = ({ clientId, changes }: SyncPushRequest) => {
+    const accepted: { table: SyncChange['table']; recordId: string; seq: number }[] = [];
+    const rejected: { table: SyncChange['table']; recordId: string }[] = [];
+    changes.forEach(change => {
+      const key = `${change.table}:${change.recordId}`;
+      const current = entries.get(key);
+      if (current && current.seq > (change.baseSeq || 0) && current.clientId !== clientId) {
+        rejected.push({ table: change.table, recordId: change.recordId });
+        return;
+      }
+      const seq = ++latestSeq;
+      entries.set(key, { ...change, baseSeq: undefined, seq, clientId });
+      accepted.push({ table: change.table, recordId: change.recordId, seq });
+    });
+    return { accepted, rejected };
+  };
+
+  const pull = (clientId: string, since: number) => ({
+    changes: Array.from(entries.values())
+      .filter(entry => entry.seq > since && entry.clientId !== clientId)
+      .sort((a, b) => a.seq - b.seq)
+      .map(({ table, recordId, record, modifiedAt, seq }) => ({ table, recordId, record, modifiedAt, seq })),
+    latestSeq,
+  });
+
+  const getRecord = (table: string, recordId: string) => entries.get(`${table}:${recordId}`);
+
+  return { push, pull, getRecord };
+};
+
+type FakeServer = ReturnType<typeof createFakeServer>;
+
+// `beforePush` runs before each push reaches the server, to let another device get in first
+const createTransport = (server: FakeServer, beforePush?: () => void): SyncTransport => ({
+  push: async request => {
+    beforePush?.();
+    return server.push(request);
+  },
+  pull: async ({ clientId, since }) => server.pull(clientId, since),
+});
+
+const task: Task = {
+  id: 't1',
+  title: 'Call dentist',
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: '2025-06-06',
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  priority: 'medium',
+  createdAt: '2025-06-01T09:00:00.000Z',
+  updatedAt: '2025-06-01T09:00:00.000Z',
+};
+
+describe('syncWithServer', () => {
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+  });
+
+  it('pushes local records and does not pull its own changes back', async () => {
+    const server = createFakeServer();
+    await db.tasks.put(task);
+
+    const first = await syncWithServer(createTransport(server));
+    expect(first).toMatchObject({ pulled: 0, pushed: 1, conflicts: 0 });
+    expect(server.getRecord('tasks', 't1')?.record).toEqual(task);
+
+    const second = await syncWithServer(createTransport(server));
+    expect(second).toMatchObject({ pulled: 0, pushed: 0, conflicts: 0 });
+  });
+
+  it('merges in a change from another device that was pushed in between, then pushes again', async () => {
+    const server = createFakeServer();
+    await db.tasks.put(task);
+    await syncWithServer(createTransport(server));
+    const baseSeq = server.getRecord('tasks', 't1')?.seq;
+
+    await db.tasks.put({ ...task, priority: 'high', updatedAt: '2025-06-04T10:00:00.000Z' });
+
+    // Another device moves the due date just before this device pushes
+    let otherDevicePushed = false;
+    const transport = createTransport(server, () => {
+      if (otherDevicePushed) return;
+      otherDevicePushed = true;
+      const result = server.push({
+        clientId: 'laptop',
+        changes: [{
+          table: 'tasks',
+          recordId: 't1',
+          record: { ...task, dueDate: '2025-06-09', updatedAt: '2025-06-04T11:00:00.000Z' },
+          modifiedAt: '2025-06-04T11:00:00.000Z',
+          baseSeq,
+        }],
+      });
+      expect(result.rejected).toEqual([]);
+    });
+
+    const result = await syncWithServer(transport);
+
+    const merged = { ...task, priority: 'high', dueDate: '2025-06-09', updatedAt: '2025-06-04T11:00:00.000Z' };
+    expect(result).toMatchObject({ pulled: 1, pushed: 1, conflicts: 0 });
+    expect(await db.tasks.get('t1')).toEqual(merged);
+    expect(server.getRecord('tasks', 't1')?.record).toEqual(merged);
+  });
+
+  it('takes the newer value when both devices changed the same field', async () => {
+    const server = createFakeServer();
+    await db.tasks.put(task);
+    await syncWithServer(createTransport(server));
+    const baseSeq = server.getRecord('tasks', 't1')?.seq;
+
+    server.push({
+      clientId: 'laptop',
+      changes: [{
+        table: 'tasks',
+        recordId: 't1',
+        record: { ...task, title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' },
+        modifiedAt: '2025-06-04T11:00:00.000Z',
+        baseSeq,
+      }],
+    });
+    await db.tasks.put({ ...task, title: 'Call dentist at 3', updatedAt: '2025-06-04T12:00:00.000Z' });
+
+    const result = await syncWithServer(createTransport(server));
+
+    expect(result.conflicts).toBe(1);
+    expect((await db.tasks.get('t1'))?.title).toBe('Call dentist at 3');
+    expect(server.getRecord('tasks', 't1')?.record).toMatchObject({ title: 'Call dentist at 3' });
+  });
+
+  it('removes a record another device deleted', async () => {
+    const server = createFakeServer();
+    await db.tasks.put(task);
+    await syncWithServer(createTransport(server));
+
+    server.push({
+      clientId: 'laptop',
+      changes: [{ table: 'tasks', recordId: 't1', record: null, modifiedAt: new Date().toISOString(), baseSeq: server.getRecord('tasks', 't1')?.seq }],
+    });
+
+    const result = await syncWithServer(createTransport(server));
+    expect(result).toMatchObject({ pulled: 1, pushed: 0 });
+    expect(await db.tasks.get('t1')).toBeUndefined();
+  });
+
+  it('sends a local deletion to the server', async () => {
+    const server = createFakeServer();
+    await db.tasks.put(task);
+    await syncWithServer(createTransport(server));
+
+    await db.tasks.delete('t1');
+    const result = await syncWithServer(createTransport(server));
+
+    expect(result.pushed).toBe(1);
+    expect(server.getRecord('tasks', 't1')?.record).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Sync engine
+ *
+ * Keeps this device and a sync server in step. Every record has a tracking
+ * entry with a local change sequence number: before each sync the tables are
+ * compared with what was last seen, and changed records get the next number.
+ * A sync pulls what other devices changed, merges it in (see syncMerge), then
+ * pushes everything changed here since the last push. The server turns away
+ * pushes made on an outdated version, so those are pulled and merged again.
+ */
+
+import Dexie from 'dexie';
+import { ExportRecord, SyncChange, SyncRecordState, SyncResult, SyncSettings, SyncState, SyncTable, SyncTransport } from '../types';
+import { db } from './db';
+import { generateId } from './helpers';
+import { fingerprintRecord, mergeRecord } from './syncMerge';
+
+export const SYNC_TABLES: SyncTable[] = [
+  'tasks',
+  'projects',
+  'categories',
+  'dailyPlans',
+  'workSchedules',
+  'journalEntries',
+  'focusSessions',
+  'accountabilityRecords',
+];
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  serverUrl: '',
+  syncOnOpen: true,
+};
+
+// Pull-and-push rounds before giving up on a device that keeps changing the same records
+const MAX_SYNC_ROUNDS = 3;
+
+const getTable = (table: SyncTable): Dexie.Table<ExportRecord, string> =>
+  db[table] as unknown as Dexie.Table<ExportRecord, string>;
+
+const getRecordKey = (table: SyncTable, recordId: string): string => `${table}:${recordId}`;
+
+const syncTransactionTables = () => [...SYNC_TABLES.map(getTable), db.syncRecords, db.syncState];
+
+const getSyncState = async (): Promise<SyncState> =>
+  (await db.syncState.get('local')) || {
+    id: 'local',
+    clientId: generateId(),
+    localSeq: 0,
+    pushedSeq: 0,
+    pulledSeq: 0,
+    lastSyncedAt: null,
+  };
+
+export const getLastSyncedAt = async (): Promise<string | null> => (await getSyncState()).lastSyncedAt;
+
+/**
+ * Give every record changed since it was last seen the next change sequence
+ * number, including records that have been deleted. Returns how many changed.
+ */
+export const trackLocalChanges = async (): Promise<number> => {
+  return db.transaction('rw', syncTransactionTables(), async () => {
+    const state = await getSyncState();
+    const entries = new Map((await db.syncRecords.toArray()).map(entry => [entry.key, entry]));
+    const modifiedAt = new Date().toISOString();
+    const changed: SyncRecordState[] = [];
+    const seen = new Set<string>();
+
+    for (const table of SYNC_TABLES) {
+      const records = await getTable(table).toArray();
+      records.forEach(record => {
+        const key = getRecordKey(table, record.id);
+        const fingerprint = fingerprintRecord(record);
+        const entry = entries.get(key);
+        seen.add(key);
+        if (entry && entry.fingerprint === fingerprint) return;
+        changed.push({
+          key,
+          table,
+          recordId: record.id,
+          seq: ++state.localSeq,
+          modifiedAt,
+          fingerprint,
+          base: entry ? entry.base : null,
+          serverSeq: entry ? entry.serverSeq : 0,
+        });
+      });
+    }
+
+    entries.forEach(entry => {
+      if (seen.has(entry.key) || entry.fingerprint === null) return;
+      changed.push({ ...entry, seq: ++state.localSeq, modifiedAt, fingerprint: null });
+    });
+
+    if (changed.length > 0) {
+      await db.syncRecords.bulkPut(changed);
+    }
+    await db.syncState.put(state);
+    return changed.length;
+  });
+};
+
+/**
+ * Fetch what other devices changed and merge it into the local tables
+ */
+const pullChanges = async (transport: SyncTransport): Promise<{ pulled: number; conflicts: number }> => {
+  const { clientId, pulledSeq } = await getSyncState();
+  const response = await transport.pull({ clientId, since: pulledSeq });
+
+  return db.transaction('rw', syncTransactionTables(), async () => {
+    const state = await getSyncState();
+    let conflicts = 0;
+
+    for (const change of response.changes) {
+      const key = getRecordKey(change.table, change.recordId);
+      const entry = await db.syncRecords.get(key);
+      const local = (await getTable(change.table).get(change.recordId)) || null;
+      const merged = mergeRecord(
+        entry ? entry.base : null,
+        local,
+        entry ? entry.modifiedAt : change.modifiedAt,
+        change.record,
+        change.modifiedAt
+      );
+      conflicts += merged.conflicts.length;
+
+      if (merged.record) {
+        await getTable(change.table).put(merged.record);
+      } else if (local) {
+        await getTable(change.table).delete(change.recordId);
+      }
+
+      // A merge that kept local changes still has to be pushed
+      const fingerprint = fingerprintRecord(merged.record);
+      const needsPush = fingerprint !== fingerprintRecord(change.record);
+      await db.syncRecords.put({
+        key,
+        table: change.table,
+        recordId: change.recordId,
+        seq: needsPush ? ++state.localSeq : entry ? entry.seq : 0,
+        modifiedAt: needsPush ? new Date().toISOString() : change.modifiedAt,
+        fingerprint,
+        base: change.record,
+        serverSeq: change.seq || 0,
+      });
+    }
+
+    state.pulledSeq = Math.max(state.pulledSeq, response.latestSeq);
+    await db.syncState.put(state);
+    return { pulled: response.changes.length, conflicts };
+  });
+};
+
+/**
+ * Send every record changed here since the last push
+ */
+const pushChanges = async (transport: SyncTransport): Promise<{ pushed: number; rejected: number }> => {
+  const state = await getSyncState();
+  const entries = await db.syncRecords.where('seq').above(state.pushedSeq).toArray();
+
+  // Records changed and then changed back need nothing sent
+  const pending = entries.filter(entry => entry.fingerprint !== fingerprintRecord(entry.base));
+  const changes: SyncChange[] = await Promise.all(pending.map(async entry => ({
+    table: entry.table,
+    recordId: entry.recordId,
+    record: entry.fingerprint === null ? null : (await getTable(entry.table).get(entry.recordId)) || null,
+    modifiedAt: entry.modifiedAt,
+    baseSeq: entry.serverSeq,
+  })));
+  const lastSeq = entries.reduce((max, entry) => Math.max(max, entry.seq), state.pushedSeq);
+
+  const response = changes.length > 0
+    ? await transport.push({ clientId: state.clientId, changes })
+    : { accepted: [], rejected: [] };
+
+  await db.transaction('rw', syncTransactionTables(), async () => {
+    const pushedByKey = new Map(changes.map(change => [getRecordKey(change.table, change.recordId), change]));
+    for (const { table, recordId, seq } of response.accepted) {
+      const key = getRecordKey(table, recordId);
+      const entry = await db.syncRecords.get(key);
+      if (entry) {
+        await db.syncRecords.put({ ...entry, base: pushedByKey.get(key)?.record || null, serverSeq: seq });
+      }
+    }
+
+    // Rejected records come back with the next pull, and anything still
+    // different after merging gets a new sequence number there
+    const current = await getSyncState();
+    current.pushedSeq = Math.max(current.pushedSeq, lastSeq);
+    await db.syncState.put(current);
+  });
+
+  return { pushed: response.accepted.length, rejected: response.rejected.length };
+};
+
+/**
+ * Run a full sync through the given transport
+ */
+export const syncWithServer = async (transport: SyncTransport): Promise<SyncResult> => {
+  await trackLocalChanges();
+
+  let pulled = 0;
+  let pushed = 0;
+  let conflicts = 0;
+  for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+    const pullResult = await pullChanges(transport);
+    const pushResult = await pushChanges(transport);
+    pulled += pullResult.pulled;
+    conflicts += pullResult.conflicts;
+    pushed += pushResult.pushed;
+
+    if (pushResult.rejected === 0) {
+      const syncedAt = new Date().toISOString();
+      const state = await getSyncState();
+      await db.syncState.put({ ...state, lastSyncedAt: syncedAt });
+      return { pulled, pushed, conflicts, syncedAt };
+    }
+  }
+
+  throw new Error('Another device kept changing the same records during sync. Please try again.');
+};
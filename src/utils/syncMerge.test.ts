@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ExportRecord, Task } from '../types';
+import { fingerprintRecord, mergeRecord } from './syncMerge';
+
+const base: Task = {
+  id: 't1',
+  title: 'Call dentist',
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: '2025-06-06',
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  priority: 'medium',
+  createdAt: '2025-06-01T09:00:00.000Z',
+  updatedAt: '2025-06-01T09:00:00.000Z',
+};
+
+const edit = (fields: Partial<Task>): Task => ({ ...base, ...fields });
+
+const merge = (local: Task | null, remote: Task | null, localModifiedAt = '2025-06-04T10:00:00.000Z', remoteModifiedAt = '2025-06-04T11:00:00.000Z') =>
+  mergeRecord(base, local, localModifiedAt, remote, remoteModifiedAt);
+
+describe('mergeRecord', () => {
+  it('takes the remote version when nothing changed here', () => {
+    const remote = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' });
+    expect(merge(base, remote)).toEqual({ record: remote, conflicts: [] });
+  });
+
+  it('keeps the local version when nothing changed remotely', () => {
+    const local = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T10:00:00.000Z' });
+    expect(merge(local, base)).toEqual({ record: local, conflicts: [] });
+  });
+
+  it('keeps both sides when they changed different fields', () => {
+    const local = edit({ priority: 'high', updatedAt: '2025-06-04T10:00:00.000Z' });
+    const remote = edit({ dueDate: '2025-06-09', updatedAt: '2025-06-04T11:00:00.000Z' });
+
+    const result = merge(local, remote);
+    expect(result.conflicts).toEqual([]);
+    expect(result.record).toEqual(edit({ priority: 'high', dueDate: '2025-06-09', updatedAt: '2025-06-04T11:00:00.000Z' }));
+  });
+
+  it('keeps a field added on one side only', () => {
+    const local = edit({ estimatedMinutes: 15, updatedAt: '2025-06-04T10:00:00.000Z' });
+    const remote = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' });
+
+    expect(merge(local, remote).record).toMatchObject({ estimatedMinutes: 15, title: 'Call the dentist' });
+  });
+
+  it('takes the newer value when both sides changed the same field', () => {
+    const local = edit({ title: 'Call dentist at 3', updatedAt: '2025-06-04T12:00:00.000Z' });
+    const remote = edit({ title: 'Call the dentist', priority: 'low', updatedAt: '2025-06-04T11:00:00.000Z' });
+
+    const result = merge(local, remote);
+    expect(result.conflicts).toEqual(['title']);
+    expect(result.record).toEqual(edit({ title: 'Call dentist at 3', priority: 'low', updatedAt: '2025-06-04T12:00:00.000Z' }));
+
+    const olderLocal = edit({ title: 'Call dentist at 3', updatedAt: '2025-06-04T10:00:00.000Z' });
+    expect(merge(olderLocal, remote).record).toMatchObject({ title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' });
+  });
+
+  it('gives a tie to the remote version so every device agrees', () => {
+    const local = edit({ title: 'Call dentist at 3', updatedAt: '2025-06-04T11:00:00.000Z' });
+    const remote = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' });
+
+    expect(merge(local, remote).record).toMatchObject({ title: 'Call the dentist' });
+  });
+
+  it('lets a remote deletion win over an older local edit', () => {
+    const local = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T10:00:00.000Z' });
+    expect(merge(local, null)).toEqual({ record: null, conflicts: [] });
+  });
+
+  it('keeps a local edit made after the remote deletion', () => {
+    const local = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T12:00:00.000Z' });
+    expect(merge(local, null)).toEqual({ record: local, conflicts: [] });
+  });
+
+  it('keeps a remote edit made after the local deletion', () => {
+    const remote = edit({ title: 'Call the dentist', updatedAt: '2025-06-04T11:00:00.000Z' });
+    expect(merge(null, remote, '2025-06-04T10:00:00.000Z')).toEqual({ record: remote, conflicts: [] });
+    expect(merge(null, remote, '2025-06-04T12:00:00.000Z')).toEqual({ record: null, conflicts: [] });
+  });
+
+  it('falls back to when the change was made for records without updatedAt', () => {
+    const planBase = { id: 'p1', date: '2025-06-04', timeBlocks: [] } as unknown as ExportRecord;
+    const local = { ...planBase, timeBlocks: [{ id: 'b1' }] } as unknown as ExportRecord;
+    const remote = { ...planBase, timeBlocks: [{ id: 'b2' }] } as unknown as ExportRecord;
+
+    expect(mergeRecord(planBase, local, '2025-06-04T12:00:00.000Z', remote, '2025-06-04T11:00:00.000Z').record).toEqual(local);
+    expect(mergeRecord(planBase, local, '2025-06-04T10:00:00.000Z', remote, '2025-06-04T11:00:00.000Z').record).toEqual(remote);
+  });
+});
+
+describe('fingerprintRecord', () => {
+  it('ignores key order and undefined fields', () => {
+    const { id, title, ...rest } = base;
+    expect(fingerprintRecord({ ...rest, title, id, dueTime: undefined })).toBe(fingerprintRecord(base));
+  });
+});
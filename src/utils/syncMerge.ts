@@ -0,0 +1,99 @@
+/**
+ * Sync merging
+ *
+ * When a record changed both here and on another device since the last sync,
+ * the two versions are merged field by field against the version both started
+ * from: a field changed on one side keeps that change, and a field changed on
+ * both sides takes the value from the version with the later `updatedAt`.
+ */
+
+import { ExportRecord } from '../types';
+
+/**
+ * A stable text form of a record, independent of key order
+ */
+export const fingerprintRecord = (record: ExportRecord | null): string | null => {
+  if (!record) return null;
+  const sortKeys = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .sort()
+        .reduce((sorted, key) => {
+          const field = (value as Record<string, unknown>)[key];
+          if (field !== undefined) sorted[key] = sortKeys(field);
+          return sorted;
+        }, {} as Record<string, unknown>);
+    }
+    return value;
+  };
+  return JSON.stringify(sortKeys(record));
+};
+
+const fieldEquals = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Records without updatedAt fall back to when the change was made
+const getChangeTime = (record: ExportRecord | null, modifiedAt: string): string =>
+  record && 'updatedAt' in record && typeof record.updatedAt === 'string' ? record.updatedAt : modifiedAt;
+
+export interface SyncMergeResult {
+  record: ExportRecord | null;
+  conflicts: string[]; // Fields changed on both sides
+}
+
+/**
+ * Merge the local and remote versions of a record, given the version last
+ * agreed with the server. A deletion wins over an edit unless the edit is newer.
+ * Ties go to the remote version so every device settles on the same result.
+ */
+export const mergeRecord = (
+  base: ExportRecord | null,
+  local: ExportRecord | null,
+  localModifiedAt: string,
+  remote: ExportRecord | null,
+  remoteModifiedAt: string
+): SyncMergeResult => {
+  const localFingerprint = fingerprintRecord(local);
+  if (localFingerprint === fingerprintRecord(base) || localFingerprint === fingerprintRecord(remote)) {
+    return { record: remote, conflicts: [] };
+  }
+  if (fingerprintRecord(remote) === fingerprintRecord(base)) {
+    return { record: local, conflicts: [] };
+  }
+
+  const localTime = getChangeTime(local, localModifiedAt);
+  const remoteTime = getChangeTime(remote, remoteModifiedAt);
+  if (!local || !remote) {
+    return { record: localTime > remoteTime ? local : remote, conflicts: [] };
+  }
+
+  const baseFields = (base || {}) as Record<string, unknown>;
+  const localFields = local as unknown as Record<string, unknown>;
+  const remoteFields = remote as unknown as Record<string, unknown>;
+  const localWins = localTime > remoteTime;
+  const merged: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+
+  new Set([...Object.keys(localFields), ...Object.keys(remoteFields)]).forEach(key => {
+    const localValue = localFields[key];
+    const remoteValue = remoteFields[key];
+    let value: unknown;
+    if (fieldEquals(localValue, remoteValue) || fieldEquals(localValue, baseFields[key])) {
+      value = remoteValue;
+    } else if (fieldEquals(remoteValue, baseFields[key])) {
+      value = localValue;
+    } else {
+      value = localWins ? localValue : remoteValue;
+      if (key !== 'updatedAt') conflicts.push(key);
+    }
+    if (value !== undefined) merged[key] = value;
+  });
+
+  // The merge is at least as new as either side
+  if (typeof merged.updatedAt === 'string') {
+    merged.updatedAt = localTime > remoteTime ? localTime : remoteTime;
+  }
+
+  return { record: merged as unknown as ExportRecord, conflicts };
+};
@@ -0,0 +1,34 @@
+import { SyncPullResponse, SyncPushResponse, SyncTransport } from '../types';
+
+/**
+ * Transport for the reference sync server in server/sync-server.js, or
+ * anything else speaking the same JSON over HTTP
+ */
+export const createHttpSyncTransport = (serverUrl: string): SyncTransport => {
+  const baseUrl = serverUrl.trim().replace(/\/+$/, '');
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, init);
+    } catch {
+      throw new Error(`Could not reach the sync server at ${baseUrl}`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Sync server error (${response.status}): ${body?.error || response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    push: pushRequest => request<SyncPushResponse>('/push', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(pushRequest),
+    }),
+    pull: ({ clientId, since }) => request<SyncPullResponse>(
+      `/pull?clientId=${encodeURIComponent(clientId)}&since=${since}`
+    ),
+  };
+};
@@ -0,0 +1,185 @@
+/**
+ * Task filter engine
+ *
+ * Evaluates TaskFilter expressions (project, category, priority, energy, size,
+ * tags, due date, completed/archived and missing estimates) for saved views and
+ * the task lists. Results keep the due-date buckets from `taskOptimizer`.
+ */
+
+import { Task, TaskFilter, TaskFilterInclusion, Project, Category } from '../types';
+import { formatDate, formatDateForDisplay } from './helpers';
+import { createOptimizedTaskLists, getEndOfWeekDate } from './taskOptimizer';
+
+export type TaskBuckets = ReturnType<typeof createOptimizedTaskLists>;
+
+export const DEFAULT_TASK_FILTER: TaskFilter = {
+  projectIds: [],
+  categoryIds: [],
+  priorities: [],
+  energyLevels: [],
+  sizes: [],
+  tags: [],
+  due: 'any',
+  dueFrom: null,
+  dueTo: null,
+  completed: 'hide',
+  archived: 'hide',
+  noEstimate: false,
+};
+
+export const DUE_FILTER_LABELS: Record<TaskFilter['due'], string> = {
+  any: 'Any time',
+  overdue: 'Overdue',
+  today: 'Due today',
+  tomorrow: 'Due tomorrow',
+  thisWeek: 'Due this week',
+  next7Days: 'Due in the next 7 days',
+  noDate: 'No due date',
+  range: 'Due between dates',
+};
+
+/**
+ * Fill in conditions missing from a stored filter (e.g. one saved by an older version)
+ */
+export const normalizeTaskFilter = (filter: Partial<TaskFilter> | null | undefined): TaskFilter => ({
+  ...DEFAULT_TASK_FILTER,
+  ...(filter || {}),
+});
+
+const addDays = (date: Date, days: number): string => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return formatDate(result);
+};
+
+const matchesInclusion = (value: boolean, inclusion: TaskFilterInclusion): boolean =>
+  inclusion === 'include' || (inclusion === 'only' ? value : !value);
+
+const matchesDue = (task: Task, filter: TaskFilter, today: Date): boolean => {
+  const todayStr = formatDate(today);
+  const dueDate = task.dueDate;
+
+  switch (filter.due) {
+    case 'any':
+      return true;
+    case 'noDate':
+      return !dueDate;
+    case 'overdue':
+      return !!dueDate && dueDate < todayStr && !task.completed;
+    case 'today':
+      return dueDate === todayStr;
+    case 'tomorrow':
+      return dueDate === addDays(today, 1);
+    case 'thisWeek':
+      return !!dueDate && dueDate >= todayStr && dueDate <= getEndOfWeekDate(today);
+    case 'next7Days':
+      return !!dueDate && dueDate >= todayStr && dueDate <= addDays(today, 7);
+    case 'range':
+      if (!dueDate) return false;
+      if (filter.dueFrom && dueDate < filter.dueFrom) return false;
+      if (filter.dueTo && dueDate > filter.dueTo) return false;
+      return true;
+  }
+};
+
+/**
+ * Whether a task satisfies every condition of a filter
+ */
+export const matchesTaskFilter = (task: Task, filter: TaskFilter, today: Date = new Date()): boolean => {
+  if (!matchesInclusion(task.completed, filter.completed)) return false;
+  if (!matchesInclusion(task.archived, filter.archived)) return false;
+
+  if (filter.projectIds.length > 0 && !(task.projectId && filter.projectIds.includes(task.projectId))) return false;
+  if (filter.categoryIds.length > 0 && !(task.categoryIds || []).some(id => filter.categoryIds.includes(id))) return false;
+  if (filter.priorities.length > 0 && !(task.priority && filter.priorities.includes(task.priority))) return false;
+  if (filter.energyLevels.length > 0 && !(task.energyLevel && filter.energyLevels.includes(task.energyLevel))) return false;
+  if (filter.sizes.length > 0 && !(task.size && filter.sizes.includes(task.size))) return false;
+
+  if (filter.tags.length > 0) {
+    const taskTags = (task.tags || []).map(tag => tag.toLowerCase());
+    if (!filter.tags.some(tag => taskTags.includes(tag.toLowerCase()))) return false;
+  }
+
+  if (filter.noEstimate && task.estimatedMinutes) return false;
+
+  return matchesDue(task, filter, today);
+};
+
+/**
+ * Apply a filter, keeping the overdue/today/tomorrow/this week/other/blocked
+ * buckets (and their order) from createOptimizedTaskLists
+ */
+export const filterTasks = (tasks: Task[], filter: TaskFilter, today: Date = new Date()): TaskBuckets => {
+  const lists = createOptimizedTaskLists(tasks, filter.completed !== 'hide', filter.archived !== 'hide');
+  const keep = (list: Task[]) => list.filter(task => matchesTaskFilter(task, filter, today));
+
+  return {
+    overdue: keep(lists.overdue),
+    today: keep(lists.today),
+    tomorrow: keep(lists.tomorrow),
+    thisWeek: keep(lists.thisWeek),
+    other: keep(lists.other),
+    blocked: keep(lists.blocked),
+    all: keep(lists.all),
+  };
+};
+
+/**
+ * Number of conditions that narrow the list down from the default
+ */
+export const countFilterConditions = (filter: TaskFilter): number =>
+  [
+    filter.projectIds.length > 0,
+    filter.categoryIds.length > 0,
+    filter.priorities.length > 0,
+    filter.energyLevels.length > 0,
+    filter.sizes.length > 0,
+    filter.tags.length > 0,
+    filter.due !== 'any',
+    filter.completed !== DEFAULT_TASK_FILTER.completed,
+    filter.archived !== DEFAULT_TASK_FILTER.archived,
+    filter.noEstimate,
+  ].filter(Boolean).length;
+
+const INCLUSION_LABELS: Record<'completed' | 'archived', Record<TaskFilterInclusion, string | null>> = {
+  completed: { hide: null, include: 'Including completed', only: 'Completed only' },
+  archived: { hide: null, include: 'Including archived', only: 'Archived only' },
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Short human-readable descriptions of each condition, for filter chips
+ */
+export const describeTaskFilter = (filter: TaskFilter, projects: Project[], categories: Category[]): string[] => {
+  const names = <T extends { id: string; name: string }>(ids: string[], records: T[]) =>
+    ids.map(id => records.find(record => record.id === id)?.name || 'Deleted').join(' or ');
+
+  const parts: string[] = [];
+  if (filter.projectIds.length > 0) parts.push(`Project: ${names(filter.projectIds, projects)}`);
+  if (filter.categoryIds.length > 0) parts.push(`Category: ${names(filter.categoryIds, categories)}`);
+  if (filter.priorities.length > 0) parts.push(`${filter.priorities.map(capitalize).join('/')} priority`);
+  if (filter.energyLevels.length > 0) parts.push(`${filter.energyLevels.map(capitalize).join('/')} energy`);
+  if (filter.sizes.length > 0) parts.push(`Size: ${filter.sizes.join('/')}`);
+  if (filter.tags.length > 0) parts.push(filter.tags.map(tag => `#${tag}`).join(' or '));
+
+  if (filter.due === 'range') {
+    if (filter.dueFrom && filter.dueTo) {
+      parts.push(`Due ${formatDateForDisplay(filter.dueFrom)} – ${formatDateForDisplay(filter.dueTo)}`);
+    } else if (filter.dueFrom) {
+      parts.push(`Due from ${formatDateForDisplay(filter.dueFrom)}`);
+    } else if (filter.dueTo) {
+      parts.push(`Due by ${formatDateForDisplay(filter.dueTo)}`);
+    }
+  } else if (filter.due !== 'any') {
+    parts.push(DUE_FILTER_LABELS[filter.due]);
+  }
+
+  const completed = INCLUSION_LABELS.completed[filter.completed];
+  const archived = INCLUSION_LABELS.archived[filter.archived];
+  if (completed) parts.push(completed);
+  if (archived) parts.push(archived);
+  if (filter.noEstimate) parts.push('No estimate');
+
+  return parts;
+};
@@ -0,0 +1,199 @@
+/**
+ * Task list layouts
+ *
+ * Turns the filtered due-date buckets into the groups and rows the task list
+ * renders: by due date, project or category, one flat list, or the full
+ * parent/subtask tree. Rows are flat so long lists can be virtualised.
+ */
+
+import { Task, Project, Category, TaskListLayout, TaskListPreferences, TaskListTab } from '../types';
+import { DEFAULT_TASK_FILTER, TaskBuckets } from './taskFilters';
+
+export const DEFAULT_TASK_LIST_PREFERENCES: TaskListPreferences = {
+  layout: 'due',
+  tab: 'today',
+  filter: DEFAULT_TASK_FILTER,
+  collapsedGroups: [],
+};
+
+export const TASK_LIST_LAYOUTS: { id: TaskListLayout; label: string }[] = [
+  { id: 'due', label: 'By due date' },
+  { id: 'project', label: 'By project' },
+  { id: 'category', label: 'By category' },
+  { id: 'flat', label: 'Flat list' },
+  { id: 'hierarchy', label: 'Subtask tree' },
+];
+
+// Due-date groups, in display order
+export const DUE_GROUPS = [
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'today', label: 'Today' },
+  { key: 'tomorrow', label: 'Tomorrow' },
+  { key: 'thisWeek', label: 'This Week' },
+  { key: 'other', label: 'Other Tasks' },
+  { key: 'blocked', label: 'Blocked' },
+  { key: 'waiting', label: 'Waiting For' },
+] as const;
+
+export type DueGroupKey = typeof DUE_GROUPS[number]['key'];
+
+// Buckets plus delegated tasks, which only appear under "Waiting for"
+export type TaskListBuckets = Record<DueGroupKey, Task[]> & { all: Task[] };
+
+export interface TaskListGroup {
+  key: string;
+  label: string;
+  color: string | null; // Project or category colour
+  tasks: Task[];
+}
+
+export type TaskListRow =
+  | { kind: 'group'; key: string; group: TaskListGroup; collapsed: boolean }
+  | { kind: 'task'; key: string; task: Task; depth: number };
+
+/**
+ * Move delegated tasks out of the due-date buckets into their own list,
+ * soonest follow-up first
+ */
+export const splitWaitingTasks = (buckets: TaskBuckets): TaskListBuckets => {
+  const isWaiting = (task: Task) => !task.completed && !!task.delegatedTo;
+  const notWaiting = (list: Task[]) => list.filter(task => !isWaiting(task));
+
+  return {
+    overdue: notWaiting(buckets.overdue),
+    today: notWaiting(buckets.today),
+    tomorrow: notWaiting(buckets.tomorrow),
+    thisWeek: notWaiting(buckets.thisWeek),
+    other: notWaiting(buckets.other),
+    blocked: notWaiting(buckets.blocked),
+    waiting: buckets.all
+      .filter(isWaiting)
+      .sort((a, b) => (a.followUpDate || '9999-12-31').localeCompare(b.followUpDate || '9999-12-31')),
+    all: buckets.all,
+  };
+};
+
+/**
+ * The tasks shown on a tab, in due-date order
+ */
+export const getTabTasks = (buckets: TaskListBuckets, tab: TaskListTab): Task[] => {
+  switch (tab) {
+    case 'today': return buckets.today;
+    case 'tomorrow': return buckets.tomorrow;
+    case 'week': return buckets.thisWeek;
+    case 'overdue': return buckets.overdue;
+    case 'blocked': return buckets.blocked;
+    case 'waiting': return buckets.waiting;
+    case 'all': return DUE_GROUPS.flatMap(group => buckets[group.key]);
+  }
+};
+
+/**
+ * Split a tab's tasks into the groups of a layout. Flat and tree layouts have
+ * a single unlabeled group. Tasks in several categories appear in each.
+ */
+export const groupTasks = (
+  tasks: Task[],
+  buckets: TaskListBuckets,
+  layout: TaskListLayout,
+  projects: Project[],
+  categories: Category[]
+): TaskListGroup[] => {
+  if (layout === 'due') {
+    const visible = new Set(tasks.map(task => task.id));
+    return DUE_GROUPS
+      .map(group => ({
+        key: group.key,
+        label: group.label,
+        color: null,
+        tasks: buckets[group.key].filter(task => visible.has(task.id)),
+      }))
+      .filter(group => group.tasks.length > 0);
+  }
+
+  if (layout === 'project') {
+    const groups: TaskListGroup[] = [...projects]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(project => ({
+        key: `project:${project.id}`,
+        label: project.name,
+        color: project.color,
+        tasks: tasks.filter(task => task.projectId === project.id),
+      }));
+    const projectIds = new Set(projects.map(project => project.id));
+    groups.push({
+      key: 'project:none',
+      label: 'No Project',
+      color: null,
+      tasks: tasks.filter(task => !task.projectId || !projectIds.has(task.projectId)),
+    });
+    return groups.filter(group => group.tasks.length > 0);
+  }
+
+  if (layout === 'category') {
+    const groups: TaskListGroup[] = [...categories]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => ({
+        key: `category:${category.id}`,
+        label: category.name,
+        color: category.color,
+        tasks: tasks.filter(task => (task.categoryIds || []).includes(category.id)),
+      }));
+    const categoryIds = new Set(categories.map(category => category.id));
+    groups.push({
+      key: 'category:none',
+      label: 'Uncategorized',
+      color: null,
+      tasks: tasks.filter(task => !(task.categoryIds || []).some(id => categoryIds.has(id))),
+    });
+    return groups.filter(group => group.tasks.length > 0);
+  }
+
+  return tasks.length > 0 ? [{ key: layout, label: '', color: null, tasks }] : [];
+};
+
+/**
+ * Flatten groups into rows. In the tree layout every subtask gets its own
+ * indented row; elsewhere subtasks are shown by their parent's card, so only
+ * tasks whose parent isn't in the same group get a row.
+ */
+export const buildTaskListRows = (
+  groups: TaskListGroup[],
+  layout: TaskListLayout,
+  collapsedGroups: Set<string>
+): TaskListRow[] => {
+  const rows: TaskListRow[] = [];
+  const showHeaders = layout !== 'flat' && layout !== 'hierarchy';
+
+  groups.forEach(group => {
+    const collapsed = showHeaders && collapsedGroups.has(group.key);
+    if (showHeaders) rows.push({ kind: 'group', key: `group:${group.key}`, group, collapsed });
+    if (collapsed) return;
+
+    const inGroup = new Set(group.tasks.map(task => task.id));
+    const roots = group.tasks.filter(task => !task.parentTaskId || !inGroup.has(task.parentTaskId));
+
+    if (layout !== 'hierarchy') {
+      roots.forEach(task => rows.push({ kind: 'task', key: `${group.key}:${task.id}`, task, depth: 0 }));
+      return;
+    }
+
+    const children = new Map<string, Task[]>();
+    group.tasks.forEach(task => {
+      if (task.parentTaskId && inGroup.has(task.parentTaskId)) {
+        children.set(task.parentTaskId, [...(children.get(task.parentTaskId) || []), task]);
+      }
+    });
+
+    const added = new Set<string>();
+    const addTree = (task: Task, depth: number) => {
+      if (added.has(task.id)) return;
+      added.add(task.id);
+      rows.push({ kind: 'task', key: `${group.key}:${task.id}`, task, depth });
+      (children.get(task.id) || []).forEach(child => addTree(child, depth + 1));
+    };
+    roots.forEach(task => addTree(task, 0));
+  });
+
+  return rows;
+};
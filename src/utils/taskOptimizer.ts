@@ -7,10 +7,21 @@
 
 import { Task } from '../types';
 import { formatDate } from './helpers';
+import { createTaskMap, isTaskBlocked } from './dependencies';
+
+/**
+ * The last day (Sunday) of the week containing `date`, as YYYY-MM-DD
+ */
+export function getEndOfWeekDate(date: Date = new Date()): string {
+  const endOfWeek = new Date(date);
+  endOfWeek.setDate(endOfWeek.getDate() + (7 - endOfWeek.getDay()));
+  return formatDate(endOfWeek);
+}
 
 /**
  * Creates optimized task lists filtered by date categories
  * Uses efficient single-pass filtering for better performance
+ * Tasks waiting on an incomplete blocker go to the separate `blocked` list
  */
 export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean = false, showArchived: boolean = false) {
   // Create date strings for comparison
@@ -25,11 +36,11 @@ export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean =
   const tomorrowTasks: Task[] = [];
   const thisWeekTasks: Task[] = [];
   const otherTasks: Task[] = [];
+  const blockedTasks: Task[] = [];
   
-  // Get the end of the current week (Sunday)
-  const endOfWeek = new Date();
-  endOfWeek.setDate(endOfWeek.getDate() + (7 - endOfWeek.getDay()));
-  const endOfWeekDate = formatDate(endOfWeek);
+  const taskMap = createTaskMap(tasks);
+  
+  const endOfWeekDate = getEndOfWeekDate();
   
   // Single-pass categorization for better performance
   tasks.forEach(task => {
@@ -38,7 +49,10 @@ export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean =
     if (task.archived && !showArchived) return;
     
     // Categorize each task
-    if (!task.dueDate) {
+    if (!task.completed && isTaskBlocked(task, taskMap)) {
+      blockedTasks.push(task);
+    }
+    else if (!task.dueDate) {
       otherTasks.push(task);
     } 
     else if (task.dueDate < today) {
@@ -64,7 +78,8 @@ export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean =
     todayTasks.length + 
     tomorrowTasks.length + 
     thisWeekTasks.length + 
-    otherTasks.length
+    otherTasks.length +
+    blockedTasks.length
   );
   
   let index = 0;
@@ -73,6 +88,7 @@ export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean =
   for (const task of tomorrowTasks) allTasks[index++] = task;
   for (const task of thisWeekTasks) allTasks[index++] = task;
   for (const task of otherTasks) allTasks[index++] = task;
+  for (const task of blockedTasks) allTasks[index++] = task;
   
   return {
     overdue,
@@ -80,6 +96,7 @@ export function createOptimizedTaskLists(tasks: Task[], showCompleted: boolean =
     tomorrow: tomorrowTasks,
     thisWeek: thisWeekTasks,
     other: otherTasks,
+    blocked: blockedTasks,
     all: allTasks
   };
 }
@@ -112,6 +129,7 @@ export function createTaskCategoryMap(taskLists: {
   tomorrow: Task[];
   thisWeek: Task[];
   other: Task[];
+  blocked?: Task[];
 }): Map<string, string> {
   const taskCategories = new Map<string, string>();
   
@@ -120,6 +138,7 @@ export function createTaskCategoryMap(taskLists: {
   taskLists.tomorrow.forEach(task => taskCategories.set(task.id, 'tomorrow'));
   taskLists.thisWeek.forEach(task => taskCategories.set(task.id, 'thisWeek'));
   taskLists.other.forEach(task => taskCategories.set(task.id, 'other'));
+  taskLists.blocked?.forEach(task => taskCategories.set(task.id, 'blocked'));
   
   return taskCategories;
 }
\ No newline at end of file
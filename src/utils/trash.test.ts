@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Category, Project, Task } from '../types';
+import {
+  getExpiredTrashSelection,
+  getTrashedTaskRoots,
+  getTrashSelection,
+  moveTasksToTrash,
+  purgeFromTrash,
+  restoreTasksFromTrash,
+} from './trash';
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  description: '',
+  completed: false,
+  archived: false,
+  dueDate: null,
+  projectId: null,
+  categoryIds: [],
+  parentTaskId: null,
+  subtasks: [],
+  createdAt: '2025-06-01T00:00:00.000Z',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+  ...fields,
+});
+
+const TRASHED_AT = '2025-06-04T10:00:00.000Z';
+const RESTORED_AT = '2025-06-05T10:00:00.000Z';
+
+// A parent with two subtasks; "report" is blocked by the parent and by "draft"
+const tasks = [
+  makeTask('plan', { subtasks: ['draft', 'review'] }),
+  makeTask('draft', { parentTaskId: 'plan' }),
+  makeTask('review', { parentTaskId: 'plan' }),
+  makeTask('report', { blockedBy: ['plan', 'draft'] }),
+  makeTask('email', { blockedBy: ['report'] }),
+];
+
+const byId = (list: Task[]) => new Map(list.map(task => [task.id, task]));
+
+describe('moveTasksToTrash', () => {
+  it('trashes a task with its subtasks as one batch', () => {
+    const trashed = byId(moveTasksToTrash(tasks, ['plan'], TRASHED_AT));
+
+    expect(['plan', 'draft', 'review'].map(id => trashed.get(id)?.deletedAt)).toEqual([TRASHED_AT, TRASHED_AT, TRASHED_AT]);
+    expect(trashed.get('email')).toBe(tasks[4]);
+    expect(getTrashedTaskRoots(Array.from(trashed.values())).map(task => task.id)).toEqual(['plan']);
+  });
+
+  it('unblocks tasks that were blocked by it and remembers them', () => {
+    const trashed = byId(moveTasksToTrash(tasks, ['plan'], TRASHED_AT));
+
+    expect(trashed.get('report')?.blockedBy).toEqual([]);
+    expect(trashed.get('plan')?.unlinkedDependents).toEqual(['report']);
+    expect(trashed.get('draft')?.unlinkedDependents).toEqual(['report']);
+    expect(trashed.get('review')?.unlinkedDependents).toBeNull();
+  });
+
+  it('takes a trashed subtask off its parent', () => {
+    const trashed = byId(moveTasksToTrash(tasks, ['draft'], TRASHED_AT));
+
+    expect(trashed.get('plan')?.subtasks).toEqual(['review']);
+    expect(trashed.get('report')?.blockedBy).toEqual(['plan']);
+  });
+
+  it('leaves tasks already in the trash alone', () => {
+    const trashed = moveTasksToTrash(tasks, ['plan'], TRASHED_AT);
+    expect(moveTasksToTrash(trashed, ['plan'], RESTORED_AT)).toBe(trashed);
+  });
+});
+
+describe('restoreTasksFromTrash', () => {
+  it('brings a batch back with its blocker links', () => {
+    const trashed = moveTasksToTrash(tasks, ['plan'], TRASHED_AT);
+    const restored = byId(restoreTasksFromTrash(trashed, ['plan'], RESTORED_AT));
+
+    expect(['plan', 'draft', 'review'].map(id => restored.get(id)?.deletedAt)).toEqual([null, null, null]);
+    expect(restored.get('plan')?.unlinkedDependents).toBeNull();
+    expect(restored.get('plan')?.subtasks).toEqual(['draft', 'review']);
+    expect(restored.get('report')?.blockedBy).toEqual(['plan', 'draft']);
+  });
+
+  it('puts a subtask back under its parent', () => {
+    const trashed = moveTasksToTrash(tasks, ['draft'], TRASHED_AT);
+    const restored = byId(restoreTasksFromTrash(trashed, ['draft'], RESTORED_AT));
+
+    expect(restored.get('draft')).toMatchObject({ deletedAt: null, parentTaskId: 'plan' });
+    expect(restored.get('plan')?.subtasks).toEqual(['review', 'draft']);
+    expect(restored.get('report')?.blockedBy).toEqual(['plan', 'draft']);
+  });
+
+  it('restores a subtask on its own as a top-level task while its parent stays in the trash', () => {
+    const trashed = moveTasksToTrash(moveTasksToTrash(tasks, ['draft'], TRASHED_AT), ['plan'], RESTORED_AT);
+    const restored = byId(restoreTasksFromTrash(trashed, ['draft'], RESTORED_AT));
+
+    expect(restored.get('draft')).toMatchObject({ deletedAt: null, parentTaskId: null });
+    expect(restored.get('plan')?.deletedAt).toBe(RESTORED_AT);
+  });
+
+  it('does not put back a link that would now create a dependency cycle', () => {
+    const trashed = moveTasksToTrash(tasks, ['report'], TRASHED_AT);
+    // While "report" is in the trash, "plan" comes to depend on "email"
+    const edited = trashed.map(task => task.id === 'plan' ? { ...task, blockedBy: ['email'] } : task);
+    const restored = byId(restoreTasksFromTrash(edited, ['report'], RESTORED_AT));
+
+    expect(restored.get('report')?.deletedAt).toBeNull();
+    expect(restored.get('email')?.blockedBy).toEqual([]);
+  });
+
+  it('skips dependents that were purged in the meantime', () => {
+    const trashed = moveTasksToTrash(moveTasksToTrash(tasks, ['report'], TRASHED_AT), ['email'], TRASHED_AT);
+    const { tasks: purged } = purgeFromTrash({ tasks: trashed, projects: [], categories: [] }, { taskIds: ['email'], projectIds: [], categoryIds: [] }, RESTORED_AT);
+    const restored = restoreTasksFromTrash(purged, ['report'], RESTORED_AT);
+
+    expect(restored.map(task => task.id)).not.toContain('email');
+    expect(byId(restored).get('report')?.deletedAt).toBeNull();
+  });
+});
+
+describe('purgeFromTrash', () => {
+  const projects = [{ id: 'home', name: 'Home', deletedAt: TRASHED_AT }] as Project[];
+  const categories = [{ id: 'calls', name: 'Calls', deletedAt: TRASHED_AT }, { id: 'errands', name: 'Errands' }] as Category[];
+
+  it('removes a trashed batch and the links to it', () => {
+    const trashed = moveTasksToTrash(tasks, ['draft'], TRASHED_AT);
+    const purged = purgeFromTrash({ tasks: trashed, projects: [], categories: [] }, { taskIds: ['draft'], projectIds: [], categoryIds: [] }, RESTORED_AT);
+
+    expect(purged.tasks.map(task => task.id)).toEqual(['plan', 'review', 'report', 'email']);
+    expect(byId(purged.tasks).get('report')?.blockedBy).toEqual(['plan']);
+  });
+
+  it('only purges items that are in the trash', () => {
+    const data = { tasks, projects: [], categories: [] };
+    expect(purgeFromTrash(data, { taskIds: ['plan'], projectIds: [], categoryIds: [] }, RESTORED_AT).tasks).toBe(tasks);
+  });
+
+  it('unlinks tasks from purged projects and categories', () => {
+    const linked = [makeTask('call', { projectId: 'home', categoryIds: ['calls', 'errands'] })];
+    const purged = purgeFromTrash(
+      { tasks: linked, projects, categories },
+      { taskIds: [], projectIds: ['home'], categoryIds: ['calls', 'errands'] },
+      RESTORED_AT
+    );
+
+    expect(purged.projects).toEqual([]);
+    expect(purged.categories.map(category => category.id)).toEqual(['errands']);
+    expect(purged.tasks[0]).toMatchObject({ projectId: null, categoryIds: ['errands'], updatedAt: RESTORED_AT });
+  });
+
+  it('selects everything in the trash, or only what has expired', () => {
+    const trashed = moveTasksToTrash(moveTasksToTrash(tasks, ['plan'], TRASHED_AT), ['email'], '2025-07-01T10:00:00.000Z');
+    const data = { tasks: trashed, projects, categories };
+
+    expect(getTrashSelection(data)).toEqual({ taskIds: ['plan', 'email'], projectIds: ['home'], categoryIds: ['calls'] });
+    expect(getExpiredTrashSelection(data, 30, new Date('2025-07-10T00:00:00.000Z')))
+      .toEqual({ taskIds: ['plan'], projectIds: ['home'], categoryIds: ['calls'] });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Trash
+ *
+ * Deleting a task, project or category only stamps it with `deletedAt`.
+ * A task takes its subtasks with it, all stamped with the same time, so the
+ * batch can be found again and restored as one. Projects and categories keep
+ * their links from tasks while in the trash; the links are only dropped when
+ * the item is purged for good. Trashed tasks stop blocking other tasks right
+ * away, but remember which ones they blocked so restoring puts the links back.
+ */
+
+import { Task, Project, Category } from '../types';
+import { findDependencyCycle } from './dependencies';
+
+// Days an item stays in the trash before maintenance purges it
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export interface TrashData {
+  tasks: Task[];
+  projects: Project[];
+  categories: Category[];
+}
+
+export interface TrashSelection {
+  taskIds: string[];
+  projectIds: string[];
+  categoryIds: string[];
+}
+
+export const isTrashed = (record: { deletedAt?: string | null }): boolean => !!record.deletedAt;
+
+/**
+ * A task and every task below it
+ */
+const collectSubtree = (tasks: Task[], rootIds: string[], include: (task: Task) => boolean): Set<string> => {
+  const ids = new Set<string>();
+  const collect = (taskId: string) => {
+    if (ids.has(taskId)) return;
+    ids.add(taskId);
+    tasks
+      .filter(task => task.parentTaskId === taskId && include(task))
+      .forEach(task => collect(task.id));
+  };
+  rootIds.forEach(collect);
+  return ids;
+};
+
+/**
+ * Move tasks and their subtasks to the trash. Subtasks already in the trash
+ * keep their own batch. Other tasks stop listing them as subtasks or blockers;
+ * each trashed task records the tasks it was blocking in `unlinkedDependents`.
+ */
+export const moveTasksToTrash = (tasks: Task[], taskIds: string[], timestamp: string): Task[] => {
+  const roots = taskIds.filter(id => tasks.some(task => task.id === id && !isTrashed(task)));
+  const trashedIds = collectSubtree(tasks, roots, task => !isTrashed(task));
+  if (trashedIds.size === 0) return tasks;
+
+  const dependents = new Map<string, string[]>();
+  tasks.forEach(task => {
+    if (trashedIds.has(task.id)) return;
+    task.blockedBy?.filter(id => trashedIds.has(id)).forEach(blockerId => {
+      dependents.set(blockerId, [...(dependents.get(blockerId) || []), task.id]);
+    });
+  });
+
+  return tasks.map(task => {
+    if (trashedIds.has(task.id)) {
+      return { ...task, deletedAt: timestamp, unlinkedDependents: dependents.get(task.id) || null, updatedAt: timestamp };
+    }
+    const subtasks = (task.subtasks || []).filter(id => !trashedIds.has(id));
+    const blockedBy = task.blockedBy?.filter(id => !trashedIds.has(id));
+    if (subtasks.length === (task.subtasks || []).length && blockedBy?.length === task.blockedBy?.length) {
+      return task;
+    }
+    return { ...task, subtasks, blockedBy, updatedAt: timestamp };
+  });
+};
+
+/**
+ * Trashed tasks that were deleted on their own rather than along with their parent
+ */
+export const getTrashedTaskRoots = (tasks: Task[]): Task[] => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  return tasks.filter(task => {
+    if (!isTrashed(task)) return false;
+    const parent = task.parentTaskId ? byId.get(task.parentTaskId) : undefined;
+    return !parent || parent.deletedAt !== task.deletedAt;
+  });
+};
+
+/**
+ * The subtasks that went to the trash together with a task, without the task itself
+ */
+export const getTrashedSubtree = (tasks: Task[], rootId: string): Task[] => {
+  const root = tasks.find(task => task.id === rootId);
+  if (!root || !isTrashed(root)) return [];
+  const ids = collectSubtree(tasks, [rootId], task => task.deletedAt === root.deletedAt);
+  return tasks.filter(task => task.id !== rootId && ids.has(task.id));
+};
+
+/**
+ * Bring trashed tasks back along with the subtasks deleted with them. A task
+ * whose parent is still in the trash (or gone) comes back as a top-level task.
+ * Tasks they were blocking are blocked by them again, unless that would now
+ * create a dependency cycle.
+ */
+export const restoreTasksFromTrash = (tasks: Task[], rootIds: string[], timestamp: string): Task[] => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const restoredIds = new Set<string>();
+  rootIds.forEach(rootId => {
+    const root = byId.get(rootId);
+    if (!root || !isTrashed(root)) return;
+    restoredIds.add(rootId);
+    getTrashedSubtree(tasks, rootId).forEach(task => restoredIds.add(task.id));
+  });
+  if (restoredIds.size === 0) return tasks;
+
+  // Parents that stay put and get a restored subtask back
+  const reattached = new Map<string, string[]>();
+  const detached = new Set<string>();
+  restoredIds.forEach(id => {
+    const parentId = byId.get(id)?.parentTaskId;
+    if (!parentId || restoredIds.has(parentId)) return;
+    const parent = byId.get(parentId);
+    if (parent && !isTrashed(parent)) {
+      reattached.set(parentId, [...(reattached.get(parentId) || []), id]);
+    } else {
+      detached.add(id);
+    }
+  });
+
+  const restored = tasks.map(task => {
+    if (restoredIds.has(task.id)) {
+      return {
+        ...task,
+        deletedAt: null,
+        unlinkedDependents: null,
+        parentTaskId: detached.has(task.id) ? null : task.parentTaskId,
+        updatedAt: timestamp,
+      };
+    }
+    const children = reattached.get(task.id);
+    if (children) {
+      const subtasks = task.subtasks || [];
+      return { ...task, subtasks: [...subtasks, ...children.filter(id => !subtasks.includes(id))], updatedAt: timestamp };
+    }
+    return task;
+  });
+
+  // Put back the blocker links dropped when the tasks were trashed
+  const relinked = new Map(restored.map(task => [task.id, task]));
+  restoredIds.forEach(blockerId => {
+    (byId.get(blockerId)?.unlinkedDependents || []).forEach(dependentId => {
+      const dependent = relinked.get(dependentId);
+      if (!dependent || dependent.blockedBy?.includes(blockerId)) return;
+      if (findDependencyCycle(dependentId, [blockerId], Array.from(relinked.values()))) return;
+      relinked.set(dependentId, {
+        ...dependent,
+        blockedBy: [...(dependent.blockedBy || []), blockerId],
+        updatedAt: timestamp,
+      });
+    });
+  });
+
+  return restored.map(task => relinked.get(task.id) || task);
+};
+
+/**
+ * Permanently remove trashed items and any links to them. Tasks are removed
+ * together with the subtasks that were deleted with them.
+ */
+export const purgeFromTrash = (data: TrashData, selection: TrashSelection, timestamp: string): TrashData => {
+  const purgedTaskIds = new Set<string>();
+  selection.taskIds.forEach(taskId => {
+    const task = data.tasks.find(t => t.id === taskId);
+    if (!task || !isTrashed(task)) return;
+    purgedTaskIds.add(taskId);
+    getTrashedSubtree(data.tasks, taskId).forEach(subtask => purgedTaskIds.add(subtask.id));
+  });
+  const purgedProjectIds = new Set(
+    data.projects.filter(p => selection.projectIds.includes(p.id) && isTrashed(p)).map(p => p.id)
+  );
+  const purgedCategoryIds = new Set(
+    data.categories.filter(c => selection.categoryIds.includes(c.id) && isTrashed(c)).map(c => c.id)
+  );
+
+  const tasks = data.tasks
+    .filter(task => !purgedTaskIds.has(task.id))
+    .map(task => {
+      const unlinkParent = !!task.parentTaskId && purgedTaskIds.has(task.parentTaskId);
+      const unlinkProject = !!task.projectId && purgedProjectIds.has(task.projectId);
+      const categoryIds = (task.categoryIds || []).filter(id => !purgedCategoryIds.has(id));
+      const subtasks = (task.subtasks || []).filter(id => !purgedTaskIds.has(id));
+      const blockedBy = task.blockedBy?.filter(id => !purgedTaskIds.has(id));
+      if (
+        !unlinkParent &&
+        !unlinkProject &&
+        categoryIds.length === (task.categoryIds || []).length &&
+        subtasks.length === (task.subtasks || []).length &&
+        blockedBy?.length === task.blockedBy?.length
+      ) {
+        return task;
+      }
+      return {
+        ...task,
+        parentTaskId: unlinkParent ? null : task.parentTaskId,
+        projectId: unlinkProject ? null : task.projectId,
+        categoryIds,
+        subtasks,
+        blockedBy,
+        updatedAt: timestamp,
+      };
+    });
+
+  return {
+    tasks: purgedTaskIds.size > 0 || purgedProjectIds.size > 0 || purgedCategoryIds.size > 0 ? tasks : data.tasks,
+    projects: purgedProjectIds.size > 0 ? data.projects.filter(p => !purgedProjectIds.has(p.id)) : data.projects,
+    categories: purgedCategoryIds.size > 0 ? data.categories.filter(c => !purgedCategoryIds.has(c.id)) : data.categories,
+  };
+};
+
+/**
+ * Everything in the trash, for emptying it
+ */
+export const getTrashSelection = (data: TrashData): TrashSelection => ({
+  taskIds: getTrashedTaskRoots(data.tasks).map(task => task.id),
+  projectIds: data.projects.filter(isTrashed).map(project => project.id),
+  categoryIds: data.categories.filter(isTrashed).map(category => category.id),
+});
+
+/**
+ * Items that have been in the trash longer than the retention period
+ */
+export const getExpiredTrashSelection = (data: TrashData, retentionDays: number, now: Date = new Date()): TrashSelection => {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const isExpired = (record: { deletedAt?: string | null }) => !!record.deletedAt && record.deletedAt < cutoff;
+
+  return {
+    taskIds: getTrashedTaskRoots(data.tasks).filter(isExpired).map(task => task.id),
+    projectIds: data.projects.filter(isExpired).map(project => project.id),
+    categoryIds: data.categories.filter(isExpired).map(category => category.id),
+  };
+};
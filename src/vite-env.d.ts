@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Version from package.json, injected by Vite at build time
+declare const __APP_VERSION__: string;
@@ -1,6 +1,9 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
+import { readFileSync } from 'fs';
+
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf-8'));
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -39,6 +42,10 @@ export default defineConfig({
       }
     })
   ],
+  define: {
+    // Recorded in data exports
+    __APP_VERSION__: JSON.stringify(version),
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },